@@ -10,7 +10,12 @@ import { MapView } from './pages/MapView';
 import { ProjectDetailPage } from './pages/ProjectDetailPage';
 import { AdminLoginPage } from './pages/AdminLoginPage';
 import { AdminManagementPage } from './pages/AdminManagementPage';
+import { ConvocatoriasPage } from './pages/ConvocatoriasPage';
+import { TaxonomiesPage } from './pages/TaxonomiesPage';
+import { MigrationsPage } from './pages/MigrationsPage';
+import { StatisticsPage } from './pages/StatisticsPage';
 import { InitializeSuperAdminPage } from './pages/InitializeSuperAdminPage';
+import { AcceptInvitePage } from './pages/AcceptInvitePage';
 import { DebugKVPage } from './pages/DebugKVPage';
 
 // Lazy load non-critical routes for better initial load performance
@@ -45,12 +50,17 @@ function AppLayout() {
           <Routes>
             <Route path="/" element={<MapView />} />
             <Route path="/proyecto/:projectId" element={<ProjectDetailPage />} />
+            <Route path="/estadisticas" element={<StatisticsPage />} />
             <Route path="/admin/login" element={<AdminLoginPage />} />
             <Route path="/admin/initialize" element={<InitializeSuperAdminPage />} />
+            <Route path="/admin/accept-invite" element={<AcceptInvitePage />} />
             <Route path="/admin/manage" element={<ProtectedRoute requireSuperAdmin={true}><AdminManagementPage /></ProtectedRoute>} />
+            <Route path="/admin/convocatorias" element={<ProtectedRoute requireSuperAdmin={true}><ConvocatoriasPage /></ProtectedRoute>} />
+            <Route path="/admin/taxonomias" element={<ProtectedRoute requireSuperAdmin={true}><TaxonomiesPage /></ProtectedRoute>} />
+            <Route path="/admin/migraciones" element={<ProtectedRoute requireSuperAdmin={true}><MigrationsPage /></ProtectedRoute>} />
             <Route path="/admin" element={<ProtectedRoute><AdminPage /></ProtectedRoute>} />
             <Route path="/error-test" element={<ErrorTestPage />} />
-            <Route path="/debug-kv" element={<DebugKVPage />} />
+            <Route path="/debug-kv" element={<ProtectedRoute requireSuperAdmin={true}><DebugKVPage /></ProtectedRoute>} />
             {/* Catch all - redirect to home */}
             <Route path="*" element={<MapView />} />
           </Routes>
@@ -6,30 +6,64 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
-import { X, Plus, Save, Database, Users, LogOut, Search } from 'lucide-react';
-import { Project } from '../types';
+import { X, Plus, Save, Database, Users, LogOut, Search, AlertCircle, History, Trash2, CalendarDays, CalendarRange, ImageOff, Tags, Wand2 } from 'lucide-react';
+import { Project, ProjectSaveConflict, PublicationStatus, ProjectImageField, ImageDetails, GallerySection, GalleryImage, Convocatoria } from '../types';
+import { validateProject, ProjectFieldError } from '../supabase/functions/_shared/projectSchema';
 import { MapCoordinatePicker } from './MapCoordinatePicker';
 import { DataExportImport } from './DataExportImport';
 import { ImageUploadInput } from './ImageUploadInput';
+import { GalleryEditor } from './GalleryEditor';
 import { MarkdownEditor } from './MarkdownEditor';
+import { ProjectHistoryDrawer } from './ProjectHistoryDrawer';
+import { TrashBinDrawer } from './TrashBinDrawer';
+import { OrphanedImagesDialog } from './OrphanedImagesDialog';
+import { ProjectConflictDialog } from './ProjectConflictDialog';
+import { PublicationStatusBadge } from './PublicationStatusBadge';
+import { PublicationStatusControls } from './PublicationStatusControls';
+import { PublicationCalendar } from './PublicationCalendar';
+import { ScheduleCountdown } from './ScheduleCountdown';
+import { getPublicationStatus, isPublished, PUBLICATION_STATUSES, PUBLICATION_STATUS_LABELS } from '../supabase/functions/_shared/publication';
+import { GALLERY_SECTIONS, GALLERY_SECTION_LABELS, getMissingImageDetails, describeMissingImageDetails } from '../supabase/functions/_shared/images';
+import { CONVOCATORIA_STATUS_LABELS } from '../supabase/functions/_shared/convocatorias';
 import { STATE_MAP_POSITIONS, generateStateOffset } from '../data/stateMapCoordinates';
-import { categoryOptions, thematicAreaOptions } from '../data/projects';
 import { useAuth } from '../contexts/AuthContext';
+import { useProjects } from '../contexts/ProjectContext';
 import { useNavigate } from 'react-router-dom';
 
 // Use the percentage-based map coordinates
 const MEXICAN_STATES_COORDS = STATE_MAP_POSITIONS;
 
+// ISO date <-> value of an <input type="datetime-local"> (local time)
+const toDateTimeLocal = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+// New projects go to the newest open convocatoria (the list comes sorted newest first)
+const getDefaultConvocatoriaId = (convocatorias: Convocatoria[]) =>
+  convocatorias.find(convocatoria => convocatoria.status === 'open')?.id || '';
+
 interface AdminDataEntryProps {
-  onSave: (project: Project) => void;
+  onSave: (project: Project) => Promise<ProjectSaveConflict | null> | void;
   onClose: () => void;
   existingProjects: Project[];
   onClearAll: () => void;
   onRemoveProject: (projectId: string) => void;
+  onRestoreRevision: (projectId: string, revision: number) => Promise<Project | null>;
+  onRestoreFromTrash: (projectId: string) => Promise<Project | null>;
+  onChangeStatus: (projectId: string, status: PublicationStatus, comment?: string) => Promise<Project | null>;
 }
 
-export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll, onRemoveProject }: AdminDataEntryProps) {
+export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll, onRemoveProject, onRestoreRevision, onRestoreFromTrash, onChangeStatus }: AdminDataEntryProps) {
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showOrphanedImages, setShowOrphanedImages] = useState(false);
+  const [conflict, setConflict] = useState<ProjectSaveConflict | null>(null);
   const formPanelRef = useRef<HTMLDivElement>(null);
   
   // Pagination state
@@ -38,14 +72,21 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
   
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PublicationStatus | 'all'>('all');
+  const [showCalendar, setShowCalendar] = useState(false);
+  
+  // Validation errors from the shared project schema
+  const [formErrors, setFormErrors] = useState<ProjectFieldError[]>([]);
+  
+  const { convocatorias, taxonomies, getTerm } = useProjects();
   
   // Helper functions to get labels from values
   const getCategoryLabel = (value: string) => {
-    return categoryOptions.find(opt => opt.value === value)?.label || value;
+    return getTerm('category', value)?.label || value;
   };
   
   const getThematicAreaLabel = (value: string) => {
-    return thematicAreaOptions.find(opt => opt.value === value)?.label || value;
+    return getTerm('thematicArea', value)?.label || value;
   };
   
   const [formData, setFormData] = useState({
@@ -58,6 +99,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     municipality: '',
     objective: '',
     beneficiaries: '',
+    beneficiaryCount: '',
     riskFactors: '',
     methodology: '',
     results: '',
@@ -73,6 +115,10 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     riskFactorsImageUrl: '',
     methodologyImageUrl: '',
     resultsImageUrl: '',
+    // Alt text, caption and credit per image slot
+    imageDetails: {} as Partial<Record<ProjectImageField, ImageDetails>>,
+    // Ordered photo galleries
+    galleries: {} as Partial<Record<GallerySection, GalleryImage[]>>,
     // Footer fields
     footerOrganizationName: '',
     footerContactEmail: '',
@@ -93,10 +139,23 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     // Implementation states
     implementationStates: [] as string[],
     isNationalProject: false,
-    // Convocatoria
-    convocatoria: 'Primera Convocatoria 2025'
+    // Convocatoria (record id)
+    convocatoriaId: getDefaultConvocatoriaId(convocatorias),
+    // Scheduled publishing (datetime-local values)
+    publishAt: '',
+    unpublishAt: ''
   });
 
+  // Convocatorias load after the form mounts; preselect one for a new project
+  useEffect(() => {
+    if (!editingProject && !formData.convocatoriaId) {
+      const convocatoriaId = getDefaultConvocatoriaId(convocatorias);
+      if (convocatoriaId) {
+        setFormData(prev => ({ ...prev, convocatoriaId }));
+      }
+    }
+  }, [convocatorias]);
+
   const generateCoordinates = (state: string, municipality: string) => {
     const statePosition = MEXICAN_STATES_COORDS[state];
     if (!statePosition) {
@@ -108,7 +167,49 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     return generateStateOffset(statePosition, projectIndex);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Trimmed details of the slots that have an image (emptied slots drop theirs)
+  const buildImageDetails = () => {
+    const details: Partial<Record<ProjectImageField, ImageDetails>> = {};
+    (Object.keys(formData.imageDetails) as ProjectImageField[]).forEach((field) => {
+      const entry = formData.imageDetails[field];
+      if (!formData[field] || !entry) return;
+      details[field] = {
+        alt: entry.alt.trim(),
+        caption: entry.caption?.trim() || undefined,
+        credit: entry.credit?.trim() || undefined,
+        framing: entry.framing,
+      };
+    });
+    return Object.keys(details).length > 0 ? details : undefined;
+  };
+
+  const setImageDetails = (field: ProjectImageField, details: ImageDetails) => {
+    setFormData(prev => ({ ...prev, imageDetails: { ...prev.imageDetails, [field]: details } }));
+  };
+
+  // Trimmed galleries, empty ones dropped
+  const buildGalleries = () => {
+    const galleries: Partial<Record<GallerySection, GalleryImage[]>> = {};
+    GALLERY_SECTIONS.forEach((section) => {
+      const images = formData.galleries[section] || [];
+      if (images.length === 0) return;
+      galleries[section] = images.map((image) => ({
+        id: image.id,
+        url: image.url,
+        alt: image.alt.trim(),
+        caption: image.caption?.trim() || undefined,
+        credit: image.credit?.trim() || undefined,
+        framing: image.framing,
+      }));
+    });
+    return Object.keys(galleries).length > 0 ? galleries : undefined;
+  };
+
+  const setGallery = (section: GallerySection, images: GalleryImage[]) => {
+    setFormData(prev => ({ ...prev, galleries: { ...prev.galleries, [section]: images } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Generate or use manual map position
@@ -138,6 +239,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       municipality: formData.municipality,
       objective: formData.objective,
       beneficiaries: formData.beneficiaries,
+      beneficiaryCount: formData.beneficiaryCount !== '' ? parseInt(formData.beneficiaryCount) : undefined,
       riskFactors: formData.riskFactors,
       methodology: formData.methodology,
       results: formData.results,
@@ -152,6 +254,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       riskFactorsImageUrl: formData.riskFactorsImageUrl || undefined,
       methodologyImageUrl: formData.methodologyImageUrl || undefined,
       resultsImageUrl: formData.resultsImageUrl || undefined,
+      imageDetails: buildImageDetails(),
+      galleries: buildGalleries(),
       // Footer fields
       footerOrganizationName: formData.footerOrganizationName || undefined,
       footerContactEmail: formData.footerContactEmail || undefined,
@@ -170,20 +274,40 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       implementationStates: formData.implementationStates.length > 0 ? formData.implementationStates : undefined,
       isNationalProject: formData.isNationalProject || undefined,
       // Convocatoria
-      convocatoria: formData.convocatoria || 'Primera Convocatoria 2025',
-      // Legacy compatibility
-      description: formData.objective, // Use objective as description for legacy
-      location: {
-        state: formData.state,
-        city: formData.municipality,
-        x: mapPosition.x, // Map percentage position
-        y: mapPosition.y  // Map percentage position
-      }
+      convocatoriaId: formData.convocatoriaId || undefined,
+      // An unlinked free-text name is kept until the pending migrations link it
+      convocatoria: formData.convocatoriaId ? undefined : editingProject?.convocatoria,
+      // Scheduled publishing
+      publishAt: fromDateTimeLocal(formData.publishAt),
+      unpublishAt: fromDateTimeLocal(formData.unpublishAt),
+      mapPosition,
+      // Version loaded for editing, so the server can detect concurrent edits
+      // (0 for projects saved before revisions existed; none when creating)
+      revision: editingProject ? editingProject.revision ?? 0 : undefined
     };
 
+    // Validate with the same schema the server enforces (published projects
+    // also keep every image described, as when publishing)
+    const validation = validateProject(newProject);
+    const imageErrors: ProjectFieldError[] = editingProject && isPublished(editingProject)
+      ? describeMissingImageDetails(getMissingImageDetails(newProject)).map((message, index) => ({ field: `imageDetails.${index}`, message }))
+      : [];
+    if (!validation.valid || imageErrors.length > 0) {
+      setFormErrors([...validation.errors, ...imageErrors]);
+      formPanelRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+      return;
+    }
+    setFormErrors([]);
+
     // Only call onSave - it will handle the global state
     // The local projects state will be updated via props
-    onSave(newProject);
+    const saveConflict = await onSave(newProject);
+    
+    // Keep the form as is so nothing is lost while resolving
+    if (saveConflict) {
+      setConflict(saveConflict);
+      return;
+    }
     
     if (editingProject) {
       setEditingProject(null);
@@ -192,7 +316,27 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     resetForm();
   };
 
+  const handleResolveConflict = async (project: Project) => {
+    setConflict(null);
+    
+    const saveConflict = await onSave(project);
+    
+    if (saveConflict) {
+      setConflict(saveConflict);
+      return;
+    }
+    
+    setEditingProject(null);
+    resetForm();
+  };
+
+  const handleTakeServerVersion = (project: Project) => {
+    setConflict(null);
+    editProject(project);
+  };
+
   const resetForm = () => {
+    setFormErrors([]);
     setFormData({
       folio: '',
       name: '',
@@ -203,6 +347,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       municipality: '',
       objective: '',
       beneficiaries: '',
+      beneficiaryCount: '',
       riskFactors: '',
       methodology: '',
       results: '',
@@ -218,6 +363,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       riskFactorsImageUrl: '',
       methodologyImageUrl: '',
       resultsImageUrl: '',
+      imageDetails: {},
+      galleries: {},
       footerOrganizationName: '',
       footerContactEmail: '',
       footerContactPhone: '',
@@ -233,12 +380,15 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       footerYoutubeUrl: '',
       implementationStates: [],
       isNationalProject: false,
-      convocatoria: 'Primera Convocatoria 2025'
+      convocatoriaId: getDefaultConvocatoriaId(convocatorias),
+      publishAt: '',
+      unpublishAt: ''
     });
   };
 
   const editProject = (project: Project) => {
     setEditingProject(project);
+    setFormErrors([]);
     setFormData({
       folio: project.id,
       name: project.name,
@@ -249,6 +399,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       municipality: project.municipality,
       objective: project.objective,
       beneficiaries: project.beneficiaries || '',
+      beneficiaryCount: project.beneficiaryCount !== undefined ? project.beneficiaryCount.toString() : '',
       riskFactors: project.riskFactors || '',
       methodology: project.methodology || '',
       results: project.results,
@@ -256,14 +407,16 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       totalScore: project.totalScore.toString(),
       finalRankingPosition: project.finalRankingPosition ? project.finalRankingPosition.toString() : '',
       imageUrl: project.imageUrl,
-      latitude: project.location?.x !== undefined ? project.location.x : '',
-      longitude: project.location?.y !== undefined ? project.location.y : '',
-      mapX: project.location?.x !== undefined ? project.location.x : '',
-      mapY: project.location?.y !== undefined ? project.location.y : '',
+      latitude: project.mapPosition?.x !== undefined ? project.mapPosition.x : '',
+      longitude: project.mapPosition?.y !== undefined ? project.mapPosition.y : '',
+      mapX: project.mapPosition?.x !== undefined ? project.mapPosition.x : '',
+      mapY: project.mapPosition?.y !== undefined ? project.mapPosition.y : '',
       beneficiariesImageUrl: project.beneficiariesImageUrl || '',
       riskFactorsImageUrl: project.riskFactorsImageUrl || '',
       methodologyImageUrl: project.methodologyImageUrl || '',
       resultsImageUrl: project.resultsImageUrl || '',
+      imageDetails: project.imageDetails || {},
+      galleries: project.galleries || {},
       footerOrganizationName: project.footerOrganizationName || '',
       footerContactEmail: project.footerContactEmail || '',
       footerContactPhone: project.footerContactPhone || '',
@@ -279,7 +432,9 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
       footerYoutubeUrl: project.footerYoutubeUrl || '',
       implementationStates: project.implementationStates || [],
       isNationalProject: project.isNationalProject || false,
-      convocatoria: project.convocatoria || 'Primera Convocatoria 2025'
+      convocatoriaId: project.convocatoriaId || '',
+      publishAt: toDateTimeLocal(project.publishAt),
+      unpublishAt: toDateTimeLocal(project.unpublishAt)
     });
     
     // Scroll to form panel when editing
@@ -300,7 +455,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
   };
 
   const clearAllProjects = () => {
-    if (window.confirm('¿Estás seguro de que quieres eliminar TODOS los proyectos? Esta acción no se puede deshacer.')) {
+    if (window.confirm('¿Mover TODOS los proyectos a la papelera? Dejarán de mostrarse en el mapa hasta que se restauren.')) {
       onClearAll();
     }
   };
@@ -317,8 +472,37 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     navigate('/admin/manage');
   };
 
-  // Filter projects based on search query
+  const handleManageConvocatorias = () => {
+    navigate('/admin/convocatorias');
+  };
+
+  const handleManageTaxonomies = () => {
+    navigate('/admin/taxonomias');
+  };
+
+  const handleManageMigrations = () => {
+    navigate('/admin/migraciones');
+  };
+
+  // Keep the project being edited in sync after a status change (new revision)
+  const handleChangeStatus = async (projectId: string, status: PublicationStatus, comment?: string) => {
+    const updated = await onChangeStatus(projectId, status, comment);
+    if (updated) {
+      setEditingProject(prev => (prev && prev.id === updated.id ? updated : prev));
+    }
+    return updated;
+  };
+
+  // Projects per publication status, for the filter
+  const statusCounts = existingProjects.reduce<Record<string, number>>((counts, project) => {
+    const status = getPublicationStatus(project);
+    counts[status] = (counts[status] || 0) + 1;
+    return counts;
+  }, {});
+
+  // Filter projects based on publication status and search query
   const filteredProjects = existingProjects.filter((project) => {
+    if (statusFilter !== 'all' && getPublicationStatus(project) !== statusFilter) return false;
     if (!searchQuery.trim()) return true;
     
     const query = searchQuery.toLowerCase();
@@ -333,10 +517,10 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
     );
   });
 
-  // Reset to page 1 when search changes
+  // Reset to page 1 when search or status filter changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery]);
+  }, [searchQuery, statusFilter]);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -352,6 +536,34 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
               <Badge variant="secondary">{existingProjects.length} proyectos</Badge>
             </div>
             <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setShowTrash(true)} size="sm">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Papelera
+              </Button>
+              {isSuperAdmin && (
+                <Button variant="outline" onClick={() => setShowOrphanedImages(true)} size="sm">
+                  <ImageOff className="w-4 h-4 mr-2" />
+                  Limpiar imágenes
+                </Button>
+              )}
+              {isSuperAdmin && (
+                <Button variant="outline" onClick={handleManageConvocatorias} size="sm">
+                  <CalendarRange className="w-4 h-4 mr-2" />
+                  Convocatorias
+                </Button>
+              )}
+              {isSuperAdmin && (
+                <Button variant="outline" onClick={handleManageTaxonomies} size="sm">
+                  <Tags className="w-4 h-4 mr-2" />
+                  Taxonomías
+                </Button>
+              )}
+              {isSuperAdmin && (
+                <Button variant="outline" onClick={handleManageMigrations} size="sm">
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  Migraciones
+                </Button>
+              )}
               {isSuperAdmin && (
                 <Button variant="outline" onClick={handleManageAdmins} size="sm">
                   <Users className="w-4 h-4 mr-2" />
@@ -379,13 +591,52 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                   {editingProject ? '✏️ Editar Proyecto' : 'Nuevo Proyecto'}
                 </CardTitle>
                 {editingProject && (
-                  <p className="text-sm text-blue-600 mt-1">
-                    Editando: <strong>{editingProject.name}</strong>
-                  </p>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-sm text-blue-600">
+                      Editando: <strong>{editingProject.name}</strong>
+                    </p>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                      <History className="w-4 h-4 mr-1" />
+                      Historial
+                    </Button>
+                  </div>
+                )}
+                {editingProject && (
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <PublicationStatusBadge project={editingProject} />
+                    <PublicationStatusControls
+                      project={editingProject}
+                      isSuperAdmin={isSuperAdmin}
+                      onChangeStatus={handleChangeStatus}
+                    />
+                  </div>
+                )}
+                {editingProject?.reviewComment && getPublicationStatus(editingProject) === 'draft' && (
+                  <div className="mt-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm">
+                    <p className="font-medium text-amber-800">
+                      Cambios solicitados por {editingProject.reviewComment.author}
+                    </p>
+                    <p className="text-amber-700 whitespace-pre-wrap">{editingProject.reviewComment.text}</p>
+                  </div>
                 )}
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  {/* Validation errors */}
+                  {formErrors.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+                      <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-red-800 mb-1">Corrige los siguientes campos:</p>
+                        <ul className="text-sm text-red-700 list-disc list-inside space-y-0.5">
+                          {formErrors.map((error) => (
+                            <li key={error.field}>{error.message}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+
                   {/* No registro */}
                   <div>
                     <label className="block mb-2 font-medium">No registro</label>
@@ -422,17 +673,73 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                   {/* Convocatoria */}
                   <div>
                     <label className="block mb-2 font-medium">📅 Convocatoria</label>
-                    <Input
-                      value={formData.convocatoria}
-                      onChange={(e) => setFormData({...formData, convocatoria: e.target.value})}
-                      placeholder="Ej: Primera Convocatoria 2025, Segunda Convocatoria 2026"
-                      required
-                    />
+                    <Select
+                      value={formData.convocatoriaId}
+                      onValueChange={(value) => setFormData({...formData, convocatoriaId: value})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona una convocatoria" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {convocatorias.map((convocatoria) => (
+                          <SelectItem key={convocatoria.id} value={convocatoria.id}>
+                            <span className="inline-flex items-center gap-2">
+                              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: convocatoria.color }} />
+                              {convocatoria.title}
+                              {convocatoria.status !== 'open' && (
+                                <span className="text-xs text-gray-500">({CONVOCATORIA_STATUS_LABELS[convocatoria.status]})</span>
+                              )}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {editingProject?.convocatoria && !formData.convocatoriaId && (
+                      <p className="text-xs text-amber-600 mt-1">
+                        Convocatoria anterior: "{editingProject.convocatoria}". Se vinculará al ejecutar las migraciones pendientes si no eliges otra.
+                      </p>
+                    )}
                     <p className="text-xs text-gray-500 mt-1">
-                      💡 El color del pin en el mapa se asignará automáticamente según la convocatoria
+                      💡 El color del pin en el mapa es el de la convocatoria
+                      {convocatorias.length === 0 && '. Aún no hay convocatorias: un super admin puede crearlas en "Convocatorias".'}
                     </p>
                   </div>
 
+                  {/* Programación de publicación */}
+                  <div>
+                    <label className="block mb-2 font-medium">⏰ Programación</label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Publicar a partir de</label>
+                        <Input
+                          type="datetime-local"
+                          value={formData.publishAt}
+                          onChange={(e) => setFormData({...formData, publishAt: e.target.value})}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Retirar a partir de</label>
+                        <Input
+                          type="datetime-local"
+                          value={formData.unpublishAt}
+                          onChange={(e) => setFormData({...formData, unpublishAt: e.target.value})}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      💡 Opcional. Un proyecto publicado solo se muestra en el mapa dentro de estas fechas
+                    </p>
+                    <div className="mt-2">
+                      <ScheduleCountdown
+                        project={{
+                          publicationStatus: editingProject ? editingProject.publicationStatus : 'draft',
+                          publishAt: fromDateTimeLocal(formData.publishAt),
+                          unpublishAt: fromDateTimeLocal(formData.unpublishAt)
+                        }}
+                      />
+                    </div>
+                  </div>
+
                   {/* Categoría de participación */}
                   <div>
                     <label className="block mb-2 font-medium">Categoría de participación</label>
@@ -441,7 +748,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                         <SelectValue placeholder="Seleccionar categoría" />
                       </SelectTrigger>
                       <SelectContent>
-                        {categoryOptions.map(cat => (
+                        {taxonomies.category.map(cat => (
                           <SelectItem key={cat.value} value={cat.value}>{cat.label}</SelectItem>
                         ))}
                       </SelectContent>
@@ -456,7 +763,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                         <SelectValue placeholder="Seleccionar ámbito" />
                       </SelectTrigger>
                       <SelectContent>
-                        {thematicAreaOptions.map(area => (
+                        {taxonomies.thematicArea.map(area => (
                           <SelectItem key={area.value} value={area.value}>{area.label}</SelectItem>
                         ))}
                       </SelectContent>
@@ -610,6 +917,19 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     rows={6}
                   />
 
+                  {/* Número de beneficiarios (suma en las estadísticas) */}
+                  <div>
+                    <label className="block mb-2 font-medium">Número de beneficiarios directos</label>
+                    <Input
+                      type="number"
+                      value={formData.beneficiaryCount}
+                      onChange={(e) => setFormData({...formData, beneficiaryCount: e.target.value})}
+                      placeholder="e.g., 350"
+                      min="0"
+                    />
+                    <p className="text-xs text-gray-600 mt-1">Se usa para el total de beneficiarios en las estadísticas públicas</p>
+                  </div>
+
                   {/* Factores de riesgo identificados */}
                   <MarkdownEditor
                     value={formData.riskFactors}
@@ -678,6 +998,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                   <ImageUploadInput
                     value={formData.imageUrl}
                     onChange={(url) => setFormData({...formData, imageUrl: url})}
+                    details={formData.imageDetails.imageUrl}
+                    onDetailsChange={(details) => setImageDetails('imageUrl', details)}
                     label="URL con fotografías (Hero/Principal)"
                     placeholder="https://..."
                     required={true}
@@ -695,6 +1017,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     <ImageUploadInput
                       value={formData.beneficiariesImageUrl}
                       onChange={(url) => setFormData({...formData, beneficiariesImageUrl: url})}
+                      details={formData.imageDetails.beneficiariesImageUrl}
+                      onDetailsChange={(details) => setImageDetails('beneficiariesImageUrl', details)}
                       label="Imagen - Beneficiarios"
                       placeholder="https://... (opcional)"
                     />
@@ -702,6 +1026,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     <ImageUploadInput
                       value={formData.riskFactorsImageUrl}
                       onChange={(url) => setFormData({...formData, riskFactorsImageUrl: url})}
+                      details={formData.imageDetails.riskFactorsImageUrl}
+                      onDetailsChange={(details) => setImageDetails('riskFactorsImageUrl', details)}
                       label="Imagen - Factores de Riesgo"
                       placeholder="https://... (opcional)"
                     />
@@ -709,6 +1035,8 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     <ImageUploadInput
                       value={formData.methodologyImageUrl}
                       onChange={(url) => setFormData({...formData, methodologyImageUrl: url})}
+                      details={formData.imageDetails.methodologyImageUrl}
+                      onDetailsChange={(details) => setImageDetails('methodologyImageUrl', details)}
                       label="Imagen - Metodología"
                       placeholder="https://... (opcional)"
                     />
@@ -716,11 +1044,30 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     <ImageUploadInput
                       value={formData.resultsImageUrl}
                       onChange={(url) => setFormData({...formData, resultsImageUrl: url})}
+                      details={formData.imageDetails.resultsImageUrl}
+                      onDetailsChange={(details) => setImageDetails('resultsImageUrl', details)}
                       label="Imagen - Resultados Principales"
                       placeholder="https://... (opcional)"
                     />
                   </div>
 
+                  {/* Galleries Header */}
+                  <div className="pt-6 border-t">
+                    <h3 className="font-bold text-lg mb-4 text-blue-600">Galerías de Fotos</h3>
+                    <p className="text-sm text-gray-600 mb-4">Fotos adicionales que se muestran en un carrusel. Arrastra para cambiar el orden.</p>
+                  </div>
+
+                  <div className="space-y-6">
+                    {GALLERY_SECTIONS.map((section) => (
+                      <GalleryEditor
+                        key={section}
+                        label={GALLERY_SECTION_LABELS[section]}
+                        images={formData.galleries[section] || []}
+                        onChange={(images) => setGallery(section, images)}
+                      />
+                    ))}
+                  </div>
+
                   {/* Footer Section Header */}
                   <div className="pt-6 border-t">
                     <h3 className="font-bold text-lg mb-4 text-blue-600">Información del Footer (Contacto del Proyecto)</h3>
@@ -892,7 +1239,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                     disabled={existingProjects.length === 0}
                     className="text-xs"
                   >
-                    🗑️ Eliminar Todos
+                    🗑️ Mover Todos a Papelera
                   </Button>
                 )}
               </div>
@@ -900,6 +1247,35 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                 Administra los {existingProjects.length} proyectos en el sistema
               </p>
               
+              {/* Publication status filter and schedule calendar */}
+              <div className="flex items-center gap-2 mb-3">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PublicationStatus | 'all')}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos los estados ({existingProjects.length})</SelectItem>
+                    {PUBLICATION_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {PUBLICATION_STATUS_LABELS[status]} ({statusCounts[status] || 0})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant={showCalendar ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowCalendar(prev => !prev)}
+                >
+                  <CalendarDays className="w-4 h-4 mr-1" />
+                  Calendario
+                </Button>
+              </div>
+              
+              {showCalendar && (
+                <PublicationCalendar projects={existingProjects} onSelectProject={editProject} />
+              )}
+              
               {/* Search Bar */}
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -922,10 +1298,12 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
               </div>
               
               {/* Search Results Info */}
-              {searchQuery && (
+              {(searchQuery || statusFilter !== 'all') && (
                 <p className="text-xs text-gray-500 mt-2">
                   {filteredProjects.length === 0 ? (
-                    <span className="text-orange-600">No se encontraron resultados para "{searchQuery}"</span>
+                    <span className="text-orange-600">
+                      {searchQuery ? `No se encontraron resultados para "${searchQuery}"` : 'No hay proyectos con este estado'}
+                    </span>
                   ) : (
                     <span>
                       Mostrando {filteredProjects.length} de {existingProjects.length} proyecto{filteredProjects.length !== 1 ? 's' : ''}
@@ -947,6 +1325,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                             <p className="text-xs text-gray-500 mb-1">{project.organization}</p>
                           )}
                           <div className="flex flex-wrap gap-1 mb-2">
+                            <PublicationStatusBadge project={project} />
                             <Badge variant="outline" className="text-xs">{getCategoryLabel(project.category)}</Badge>
                             <Badge variant="secondary" className="text-xs" title={getThematicAreaLabel(project.thematicArea)}>
                               {getThematicAreaLabel(project.thematicArea).length > 40 
@@ -957,6 +1336,13 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                           <p className="text-xs text-gray-600">
                             {project.state}, {project.municipality} • Puntaje: {project.totalScore} • Beneficiarios: {project.beneficiaries || 0}
                           </p>
+                          <div className="mt-2">
+                            <PublicationStatusControls
+                              project={project}
+                              isSuperAdmin={isSuperAdmin}
+                              onChangeStatus={handleChangeStatus}
+                            />
+                          </div>
                         </div>
                         <div className="flex gap-1 ml-2">
                           <Button 
@@ -975,7 +1361,7 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
                               variant="ghost" 
                               onClick={() => deleteProject(project.id)}
                               className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
-                              title="Eliminar proyecto"
+                              title="Mover a la papelera"
                             >
                               🗑️
                             </Button>
@@ -1015,6 +1401,38 @@ export function AdminDataEntry({ onSave, onClose, existingProjects, onClearAll,
           </div>
         </div>
       </div>
+
+      {/* Revision history of the project being edited */}
+      <ProjectHistoryDrawer
+        projectId={editingProject?.id ?? null}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        onRestore={onRestoreRevision}
+        onRestored={editProject}
+      />
+
+      {/* Concurrent edit resolution */}
+      <ProjectConflictDialog
+        conflict={conflict}
+        base={editingProject}
+        onResolve={handleResolveConflict}
+        onTakeServer={handleTakeServerVersion}
+        onCancel={() => setConflict(null)}
+      />
+
+      {/* Trashed projects */}
+      <TrashBinDrawer
+        open={showTrash}
+        onOpenChange={setShowTrash}
+        onRestore={onRestoreFromTrash}
+      />
+
+      {isSuperAdmin && (
+        <OrphanedImagesDialog
+          open={showOrphanedImages}
+          onOpenChange={setShowOrphanedImages}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Badge } from './ui/badge';
+import { Download, Loader2, ScrollText, ChevronDown, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../utils/supabase/info';
+import { getAccessToken } from '../utils/supabase/client';
+
+interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: { id: string; email: string; name?: string; role?: string } | null;
+  action: string;
+  target: { type: string; id?: string; label?: string };
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  ip: string | null;
+}
+
+interface AuditFilters {
+  action: string;
+  actor: string;
+  targetType: string;
+  from: string;
+  to: string;
+  q: string;
+}
+
+const AUDIT_URL = `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/audit`;
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+const ACTION_LABELS: Record<string, string> = {
+  'project.create': 'Proyecto creado',
+  'project.update': 'Proyecto editado',
+  'project.import': 'Importación de proyectos',
+  'project.trash': 'Proyecto a la papelera',
+  'project.trash_all': 'Todos los proyectos a la papelera',
+  'project.restore_revision': 'Revisión restaurada',
+  'project.restore_from_trash': 'Proyecto restaurado de la papelera',
+  'project.purge': 'Proyecto eliminado definitivamente',
+  'project.status_change': 'Cambio de estado de publicación',
+  'trash.empty': 'Papelera vaciada',
+  'admin.invite': 'Administrador invitado',
+  'admin.invite_resend': 'Invitación regenerada',
+  'admin.invite_accept': 'Invitación aceptada',
+  'admin.password_reset': 'Enlace de contraseña generado',
+  'admin.password_set': 'Contraseña restablecida',
+  'admin.status_change': 'Estado de administrador cambiado',
+  'admin.delete': 'Administrador eliminado',
+  'image.upload': 'Imagen subida',
+  'image.delete': 'Imagen eliminada',
+  'image.gc': 'Limpieza de imágenes',
+  'convocatoria.create': 'Convocatoria creada',
+  'convocatoria.update': 'Convocatoria editada',
+  'convocatoria.delete': 'Convocatoria eliminada',
+  'convocatoria.migrate': 'Migración de convocatorias',
+  'taxonomy.create': 'Término creado',
+  'taxonomy.update': 'Término editado',
+  'taxonomy.delete': 'Término eliminado',
+  'taxonomy.merge': 'Términos combinados',
+  'taxonomy.reorder': 'Términos reordenados',
+  'system.initialize_super_admin': 'Super admin inicializado',
+  'system.cleanup_kv': 'Limpieza de administradores',
+  'system.migrate_data': 'Migración de datos'
+};
+
+const TARGET_LABELS: Record<string, string> = {
+  project: 'Proyectos',
+  admin: 'Administradores',
+  image: 'Imágenes',
+  trash: 'Papelera',
+  convocatoria: 'Convocatorias',
+  taxonomy: 'Taxonomías',
+  system: 'Sistema'
+};
+
+const initialFilters: AuditFilters = {
+  action: ALL,
+  actor: '',
+  targetType: ALL,
+  from: '',
+  to: '',
+  q: ''
+};
+
+// Build the query string, skipping empty filters
+function buildQuery(filters: AuditFilters, extra: Record<string, string | number> = {}): string {
+  const params = new URLSearchParams();
+  Object.entries({ ...filters, ...extra }).forEach(([key, value]) => {
+    if (value !== '' && value !== ALL) {
+      params.set(key, String(value));
+    }
+  });
+  return params.toString();
+}
+
+/**
+ * Audit log viewer for super admins - filters, pagination and CSV export
+ */
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(initialFilters);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [page, filters]);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch(
+        `${AUDIT_URL}?${buildQuery(filters, { page, pageSize: PAGE_SIZE })}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries || []);
+        setTotal(data.total || 0);
+        setActions(data.actions || []);
+      } else {
+        toast.error('Error al cargar la auditoría');
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Error al cargar la auditoría');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch(
+        `${AUDIT_URL}/export?${buildQuery(filters)}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Error del servidor: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `auditoria-${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success('Registro de auditoría exportado');
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Error al exportar la auditoría');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            Registro de Auditoría
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={exportCsv} disabled={isExporting || total === 0}>
+            <Download className="w-4 h-4 mr-1" />
+            {isExporting ? 'Exportando...' : 'Exportar CSV'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          <Select value={filters.action} onValueChange={(value) => updateFilter('action', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Acción" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas las acciones</SelectItem>
+              {actions.map((action) => (
+                <SelectItem key={action} value={action}>{ACTION_LABELS[action] || action}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.targetType} onValueChange={(value) => updateFilter('targetType', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Tipo" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos los tipos</SelectItem>
+              {Object.entries(TARGET_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Correo del administrador"
+            value={filters.actor}
+            onChange={(e) => updateFilter('actor', e.target.value)}
+          />
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            title="Desde"
+          />
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            title="Hasta"
+          />
+          <Input
+            placeholder="Buscar en objetivo o cambios..."
+            value={filters.q}
+            onChange={(e) => updateFilter('q', e.target.value)}
+          />
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Cargando auditoría...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-600 py-12">No hay registros para estos filtros</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {entries.map((entry) => {
+              const hasDetails = Boolean(entry.before || entry.after);
+              const isExpanded = expandedId === entry.id;
+
+              return (
+                <div key={entry.id} className="p-3 text-sm">
+                  <button
+                    className="w-full flex items-start gap-2 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    disabled={!hasDetails}
+                  >
+                    {hasDetails ? (
+                      isExpanded ? <ChevronDown className="w-4 h-4 mt-0.5 shrink-0" /> : <ChevronRight className="w-4 h-4 mt-0.5 shrink-0" />
+                    ) : (
+                      <span className="w-4 shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className="text-xs">{ACTION_LABELS[entry.action] || entry.action}</Badge>
+                        <span className="font-medium truncate">
+                          {entry.target.label || entry.target.id}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(entry.timestamp).toLocaleString('es-MX')}
+                        {' • '}
+                        {entry.actor ? (entry.actor.name || entry.actor.email) : 'Sistema'}
+                        {entry.ip && ` • IP ${entry.ip}`}
+                      </p>
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="grid grid-cols-2 gap-3 mt-2 ml-6 text-xs">
+                      <div className="bg-red-50 border border-red-100 rounded p-2 overflow-x-auto">
+                        <p className="text-[10px] uppercase text-red-600 mb-1">Antes</p>
+                        <pre className="whitespace-pre-wrap break-all">{entry.before ? JSON.stringify(entry.before, null, 2) : '—'}</pre>
+                      </div>
+                      <div className="bg-green-50 border border-green-100 rounded p-2 overflow-x-auto">
+                        <p className="text-[10px] uppercase text-green-600 mb-1">Después</p>
+                        <pre className="whitespace-pre-wrap break-all">{entry.after ? JSON.stringify(entry.after, null, 2) : '—'}</pre>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pagination Controls */}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-center gap-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.max(1, prev - 1))}
+              disabled={page === 1}
+            >
+              ← Anterior
+            </Button>
+            <span className="text-sm text-gray-600">
+              Página {page} de {totalPages} ({total} registros)
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.min(totalPages, prev + 1))}
+              disabled={page >= totalPages}
+            >
+              Siguiente →
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,18 @@
 import React, { ReactNode, useState, useEffect } from 'react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { ImageFraming, ImageManifest } from '../types';
+import { getImageFramingStyle } from '../supabase/functions/_shared/images';
+
+// Half the viewport beside the text on desktop, full width when stacked
+const IMAGE_SIZES = '(min-width: 1024px) 50vw, 100vw';
 
 interface BreakoutImageSectionProps {
   imageUrl: string;
+  imageManifest?: ImageManifest; // Responsive variants of imageUrl
   imageAlt: string;
+  imageCaption?: string;
+  imageCredit?: string; // Photographer and/or license
+  imageFraming?: ImageFraming; // Focal point and crops set by the editor
   imagePosition?: 'left' | 'right';
   imageSide?: 'left' | 'right'; // Alias for imagePosition
   children: ReactNode;
@@ -12,13 +21,31 @@ interface BreakoutImageSectionProps {
   title?: string; // Title to show on both desktop and mobile
 }
 
+/**
+ * Caption and credit laid over the bottom of the image
+ */
+function ImageCaption({ caption, credit }: { caption?: string; credit?: string }) {
+  if (!caption && !credit) return null;
+
+  return (
+    <figcaption className="absolute bottom-0 inset-x-0 pl-4 pr-12 py-2 bg-gradient-to-t from-black/70 to-transparent text-white text-xs font-['Arvo',_serif]">
+      {caption && <span className="block">{caption}</span>}
+      {credit && <span className="block text-white/70 text-[11px]">{credit}</span>}
+    </figcaption>
+  );
+}
+
 /**
  * Breakout image section with edge-to-edge image layout
  * Images extend from center content area to the card edge
  */
 export function BreakoutImageSection({
   imageUrl,
+  imageManifest,
   imageAlt,
+  imageCaption,
+  imageCredit,
+  imageFraming,
   imagePosition,
   imageSide,
   children,
@@ -31,6 +58,9 @@ export function BreakoutImageSection({
   // Support both imagePosition and imageSide props
   const position = imagePosition || imageSide || 'left';
 
+  // Half the screen is portrait on desktop; the stacked image is closer to a card
+  const framingStyle = getImageFramingStyle(imageFraming, isDesktop ? '4:5' : '4:3');
+
   useEffect(() => {
     const handleResize = () => {
       setIsDesktop(window.innerWidth >= 1024);
@@ -57,13 +87,17 @@ export function BreakoutImageSection({
                     clipPath: 'polygon(0 0, 100% 0, calc(100% - 40px) 100%, 0 100%)',
                   }}
                 >
-                  <div className="breakout-image-hover w-full h-full">
+                  <figure className="breakout-image-hover relative w-full h-full m-0">
                     <ImageWithFallback
                       src={imageUrl}
+                      manifest={imageManifest}
+                      sizes={IMAGE_SIZES}
                       alt={imageAlt}
                       className="w-full h-full object-cover"
+                      style={framingStyle}
                     />
-                  </div>
+                    <ImageCaption caption={imageCaption} credit={imageCredit} />
+                  </figure>
                 </div>
               </div>
 
@@ -98,13 +132,17 @@ export function BreakoutImageSection({
               </div>
 
               {/* Image container - FILLS ALL REMAINING SPACE TO BOTTOM */}
-              <div className="w-full flex-1 min-h-0 relative">
+              <figure className="w-full flex-1 min-h-0 relative m-0 overflow-hidden">
                 <ImageWithFallback
                   src={imageUrl}
+                  manifest={imageManifest}
+                  sizes={IMAGE_SIZES}
                   alt={imageAlt}
                   className="absolute inset-0 w-full h-full object-cover"
+                  style={framingStyle}
                 />
-              </div>
+                <ImageCaption caption={imageCaption} credit={imageCredit} />
+              </figure>
             </>
           )}
         </>
@@ -135,13 +173,17 @@ export function BreakoutImageSection({
                     clipPath: 'polygon(40px 0, 100% 0, 100% 100%, 0 100%)',
                   }}
                 >
-                  <div className="breakout-image-hover w-full h-full">
+                  <figure className="breakout-image-hover relative w-full h-full m-0">
                     <ImageWithFallback
                       src={imageUrl}
+                      manifest={imageManifest}
+                      sizes={IMAGE_SIZES}
                       alt={imageAlt}
                       className="w-full h-full object-cover"
+                      style={framingStyle}
                     />
-                  </div>
+                    <ImageCaption caption={imageCaption} credit={imageCredit} />
+                  </figure>
                 </div>
               </div>
             </>
@@ -163,13 +205,17 @@ export function BreakoutImageSection({
               </div>
 
               {/* Image container - FILLS ALL REMAINING SPACE TO BOTTOM */}
-              <div className="w-full flex-1 min-h-0 relative">
+              <figure className="w-full flex-1 min-h-0 relative m-0 overflow-hidden">
                 <ImageWithFallback
                   src={imageUrl}
+                  manifest={imageManifest}
+                  sizes={IMAGE_SIZES}
                   alt={imageAlt}
                   className="absolute inset-0 w-full h-full object-cover"
+                  style={framingStyle}
                 />
-              </div>
+                <ImageCaption caption={imageCaption} credit={imageCredit} />
+              </figure>
             </>
           )}
         </>
@@ -1,6 +1,7 @@
 import React, { memo } from 'react';
 import { Cluster, getDominantCategory } from '../utils/markerClustering';
 import { getCategoryColor } from '../utils/categoryColors';
+import { useProjects } from '../contexts/ProjectContext';
 
 interface ClusterMarkerProps {
   cluster: Cluster;
@@ -25,8 +26,9 @@ export const ClusterMarker = memo(function ClusterMarker({
   isHovered
 }: ClusterMarkerProps) {
   const projectCount = cluster.projects.length;
+  const { getTerm } = useProjects();
   const dominantCategory = getDominantCategory(cluster.projects);
-  const categoryColor = getCategoryColor(dominantCategory);
+  const categoryColor = getCategoryColor(getTerm('category', dominantCategory));
 
   // Single project - not a cluster
   if (projectCount === 1) {
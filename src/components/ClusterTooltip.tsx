@@ -1,6 +1,7 @@
 import React from 'react';
 import { Cluster, getDominantCategory } from '../utils/markerClustering';
 import { getCategoryColor } from '../utils/categoryColors';
+import { useProjects } from '../contexts/ProjectContext';
 
 interface ClusterTooltipProps {
   cluster: Cluster;
@@ -13,8 +14,9 @@ interface ClusterTooltipProps {
  * Displays project count with smooth animations and modern styling
  */
 export function ClusterTooltip({ cluster, position, scale }: ClusterTooltipProps) {
+  const { getTerm } = useProjects();
   const dominantCategory = getDominantCategory(cluster.projects);
-  const categoryColor = getCategoryColor(dominantCategory);
+  const categoryColor = getCategoryColor(getTerm('category', dominantCategory));
   
   // Count projects by category
   const categoryCounts: Record<string, number> = {};
@@ -5,6 +5,7 @@ import { Download, Upload, FileJson, FileSpreadsheet, AlertCircle, CheckCircle2
 import { Project } from '../types';
 import { toast } from 'sonner';
 import { Alert, AlertDescription } from './ui/alert';
+import { validateProject, formatValidationErrors } from '../supabase/functions/_shared/projectSchema';
 
 interface DataExportImportProps {
   projects: Project[];
@@ -72,6 +73,7 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
         'Estados Implementación',
         'Objetivo Principal',
         'Beneficiarios',
+        'Número Beneficiarios',
         'Factores de Riesgo',
         'Metodología',
         'Resultados Principales',
@@ -98,6 +100,7 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
           implementationStates,
           project.objective,
           project.beneficiaries,
+          project.beneficiaryCount?.toString() || '',
           project.riskFactors || '',
           project.methodology || '',
           project.results,
@@ -105,8 +108,8 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
           project.totalScore.toString(),
           project.finalRankingPosition?.toString() || '',
           project.imageUrl,
-          project.location?.x?.toString() || '',
-          project.location?.y?.toString() || ''
+          project.mapPosition?.x?.toString() || '',
+          project.mapPosition?.y?.toString() || ''
         ].map(field => {
           // Escape quotes and wrap in quotes if contains comma, newline, or quote
           const escaped = String(field).replace(/"/g, '""');
@@ -143,24 +146,6 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
     }
   };
 
-  // Validate imported project data
-  const validateProject = (project: any): project is Project => {
-    const requiredFields = ['id', 'name', 'organization', 'category', 'thematicArea', 'state', 'objective', 'results'];
-    
-    for (const field of requiredFields) {
-      if (!project[field]) {
-        return false;
-      }
-    }
-    
-    // Validate totalScore is a number
-    if (typeof project.totalScore !== 'number') {
-      return false;
-    }
-    
-    return true;
-  };
-
   // Import projects from JSON file
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -192,11 +177,14 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
       const validProjects: Project[] = [];
       const invalidProjects: number[] = [];
 
+      // Same rules the server enforces on bulk import
       data.forEach((project, index) => {
-        if (validateProject(project)) {
+        const validation = validateProject(project);
+        if (validation.valid) {
           validProjects.push(project);
         } else {
           invalidProjects.push(index + 1);
+          console.warn(`Proyecto ${index + 1} inválido:`, formatValidationErrors(validation.errors));
         }
       });
 
@@ -212,7 +200,7 @@ export function DataExportImport({ projects, onImport, onClearAll }: DataExportI
         onClearAll();
         validProjects.forEach(project => onImport([project]));
         toast.success(`${validProjects.length} proyectos importados`, {
-          description: 'Los proyectos anteriores han sido reemplazados'
+          description: 'Los proyectos anteriores se movieron a la papelera'
         });
       } else {
         // Merge mode - check for duplicates
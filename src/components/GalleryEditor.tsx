@@ -0,0 +1,245 @@
+import React, { useState, useRef } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { GripVertical, ArrowUp, ArrowDown, X, Upload, Images, Loader2 } from 'lucide-react';
+import { GalleryImage, ImageTextField } from '../types';
+import { MediaLibraryDialog } from './MediaLibraryDialog';
+import { uploadImage, getImageUploadError, IMAGE_UPLOAD_TYPES } from '../utils/api';
+import { MAX_GALLERY_IMAGES } from '../supabase/functions/_shared/images';
+import { toast } from 'sonner';
+
+interface GalleryEditorProps {
+  label: string;
+  images: GalleryImage[];
+  onChange: (images: GalleryImage[]) => void;
+}
+
+const newImageId = () => `img-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Ordered photo gallery for one project section
+ * Photos are added by upload or from the media library and reordered by dragging
+ * (or with the arrow buttons, for keyboard users).
+ */
+export function GalleryEditor({ label, images, onChange }: GalleryEditorProps) {
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Uploads finish one by one; keep the latest list so none is lost
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const isFull = images.length >= MAX_GALLERY_IMAGES;
+
+  const addImage = (url: string) => {
+    if (imagesRef.current.length >= MAX_GALLERY_IMAGES) {
+      toast.error(`La galería admite hasta ${MAX_GALLERY_IMAGES} imágenes`);
+      return;
+    }
+    const next = [...imagesRef.current, { id: newImageId(), url, alt: '' }];
+    imagesRef.current = next;
+    onChange(next);
+  };
+
+  const handleFilesSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    for (const file of files) {
+      const fileError = getImageUploadError(file);
+      if (fileError) {
+        toast.error(`${file.name}: ${fileError}`);
+        continue;
+      }
+
+      setUploadingCount(count => count + 1);
+      try {
+        const result = await uploadImage(file);
+        addImage(result.url);
+      } catch (error) {
+        console.error('Error uploading gallery image:', error);
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Error al subir la imagen'}`);
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }
+  };
+
+  const updateImage = (id: string, key: ImageTextField, text: string) => {
+    onChange(images.map((image) => (image.id === id ? { ...image, [key]: text } : image)));
+  };
+
+  const removeImage = (id: string) => {
+    onChange(images.filter((image) => image.id !== id));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= images.length) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveImage(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="block font-medium">{label}</label>
+        <Badge variant="secondary">{images.length} / {MAX_GALLERY_IMAGES}</Badge>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={IMAGE_UPLOAD_TYPES.join(',')}
+          onChange={handleFilesSelect}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={isFull}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {uploadingCount > 0 ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Subiendo {uploadingCount}...
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4 mr-2" />
+              Subir fotos
+            </>
+          )}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={isFull}
+          onClick={() => setShowLibrary(true)}
+        >
+          <Images className="w-4 h-4 mr-2" />
+          Biblioteca
+        </Button>
+      </div>
+
+      <MediaLibraryDialog
+        open={showLibrary}
+        onOpenChange={setShowLibrary}
+        onSelect={(asset) => addImage(asset.url)}
+      />
+
+      {images.length === 0 ? (
+        <p className="text-xs text-gray-500">Sin fotos. Se mostrarán en un carrusel dentro de la sección.</p>
+      ) : (
+        <ol className="space-y-2">
+          {images.map((image, index) => (
+            <li
+              key={image.id}
+              draggable
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex(prev => (prev === index ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`flex gap-2 p-2 border rounded-lg bg-white transition-colors ${
+                dropIndex === index && dragIndex !== index ? 'border-blue-500 bg-blue-50' : ''
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <div className="flex flex-col items-center gap-1 text-gray-400">
+                <GripVertical className="w-4 h-4 cursor-grab" aria-hidden="true" />
+                <span className="text-[10px]">{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => moveImage(index, index - 1)}
+                  disabled={index === 0}
+                  className="hover:text-gray-700 disabled:opacity-30"
+                  title="Mover antes"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveImage(index, index + 1)}
+                  disabled={index === images.length - 1}
+                  className="hover:text-gray-700 disabled:opacity-30"
+                  title="Mover después"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+              </div>
+              <img
+                src={image.url}
+                alt={image.alt}
+                draggable={false}
+                className="w-20 h-20 rounded object-cover bg-gray-100 shrink-0"
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <Input
+                  value={image.alt}
+                  onChange={(e) => updateImage(image.id, 'alt', e.target.value)}
+                  placeholder="Texto alternativo"
+                  className="h-8 text-xs"
+                />
+                <Input
+                  value={image.caption || ''}
+                  onChange={(e) => updateImage(image.id, 'caption', e.target.value)}
+                  placeholder="Pie de foto"
+                  className="h-8 text-xs"
+                />
+                <Input
+                  value={image.credit || ''}
+                  onChange={(e) => updateImage(image.id, 'credit', e.target.value)}
+                  placeholder="Crédito / licencia"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeImage(image.id)}
+                title="Quitar de la galería"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import React, { useState, useRef } from 'react';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { Crosshair, Crop, X } from 'lucide-react';
+import { ImageCrop, ImageCropRatio, ImageFraming } from '../types';
+import {
+  IMAGE_CROP_RATIOS,
+  IMAGE_CROP_RATIO_LABELS,
+  getCropRatioValue,
+  getDefaultCrop,
+  getImageFramingStyle,
+} from '../supabase/functions/_shared/images';
+
+interface ImageFramingEditorProps {
+  url: string;
+  framing?: ImageFraming;
+  onChange: (framing: ImageFraming | undefined) => void;
+}
+
+// Smallest crop, as a fraction of the largest one for the ratio
+const MIN_CROP_SCALE = 0.2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Drop empty parts so a reset image stores no framing at all
+const compactFraming = (framing: ImageFraming): ImageFraming | undefined => {
+  const crops = framing.crops && Object.keys(framing.crops).length > 0 ? framing.crops : undefined;
+  if (!framing.focalPoint && !crops) return undefined;
+  return { ...(framing.focalPoint ? { focalPoint: framing.focalPoint } : {}), ...(crops ? { crops } : {}) };
+};
+
+/**
+ * Focal point and per-ratio crops of an image ("Encuadre")
+ * Click the image to set the point that must stay visible; pick a ratio to draw
+ * an explicit crop for the layouts that use it. Previews show each layout live.
+ */
+export function ImageFramingEditor({ url, framing, onChange }: ImageFramingEditorProps) {
+  const [mode, setMode] = useState<'focal' | ImageCropRatio>('focal');
+  const [imageAspect, setImageAspect] = useState<number | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: ImageCrop } | null>(null);
+
+  const focalPoint = framing?.focalPoint;
+  const activeCrop = mode === 'focal' ? undefined : framing?.crops?.[mode];
+
+  const update = (changes: Partial<ImageFraming>) => {
+    onChange(compactFraming({ ...framing, ...changes }));
+  };
+
+  const setCrop = (ratio: ImageCropRatio, crop: ImageCrop | undefined) => {
+    const crops = { ...framing?.crops };
+    if (crop) crops[ratio] = crop;
+    else delete crops[ratio];
+    update({ crops });
+  };
+
+  // Pointer position as a fraction of the displayed image
+  const getPointerFraction = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1),
+    };
+  };
+
+  const handleImageClick = (e: React.PointerEvent) => {
+    if (mode !== 'focal') return;
+    const point = getPointerFraction(e);
+    update({ focalPoint: { x: Math.round(point.x * 1000) / 10, y: Math.round(point.y * 1000) / 10 } });
+  };
+
+  const startCrop = (ratio: ImageCropRatio) => {
+    if (!imageAspect) return;
+    const center = focalPoint ? { x: focalPoint.x / 100, y: focalPoint.y / 100 } : undefined;
+    setCrop(ratio, getDefaultCrop(ratio, imageAspect, center));
+  };
+
+  // Resize around the current center; 100 is the largest crop the image allows
+  const resizeCrop = (ratio: ImageCropRatio, crop: ImageCrop, scale: number) => {
+    if (!imageAspect) return;
+    const largest = getDefaultCrop(ratio, imageAspect);
+    const width = largest.width * scale;
+    const height = largest.height * scale;
+    setCrop(ratio, {
+      x: clamp(crop.x + crop.width / 2 - width / 2, 0, 1 - width),
+      y: clamp(crop.y + crop.height / 2 - height / 2, 0, 1 - height),
+      width,
+      height,
+    });
+  };
+
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!activeCrop) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop: activeCrop };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || mode === 'focal') return;
+    const rect = imageRef.current!.getBoundingClientRect();
+    const { crop } = drag;
+    setCrop(mode, {
+      ...crop,
+      x: clamp(crop.x + (e.clientX - drag.pointerX) / rect.width, 0, 1 - crop.width),
+      y: clamp(crop.y + (e.clientY - drag.pointerY) / rect.height, 0, 1 - crop.height),
+    });
+  };
+
+  const cropScale = activeCrop && imageAspect && mode !== 'focal'
+    ? Math.round((activeCrop.width / getDefaultCrop(mode, imageAspect).width) * 100)
+    : 100;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'focal' ? 'default' : 'outline'}
+          onClick={() => setMode('focal')}
+        >
+          <Crosshair className="w-4 h-4 mr-1" />
+          Punto focal
+        </Button>
+        {IMAGE_CROP_RATIOS.map((ratio) => (
+          <Button
+            key={ratio}
+            type="button"
+            size="sm"
+            variant={mode === ratio ? 'default' : 'outline'}
+            onClick={() => setMode(ratio)}
+            title={IMAGE_CROP_RATIO_LABELS[ratio]}
+          >
+            <Crop className="w-4 h-4 mr-1" />
+            {ratio}
+            {framing?.crops?.[ratio] && <span className="ml-1 w-1.5 h-1.5 rounded-full bg-green-500" />}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-[11px] text-gray-500">
+        {mode === 'focal'
+          ? 'Haz clic en la imagen sobre lo que debe verse siempre (por ejemplo, un rostro).'
+          : `${IMAGE_CROP_RATIO_LABELS[mode]}. Arrastra el recuadro para moverlo.`}
+      </p>
+
+      {/* Full image with the focal point or the crop of the selected ratio */}
+      <div className="flex justify-center bg-gray-100 rounded select-none">
+        <div className="relative overflow-hidden">
+          <img
+            ref={imageRef}
+            src={url}
+            alt=""
+            draggable={false}
+            onLoad={(e) => setImageAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+            onPointerDown={handleImageClick}
+            className={`block max-w-full max-h-72 ${mode === 'focal' ? 'cursor-crosshair' : ''}`}
+          />
+          {mode === 'focal' && focalPoint && (
+            <span
+              className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-blue-500/60 shadow pointer-events-none"
+              style={{ left: `${focalPoint.x}%`, top: `${focalPoint.y}%` }}
+            />
+          )}
+          {activeCrop && (
+            <div
+              onPointerDown={handleCropPointerDown}
+              onPointerMove={handleCropPointerMove}
+              onPointerUp={() => (dragRef.current = null)}
+              onPointerCancel={() => (dragRef.current = null)}
+              className="absolute border-2 border-white cursor-move touch-none"
+              style={{
+                left: `${activeCrop.x * 100}%`,
+                top: `${activeCrop.y * 100}%`,
+                width: `${activeCrop.width * 100}%`,
+                height: `${activeCrop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {mode === 'focal' ? (
+        focalPoint && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => update({ focalPoint: undefined })}>
+            <X className="w-4 h-4 mr-1" />
+            Quitar punto focal
+          </Button>
+        )
+      ) : activeCrop ? (
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-600 shrink-0">Tamaño</span>
+          <Slider
+            value={[cropScale]}
+            min={MIN_CROP_SCALE * 100}
+            max={100}
+            step={1}
+            onValueChange={([scale]) => resizeCrop(mode, activeCrop, scale / 100)}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => setCrop(mode, undefined)}>
+            <X className="w-4 h-4 mr-1" />
+            Quitar recorte
+          </Button>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" size="sm" disabled={!imageAspect} onClick={() => startCrop(mode)}>
+          <Crop className="w-4 h-4 mr-1" />
+          Recortar a {mode}
+        </Button>
+      )}
+
+      {/* How each layout will frame the image */}
+      <div className="grid grid-cols-4 gap-2 items-end">
+        {IMAGE_CROP_RATIOS.map((ratio) => (
+          <div key={ratio} className="space-y-1">
+            <div
+              className="relative w-full overflow-hidden rounded bg-gray-100"
+              style={{ aspectRatio: getCropRatioValue(ratio) }}
+            >
+              <img
+                src={url}
+                alt=""
+                className="absolute inset-0 w-full h-full object-cover"
+                style={getImageFramingStyle(framing, ratio)}
+              />
+            </div>
+            <p className="text-[10px] text-center text-gray-500">{ratio}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { Upload, Link, X, Loader2, Image as ImageIcon } from 'lucide-react';
+import { Upload, Link, X, Loader2, Image as ImageIcon, Images, Crop } from 'lucide-react';
 import { toast } from 'sonner';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { uploadImage, getImageUploadError, IMAGE_UPLOAD_TYPES } from '../utils/api';
+import { MediaLibraryDialog } from './MediaLibraryDialog';
+import { ImageFramingEditor } from './ImageFramingEditor';
+import { getImageFramingStyle } from '../supabase/functions/_shared/images';
+import { ImageDetails, ImageFraming, ImageTextField } from '../types';
 
 interface ImageUploadInputProps {
   value: string;
@@ -12,6 +16,8 @@ interface ImageUploadInputProps {
   placeholder?: string;
   required?: boolean;
   description?: string;
+  details?: ImageDetails; // Alt text, caption, credit and framing of this image slot
+  onDetailsChange?: (details: ImageDetails) => void; // Shows the detail fields when set
 }
 
 export function ImageUploadInput({
@@ -20,11 +26,15 @@ export function ImageUploadInput({
   label,
   placeholder = "https://...",
   required = false,
-  description
+  description,
+  details,
+  onDetailsChange
 }: ImageUploadInputProps) {
   const [mode, setMode] = useState<'url' | 'upload'>('url');
   const [uploading, setUploading] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string>(value);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showFraming, setShowFraming] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Sync previewUrl with external value changes (e.g., form reset)
@@ -36,17 +46,9 @@ export function ImageUploadInput({
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Tipo de archivo inválido. Solo se permiten JPEG, PNG, GIF y WebP.');
-      return;
-    }
-
-    // Validate file size (5MB max)
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
-      toast.error('Archivo muy grande. El tamaño máximo es 5MB.');
+    const fileError = getImageUploadError(file);
+    if (fileError) {
+      toast.error(fileError);
       return;
     }
 
@@ -57,46 +59,19 @@ export function ImageUploadInput({
     // Upload to server
     setUploading(true);
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-
       console.log('Uploading image to server...', {
         fileName: file.name,
         fileSize: file.size,
         fileType: file.type
       });
 
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/images/upload`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${publicAnonKey}`,
-            // DO NOT set Content-Type - browser sets it automatically with boundary
-          },
-          body: formData,
-        }
-      );
-
-      console.log('Response status:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Upload failed:', errorText);
-        throw new Error(`Error del servidor: ${response.status} - ${errorText}`);
-      }
-
-      const result = await response.json();
-      console.log('Upload result:', result);
-
-      if (!result.success) {
-        throw new Error(result.error || 'Error al subir imagen');
-      }
+      const result = await uploadImage(file);
 
       // Update with the server URL
       onChange(result.url);
+      if (details?.framing) updateFraming(undefined);
       setPreviewUrl(result.url);
-      toast.success('Imagen subida exitosamente');
+      toast.success(result.deduplicated ? 'Esta imagen ya estaba en la biblioteca; se reutilizó' : 'Imagen subida exitosamente');
 
       // Clean up local preview
       URL.revokeObjectURL(localPreview);
@@ -116,16 +91,27 @@ export function ImageUploadInput({
   const handleUrlChange = (url: string) => {
     onChange(url);
     setPreviewUrl(url);
+    if (details?.framing) updateFraming(undefined);
   };
 
   const handleClearImage = () => {
     onChange('');
+    if (details?.framing) updateFraming(undefined);
     setPreviewUrl('');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  const updateDetails = (key: ImageTextField, text: string) => {
+    onDetailsChange?.({ alt: '', ...details, [key]: text });
+  };
+
+  // Framing belongs to one picture; a new image starts centered again
+  const updateFraming = (framing: ImageFraming | undefined) => {
+    onDetailsChange?.({ alt: '', ...details, framing });
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
@@ -163,8 +149,25 @@ export function ImageUploadInput({
           <Upload className="w-4 h-4 mr-2" />
           Subir Archivo
         </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setShowLibrary(true)}
+          className="flex-1"
+        >
+          <Images className="w-4 h-4 mr-2" />
+          Biblioteca
+        </Button>
       </div>
 
+      <MediaLibraryDialog
+        open={showLibrary}
+        onOpenChange={setShowLibrary}
+        selectedUrl={value}
+        onSelect={(asset) => handleUrlChange(asset.url)}
+      />
+
       {/* URL Input Mode */}
       {mode === 'url' && (
         <div className="space-y-2">
@@ -196,7 +199,7 @@ export function ImageUploadInput({
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/jpeg,image/jpg,image/png,image/gif,image/webp"
+            accept={IMAGE_UPLOAD_TYPES.join(',')}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -255,8 +258,9 @@ export function ImageUploadInput({
           <div className="relative w-full h-32 bg-gray-100 rounded overflow-hidden">
             <img
               src={previewUrl}
-              alt="Preview"
+              alt={details?.alt || 'Preview'}
               className="w-full h-full object-cover"
+              style={getImageFramingStyle(details?.framing)}
               onError={() => {
                 setPreviewUrl('');
                 toast.error('Error al cargar la imagen de vista previa');
@@ -265,6 +269,59 @@ export function ImageUploadInput({
           </div>
         </div>
       )}
+
+      {/* Accessibility and attribution - required before publishing */}
+      {value && onDetailsChange && (
+        <div className="grid gap-2 p-2 border rounded-lg">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Texto alternativo</label>
+            <Input
+              value={details?.alt || ''}
+              onChange={(e) => updateDetails('alt', e.target.value)}
+              placeholder="Describe lo que muestra la imagen"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Pie de foto</label>
+            <Input
+              value={details?.caption || ''}
+              onChange={(e) => updateDetails('caption', e.target.value)}
+              placeholder="Texto que acompaña a la imagen"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Crédito / licencia</label>
+            <Input
+              value={details?.credit || ''}
+              onChange={(e) => updateDetails('credit', e.target.value)}
+              placeholder="Foto: Nombre Apellido (CC BY 4.0)"
+            />
+          </div>
+          <p className="text-[11px] text-gray-500">
+            Los tres campos son obligatorios para publicar el proyecto.
+          </p>
+        </div>
+      )}
+
+      {/* Focal point and crops - optional, applied wherever the image is trimmed */}
+      {value && onDetailsChange && (
+        <div className="p-2 border rounded-lg space-y-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowFraming(prev => !prev)}
+            className="w-full justify-start"
+          >
+            <Crop className="w-4 h-4 mr-2" />
+            {showFraming ? 'Ocultar encuadre' : 'Ajustar encuadre'}
+            {details?.framing && <span className="ml-auto text-[11px] text-green-600">Personalizado</span>}
+          </Button>
+          {showFraming && (
+            <ImageFramingEditor url={value} framing={details?.framing} onChange={updateFraming} />
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
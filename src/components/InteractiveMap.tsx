@@ -6,8 +6,7 @@ import { ProjectHoverTooltip } from './ProjectHoverTooltip';
 import { ClusterMarker } from './ClusterMarker';
 import { ClusterTooltip } from './ClusterTooltip';
 import { Project } from '../types';
-import { getCategoryColor } from '../utils/categoryColors';
-import { getConvocatoriaColor, registerConvocatorias } from '../utils/convocatoriaColors';
+import { getConvocatoriaColor } from '../utils/convocatoriaColors';
 import { clusterMarkers, Cluster } from '../utils/markerClustering';
 import { STATE_SVG_IDS } from '../data/stateMapCoordinates';
 import { Button } from './ui/button';
@@ -30,7 +29,8 @@ export const InteractiveMap = memo(function InteractiveMap({ onInteractionChange
   const { 
     filteredProjects, 
     setSelectedProject, 
-    selectedProject 
+    selectedProject,
+    getConvocatoria
   } = useProjects();
   const [hoveredProject, setHoveredProject] = useState<Project | null>(null);
   const [hoveredCluster, setHoveredCluster] = useState<Cluster | null>(null);
@@ -55,14 +55,6 @@ export const InteractiveMap = memo(function InteractiveMap({ onInteractionChange
     return clusterMarkers(filteredProjects, transform.scale);
   }, [filteredProjects, transform.scale]);
 
-  // Register convocatorias for consistent color assignment
-  useEffect(() => {
-    const convocatorias = filteredProjects
-      .map(p => p.convocatoria)
-      .filter((c): c is string => !!c);
-    registerConvocatorias(convocatorias);
-  }, [filteredProjects]);
-
   // Notify parent of map interaction
   const notifyInteraction = useCallback(() => {
     onInteractionChange?.(true);
@@ -589,16 +581,16 @@ export const InteractiveMap = memo(function InteractiveMap({ onInteractionChange
                 // Single project in cluster - render as individual marker
                 const project = cluster.projects[0];
                 const isHovered = hoveredProject?.id === project.id;
-                const convocatoriaColor = getConvocatoriaColor(project.convocatoria);
+                const convocatoriaColor = getConvocatoriaColor(getConvocatoria(project.convocatoriaId));
                 
                 // Convert percentage coordinates to absolute pixel coordinates
                 // relative to the map's fixed size (2638px × 1822px)
                 let markerX: number, markerY: number;
                 
-                if (project.location && typeof project.location.x === 'number') {
+                if (project.mapPosition && typeof project.mapPosition.x === 'number') {
                   // Convert percentage to pixels relative to map size
-                  markerX = (project.location.x / 100) * 2638;
-                  markerY = (project.location.y / 100) * 1822;
+                  markerX = (project.mapPosition.x / 100) * 2638;
+                  markerY = (project.mapPosition.y / 100) * 1822;
                 } else {
                   // Fallback to center of map if no location data
                   markerX = 2638 / 2;
@@ -4,8 +4,10 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { AlertCircle, CheckCircle, Copy } from 'lucide-react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId } from '../utils/supabase/info';
+import { getAccessToken } from '../utils/supabase/client';
 import { copyToClipboard } from '../utils/clipboard';
+import { buildAcceptInviteLink } from '../utils/adminLinks';
 
 interface InviteAdminModalProps {
   isOpen: boolean;
@@ -19,7 +21,8 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
   const [role, setRole] = useState<'super_admin' | 'editor'>('editor');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [generatedPassword, setGeneratedPassword] = useState('');
+  const [inviteLink, setInviteLink] = useState('');
+  const [inviteExpiresAt, setInviteExpiresAt] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   const [successNote, setSuccessNote] = useState('');
 
@@ -35,13 +38,14 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
     }
 
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/invite`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           },
           body: JSON.stringify({ name, email, role })
         }
@@ -55,14 +59,10 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
         return;
       }
 
-      setGeneratedPassword(data.temporaryPassword);
+      setInviteLink(buildAcceptInviteLink(data.inviteToken));
+      setInviteExpiresAt(data.expiresAt);
       setSuccessNote(data.note || '');
       setShowSuccess(true);
-      
-      // Reset form after short delay
-      setTimeout(() => {
-        onSuccess();
-      }, 5000);
     } catch (error) {
       console.error('Error inviting admin:', error);
       setError('Error al crear administrador');
@@ -72,13 +72,20 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
   };
 
   const handleClose = () => {
+    // Keep the link on screen until the admin closes the dialog, then refresh the list
+    const wasSuccessful = showSuccess;
     setName('');
     setEmail('');
     setRole('editor');
     setError('');
-    setGeneratedPassword('');
+    setInviteLink('');
+    setInviteExpiresAt('');
     setShowSuccess(false);
-    onClose();
+    if (wasSuccessful) {
+      onSuccess();
+    } else {
+      onClose();
+    }
   };
 
   if (showSuccess) {
@@ -88,34 +95,34 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2 text-green-600">
               <CheckCircle className="w-6 h-6" />
-              ¡Administrador Creado!
+              ¡Invitación Creada!
             </DialogTitle>
             <DialogDescription>
-              El nuevo administrador ha sido creado exitosamente.
+              Comparte el enlace con el nuevo administrador para que defina su contraseña.
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4">
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
               <p className="text-sm text-green-800 mb-2">
-                Se ha creado la cuenta para:
+                Se ha creado la invitación para:
               </p>
               <p className="font-medium text-green-900">{email}</p>
             </div>
 
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <p className="text-sm font-medium text-yellow-900 mb-2">
-                Contraseña Temporal:
+                Enlace de Invitación:
               </p>
               <div className="flex items-center gap-2">
-                <code className="flex-1 bg-white px-3 py-2 rounded border text-sm font-mono">
-                  {generatedPassword}
+                <code className="flex-1 bg-white px-3 py-2 rounded border text-xs font-mono break-all">
+                  {inviteLink}
                 </code>
                 <Button
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={async () => await copyToClipboard(generatedPassword)}
+                  onClick={async () => await copyToClipboard(inviteLink)}
                 >
                   <Copy className="w-4 h-4" />
                 </Button>
@@ -124,8 +131,8 @@ export function InviteAdminModal({ isOpen, onClose, onSuccess }: InviteAdminModa
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
               <p className="text-xs text-blue-800">
-                ⚠️ <strong>Importante:</strong> Copia esta contraseña ahora. No podrás verla después. 
-                El nuevo administrador debe cambiarla en su primer inicio de sesión.
+                ⚠️ <strong>Importante:</strong> Copia este enlace ahora. No podrás verlo después. 
+                Es de un solo uso y expira el {new Date(inviteExpiresAt).toLocaleString('es-MX')}.
               </p>
             </div>
 
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { X, Palette, Layers, Zap, Info } from 'lucide-react';
 import { Button } from './ui/button';
-import { getAllCategoryColors } from '../utils/categoryColors';
+import { getCategoryColor } from '../utils/categoryColors';
+import { useProjects } from '../contexts/ProjectContext';
 
 /**
  * Demo overlay showing map enhancement features
@@ -9,7 +10,8 @@ import { getAllCategoryColors } from '../utils/categoryColors';
  */
 export function MapEnhancementsDemo() {
   const [isVisible, setIsVisible] = useState(false);
-  const categories = getAllCategoryColors();
+  const { taxonomies } = useProjects();
+  const categories = taxonomies.category.map(term => ({ category: term.value, color: getCategoryColor(term) }));
 
   if (!isVisible) {
     return (
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Info, X } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Link } from 'react-router-dom';
 
 interface MapTitleProps {
   isMapInteracting: boolean;
@@ -185,7 +186,18 @@ export function MapTitle({ isMapInteracting }: MapTitleProps) {
                   </p>
                 </div>
 
-                <div className="pt-2 border-t border-gray-200">
+                <div className="pt-2 border-t border-gray-200 flex items-center justify-between gap-2">
+                  <Link
+                    to="/estadisticas"
+                    className="
+                      text-xs font-medium text-[#0c4159] hover:text-[#ff8012]
+                      underline underline-offset-2
+                      transition-colors
+                      focus:outline-none focus:ring-2 focus:ring-blue-400 focus:rounded
+                    "
+                  >
+                    Ver estadísticas
+                  </Link>
                   <button
                     onClick={() => {
                       setIsHidden(true);
@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Images, Loader2, Search, Check } from 'lucide-react';
+import { MediaAsset } from '../types';
+import * as api from '../utils/api';
+import { formatFileSize } from '../utils/fileSize';
+import { toast } from 'sonner';
+
+interface MediaLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (asset: MediaAsset) => void;
+  selectedUrl?: string; // Highlighted as the current value
+}
+
+// Lowercase and strip accents so "logotipo fundación" matches "Logotipo Fundacion"
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Browse previously uploaded images and pick one for an image field ("Biblioteca")
+ * Search matches the file name and the names of the projects using the image.
+ */
+export function MediaLibraryDialog({ open, onOpenChange, onSelect, selectedUrl }: MediaLibraryDialogProps) {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      loadAssets();
+    }
+  }, [open]);
+
+  const loadAssets = async () => {
+    setIsLoading(true);
+    try {
+      setAssets(await api.fetchMediaLibrary());
+    } catch (error) {
+      console.error('Error loading media library:', error);
+      toast.error('No se pudo cargar la biblioteca de imágenes');
+      setAssets([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredAssets = useMemo(() => {
+    const terms = normalize(searchQuery).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return assets;
+
+    return assets.filter((asset) => {
+      const haystack = normalize([asset.originalName, asset.fileName, ...asset.usage.map((p) => p.name)].join(' '));
+      return terms.every((term) => haystack.includes(term));
+    });
+  }, [assets, searchQuery]);
+
+  const handleSelect = (asset: MediaAsset) => {
+    onSelect(asset);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Images className="w-5 h-5" />
+            Biblioteca de imágenes
+          </DialogTitle>
+          <DialogDescription>
+            Reutiliza una imagen ya subida en lugar de subirla de nuevo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Buscar por nombre de archivo o proyecto..."
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Cargando imágenes...
+          </div>
+        ) : filteredAssets.length === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">
+            {assets.length === 0 ? 'Todavía no se han subido imágenes.' : 'Ninguna imagen coincide con la búsqueda.'}
+          </p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 pr-3">
+              {filteredAssets.map((asset) => {
+                const isSelected = asset.url === selectedUrl;
+                return (
+                  <button
+                    key={asset.fileName}
+                    type="button"
+                    onClick={() => handleSelect(asset)}
+                    className={`text-left border rounded-lg overflow-hidden transition-colors ${
+                      isSelected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:border-blue-300'
+                    }`}
+                    title={asset.usage.map((p) => p.name).join('\n') || undefined}
+                  >
+                    <div className="relative aspect-video bg-gray-100">
+                      <img
+                        src={asset.thumbnailUrl}
+                        alt={asset.originalName}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                      />
+                      {isSelected && (
+                        <span className="absolute top-1 right-1 bg-blue-600 text-white rounded-full p-1">
+                          <Check className="w-3 h-3" />
+                        </span>
+                      )}
+                    </div>
+                    <div className="p-2 space-y-1">
+                      <p className="text-xs font-medium truncate">{asset.originalName}</p>
+                      <p className="text-[11px] text-gray-500">
+                        {asset.uploaded_at ? new Date(asset.uploaded_at).toLocaleDateString('es-MX') : 'Fecha desconocida'}
+                        {' • '}
+                        {formatFileSize(asset.size)}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge
+                          variant={asset.usage.length > 0 ? 'secondary' : 'outline'}
+                          className="text-[10px]"
+                        >
+                          {asset.usage.length === 0
+                            ? 'Sin usar'
+                            : `En ${asset.usage.length} ${asset.usage.length === 1 ? 'proyecto' : 'proyectos'}`}
+                        </Badge>
+                        {asset.refCount > asset.usage.length && (
+                          <Badge variant="outline" className="text-[10px] text-gray-500">
+                            +{asset.refCount - asset.usage.length} en papelera
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -92,8 +92,8 @@ export function MexicoMap() {
               {/* Hover effect background */}
               {isHovered && (
                 <circle
-                  cx={project.location.x * 10}
-                  cy={project.location.y * 6}
+                  cx={(project.mapPosition?.x ?? 50) * 10}
+                  cy={(project.mapPosition?.y ?? 50) * 6}
                   r="12"
                   fill="rgba(255, 165, 0, 0.3)"
                   className="animate-pulse"
@@ -102,8 +102,8 @@ export function MexicoMap() {
               
               {/* Main marker */}
               <circle
-                cx={project.location.x * 10}
-                cy={project.location.y * 6}
+                cx={(project.mapPosition?.x ?? 50) * 10}
+                cy={(project.mapPosition?.y ?? 50) * 6}
                 r="8"
                 fill="white"
                 stroke="rgba(255,255,255,0.8)"
@@ -114,8 +114,8 @@ export function MexicoMap() {
                 onMouseLeave={() => setHoveredProject(null)}
               />
               <circle
-                cx={project.location.x * 10}
-                cy={project.location.y * 6}
+                cx={(project.mapPosition?.x ?? 50) * 10}
+                cy={(project.mapPosition?.y ?? 50) * 6}
                 r="4"
                 fill="rgba(255,255,255,0.9)"
                 className="pointer-events-none"
@@ -129,9 +129,9 @@ export function MexicoMap() {
       {hoveredProject && (
         <div className="absolute bottom-24 left-4 bg-white p-3 rounded-lg shadow-lg max-w-xs z-30">
           <h4 className="text-gray-900 text-sm mb-1">{hoveredProject.name}</h4>
-          <p className="text-gray-600 text-xs mb-1">{hoveredProject.description}</p>
+          <p className="text-gray-600 text-xs mb-1">{hoveredProject.objective}</p>
           <div className="text-xs text-gray-500">
-            {hoveredProject.location.city}, {hoveredProject.location.state}
+            {hoveredProject.municipality}, {hoveredProject.state}
           </div>
         </div>
       )}
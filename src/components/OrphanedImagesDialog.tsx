@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { ScrollArea } from './ui/scroll-area';
+import { ImageOff, Loader2, RefreshCw } from 'lucide-react';
+import { OrphanedImageReport } from '../types';
+import * as api from '../utils/api';
+import { formatFileSize } from '../utils/fileSize';
+import { toast } from 'sonner';
+
+interface OrphanedImagesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Super admin tool to find and delete images no project uses ("Limpiar imágenes")
+ * Opening it only runs the analysis; nothing is deleted until the selection is confirmed.
+ */
+export function OrphanedImagesDialog({ open, onOpenChange }: OrphanedImagesDialogProps) {
+  const [report, setReport] = useState<OrphanedImageReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadReport();
+    }
+  }, [open]);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await api.fetchOrphanedImages();
+      setReport(result);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error analyzing images:', error);
+      toast.error('No se pudieron analizar las imágenes');
+      setReport(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (fileName: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(fileName);
+      else next.delete(fileName);
+      return next;
+    });
+  };
+
+  const orphans = report?.orphans || [];
+  const selectedOrphans = orphans.filter((orphan) => selected.has(orphan.fileName));
+  const selectedSize = selectedOrphans.reduce((total, orphan) => total + orphan.size, 0);
+  const allSelected = orphans.length > 0 && selectedOrphans.length === orphans.length;
+
+  const handleDelete = async () => {
+    if (!window.confirm(`¿Eliminar definitivamente ${selectedOrphans.length} imágenes (${formatFileSize(selectedSize)})? Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      const result = await api.deleteOrphanedImages(selectedOrphans.map((orphan) => orphan.fileName));
+      toast.success(`${result.deleted.length} imágenes eliminadas (${formatFileSize(result.size)} liberados)`);
+      if (result.skipped > 0) {
+        toast.info(`${result.skipped} imágenes se omitieron porque ya están en uso`);
+      }
+      await loadReport();
+    } catch (error) {
+      console.error('Error deleting orphaned images:', error);
+      toast.error('No se pudieron eliminar las imágenes');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ImageOff className="w-5 h-5" />
+            Limpiar imágenes
+          </DialogTitle>
+          <DialogDescription>
+            Imágenes almacenadas que ningún proyecto (ni de la papelera ni de su historial de versiones) utiliza.
+            {report ? ` Las subidas de las últimas ${report.graceHours} horas no se incluyen.` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Analizando almacenamiento...
+          </div>
+        ) : !report ? (
+          <p className="text-sm text-gray-500 py-12 text-center">
+            No hay resultados. Intenta analizar de nuevo.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="secondary">{report.scannedFiles} archivos analizados</Badge>
+              <Badge variant="secondary">{report.referencedImages} imágenes en uso</Badge>
+              {report.sharedImages > 0 && (
+                <Badge variant="secondary">{report.sharedImages} compartidas entre proyectos</Badge>
+              )}
+              <Badge variant="outline" className="text-amber-700 border-amber-300">
+                {orphans.length} huérfanas • {report.totalFiles} archivos • {formatFileSize(report.totalSize)}
+              </Badge>
+            </div>
+
+            {orphans.length === 0 ? (
+              <p className="text-sm text-gray-500 py-12 text-center">
+                No hay imágenes huérfanas.
+              </p>
+            ) : (
+              <ScrollArea className="flex-1 min-h-0 border rounded-lg">
+                <div className="divide-y">
+                  <label className="flex items-center gap-3 p-3 text-xs font-medium text-gray-700 bg-gray-50">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? new Set(orphans.map((orphan) => orphan.fileName)) : new Set())
+                      }
+                    />
+                    Seleccionar todas
+                  </label>
+                  {orphans.map((orphan) => (
+                    <label key={orphan.fileName} className="flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-gray-50">
+                      <Checkbox
+                        checked={selected.has(orphan.fileName)}
+                        onCheckedChange={(checked) => toggle(orphan.fileName, checked === true)}
+                      />
+                      <img
+                        src={orphan.url}
+                        alt=""
+                        loading="lazy"
+                        className="w-12 h-12 rounded object-cover bg-gray-100 shrink-0"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium truncate">{orphan.fileName}</p>
+                        <p className="text-xs text-gray-500">
+                          {orphan.files.length} {orphan.files.length === 1 ? 'archivo' : 'archivos'}
+                          {orphan.uploaded_at ? ` • subida el ${new Date(orphan.uploaded_at).toLocaleString('es-MX')}` : ''}
+                        </p>
+                      </div>
+                      <span className="text-xs text-gray-600 shrink-0">{formatFileSize(orphan.size)}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={loadReport} disabled={isLoading || isDeleting}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Analizar de nuevo
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isLoading || isDeleting || selectedOrphans.length === 0}
+          >
+            {isDeleting
+              ? 'Eliminando...'
+              : `Eliminar seleccionadas (${selectedOrphans.length} • ${formatFileSize(selectedSize)})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { AlertTriangle } from 'lucide-react';
+import { Project, ProjectSaveConflict } from '../types';
+import { ProjectFieldValue, getProjectFieldLabel } from './ProjectFieldValue';
+
+interface ProjectConflictDialogProps {
+  conflict: ProjectSaveConflict | null;
+  base: Project | null; // The project as it was when editing started
+  onResolve: (project: Project) => void; // Save the resolved project
+  onTakeServer: (project: Project) => void; // Discard local changes
+  onCancel: () => void;
+}
+
+type Choice = 'mine' | 'server';
+
+const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Shown when saving a project that someone else changed in the meantime.
+ * The editor can keep their version, take the server's, or pick field by field.
+ */
+export function ProjectConflictDialog({ conflict, base, onResolve, onTakeServer, onCancel }: ProjectConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  // Fields whose value differs between the two versions
+  const fields = useMemo(() => {
+    if (!conflict) return [];
+    const keys = new Set([...Object.keys(conflict.mine), ...Object.keys(conflict.current)]);
+    keys.delete('revision');
+    keys.delete('imageManifests'); // Rebuilt by the server from the image URLs
+    return Array.from(keys)
+      .filter((key) => !same(conflict.mine[key as keyof Project], conflict.current[key as keyof Project]))
+      .sort((a, b) => getProjectFieldLabel(a).localeCompare(getProjectFieldLabel(b), 'es'));
+  }, [conflict]);
+
+  // Default to the side that actually changed the field
+  useEffect(() => {
+    if (!conflict) return;
+    const defaults: Record<string, Choice> = {};
+    fields.forEach((field) => {
+      const key = field as keyof Project;
+      defaults[field] = base && same(conflict.mine[key], base[key]) ? 'server' : 'mine';
+    });
+    setChoices(defaults);
+  }, [conflict, fields, base]);
+
+  if (!conflict) return null;
+
+  // Changed on both sides since editing started
+  const isBothChanged = (field: string) => {
+    const key = field as keyof Project;
+    return Boolean(base) && !same(conflict.mine[key], base![key]) && !same(conflict.current[key], base![key]);
+  };
+
+  const buildResolved = (pick: (field: string) => Choice): Project => {
+    const resolved: Record<string, any> = { ...conflict.current };
+    fields.forEach((field) => {
+      if (pick(field) === 'mine') {
+        resolved[field] = conflict.mine[field as keyof Project];
+      }
+    });
+    // Save on top of the server copy
+    return { ...(resolved as Project), revision: conflict.current.revision ?? 0 };
+  };
+
+  return (
+    <Dialog open={Boolean(conflict)} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-amber-600">
+            <AlertTriangle className="w-5 h-5" />
+            Conflicto de edición
+          </DialogTitle>
+          <DialogDescription>
+            {conflict.mine.revision === undefined
+              ? `Ya existe un proyecto con el número de registro "${conflict.current.id}" ("${conflict.current.name}").`
+              : `Otra persona guardó "${conflict.current.name}" mientras lo editabas.`}{' '}
+            Elige qué versión conservar en cada campo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-gray-600 py-6 text-center">
+            Ambas versiones son idénticas. Puedes guardar sin perder nada.
+          </p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 border rounded-lg">
+            <div className="divide-y">
+              {fields.map((field) => (
+                <div key={field} className="p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <p className="text-xs font-medium text-gray-700">{getProjectFieldLabel(field)}</p>
+                    {isBothChanged(field) && (
+                      <Badge variant="outline" className="text-[10px] text-amber-700 border-amber-300">Ambos cambiaron</Badge>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs">
+                    {(['mine', 'server'] as Choice[]).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                        className={`text-left rounded p-2 border max-h-60 overflow-y-auto transition-colors ${
+                          choices[field] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <p className="text-[10px] uppercase text-gray-500 mb-1">
+                          {side === 'mine' ? 'Tu versión' : 'Versión del servidor'}
+                        </p>
+                        <ProjectFieldValue
+                          field={field}
+                          value={side === 'mine' ? conflict.mine[field as keyof Project] : conflict.current[field as keyof Project]}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button variant="outline" onClick={() => onTakeServer(conflict.current)}>
+            Usar versión del servidor
+          </Button>
+          <Button variant="outline" onClick={() => onResolve(buildResolved(() => 'mine'))}>
+            Conservar mis cambios
+          </Button>
+          <Button onClick={() => onResolve(buildResolved((field) => choices[field] || 'mine'))}>
+            Guardar combinación
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
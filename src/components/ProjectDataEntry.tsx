@@ -55,15 +55,12 @@ export function ProjectDataEntry({ onSave, onClose }: ProjectDataEntryProps) {
     
     const project: Omit<Project, 'id'> = {
       name: formData.name,
-      description: formData.description,
+      objective: formData.description,
       shortDescription: formData.shortDescription,
       organization: formData.organization,
-      location: {
-        state: formData.state,
-        city: formData.city,
-        x: coords.x,
-        y: coords.y
-      },
+      state: formData.state,
+      municipality: formData.city,
+      mapPosition: coords,
       category: formData.category as Project['category'],
       thematicArea: formData.thematicArea as Project['thematicArea'],
       budget: formData.budget,
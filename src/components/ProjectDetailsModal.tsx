@@ -3,7 +3,8 @@ import { X, MapPin, Users, Calendar, DollarSign } from 'lucide-react';
 import { Project } from '../types';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { categoryOptions, thematicAreaOptions } from '../data/projects';
+import { useProjects } from '../contexts/ProjectContext';
+import { getTermBadgeStyle } from '../utils/categoryColors';
 
 interface ProjectDetailsModalProps {
   project: Project;
@@ -11,8 +12,10 @@ interface ProjectDetailsModalProps {
 }
 
 export function ProjectDetailsModal({ project, onClose }: ProjectDetailsModalProps) {
-  const categoryLabel = categoryOptions.find(c => c.value === project.category)?.label || project.category;
-  const thematicAreaLabel = thematicAreaOptions.find(t => t.value === project.thematicArea)?.label || project.thematicArea;
+  const { getTerm } = useProjects();
+  const categoryTerm = getTerm('category', project.category);
+  const categoryLabel = categoryTerm?.label || project.category;
+  const thematicAreaLabel = getTerm('thematicArea', project.thematicArea)?.label || project.thematicArea;
   
   const statusColors = {
     activo: 'bg-green-100 text-green-800',
@@ -20,14 +23,6 @@ export function ProjectDetailsModal({ project, onClose }: ProjectDetailsModalPro
     finalizado: 'bg-gray-100 text-gray-800'
   };
 
-  const categoryColors = {
-    educacion: 'bg-blue-100 text-blue-800',
-    salud: 'bg-red-100 text-red-800',
-    'medio-ambiente': 'bg-green-100 text-green-800',
-    'desarrollo-social': 'bg-purple-100 text-purple-800',
-    tecnologia: 'bg-orange-100 text-orange-800'
-  };
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
       <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
@@ -52,7 +47,7 @@ export function ProjectDetailsModal({ project, onClose }: ProjectDetailsModalPro
               {project.status === 'activo' ? 'Activo' : 
                project.status === 'en-desarrollo' ? 'En Desarrollo' : 'Finalizado'}
             </Badge>
-            <Badge className={categoryColors[project.category] || 'bg-gray-100 text-gray-800'}>
+            <Badge className="text-white" style={getTermBadgeStyle(categoryTerm)}>
               {categoryLabel}
             </Badge>
             <Badge variant="outline">
@@ -63,7 +58,7 @@ export function ProjectDetailsModal({ project, onClose }: ProjectDetailsModalPro
           {/* Description */}
           <div className="mb-6">
             <h3 className="text-gray-900 mb-2">Descripción</h3>
-            <p className="text-gray-700">{project.description}</p>
+            <p className="text-gray-700">{project.objective}</p>
           </div>
 
           {/* Project Details Grid */}
@@ -72,7 +67,7 @@ export function ProjectDetailsModal({ project, onClose }: ProjectDetailsModalPro
               <MapPin className="h-5 w-5 text-gray-600" />
               <div>
                 <div className="text-sm text-gray-600">Ubicación</div>
-                <div className="text-gray-900">{project.location.city}, {project.location.state}</div>
+                <div className="text-gray-900">{project.municipality}, {project.state}</div>
               </div>
             </div>
 
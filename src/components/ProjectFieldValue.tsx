@@ -0,0 +1,37 @@
+import React from 'react';
+import { Project } from '../types';
+import { PROJECT_SCHEMA } from '../supabase/functions/_shared/projectSchema';
+
+// Spanish label for a project field, falling back to the raw key
+export const getProjectFieldLabel = (field: string) =>
+  PROJECT_SCHEMA[field as keyof Project]?.label || field;
+
+const isImageField = (field: string) => /imageurl$/i.test(field);
+
+/**
+ * Render the value of a project field (images as thumbnails, objects as JSON)
+ */
+export function ProjectFieldValue({ field, value }: { field: string; value: any }) {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-gray-400 italic">(vacío)</span>;
+  }
+
+  if (isImageField(field) && typeof value === 'string') {
+    return (
+      <div className="space-y-1">
+        <img src={value} alt="" className="w-full max-h-32 object-cover rounded border" />
+        <p className="text-[10px] text-gray-500 break-all">{value}</p>
+      </div>
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return <span>{value.join(', ')}</span>;
+  }
+
+  if (typeof value === 'object') {
+    return <pre className="text-[11px] whitespace-pre-wrap break-all">{JSON.stringify(value, null, 2)}</pre>;
+  }
+
+  return <span className="whitespace-pre-wrap break-words">{String(value)}</span>;
+}
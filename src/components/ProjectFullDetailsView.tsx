@@ -1,13 +1,14 @@
 import React from 'react';
 import { Project } from '../types';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getImageManifest, getImageDetails, getSectionImage } from '../supabase/functions/_shared/images';
 import { TypewriterText } from './TypewriterText';
 import { HighlightNumbers } from './HighlightNumbers';
 import { HighlightPhrases } from './HighlightPhrases';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { GlobalFooter } from './GlobalFooter';
 import { ShareButton } from './ShareButton';
-import { thematicAreaOptions } from '../data/projects';
+import { useProjects } from '../contexts/ProjectContext';
 
 interface ProjectFullDetailsViewProps {
   project: Project;
@@ -56,7 +57,8 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
     : [];
 
   // Get the full label for thematic area
-  const thematicAreaLabel = thematicAreaOptions.find(t => t.value === project.thematicArea)?.label || project.thematicArea;
+  const { getTerm } = useProjects();
+  const thematicAreaLabel = getTerm('thematicArea', project.thematicArea)?.label || project.thematicArea;
 
   return (
     <div className="bg-white w-full" data-name="Desktop - 18">
@@ -94,7 +96,8 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
               {project.imageUrl && (
                 <ImageWithFallback
                   src={project.imageUrl}
-                  alt={project.name}
+                  manifest={getImageManifest(project, project.imageUrl)}
+                  alt={getImageDetails(project, 'imageUrl').alt || project.name}
                   className="w-full h-full object-cover"
                 />
               )}
@@ -184,7 +187,9 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
                 {(project.beneficiariesImageUrl || project.imageUrl) && (
                   <ImageWithFallback
                     src={project.beneficiariesImageUrl || project.imageUrl}
-                    alt={`${project.name} - Beneficiarios`}
+                    manifest={getImageManifest(project, project.beneficiariesImageUrl || project.imageUrl)}
+                    sizes="(min-width: 1250px) 500px, 40vw"
+                    alt={getSectionImage(project, 'beneficiariesImageUrl').details.alt || `${project.name} - Beneficiarios`}
                     className="w-full h-full object-cover"
                   />
                 )}
@@ -208,7 +213,9 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
                 {(project.riskFactorsImageUrl || project.imageUrl) && (
                   <ImageWithFallback
                     src={project.riskFactorsImageUrl || project.imageUrl}
-                    alt={`${project.name} - Factores de Riesgo`}
+                    manifest={getImageManifest(project, project.riskFactorsImageUrl || project.imageUrl)}
+                    sizes="(min-width: 1250px) 500px, 40vw"
+                    alt={getSectionImage(project, 'riskFactorsImageUrl').details.alt || `${project.name} - Factores de Riesgo`}
                     className="w-full h-full object-cover"
                   />
                 )}
@@ -248,7 +255,9 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
                 {(project.methodologyImageUrl || project.imageUrl) && (
                   <ImageWithFallback
                     src={project.methodologyImageUrl || project.imageUrl}
-                    alt={`${project.name} - Metodología`}
+                    manifest={getImageManifest(project, project.methodologyImageUrl || project.imageUrl)}
+                    sizes="(min-width: 1250px) 500px, 40vw"
+                    alt={getSectionImage(project, 'methodologyImageUrl').details.alt || `${project.name} - Metodología`}
                     className="w-full h-full object-cover"
                   />
                 )}
@@ -272,7 +281,9 @@ export function ProjectFullDetailsView({ project, onClose }: ProjectFullDetailsV
                 {(project.resultsImageUrl || project.imageUrl) && (
                   <ImageWithFallback
                     src={project.resultsImageUrl || project.imageUrl}
-                    alt={`${project.name} - Resultados`}
+                    manifest={getImageManifest(project, project.resultsImageUrl || project.imageUrl)}
+                    sizes="(min-width: 1250px) 500px, 40vw"
+                    alt={getSectionImage(project, 'resultsImageUrl').details.alt || `${project.name} - Resultados`}
                     className="w-full h-full object-cover"
                   />
                 )}
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from './ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselPrevious,
+  CarouselNext,
+  type CarouselApi,
+} from './ui/carousel';
+import { Maximize2 } from 'lucide-react';
+import { GallerySection, Project } from '../types';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getGalleryImages, getImageManifest, GALLERY_SECTION_LABELS } from '../supabase/functions/_shared/images';
+
+interface ProjectGalleryProps {
+  project: Project;
+  section: GallerySection;
+  className?: string;
+}
+
+/**
+ * Swipeable photo carousel for a project section
+ * Clicking a photo opens it full screen; arrow keys, Home and End move between photos.
+ */
+export function ProjectGallery({ project, section, className = '' }: ProjectGalleryProps) {
+  const images = getGalleryImages(project, section);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [lightboxApi, setLightboxApi] = useState<CarouselApi>();
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  // Follow the lightbox position for the counter
+  useEffect(() => {
+    if (!lightboxApi) return;
+    const onSelect = () => setCurrentIndex(lightboxApi.selectedScrollSnap());
+    onSelect();
+    lightboxApi.on('select', onSelect);
+    return () => {
+      lightboxApi.off('select', onSelect);
+    };
+  }, [lightboxApi]);
+
+  // Keyboard navigation wherever focus is inside the lightbox
+  useEffect(() => {
+    if (lightboxIndex === null || !lightboxApi) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') lightboxApi.scrollPrev();
+      else if (e.key === 'ArrowRight') lightboxApi.scrollNext();
+      else if (e.key === 'Home') lightboxApi.scrollTo(0);
+      else if (e.key === 'End') lightboxApi.scrollTo(images.length - 1);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [lightboxIndex, lightboxApi, images.length]);
+
+  if (images.length === 0) return null;
+
+  const closeLightbox = () => {
+    setLightboxIndex(null);
+    setLightboxApi(undefined);
+  };
+
+  return (
+    <div className={className}>
+      <Carousel opts={{ align: 'start' }} aria-label={GALLERY_SECTION_LABELS[section]} className="relative">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={image.id} className={images.length > 1 ? 'basis-4/5 md:basis-1/2' : ''}>
+              <figure className="m-0">
+                <button
+                  type="button"
+                  onClick={() => setLightboxIndex(index)}
+                  className="group relative block w-full aspect-[4/3] overflow-hidden rounded-lg bg-gray-100"
+                  aria-label={`Ver en pantalla completa: ${image.alt || `foto ${index + 1}`}`}
+                >
+                  <ImageWithFallback
+                    src={image.url}
+                    manifest={getImageManifest(project, image.url)}
+                    sizes="(min-width: 768px) 25vw, 80vw"
+                    alt={image.alt}
+                    loading="lazy"
+                    className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                  />
+                  <span className="absolute top-2 right-2 rounded-full bg-black/50 p-1.5 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Maximize2 className="w-4 h-4" />
+                  </span>
+                </button>
+                {(image.caption || image.credit) && (
+                  <figcaption className="mt-2 text-xs text-[#0c4159]/80 font-['Arvo',_serif]">
+                    {image.caption}
+                    {image.credit && <span className="block text-[11px] text-[#0c4159]/50">{image.credit}</span>}
+                  </figcaption>
+                )}
+              </figure>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious type="button" className="left-2 top-[37%] bg-white/90" aria-label="Foto anterior" />
+            <CarouselNext type="button" className="right-2 top-[37%] bg-white/90" aria-label="Foto siguiente" />
+          </>
+        )}
+      </Carousel>
+
+      <Dialog open={lightboxIndex !== null} onOpenChange={(open) => !open && closeLightbox()}>
+        <DialogContent className="fixed inset-0 top-0 left-0 translate-x-0 translate-y-0 w-screen h-screen max-w-none sm:max-w-none rounded-none border-0 bg-black/95 p-4 sm:p-8 flex flex-col z-[1000] [&>button:last-child]:text-white">
+          <DialogTitle className="text-white text-sm font-['Arvo',_serif]">
+            {GALLERY_SECTION_LABELS[section]} · {currentIndex + 1} / {images.length}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Usa las flechas del teclado para cambiar de foto y Escape para cerrar.
+          </DialogDescription>
+
+          {lightboxIndex !== null && (
+            <Carousel
+              setApi={setLightboxApi}
+              opts={{ startIndex: lightboxIndex }}
+              className="flex-1 min-h-0"
+            >
+              <CarouselContent className="h-full">
+                {images.map((image) => (
+                  <CarouselItem key={image.id} className="h-[calc(100vh-8rem)]">
+                    <figure className="m-0 h-full flex flex-col items-center justify-center gap-3">
+                      <ImageWithFallback
+                        src={image.url}
+                        manifest={getImageManifest(project, image.url)}
+                        sizes="100vw"
+                        alt={image.alt}
+                        className="max-w-full min-h-0 flex-1 object-contain"
+                      />
+                      {(image.caption || image.credit) && (
+                        <figcaption className="text-center text-sm text-white/90 font-['Arvo',_serif]">
+                          {image.caption}
+                          {image.credit && <span className="block text-xs text-white/60">{image.credit}</span>}
+                        </figcaption>
+                      )}
+                    </figure>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              {images.length > 1 && (
+                <>
+                  <CarouselPrevious type="button" className="left-2 bg-white/90" aria-label="Foto anterior" />
+                  <CarouselNext type="button" className="right-2 bg-white/90" aria-label="Foto siguiente" />
+                </>
+              )}
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
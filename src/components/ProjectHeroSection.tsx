@@ -1,8 +1,11 @@
 import { X, Share2, MapPin, Building2, Calendar } from 'lucide-react';
 import { Project } from '../types';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getImageManifest, getImageDetails, getImageFramingStyle } from '../supabase/functions/_shared/images';
+import { useIsMobile } from './ui/use-mobile';
 import { ShareButton } from './ShareButton';
-import { getConvocatoriaBadgeClass } from '../utils/convocatoriaColors';
+import { useProjects } from '../contexts/ProjectContext';
+import { getConvocatoriaBadgeStyle } from '../utils/convocatoriaColors';
 
 interface ProjectHeroSectionProps {
   project: Project;
@@ -14,23 +17,41 @@ interface ProjectHeroSectionProps {
  * Features: Full-width image, project title, metadata, close button, share button
  */
 export function ProjectHeroSection({ project, onClose }: ProjectHeroSectionProps) {
+  const imageDetails = getImageDetails(project, 'imageUrl');
+  // Full screen: portrait on phones, landscape elsewhere
+  const isMobile = useIsMobile();
+  const { getConvocatoria } = useProjects();
+  const convocatoria = getConvocatoria(project.convocatoriaId);
+
   return (
     <div 
       className="relative w-full h-screen overflow-hidden"
-      style={{
-        background: `
-          linear-gradient(to bottom, 
-            rgba(12, 65, 89, 0.6) 0%, 
-            rgba(12, 65, 89, 0.8) 50%, 
-            rgba(12, 65, 89, 1) 100%
-          ),
-          url(${project.imageUrl})
-        `,
-        backgroundSize: 'cover',
-        backgroundPosition: 'center',
-        backgroundColor: '#0c4159'
-      }}
+      style={{ backgroundColor: '#0c4159' }}
     >
+      {/* Background image - an <img> so phones get a smaller responsive variant */}
+      {project.imageUrl && (
+        <ImageWithFallback
+          src={project.imageUrl}
+          manifest={getImageManifest(project, project.imageUrl)}
+          sizes="100vw"
+          alt={imageDetails.alt}
+          aria-hidden={imageDetails.alt ? undefined : true}
+          className="absolute inset-0 w-full h-full object-cover"
+          style={getImageFramingStyle(imageDetails.framing, isMobile ? '9:16' : '16:9')}
+        />
+      )}
+      <div
+        className="absolute inset-0"
+        style={{
+          background: `
+            linear-gradient(to bottom, 
+              rgba(12, 65, 89, 0.6) 0%, 
+              rgba(12, 65, 89, 0.8) 50%, 
+              rgba(12, 65, 89, 1) 100%
+            )
+          `
+        }}
+      />
       {/* Share Button now handled by parent component as fixed overlay - top right */}
 
       {/* Content - Centered - Mobile optimized padding - Always on top */}
@@ -113,10 +134,13 @@ export function ProjectHeroSection({ project, onClose }: ProjectHeroSectionProps
         </div>
 
         {/* Convocatoria Badge - centered below metadata */}
-        {project.convocatoria && (
+        {convocatoria && (
           <div className="mb-6 sm:mb-8 animate-hero-fade-in" style={{ animationDelay: '250ms' }}>
-            <span className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-['Arvo',_serif] ${getConvocatoriaBadgeClass(project.convocatoria)} shadow-lg`}>
-              📅 {project.convocatoria}
+            <span
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-['Arvo',_serif] shadow-lg"
+              style={getConvocatoriaBadgeStyle(convocatoria)}
+            >
+              📅 {convocatoria.title}
             </span>
           </div>
         )}
@@ -165,6 +189,18 @@ export function ProjectHeroSection({ project, onClose }: ProjectHeroSectionProps
         </div>
       </div>
 
+      {/* Caption and photo credit of the hero image */}
+      {project.imageUrl && (imageDetails.caption || imageDetails.credit) && (
+        <p
+          className="absolute bottom-3 right-4 max-w-md text-right text-[11px] text-white/70 font-['Arvo',_serif]"
+          style={{ zIndex: 20 }}
+        >
+          {imageDetails.caption}
+          {imageDetails.caption && imageDetails.credit && ' — '}
+          {imageDetails.credit}
+        </p>
+      )}
+
       {/* Bottom gradient fade to cards */}
       <div 
         className="absolute bottom-0 left-0 right-0 pointer-events-none"
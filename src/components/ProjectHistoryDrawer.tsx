@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/sheet';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { Project, ProjectRevisionSummary, ProjectFieldChange } from '../types';
+import { ProjectFieldValue, getProjectFieldLabel } from './ProjectFieldValue';
+import * as api from '../utils/api';
+
+interface ProjectHistoryDrawerProps {
+  projectId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (projectId: string, revision: number) => Promise<Project | null>;
+  onRestored?: (project: Project) => void;
+}
+
+const ACTION_LABELS: Record<ProjectRevisionSummary['action'], string> = {
+  create: 'Creación',
+  update: 'Edición',
+  import: 'Importación',
+  restore: 'Restauración',
+  status: 'Cambio de estado',
+  migration: 'Migración',
+  taxonomy: 'Cambio de taxonomía'
+};
+
+/**
+ * Side drawer with the revision history of a project
+ * Select a revision to see what it changed; older revisions can be restored.
+ */
+export function ProjectHistoryDrawer({ projectId, open, onOpenChange, onRestore, onRestored }: ProjectHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<ProjectRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [changes, setChanges] = useState<ProjectFieldChange[]>([]);
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open && projectId) {
+      loadRevisions();
+    } else {
+      setRevisions([]);
+      setSelectedRevision(null);
+      setChanges([]);
+    }
+  }, [open, projectId]);
+
+  const loadRevisions = async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    try {
+      const list = await api.fetchProjectRevisions(projectId);
+      setRevisions(list);
+      if (list.length > 0) {
+        selectRevision(list[0].revision);
+      }
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      setRevisions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectRevision = async (revision: number) => {
+    if (!projectId) return;
+
+    setSelectedRevision(revision);
+    setIsLoadingDiff(true);
+    try {
+      // Compare with the revision right before it (0 = empty project)
+      const diff = await api.fetchProjectRevisionDiff(projectId, revision - 1, revision);
+      setChanges(diff);
+    } catch (error) {
+      console.error('Error loading diff:', error);
+      setChanges([]);
+    } finally {
+      setIsLoadingDiff(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!projectId || selectedRevision === null) return;
+
+    if (!window.confirm(`¿Restaurar el proyecto a la revisión ${selectedRevision}? Se guardará como una nueva revisión.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    const restored = await onRestore(projectId, selectedRevision);
+    setIsRestoring(false);
+
+    if (restored) {
+      onRestored?.(restored);
+      await loadRevisions();
+    }
+  };
+
+  const latestRevision = revisions[0]?.revision;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Historial de cambios
+          </SheetTitle>
+          <SheetDescription>
+            Cada guardado crea una revisión inmutable. Selecciona una para ver qué cambió.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Cargando historial...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 px-4 py-12 text-center">
+            Este proyecto aún no tiene revisiones registradas.
+          </p>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-4 px-4 pb-4">
+            {/* Revision list */}
+            <ScrollArea className="w-56 shrink-0 border rounded-lg">
+              <div className="p-2 space-y-1">
+                {revisions.map((entry) => (
+                  <button
+                    key={entry.revision}
+                    onClick={() => selectRevision(entry.revision)}
+                    className={`w-full text-left p-2 rounded text-xs transition-colors ${
+                      selectedRevision === entry.revision ? 'bg-blue-50 border border-blue-300' : 'hover:bg-gray-50 border border-transparent'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-medium">#{entry.revision}</span>
+                      <Badge variant="outline" className="text-[10px]">{ACTION_LABELS[entry.action]}</Badge>
+                    </div>
+                    <p className="text-gray-600 truncate">{entry.author?.name || entry.author?.email || 'Sistema'}</p>
+                    <p className="text-gray-400">{new Date(entry.created_at).toLocaleString('es-MX')}</p>
+                    <p className="text-gray-500 mt-1">
+                      {entry.changedFields.length} campo{entry.changedFields.length !== 1 ? 's' : ''}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Diff */}
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-medium">
+                  Cambios en la revisión #{selectedRevision}
+                </h4>
+                {selectedRevision !== null && selectedRevision !== latestRevision && (
+                  <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {isRestoring ? 'Restaurando...' : 'Restaurar esta versión'}
+                  </Button>
+                )}
+              </div>
+
+              <ScrollArea className="flex-1 border rounded-lg">
+                {isLoadingDiff ? (
+                  <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  </div>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-gray-500 p-4">Sin cambios respecto a la revisión anterior.</p>
+                ) : (
+                  <div className="divide-y">
+                    {changes.map((change) => (
+                      <div key={change.field} className="p-3">
+                        <p className="text-xs font-medium text-gray-700 mb-2">{getProjectFieldLabel(change.field)}</p>
+                        <div className="grid grid-cols-2 gap-3 text-xs">
+                          <div className="bg-red-50 border border-red-100 rounded p-2 max-h-60 overflow-y-auto">
+                            <p className="text-[10px] uppercase text-red-600 mb-1">Antes</p>
+                            <ProjectFieldValue field={change.field} value={change.before} />
+                          </div>
+                          <div className="bg-green-50 border border-green-100 rounded p-2 max-h-60 overflow-y-auto">
+                            <p className="text-[10px] uppercase text-green-600 mb-1">Después</p>
+                            <ProjectFieldValue field={change.field} value={change.after} />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,8 +1,10 @@
 import React from 'react';
 import { Project } from '../types';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getImageManifest, getImageDetails, getImageFramingStyle } from '../supabase/functions/_shared/images';
 import { MapPin } from 'lucide-react';
-import { getConvocatoriaBadgeClass } from '../utils/convocatoriaColors';
+import { useProjects } from '../contexts/ProjectContext';
+import { getConvocatoriaBadgeStyle } from '../utils/convocatoriaColors';
 
 interface ProjectHoverTooltipProps {
   project: Project;
@@ -19,6 +21,9 @@ export function ProjectHoverTooltip({
   containerRect,
   onViewDetails
 }: ProjectHoverTooltipProps) {
+  const { getConvocatoria } = useProjects();
+  const convocatoria = getConvocatoria(project.convocatoriaId);
+
   if (!containerRect) return null;
 
   // markerPosition is in map space (2638x1822 coordinate system)
@@ -67,8 +72,11 @@ export function ProjectHoverTooltip({
           {project.imageUrl && (
             <ImageWithFallback
               src={project.imageUrl}
-              alt={project.name}
+              manifest={getImageManifest(project, project.imageUrl)}
+              sizes="320px"
+              alt={getImageDetails(project, 'imageUrl').alt || project.name}
               className="w-full h-full object-cover"
+              style={getImageFramingStyle(getImageDetails(project, 'imageUrl').framing, '4:3')}
             />
           )}
         </div>
@@ -86,10 +94,13 @@ export function ProjectHoverTooltip({
           </p>
           
           {/* Convocatoria Badge */}
-          {project.convocatoria && (
+          {convocatoria && (
             <div className="flex items-center gap-1.5">
-              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-white text-[10px] font-['Arvo',_serif] ${getConvocatoriaBadgeClass(project.convocatoria)}`}>
-                📅 {project.convocatoria}
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-white text-[10px] font-['Arvo',_serif]"
+                style={getConvocatoriaBadgeStyle(convocatoria)}
+              >
+                📅 {convocatoria.title}
               </span>
             </div>
           )}
@@ -99,8 +110,8 @@ export function ProjectHoverTooltip({
             <MapPin className="w-3 h-3 text-white text-opacity-70 flex-shrink-0 mt-0.5" />
             <div className="flex-1">
               <p className="font-['Arvo',_serif] text-[11px] leading-tight text-white text-opacity-70">
-                {project.location.state}
-                {project.location.city && `, ${project.location.city}`}
+                {project.state}
+                {project.municipality && `, ${project.municipality}`}
               </p>
               {project.isNationalProject ? (
                 <p className="font-['Arvo',_serif] text-[10px] leading-tight text-yellow-300 text-opacity-90 mt-1 font-bold">
@@ -2,11 +2,13 @@ import React, { memo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { X, MapPin, Target, Triangle } from 'lucide-react';
 import { Project } from '../types';
-import { categoryOptions, thematicAreaOptions } from '../data/projects';
 import { useProjects } from '../contexts/ProjectContext';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getImageManifest, getImageDetails, getImageFramingStyle } from '../supabase/functions/_shared/images';
 import { ShareButton } from './ShareButton';
-import { getConvocatoriaBadgeClass } from '../utils/convocatoriaColors';
+import { getConvocatoriaBadgeStyle } from '../utils/convocatoriaColors';
+import { getTermBadgeStyle } from '../utils/categoryColors';
+import { TaxonomyIcon } from '../utils/taxonomyIcons';
 
 interface ProjectPreviewPanelProps {
   project: Project;
@@ -34,9 +36,12 @@ const formatWebsiteUrl = (url: string): string => {
 // Memoize to prevent re-renders when hovering different projects
 export const ProjectPreviewPanel = memo(function ProjectPreviewPanel({ project, onClose }: ProjectPreviewPanelProps) {
   const navigate = useNavigate();
-  const { setShowFullDetails } = useProjects();
-  const categoryLabel = categoryOptions.find(c => c.value === project.category)?.label || project.category;
-  const thematicAreaLabel = thematicAreaOptions.find(t => t.value === project.thematicArea)?.label || project.thematicArea;
+  const { setShowFullDetails, getConvocatoria, getTerm } = useProjects();
+  const convocatoria = getConvocatoria(project.convocatoriaId);
+  const categoryTerm = getTerm('category', project.category);
+  const thematicAreaTerm = getTerm('thematicArea', project.thematicArea);
+  const categoryLabel = categoryTerm?.label || project.category;
+  const thematicAreaLabel = thematicAreaTerm?.label || project.thematicArea;
 
   const handleViewFullDetails = () => {
     navigate(`/proyecto/${project.id}`);
@@ -54,12 +59,15 @@ export const ProjectPreviewPanel = memo(function ProjectPreviewPanel({ project,
       {/* Side panel - Full screen on mobile, side panel on desktop */}
       <div className="w-full h-full sm:w-[420px] md:w-[480px] sm:h-auto bg-[#1a202c] text-white overflow-y-auto shadow-2xl flex flex-col animate-slide-in-right">
         {/* Hero Image Header - Responsive height */}
-        <div className="relative w-full h-[280px] sm:h-[280px] bg-gray-800 flex-shrink-0">
+        <div className="relative w-full h-[280px] sm:h-[280px] bg-gray-800 flex-shrink-0 overflow-hidden">
           {project.imageUrl && (
             <ImageWithFallback
               src={project.imageUrl}
-              alt={project.name}
+              manifest={getImageManifest(project, project.imageUrl)}
+              sizes="(min-width: 640px) 480px, 100vw"
+              alt={getImageDetails(project, 'imageUrl').alt || project.name}
               className="w-full h-full object-cover"
+              style={getImageFramingStyle(getImageDetails(project, 'imageUrl').framing, '16:9')}
             />
           )}
           
@@ -104,12 +112,20 @@ export const ProjectPreviewPanel = memo(function ProjectPreviewPanel({ project,
           {/* Tags Row - Mobile optimized */}
           <div className="flex flex-wrap gap-1.5 sm:gap-2 mb-4 sm:mb-5">
             {project.category && (
-              <span className="px-2.5 sm:px-3 py-1 sm:py-1.5 bg-[#374151] text-white text-xs rounded-full font-['Arvo',_serif]">
+              <span
+                className="inline-flex items-center gap-1 px-2.5 sm:px-3 py-1 sm:py-1.5 text-white text-xs rounded-full font-['Arvo',_serif]"
+                style={getTermBadgeStyle(categoryTerm)}
+              >
+                <TaxonomyIcon name={categoryTerm?.icon} className="w-3 h-3" />
                 {categoryLabel}
               </span>
             )}
             {project.thematicArea && (
-              <span className="px-2.5 sm:px-3 py-1 sm:py-1.5 bg-[#374151] text-white text-xs rounded-full font-['Arvo',_serif]">
+              <span
+                className="inline-flex items-center gap-1 px-2.5 sm:px-3 py-1 sm:py-1.5 text-white text-xs rounded-full font-['Arvo',_serif]"
+                style={getTermBadgeStyle(thematicAreaTerm)}
+              >
+                <TaxonomyIcon name={thematicAreaTerm?.icon} className="w-3 h-3" />
                 {thematicAreaLabel}
               </span>
             )}
@@ -121,10 +137,13 @@ export const ProjectPreviewPanel = memo(function ProjectPreviewPanel({ project,
           </div>
 
           {/* Convocatoria Badge */}
-          {project.convocatoria && (
+          {convocatoria && (
             <div className="mb-3 sm:mb-4">
-              <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-white text-xs font-['Arvo',_serif] ${getConvocatoriaBadgeClass(project.convocatoria)}`}>
-                📅 {project.convocatoria}
+              <span
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-white text-xs font-['Arvo',_serif]"
+                style={getConvocatoriaBadgeStyle(convocatoria)}
+              >
+                📅 {convocatoria.title}
               </span>
             </div>
           )}
@@ -158,16 +177,16 @@ export const ProjectPreviewPanel = memo(function ProjectPreviewPanel({ project,
           <div className="w-full h-px bg-white bg-opacity-20 mb-4 sm:mb-5" />
 
           {/* Location & Implementation States - Mobile optimized */}
-          {(project.location || project.implementationStates) && (
+          {(project.state || project.implementationStates) && (
             <div className="mb-4 sm:mb-5">
               {/* Main Location */}
-              {project.location && (
+              {project.state && (
                 <div className="flex items-start gap-2 mb-2">
                   <MapPin className="w-4 h-4 text-[#ff8012] flex-shrink-0 mt-0.5" />
                   <div>
                     <p className="font-['Arvo',_serif] text-xs sm:text-[13px] text-white text-opacity-90">
-                      {project.location.state}
-                      {project.location.city && `, ${project.location.city}`}
+                      {project.state}
+                      {project.municipality && `, ${project.municipality}`}
                     </p>
                   </div>
                 </div>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Project } from '../types';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { getSectionImage } from '../supabase/functions/_shared/images';
 import { TypewriterText } from './TypewriterText';
 import { HighlightNumbers } from './HighlightNumbers';
 import { HighlightPhrases } from './HighlightPhrases';
@@ -9,9 +10,10 @@ import { ShareButton } from './ShareButton';
 import { StackedCardSection } from './StackedCardSection';
 import { ProgressRail } from './ProgressRail';
 import { BreakoutImageSection } from './BreakoutImageSection';
+import { ProjectGallery } from './ProjectGallery';
 import { ProjectHeroSection } from './ProjectHeroSection';
 import { EvaluationCard } from './EvaluationCard';
-import { categoryOptions, thematicAreaOptions } from '../data/projects';
+import { useProjects } from '../contexts/ProjectContext';
 
 interface ProjectStackedCardsViewProps {
   project: Project;
@@ -62,13 +64,20 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
   ], []);
 
   // Memoize formatted category and thematic area
+  const { getTerm } = useProjects();
   const formattedCategory = useMemo(() => {
-    return categoryOptions.find(c => c.value === project.category)?.label || project.category;
-  }, [project.category]);
+    return getTerm('category', project.category)?.label || project.category;
+  }, [getTerm, project.category]);
 
   const formattedThematicArea = useMemo(() => {
-    return thematicAreaOptions.find(t => t.value === project.thematicArea)?.label || project.thematicArea;
-  }, [project.thematicArea]);
+    return getTerm('thematicArea', project.thematicArea)?.label || project.thematicArea;
+  }, [getTerm, project.thematicArea]);
+
+  // Section images fall back to the main image, with its alt text and credit
+  const beneficiariesImage = getSectionImage(project, 'beneficiariesImageUrl');
+  const riskFactorsImage = getSectionImage(project, 'riskFactorsImageUrl');
+  const methodologyImage = getSectionImage(project, 'methodologyImageUrl');
+  const resultsImage = getSectionImage(project, 'resultsImageUrl');
 
   // Optimized scroll handler using RAF for 60fps performance
   // SCROLL SYNC LOGIC:
@@ -465,6 +474,8 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                       <div className="text-[#0c4159] font-['Arvo',_serif]">{project.organization}</div>
                     </div>
                   </div>
+
+                  <ProjectGallery project={project} section="project" className="pt-8 border-t border-[#0c4159]/10" />
                 </div>
               </div>
             </StackedCardSection>
@@ -481,13 +492,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                 fullBleed={true}
               >
                 <BreakoutImageSection
-                  imageUrl={project.beneficiariesImageUrl || project.imageUrl}
-                  imageAlt="Beneficiarios del proyecto"
+                  imageUrl={beneficiariesImage.url}
+                  imageManifest={beneficiariesImage.manifest}
+                  imageAlt={beneficiariesImage.details.alt || "Beneficiarios del proyecto"}
+                  imageCaption={beneficiariesImage.details.caption}
+                  imageCredit={beneficiariesImage.details.credit}
+                  imageFraming={beneficiariesImage.details.framing}
                   imagePosition="right"
                   mobileTitle="Beneficiarios"
                   title="Beneficiarios"
                 >
                   <HighlightNumbers text={project.beneficiaries} />
+                  <ProjectGallery project={project} section="beneficiaries" className="mt-8" />
                 </BreakoutImageSection>
               </StackedCardSection>
             </div>
@@ -505,13 +521,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                   fullBleed={true}
                 >
                   <BreakoutImageSection
-                    imageUrl={project.riskFactorsImageUrl || project.imageUrl}
-                    imageAlt="Factores de riesgo"
+                    imageUrl={riskFactorsImage.url}
+                    imageManifest={riskFactorsImage.manifest}
+                    imageAlt={riskFactorsImage.details.alt || "Factores de riesgo"}
+                    imageCaption={riskFactorsImage.details.caption}
+                    imageCredit={riskFactorsImage.details.credit}
+                    imageFraming={riskFactorsImage.details.framing}
                     imageSide="right"
                     mobileTitle="Factores de Riesgo"
                     title="Factores de Riesgo"
                   >
                     <HighlightPhrases text={project.riskFactors} />
+                    <ProjectGallery project={project} section="riskFactors" className="mt-8" />
                   </BreakoutImageSection>
                 </StackedCardSection>
               </div>
@@ -530,13 +551,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                   fullBleed={true}
                 >
                   <BreakoutImageSection
-                    imageUrl={project.methodologyImageUrl || project.imageUrl}
-                    imageAlt="Metodología del proyecto"
+                    imageUrl={methodologyImage.url}
+                    imageManifest={methodologyImage.manifest}
+                    imageAlt={methodologyImage.details.alt || "Metodología del proyecto"}
+                    imageCaption={methodologyImage.details.caption}
+                    imageCredit={methodologyImage.details.credit}
+                    imageFraming={methodologyImage.details.framing}
                     imageSide="left"
                     mobileTitle="Metodología"
                     title="Metodología"
                   >
                     <HighlightPhrases text={project.methodology} />
+                    <ProjectGallery project={project} section="methodology" className="mt-8" />
                   </BreakoutImageSection>
                 </StackedCardSection>
               </div>
@@ -554,13 +580,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                 fullBleed={true}
               >
                 <BreakoutImageSection
-                  imageUrl={project.resultsImageUrl || project.imageUrl}
-                  imageAlt="Resultados del proyecto"
+                  imageUrl={resultsImage.url}
+                  imageManifest={resultsImage.manifest}
+                  imageAlt={resultsImage.details.alt || "Resultados del proyecto"}
+                  imageCaption={resultsImage.details.caption}
+                  imageCredit={resultsImage.details.credit}
+                  imageFraming={resultsImage.details.framing}
                   imageSide="right"
                   mobileTitle="Resultados Principales"
                   title="Resultados"
                 >
                   <HighlightNumbers text={project.results} />
+                  <ProjectGallery project={project} section="results" className="mt-8" />
                 </BreakoutImageSection>
               </StackedCardSection>
             </div>
@@ -652,6 +683,8 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                       <div className="text-[#0c4159] font-['Arvo',_serif]">{project.organization}</div>
                     </div>
                   </div>
+
+                  <ProjectGallery project={project} section="project" className="pt-8 border-t border-[#0c4159]/10" />
                 </div>
               </div>
             </StackedCardSection>
@@ -672,13 +705,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
               fullBleed={true}
             >
               <BreakoutImageSection
-                imageUrl={project.beneficiariesImageUrl || project.imageUrl}
-                imageAlt="Beneficiarios del proyecto"
+                imageUrl={beneficiariesImage.url}
+                imageManifest={beneficiariesImage.manifest}
+                imageAlt={beneficiariesImage.details.alt || "Beneficiarios del proyecto"}
+                imageCaption={beneficiariesImage.details.caption}
+                imageCredit={beneficiariesImage.details.credit}
+                imageFraming={beneficiariesImage.details.framing}
                 imagePosition="right"
                 mobileTitle="Beneficiarios"
                 title="Beneficiarios"
               >
                 <HighlightNumbers text={project.beneficiaries} />
+                <ProjectGallery project={project} section="beneficiaries" className="mt-8" />
               </BreakoutImageSection>
             </StackedCardSection>
           </div>
@@ -699,13 +737,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                 fullBleed={true}
               >
                 <BreakoutImageSection
-                  imageUrl={project.riskFactorsImageUrl || project.imageUrl}
-                  imageAlt="Factores de riesgo"
+                  imageUrl={riskFactorsImage.url}
+                  imageManifest={riskFactorsImage.manifest}
+                  imageAlt={riskFactorsImage.details.alt || "Factores de riesgo"}
+                  imageCaption={riskFactorsImage.details.caption}
+                  imageCredit={riskFactorsImage.details.credit}
+                  imageFraming={riskFactorsImage.details.framing}
                   imageSide="right"
                   mobileTitle="Factores de Riesgo"
                   title="Factores de Riesgo"
                 >
                   <HighlightPhrases text={project.riskFactors} />
+                  <ProjectGallery project={project} section="riskFactors" className="mt-8" />
                 </BreakoutImageSection>
               </StackedCardSection>
             </div>
@@ -727,13 +770,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
                 fullBleed={true}
               >
                 <BreakoutImageSection
-                  imageUrl={project.methodologyImageUrl || project.imageUrl}
-                  imageAlt="Metodología del proyecto"
+                  imageUrl={methodologyImage.url}
+                  imageManifest={methodologyImage.manifest}
+                  imageAlt={methodologyImage.details.alt || "Metodología del proyecto"}
+                  imageCaption={methodologyImage.details.caption}
+                  imageCredit={methodologyImage.details.credit}
+                  imageFraming={methodologyImage.details.framing}
                   imageSide="left"
                   mobileTitle="Metodología"
                   title="Metodología"
                 >
                   <HighlightPhrases text={project.methodology} />
+                  <ProjectGallery project={project} section="methodology" className="mt-8" />
                 </BreakoutImageSection>
               </StackedCardSection>
             </div>
@@ -754,13 +802,18 @@ export function ProjectStackedCardsView({ project, onClose }: ProjectStackedCard
               fullBleed={true}
             >
               <BreakoutImageSection
-                imageUrl={project.resultsImageUrl || project.imageUrl}
-                imageAlt="Resultados del proyecto"
+                imageUrl={resultsImage.url}
+                imageManifest={resultsImage.manifest}
+                imageAlt={resultsImage.details.alt || "Resultados del proyecto"}
+                imageCaption={resultsImage.details.caption}
+                imageCredit={resultsImage.details.credit}
+                imageFraming={resultsImage.details.framing}
                 imageSide="right"
                 mobileTitle="Resultados Principales"
                 title="Resultados"
               >
                 <HighlightNumbers text={project.results} />
+                <ProjectGallery project={project} section="results" className="mt-8" />
               </BreakoutImageSection>
             </StackedCardSection>
           </div>
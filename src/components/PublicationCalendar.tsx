@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { Calendar } from './ui/calendar';
+import { Badge } from './ui/badge';
+import { Project } from '../types';
+import { PublicationStatusBadge } from './PublicationStatusBadge';
+
+interface PublicationCalendarProps {
+  projects: Project[];
+  onSelectProject: (project: Project) => void;
+}
+
+interface ScheduleEvent {
+  project: Project;
+  kind: 'publish' | 'unpublish';
+  at: Date;
+}
+
+// Spanish month and weekday names without pulling in a date-fns locale
+const FORMATTERS = {
+  formatCaption: (date: Date) => date.toLocaleDateString('es-MX', { month: 'long', year: 'numeric' }),
+  formatWeekdayName: (date: Date) => date.toLocaleDateString('es-MX', { weekday: 'narrow' }),
+};
+
+const dayKey = (date: Date) => date.toDateString();
+
+/**
+ * Month view of scheduled publish / unpublish dates; pick a day to see its projects
+ */
+export function PublicationCalendar({ projects, onSelectProject }: PublicationCalendarProps) {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => new Date());
+
+  const events = useMemo(() => {
+    const list: ScheduleEvent[] = [];
+    projects.forEach((project) => {
+      if (project.publishAt) list.push({ project, kind: 'publish', at: new Date(project.publishAt) });
+      if (project.unpublishAt) list.push({ project, kind: 'unpublish', at: new Date(project.unpublishAt) });
+    });
+    return list
+      .filter((event) => !Number.isNaN(event.at.getTime()))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+  }, [projects]);
+
+  const modifiers = useMemo(() => ({
+    publish: events.filter((e) => e.kind === 'publish').map((e) => e.at),
+    unpublish: events.filter((e) => e.kind === 'unpublish').map((e) => e.at),
+  }), [events]);
+
+  const dayEvents = selectedDay ? events.filter((e) => dayKey(e.at) === dayKey(selectedDay)) : [];
+
+  return (
+    <div className="border rounded-lg p-3 mb-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={modifiers}
+          modifiersClassNames={{
+            publish: 'font-bold text-green-700 underline decoration-green-500 decoration-2',
+            unpublish: 'font-bold text-red-600 underline decoration-red-400 decoration-2',
+          }}
+          formatters={FORMATTERS}
+        />
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium mb-2">
+            {selectedDay
+              ? selectedDay.toLocaleDateString('es-MX', { weekday: 'long', day: 'numeric', month: 'long' })
+              : 'Selecciona un día'}
+          </p>
+          {dayEvents.length === 0 ? (
+            <p className="text-xs text-gray-500">Sin publicaciones programadas este día.</p>
+          ) : (
+            <ul className="space-y-2">
+              {dayEvents.map((event) => (
+                <li key={`${event.project.id}-${event.kind}`}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectProject(event.project)}
+                    className="w-full text-left rounded border p-2 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center gap-1 mb-1">
+                      <Badge
+                        variant="outline"
+                        className={`text-xs ${event.kind === 'publish' ? 'text-green-700 border-green-300' : 'text-red-600 border-red-300'}`}
+                      >
+                        {event.kind === 'publish' ? 'Publica' : 'Retira'}{' '}
+                        {event.at.toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' })}
+                      </Badge>
+                      <PublicationStatusBadge project={event.project} />
+                    </div>
+                    <p className="text-xs font-medium truncate">{event.project.name}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-[11px] text-gray-400 mt-3">
+            <span className="text-green-700 font-bold">Verde</span>: publicación ·{' '}
+            <span className="text-red-600 font-bold">Rojo</span>: retiro
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
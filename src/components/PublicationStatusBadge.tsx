@@ -0,0 +1,42 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import { Project } from '../types';
+import {
+  getPublicationStatus,
+  getScheduleState,
+  PUBLICATION_STATUS_LABELS
+} from '../supabase/functions/_shared/publication';
+
+const STATUS_STYLES = {
+  draft: 'bg-gray-100 text-gray-700 border-gray-300',
+  in_review: 'bg-amber-50 text-amber-700 border-amber-300',
+  published: 'bg-green-50 text-green-700 border-green-300',
+  archived: 'bg-slate-100 text-slate-500 border-slate-300',
+};
+
+const SCHEDULE_LABELS = {
+  scheduled: 'Programado',
+  expired: 'Expirado',
+};
+
+/**
+ * Colored badge with the publication status of a project,
+ * plus a second one when its publishAt / unpublishAt window hides it
+ */
+export function PublicationStatusBadge({ project }: { project: Pick<Project, 'publicationStatus' | 'publishAt' | 'unpublishAt'> }) {
+  const status = getPublicationStatus(project);
+  const schedule = getScheduleState(project);
+
+  return (
+    <>
+      <Badge variant="outline" className={`text-xs ${STATUS_STYLES[status]}`}>
+        {PUBLICATION_STATUS_LABELS[status]}
+      </Badge>
+      {schedule !== 'live' && (
+        <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-300">
+          {SCHEDULE_LABELS[schedule]}
+        </Badge>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Eye, ImageOff } from 'lucide-react';
+import { Project, PublicationStatus } from '../types';
+import {
+  getAvailableTransitions,
+  getPublicationStatus,
+  isPubliclyVisible,
+  PublicationTransition
+} from '../supabase/functions/_shared/publication';
+import { getMissingImageDetails, describeMissingImageDetails } from '../supabase/functions/_shared/images';
+
+interface PublicationStatusControlsProps {
+  project: Project;
+  isSuperAdmin: boolean;
+  onChangeStatus: (projectId: string, status: PublicationStatus, comment?: string) => Promise<Project | null>;
+}
+
+/**
+ * Workflow buttons for a project (submit, approve, request changes...)
+ * plus a "preview as public" link while the public cannot see it
+ */
+export function PublicationStatusControls({ project, isSuperAdmin, onChangeStatus }: PublicationStatusControlsProps) {
+  const [pending, setPending] = useState<PublicationTransition | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const status = getPublicationStatus(project);
+  const transitions = getAvailableTransitions(status, isSuperAdmin);
+
+  // Publishing needs alt text, caption and credit on every image (the server checks too)
+  const missingImageDetails = describeMissingImageDetails(getMissingImageDetails(project));
+  const needsImageDetails = missingImageDetails.length > 0 && transitions.some((t) => t.to === 'published' || t.to === 'in_review');
+
+  const runTransition = async (transition: PublicationTransition, text?: string) => {
+    setIsSubmitting(true);
+    const updated = await onChangeStatus(project.id, transition.to, text);
+    setIsSubmitting(false);
+    if (updated) {
+      setPending(null);
+      setComment('');
+    }
+  };
+
+  const handleClick = (transition: PublicationTransition) => {
+    if (transition.requiresComment) {
+      setPending(transition);
+    } else {
+      runTransition(transition);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-1">
+        {transitions.map((transition) => (
+          <Button
+            key={transition.to}
+            type="button"
+            size="sm"
+            variant={transition.to === 'published' ? 'default' : 'outline'}
+            className="h-7 text-xs"
+            disabled={isSubmitting || (transition.to === 'published' && missingImageDetails.length > 0)}
+            onClick={() => handleClick(transition)}
+          >
+            {transition.label}
+          </Button>
+        ))}
+        {needsImageDetails && (
+          <span
+            className="inline-flex items-center gap-1 text-[11px] text-amber-700"
+            title={missingImageDetails.join('\n')}
+          >
+            <ImageOff className="w-3 h-3" />
+            Faltan datos de imágenes
+          </span>
+        )}
+        {!isPubliclyVisible(project) && (
+          <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" asChild>
+            <a href={`/proyecto/${project.id}?preview=1`} target="_blank" rel="noopener noreferrer">
+              <Eye className="w-3 h-3 mr-1" />
+              Vista previa
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={Boolean(pending)} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.label}</DialogTitle>
+            <DialogDescription>
+              "{project.name}" volverá a borrador. Explica qué debe corregirse antes de publicarlo.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Cambios solicitados..."
+            rows={4}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setPending(null)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={!comment.trim() || isSubmitting}
+              onClick={() => pending && runTransition(pending, comment.trim())}
+            >
+              Enviar comentario
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
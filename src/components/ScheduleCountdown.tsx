@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { Project } from '../types';
+import { getScheduleState, isPublished } from '../supabase/functions/_shared/publication';
+
+interface ScheduleCountdownProps {
+  project: Pick<Project, 'publicationStatus' | 'publishAt' | 'unpublishAt'>;
+}
+
+// "2d 03h 14m 05s"
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${days > 0 ? `${days}d ` : ''}${pad(hours)}h ${pad(minutes)}m ${pad(seconds)}s`;
+}
+
+/**
+ * Live countdown to the next scheduled publish / unpublish of a project
+ */
+export function ScheduleCountdown({ project }: ScheduleCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const schedule = getScheduleState(project, now);
+  const published = isPublished(project);
+
+  if (schedule === 'scheduled') {
+    return (
+      <div className="flex items-center gap-2 text-sm bg-blue-50 border border-blue-200 text-blue-800 rounded-lg p-2">
+        <Clock className="w-4 h-4 flex-shrink-0" />
+        <span>
+          {published ? 'Se publica en ' : 'Programado para dentro de '}
+          <strong className="font-mono">{formatRemaining(Date.parse(project.publishAt!) - now)}</strong>
+          {!published && ' (requiere aprobación para mostrarse)'}
+        </span>
+      </div>
+    );
+  }
+
+  if (schedule === 'live' && project.unpublishAt) {
+    return (
+      <div className="flex items-center gap-2 text-sm bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-2">
+        <Clock className="w-4 h-4 flex-shrink-0" />
+        <span>
+          Se retira en <strong className="font-mono">{formatRemaining(Date.parse(project.unpublishAt) - now)}</strong>
+        </span>
+      </div>
+    );
+  }
+
+  if (schedule === 'expired') {
+    return (
+      <div className="flex items-center gap-2 text-sm bg-gray-50 border border-gray-200 text-gray-600 rounded-lg p-2">
+        <Clock className="w-4 h-4 flex-shrink-0" />
+        <span>Retirado del sitio público el {new Date(project.unpublishAt!).toLocaleString('es-MX')}</span>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -7,12 +7,14 @@ import { Badge } from './ui/badge';
 import { FilterDropdown } from './FilterDropdown';
 import { SearchSuggestions } from './SearchSuggestions';
 import { useProjects } from '../contexts/ProjectContext';
-import { categoryOptions, thematicAreaOptions, locationOptions } from '../data/projects';
+import { locationOptions } from '../data/projects';
 import { Project } from '../types';
 
 export const SearchFilterBar = memo(function SearchFilterBar() {
   const navigate = useNavigate();
-  const { filters, setFilters, resetFilters, filteredProjects, setSelectedProject } = useProjects();
+  const { filters, setFilters, resetFilters, filteredProjects, setSelectedProject, taxonomies, getConvocatoria } = useProjects();
+  const categoryOptions = taxonomies.category.map(term => ({ value: term.value, label: term.label }));
+  const thematicAreaOptions = taxonomies.thematicArea.map(term => ({ value: term.value, label: term.label }));
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [searchInputFocused, setSearchInputFocused] = useState(false);
   const searchContainerRef = useRef<HTMLDivElement>(null);
@@ -28,7 +30,13 @@ export const SearchFilterBar = memo(function SearchFilterBar() {
   const hasActiveFilters = filters.searchQuery || 
     filters.selectedCategories.length > 0 || 
     filters.selectedThematicAreas.length > 0 || 
-    filters.selectedLocations.length > 0;
+    filters.selectedLocations.length > 0 ||
+    filters.selectedConvocatorias.length > 0;
+
+  // Convocatorias have no dropdown; they come from links (e.g. the statistics page)
+  const convocatoriaTitles = filters.selectedConvocatorias
+    .map(id => getConvocatoria(id)?.title || id)
+    .join(', ');
 
   // Handle clicking outside to close suggestions
   useEffect(() => {
@@ -72,7 +80,10 @@ export const SearchFilterBar = memo(function SearchFilterBar() {
       {/* Active filters summary - Mobile optimized */}
       {hasActiveFilters && (
         <div className="bg-black bg-opacity-20 px-2 sm:px-4 py-1.5 sm:py-2 flex items-center justify-center gap-2 text-white text-xs sm:text-sm animate-fade-in">
-          <span className="truncate">Mostrando {filteredProjects.length} propuesta{filteredProjects.length !== 1 ? 's' : ''}</span>
+          <span className="truncate">
+            Mostrando {filteredProjects.length} propuesta{filteredProjects.length !== 1 ? 's' : ''}
+            {convocatoriaTitles && ` de ${convocatoriaTitles}`}
+          </span>
           <Button
             variant="ghost"
             size="sm"
@@ -49,15 +49,6 @@ export function SearchSuggestions({
       matchType = 'name';
     }
 
-    // Description match
-    const descriptionLower = (project.description || '').toLowerCase();
-    if (descriptionLower.includes(queryLower)) {
-      score += 60;
-      if (matchType === 'name' && score < 80) {
-        matchType = 'description';
-      }
-    }
-
     // Objective match
     const objectiveLower = (project.objective || '').toLowerCase();
     if (objectiveLower.includes(queryLower)) {
@@ -298,7 +289,7 @@ export function SearchSuggestions({
                 </div>
                 
                 <p className="text-sm text-gray-600 line-clamp-2 mb-2">
-                  {highlightMatch(project.description, searchQuery, 120)}
+                  {highlightMatch(project.objective, searchQuery, 120)}
                 </p>
                 
                 <div className="flex items-center gap-4 text-xs text-gray-500">
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/sheet';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Project, TrashedProject } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import * as api from '../utils/api';
+import { toast } from 'sonner';
+
+interface TrashBinDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (projectId: string) => Promise<Project | null>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Side drawer listing trashed projects ("Papelera")
+ * Editors can restore; only super admins can delete permanently or empty the trash.
+ */
+export function TrashBinDrawer({ open, onOpenChange, onRestore }: TrashBinDrawerProps) {
+  const { isSuperAdmin } = useAuth();
+  const [items, setItems] = useState<TrashedProject[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadTrash();
+    }
+  }, [open]);
+
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      const trash = await api.fetchTrash();
+      setItems(trash.items);
+      setRetentionDays(trash.retentionDays);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast.error('No se pudo cargar la papelera');
+      setItems([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashedProject) => {
+    setBusyId(item.id);
+    const restored = await onRestore(item.id);
+    setBusyId(null);
+
+    if (restored) {
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    }
+  };
+
+  const handleDeleteForever = async (item: TrashedProject) => {
+    if (!window.confirm(`¿Eliminar definitivamente "${item.project.name}"? Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setBusyId(item.id);
+    try {
+      await api.deleteFromTrash(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success('Proyecto eliminado definitivamente');
+    } catch (error) {
+      console.error('Error deleting project from trash:', error);
+      toast.error('No se pudo eliminar el proyecto');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!window.confirm(`¿Vaciar la papelera? Se eliminarán definitivamente ${items.length} proyectos. Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setIsPurging(true);
+    try {
+      const count = await api.purgeTrash();
+      setItems([]);
+      toast.success(`${count} proyectos eliminados definitivamente`);
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      toast.error('No se pudo vaciar la papelera');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  // Days left before the automatic purge
+  const getDaysLeft = (item: TrashedProject) =>
+    Math.max(0, Math.ceil((new Date(item.purge_after).getTime() - Date.now()) / DAY_MS));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5" />
+            Papelera
+          </SheetTitle>
+          <SheetDescription>
+            Los proyectos eliminados no aparecen en el mapa público
+            {retentionDays ? ` y se borran definitivamente tras ${retentionDays} días` : ''}.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isSuperAdmin && items.length > 0 && (
+          <div className="px-4">
+            <Button variant="destructive" size="sm" onClick={handlePurge} disabled={isPurging} className="text-xs">
+              {isPurging ? 'Vaciando...' : `Vaciar papelera (${items.length})`}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Cargando papelera...
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500 px-4 py-12 text-center">
+            La papelera está vacía.
+          </p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.id} className="border rounded-lg p-3 text-sm">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.project.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.id} • {item.project.organization}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Eliminado el {new Date(item.deleted_at).toLocaleString('es-MX')}
+                        {item.deleted_by ? ` por ${item.deleted_by.name || item.deleted_by.email}` : ''}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="text-[10px] shrink-0">
+                      {getDaysLeft(item)} días restantes
+                    </Badge>
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId === item.id}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restaurar
+                    </Button>
+                    {isSuperAdmin && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteForever(item)}
+                        disabled={busyId === item.id}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Eliminar definitivamente
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
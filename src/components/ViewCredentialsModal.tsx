@@ -1,16 +1,22 @@
 import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
 import { Button } from './ui/button';
-import { Copy, Eye, EyeOff, Mail, Lock, User, Calendar, RefreshCw } from 'lucide-react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { Copy, Mail, Link, User, Calendar, RefreshCw } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { getAccessToken } from '../utils/supabase/client';
 import { copyToClipboard as copyTextToClipboard } from '../utils/clipboard';
+import { buildAcceptInviteLink } from '../utils/adminLinks';
 
 interface Credentials {
   email: string;
-  password: string;
   name: string;
   role: string;
+  status: string;
   created_at: string;
+  pendingLink: {
+    purpose: 'invite' | 'reset';
+    expires_at: string;
+  } | null;
 }
 
 interface ViewCredentialsModalProps {
@@ -22,9 +28,10 @@ interface ViewCredentialsModalProps {
 }
 
 export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, onPasswordReset }: ViewCredentialsModalProps) {
-  const [showPassword, setShowPassword] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [isResetting, setIsResetting] = useState(false);
+  const [resetLink, setResetLink] = useState('');
+  const [resetExpiresAt, setResetExpiresAt] = useState('');
 
   const copyToClipboard = async (text: string, field: string) => {
     const success = await copyTextToClipboard(text);
@@ -36,16 +43,17 @@ export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, on
 
   const handleResetPassword = async () => {
     if (!adminId) return;
-    
+
     setIsResetting(true);
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/reset-password`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           },
           body: JSON.stringify({ adminId })
         }
@@ -54,43 +62,45 @@ export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, on
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Error al resetear contraseña');
+        throw new Error(data.error || 'Error al generar el enlace');
       }
 
-      // Update credentials with new password
-      if (credentials) {
-        credentials.password = data.newPassword;
-        setShowPassword(true);
-      }
+      // The link is only shown once - the server keeps just its hash
+      setResetLink(buildAcceptInviteLink(data.resetToken));
+      setResetExpiresAt(data.expiresAt);
 
       // Call the parent's callback to refresh admin list
       if (onPasswordReset) {
         onPasswordReset();
       }
-
-      setCopiedField('reset-success');
-      setTimeout(() => setCopiedField(null), 3000);
     } catch (error) {
       console.error('Error resetting password:', error);
-      alert('Error al resetear la contraseña: ' + (error instanceof Error ? error.message : 'Error desconocido'));
+      alert('Error al generar el enlace: ' + (error instanceof Error ? error.message : 'Error desconocido'));
     } finally {
       setIsResetting(false);
     }
   };
 
+  const handleClose = () => {
+    setResetLink('');
+    setResetExpiresAt('');
+    setCopiedField(null);
+    onClose();
+  };
+
   if (!credentials) return null;
 
-  const isPasswordAvailable = credentials.password && !credentials.password.includes('No disponible');
+  const isInvited = credentials.status === 'invited';
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="font-['Arvo',_serif] text-[#0c4159]">
-            Credenciales del Administrador
+            Cuenta del Administrador
           </DialogTitle>
           <DialogDescription className="text-sm text-gray-500">
-            Aquí puedes ver y copiar las credenciales del administrador.
+            Las contraseñas no se almacenan. Genera un enlace de un solo uso para que el administrador defina una nueva.
           </DialogDescription>
         </DialogHeader>
 
@@ -125,19 +135,36 @@ export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, on
             </Button>
           </div>
 
-          {/* Password */}
+          {/* One-time link */}
           <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg">
-            <Lock className="w-5 h-5 text-gray-600 mt-0.5" />
+            <Link className="w-5 h-5 text-gray-600 mt-0.5" />
             <div className="flex-1 min-w-0">
-              <p className="text-xs text-gray-600 mb-1">Contraseña</p>
-              <p className="text-sm font-medium text-gray-900 break-words font-mono">
-                {showPassword ? credentials.password : '••••••••••••'}
+              <p className="text-xs text-gray-600 mb-1">
+                {isInvited ? 'Invitación' : 'Contraseña'}
               </p>
-              {!isPasswordAvailable && (
-                <div className="mt-2">
-                  <p className="text-xs text-amber-600 mb-2">
-                    Este usuario ya existía en el sistema
+              {resetLink ? (
+                <>
+                  <p className="text-xs font-medium text-gray-900 break-all font-mono">
+                    {resetLink}
+                  </p>
+                  <p className="text-xs text-amber-600 mt-2">
+                    Copia este enlace ahora. Es de un solo uso y expira el{' '}
+                    {new Date(resetExpiresAt).toLocaleString('es-MX')}.
                   </p>
+                </>
+              ) : (
+                <>
+                  {credentials.pendingLink ? (
+                    <p className="text-xs text-amber-600 mb-2">
+                      Hay un enlace pendiente que expira el{' '}
+                      {new Date(credentials.pendingLink.expires_at).toLocaleString('es-MX')}.
+                      Generar uno nuevo invalida el anterior.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500 mb-2">
+                      {isInvited ? 'La invitación expiró sin ser aceptada.' : 'Sin enlaces pendientes.'}
+                    </p>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -153,35 +180,24 @@ export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, on
                     ) : (
                       <>
                         <RefreshCw className="w-3 h-3 mr-1" />
-                        Generar Nueva Contraseña
+                        {isInvited ? 'Generar Nueva Invitación' : 'Generar Enlace de Restablecimiento'}
                       </>
                     )}
                   </Button>
-                </div>
+                </>
               )}
             </div>
-            <div className="flex gap-1 shrink-0">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowPassword(!showPassword)}
-              >
-                {showPassword ? (
-                  <EyeOff className="w-4 h-4" />
-                ) : (
-                  <Eye className="w-4 h-4" />
-                )}
-              </Button>
-              {isPasswordAvailable && (
+            {resetLink && (
+              <div className="flex gap-1 shrink-0">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => copyToClipboard(credentials.password, 'password')}
+                  onClick={() => copyToClipboard(resetLink, 'link')}
                 >
                   <Copy className="w-4 h-4" />
                 </Button>
-              )}
-            </div>
+              </div>
+            )}
           </div>
 
           {/* Role */}
@@ -210,24 +226,19 @@ export function ViewCredentialsModal({ isOpen, onClose, credentials, adminId, on
           </div>
 
           {/* Copy feedback */}
-          {copiedField && copiedField !== 'reset-success' && (
-            <div className="flex items-center justify-center gap-2 p-2 bg-green-50 text-green-800 rounded text-sm">
-              ✓ {copiedField === 'email' ? 'Email' : 'Contraseña'} copiado al portapapeles
-            </div>
-          )}
-          {copiedField === 'reset-success' && (
+          {copiedField && (
             <div className="flex items-center justify-center gap-2 p-2 bg-green-50 text-green-800 rounded text-sm">
-              ✓ Contraseña reseteada con éxito
+              ✓ {copiedField === 'email' ? 'Email' : 'Enlace'} copiado al portapapeles
             </div>
           )}
         </div>
 
         <div className="flex justify-end gap-2">
-          <Button variant="outline" onClick={onClose}>
+          <Button variant="outline" onClick={handleClose}>
             Cerrar
           </Button>
         </div>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -1,27 +1,60 @@
 import React, { useState } from 'react'
+import { ImageManifest } from '../../types'
+import { buildSrcSet, IMAGE_VARIANT_FORMATS, IMAGE_VARIANT_MIME } from '../../supabase/functions/_shared/images'
 
 const ERROR_IMG_SRC =
   'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODgiIGhlaWdodD0iODgiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyIgc3Ryb2tlPSIjMDAwIiBzdHJva2UtbGluZWpvaW49InJvdW5kIiBvcGFjaXR5PSIuMyIgZmlsbD0ibm9uZSIgc3Ryb2tlLXdpZHRoPSIzLjciPjxyZWN0IHg9IjE2IiB5PSIxNiIgd2lkdGg9IjU2IiBoZWlnaHQ9IjU2IiByeD0iNiIvPjxwYXRoIGQ9Im0xNiA1OCAxNi0xOCAzMiAzMiIvPjxjaXJjbGUgY3g9IjUzIiBjeT0iMzUiIHI9IjciLz48L3N2Zz4KCg=='
 
-export function ImageWithFallback(props: React.ImgHTMLAttributes<HTMLImageElement>) {
+interface ImageWithFallbackProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  // Responsive variants from the upload; rendered as <source srcset> per format
+  manifest?: ImageManifest
+}
+
+export function ImageWithFallback({ manifest, ...props }: ImageWithFallbackProps) {
   const [didError, setDidError] = useState(false)
 
   const handleError = () => {
     setDidError(true)
   }
 
-  const { src, alt, style, className, ...rest } = props
+  const { src, alt, style, className, sizes = '100vw', ...rest } = props
 
-  return didError ? (
-    <div
-      className={`inline-block bg-gray-100 text-center align-middle ${className ?? ''}`}
-      style={style}
-    >
-      <div className="flex items-center justify-center w-full h-full">
-        <img src={ERROR_IMG_SRC} alt="Error loading image" {...rest} data-original-url={src} />
+  if (didError) {
+    return (
+      <div
+        className={`inline-block bg-gray-100 text-center align-middle ${className ?? ''}`}
+        style={style}
+      >
+        <div className="flex items-center justify-center w-full h-full">
+          <img src={ERROR_IMG_SRC} alt="Error loading image" {...rest} data-original-url={src} />
+        </div>
       </div>
-    </div>
-  ) : (
-    <img src={src} alt={alt} className={className} style={style} {...rest} onError={handleError} />
+    )
+  }
+
+  if (!manifest || manifest.variants.length === 0) {
+    return <img src={src} alt={alt} className={className} style={style} {...rest} onError={handleError} />
+  }
+
+  // The original stays as <img src> for browsers without AVIF/WebP support
+  return (
+    <picture className="contents">
+      {IMAGE_VARIANT_FORMATS.map((format) => {
+        const srcSet = buildSrcSet(manifest, format)
+        return srcSet ? (
+          <source key={format} type={IMAGE_VARIANT_MIME[format]} srcSet={srcSet} sizes={sizes} />
+        ) : null
+      })}
+      <img
+        src={src}
+        alt={alt}
+        className={className}
+        style={style}
+        width={manifest.original.width}
+        height={manifest.original.height}
+        {...rest}
+        onError={handleError}
+      />
+    </picture>
   )
 }
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId } from '../utils/supabase/info';
+import { supabase } from '../utils/supabase/client';
 
 interface User {
   id: string;
@@ -20,11 +20,6 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const supabase = createClient(
-  `https://${projectId}.supabase.co`,
-  publicAnonKey
-);
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -40,7 +35,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       
       if (session?.user) {
         // Get user role from our admin_users table
-        const role = await getUserRole(session.user.email!);
+        const role = await getUserRole(session.access_token);
         
         if (role) {
           setUser({
@@ -61,7 +56,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const getUserRole = async (email: string): Promise<string | null> => {
+  // The server resolves the caller from the session token, not from a posted email
+  const getUserRole = async (accessToken: string): Promise<string | null> => {
     try {
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/check-role`,
@@ -69,9 +65,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
-          },
-          body: JSON.stringify({ email })
+            'Authorization': `Bearer ${accessToken}`
+          }
         }
       );
 
@@ -100,9 +95,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return { success: false, error: 'Email o contraseña incorrectos' };
       }
 
-      if (data.user) {
+      if (data.user && data.session) {
         // Check if user is in our admin_users table
-        const role = await getUserRole(data.user.email!);
+        const role = await getUserRole(data.session.access_token);
         
         if (!role) {
           await supabase.auth.signOut();
@@ -1,12 +1,24 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo } from 'react';
-import { Project, FilterState } from '../types';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
+import { Project, FilterState, ProjectSaveConflict, PublicationStatus, Convocatoria, Taxonomies, TaxonomyKind, TaxonomyTerm } from '../types';
 import { projects as initialProjectsData } from '../data/projects';
 import * as api from '../utils/api';
+import { getAccessToken } from '../utils/supabase/client';
+import {
+  isPubliclyVisible,
+  getNextScheduleChange,
+  PUBLICATION_STATUS_LABELS
+} from '../supabase/functions/_shared/publication';
+import { DEFAULT_TAXONOMIES, findTerm } from '../supabase/functions/_shared/taxonomies';
 import { toast } from 'sonner@2.0.3';
 
 interface ProjectContextType {
-  projects: Project[];
+  projects: Project[]; // Published and inside their schedule - what the public sees
+  allProjects: Project[]; // Includes drafts, in review and archived (admins only)
   filteredProjects: Project[];
+  convocatorias: Convocatoria[]; // Drafts included for admins
+  getConvocatoria: (id: string | undefined) => Convocatoria | undefined;
+  taxonomies: Taxonomies; // Categories and thematic areas, in display order
+  getTerm: (kind: TaxonomyKind, value: string | undefined) => TaxonomyTerm | undefined;
   filters: FilterState;
   selectedProject: Project | null;
   showFullDetails: boolean;
@@ -16,9 +28,15 @@ interface ProjectContextType {
   setSelectedProject: (project: Project | null) => void;
   setShowFullDetails: (show: boolean) => void;
   resetFilters: () => void;
-  addProject: (project: Project) => void;
+  addProject: (project: Project) => Promise<ProjectSaveConflict | null>;
   clearAllProjects: () => void;
   removeProject: (projectId: string) => void;
+  restoreProjectRevision: (projectId: string, revision: number) => Promise<Project | null>;
+  restoreFromTrash: (projectId: string) => Promise<Project | null>;
+  changeProjectStatus: (projectId: string, status: PublicationStatus, comment?: string) => Promise<Project | null>;
+  refreshProjects: () => Promise<void>;
+  refreshConvocatorias: () => Promise<void>;
+  refreshTaxonomies: () => Promise<void>;
 }
 
 const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
@@ -27,20 +45,57 @@ const initialFilters: FilterState = {
   searchQuery: '',
   selectedCategories: [],
   selectedThematicAreas: [],
-  selectedLocations: []
+  selectedLocations: [],
+  selectedConvocatorias: []
 };
 
 // LocalStorage keys for migration
 const PROJECTS_STORAGE_KEY = 'mexico-social-projects';
 const MIGRATION_FLAG_KEY = 'projects-migrated-to-supabase';
 
+// setTimeout overflows past ~24.8 days; longer waits are simply re-armed
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Fetch every project the current session may see:
+ * all of them for admins, only published ones otherwise
+ */
+async function fetchVisibleProjects(): Promise<Project[]> {
+  if (await getAccessToken()) {
+    try {
+      return await api.fetchProjects({ includeUnpublished: true });
+    } catch (error) {
+      console.warn('Could not load unpublished projects, falling back to public list:', error);
+    }
+  }
+  return api.fetchProjects();
+}
+
+/**
+ * Fetch the convocatorias the current session may see (drafts only for admins)
+ */
+async function fetchVisibleConvocatorias(): Promise<Convocatoria[]> {
+  if (await getAccessToken()) {
+    try {
+      return (await api.fetchAllConvocatorias()).convocatorias;
+    } catch (error) {
+      console.warn('Could not load draft convocatorias, falling back to public list:', error);
+    }
+  }
+  return api.fetchConvocatorias();
+}
+
 export function ProjectProvider({ children }: { children: ReactNode }) {
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [allProjects, setAllProjects] = useState<Project[]>([]);
+  const [convocatorias, setConvocatorias] = useState<Convocatoria[]>([]);
+  // Defaults until the server copy arrives, so labels never show raw values
+  const [taxonomies, setTaxonomies] = useState<Taxonomies>(DEFAULT_TAXONOMIES);
   const [filters, setFiltersState] = useState<FilterState>(initialFilters);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [showFullDetails, setShowFullDetails] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
 
   /**
    * Load projects from Supabase on mount
@@ -63,33 +118,41 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
         }
         
         // Fetch projects from server
-        const serverProjects = await api.fetchProjects();
+        const serverProjects = await fetchVisibleProjects();
         
         if (mounted) {
           if (serverProjects.length > 0) {
             console.log(`✅ Loaded ${serverProjects.length} projects from cloud`);
-            // Ensure all projects without convocatoria get "Primera Convocatoria 2025"
-            const migratedProjects = serverProjects.map(project => ({
-              ...project,
-              convocatoria: project.convocatoria || 'Primera Convocatoria 2025'
-            }));
-            setProjects(migratedProjects);
+            setAllProjects(serverProjects);
           } else {
             // If no projects on server, initialize with sample data
             console.log('📦 Initializing with sample projects...');
             await initializeWithSampleData();
           }
         }
+        
+        // After the sample import, which may have created convocatorias
+        const [serverConvocatorias, serverTaxonomies] = await Promise.all([
+          fetchVisibleConvocatorias().catch((error) => {
+            console.error('Error loading convocatorias:', error);
+            return [];
+          }),
+          api.fetchTaxonomies().catch((error) => {
+            console.error('Error loading taxonomies:', error);
+            return DEFAULT_TAXONOMIES;
+          })
+        ]);
+        
+        if (mounted) {
+          setConvocatorias(serverConvocatorias);
+          setTaxonomies(serverTaxonomies);
+        }
       } catch (error) {
         console.error('Error loading projects:', error);
         if (mounted) {
           toast.error('Failed to load projects. Please refresh the page.');
-          // Fallback to initial data with convocatoria
-          const migratedProjects = initialProjectsData.map(project => ({
-            ...project,
-            convocatoria: project.convocatoria || 'Primera Convocatoria 2025'
-          }));
-          setProjects(migratedProjects);
+          // Fallback to initial data
+          setAllProjects(initialProjectsData);
         }
       } finally {
         if (mounted) {
@@ -139,66 +202,77 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     try {
       console.log('Importing sample data to cloud...');
       await api.bulkImportProjects(initialProjectsData);
-      const serverProjects = await api.fetchProjects();
-      setProjects(serverProjects);
+      const serverProjects = await fetchVisibleProjects();
+      setAllProjects(serverProjects);
       toast.success('Sample projects loaded successfully');
     } catch (error) {
       console.error('Error initializing sample data:', error);
       // Fallback to local sample data
-      setProjects(initialProjectsData);
+      setAllProjects(initialProjectsData);
     }
   }
 
   /**
    * Add or update a project (with cloud sync)
+   * Resolves with the conflict when someone else saved the project first
    */
-  const addProject = async (project: Project) => {
+  const addProject = async (project: Project): Promise<ProjectSaveConflict | null> => {
     try {
       setIsSyncing(true);
       
-      // Optimistic update
-      setProjects(prev => {
+      // Optimistic update (the server keeps the publication status; new projects start as drafts)
+      setAllProjects(prev => {
         const existingIndex = prev.findIndex(p => p.id === project.id);
         if (existingIndex >= 0) {
           const updated = [...prev];
-          updated[existingIndex] = project;
+          updated[existingIndex] = { ...project, publicationStatus: prev[existingIndex].publicationStatus };
           return updated;
         } else {
-          return [...prev, project];
+          return [...prev, { ...project, publicationStatus: 'draft' }];
         }
       });
       
-      // Sync to server
-      await api.saveProject(project);
+      // Sync to server, then keep the saved copy (it carries the new revision)
+      const saved = await api.saveProject(project);
+      setAllProjects(prev => prev.map(p => (p.id === saved.id ? saved : p)));
       
       toast.success(
         project.id ? 'Project updated successfully' : 'Project created successfully'
       );
+      return null;
     } catch (error) {
+      if (error instanceof api.ProjectConflictError) {
+        // Show the server copy and let the editor resolve the conflict
+        setAllProjects(prev => prev.map(p => (p.id === project.id ? error.current : p)));
+        toast.warning('Otra persona modificó este proyecto mientras lo editabas');
+        return { mine: project, current: error.current };
+      }
+      
       console.error('Error adding/updating project:', error);
       toast.error('Failed to save project. Please try again.');
       
       // Revert optimistic update by refetching
       try {
-        const serverProjects = await api.fetchProjects();
-        setProjects(serverProjects);
+        const serverProjects = await fetchVisibleProjects();
+        setAllProjects(serverProjects);
       } catch (refetchError) {
         console.error('Error refetching projects:', refetchError);
       }
+      return null;
     } finally {
       setIsSyncing(false);
     }
   };
 
   /**
-   * Remove a project (with cloud sync)
+   * Move a project to the trash (with cloud sync)
    */
   const removeProject = async (projectId: string) => {
     try {
       setIsSyncing(true);
       
       // Optimistic update
-      setProjects(prev => prev.filter(p => p.id !== projectId));
+      setAllProjects(prev => prev.filter(p => p.id !== projectId));
       
       if (selectedProject?.id === projectId) {
         setSelectedProject(null);
@@ -207,15 +281,15 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       // Sync to server
       await api.deleteProject(projectId);
       
-      toast.success('Project deleted successfully');
+      toast.success('Proyecto movido a la papelera');
     } catch (error) {
       console.error('Error removing project:', error);
       toast.error('Failed to delete project. Please try again.');
       
       // Revert optimistic update by refetching
       try {
-        const serverProjects = await api.fetchProjects();
-        setProjects(serverProjects);
+        const serverProjects = await fetchVisibleProjects();
+        setAllProjects(serverProjects);
       } catch (refetchError) {
         console.error('Error refetching projects:', refetchError);
       }
@@ -225,29 +299,28 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
   };
 
   /**
-   * Clear all projects (with cloud sync)
+   * Move all projects to the trash (with cloud sync)
    */
   const clearAllProjects = async () => {
     try {
       setIsSyncing(true);
       
       // Optimistic update
-      const previousProjects = projects;
-      setProjects([]);
+      setAllProjects([]);
       setSelectedProject(null);
       
       // Sync to server
       const deletedCount = await api.clearAllProjects();
       
-      toast.success(`Deleted ${deletedCount} projects`);
+      toast.success(`${deletedCount} proyectos movidos a la papelera`);
     } catch (error) {
       console.error('Error clearing projects:', error);
       toast.error('Failed to clear projects. Please try again.');
       
       // Revert optimistic update by refetching
       try {
-        const serverProjects = await api.fetchProjects();
-        setProjects(serverProjects);
+        const serverProjects = await fetchVisibleProjects();
+        setAllProjects(serverProjects);
       } catch (refetchError) {
         console.error('Error refetching projects:', refetchError);
       }
@@ -256,6 +329,118 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Restore a project to an earlier revision (with cloud sync)
+   */
+  const restoreProjectRevision = async (projectId: string, revision: number) => {
+    try {
+      setIsSyncing(true);
+      
+      const restored = await api.restoreProjectRevision(projectId, revision);
+      
+      setAllProjects(prev => prev.map(p => (p.id === projectId ? restored : p)));
+      
+      toast.success(`Revisión ${revision} restaurada`);
+      return restored;
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo restaurar la revisión');
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  /**
+   * Restore a project from the trash (with cloud sync)
+   */
+  const restoreFromTrash = async (projectId: string) => {
+    try {
+      setIsSyncing(true);
+      
+      const restored = await api.restoreFromTrash(projectId);
+      
+      setAllProjects(prev => [...prev.filter(p => p.id !== projectId), restored]);
+      
+      toast.success(`Proyecto "${restored.name}" restaurado`);
+      return restored;
+    } catch (error) {
+      console.error('Error restoring project from trash:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo restaurar el proyecto');
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  /**
+   * Move a project through the publication workflow (with cloud sync)
+   */
+  const changeProjectStatus = async (projectId: string, status: PublicationStatus, comment?: string) => {
+    const current = allProjects.find(p => p.id === projectId);
+    
+    try {
+      setIsSyncing(true);
+      
+      const updated = await api.changeProjectStatus(projectId, status, comment, current?.revision ?? 0);
+      
+      setAllProjects(prev => prev.map(p => (p.id === projectId ? updated : p)));
+      
+      toast.success(`Estado cambiado a "${PUBLICATION_STATUS_LABELS[status]}"`);
+      return updated;
+    } catch (error) {
+      if (error instanceof api.ProjectConflictError) {
+        setAllProjects(prev => prev.map(p => (p.id === projectId ? error.current : p)));
+        toast.warning('Otra persona modificó este proyecto. Revisa su estado e inténtalo de nuevo.');
+        return null;
+      }
+      
+      console.error('Error changing project status:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo cambiar el estado');
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  /**
+   * Reload projects from the server (e.g. after logging in, to include drafts)
+   */
+  const refreshProjects = async () => {
+    try {
+      const [serverProjects, serverConvocatorias] = await Promise.all([
+        fetchVisibleProjects(),
+        fetchVisibleConvocatorias()
+      ]);
+      setAllProjects(serverProjects);
+      setConvocatorias(serverConvocatorias);
+    } catch (error) {
+      console.error('Error refreshing projects:', error);
+    }
+  };
+
+  /**
+   * Reload taxonomies from the server (e.g. after editing them)
+   */
+  const refreshTaxonomies = async () => {
+    try {
+      setTaxonomies(await api.fetchTaxonomies());
+    } catch (error) {
+      console.error('Error refreshing taxonomies:', error);
+    }
+  };
+
+  /**
+   * Reload convocatorias from the server (e.g. after editing them)
+   */
+  const refreshConvocatorias = async () => {
+    try {
+      setConvocatorias(await fetchVisibleConvocatorias());
+    } catch (error) {
+      console.error('Error refreshing convocatorias:', error);
+    }
+  };
+
   const setFilters = (newFilters: Partial<FilterState>) => {
     setFiltersState(prev => ({ ...prev, ...newFilters }));
   };
@@ -264,6 +449,38 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     setFiltersState(initialFilters);
   };
 
+  /**
+   * Re-evaluate visibility when the next scheduled publish / unpublish time arrives
+   */
+  useEffect(() => {
+    const next = getNextScheduleChange(allProjects, now);
+    if (next === null) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(next - now, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [allProjects, now]);
+
+  // Only published projects inside their schedule reach the public map and detail pages
+  const projects = useMemo(
+    () => allProjects.filter(project => isPubliclyVisible(project, now)),
+    [allProjects, now]
+  );
+
+  const convocatoriasById = useMemo(
+    () => new Map(convocatorias.map(convocatoria => [convocatoria.id, convocatoria])),
+    [convocatorias]
+  );
+
+  const getConvocatoria = useCallback(
+    (id: string | undefined) => (id ? convocatoriasById.get(id) : undefined),
+    [convocatoriasById]
+  );
+
+  const getTerm = useCallback(
+    (kind: TaxonomyKind, value: string | undefined) => findTerm(taxonomies[kind], value),
+    [taxonomies]
+  );
+
   // Memoize filtered projects to prevent unnecessary recalculations
   const filteredProjects = useMemo(() => {
     return projects.filter(project => {
@@ -271,9 +488,9 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       if (filters.searchQuery) {
         const query = filters.searchQuery.toLowerCase();
         const matchesName = project.name.toLowerCase().includes(query);
-        const matchesDescription = (project.description || '').toLowerCase().includes(query);
-        const locationCity = project.location?.city || project.municipality || '';
-        const locationState = project.location?.state || project.state || '';
+        const matchesDescription = (project.objective || '').toLowerCase().includes(query);
+        const locationCity = project.municipality || '';
+        const locationState = project.state || '';
         const matchesLocation = `${locationCity} ${locationState}`.toLowerCase().includes(query);
         
         if (!matchesName && !matchesDescription && !matchesLocation) {
@@ -297,12 +514,19 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
 
       // Location filter (by state)
       if (filters.selectedLocations.length > 0) {
-        const projectState = project.location?.state || project.state || '';
+        const projectState = project.state || '';
         if (!filters.selectedLocations.includes(projectState)) {
           return false;
         }
       }
 
+      // Convocatoria filter
+      if (filters.selectedConvocatorias.length > 0) {
+        if (!project.convocatoriaId || !filters.selectedConvocatorias.includes(project.convocatoriaId)) {
+          return false;
+        }
+      }
+
       return true;
     });
   }, [projects, filters]);
@@ -311,7 +535,12 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
   const contextValue = useMemo(
     () => ({
       projects,
+      allProjects,
       filteredProjects,
+      convocatorias,
+      getConvocatoria,
+      taxonomies,
+      getTerm,
       filters,
       selectedProject,
       showFullDetails,
@@ -323,9 +552,15 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       resetFilters,
       addProject,
       clearAllProjects,
-      removeProject
+      removeProject,
+      restoreProjectRevision,
+      restoreFromTrash,
+      changeProjectStatus,
+      refreshProjects,
+      refreshConvocatorias,
+      refreshTaxonomies
     }),
-    [projects, filteredProjects, filters, selectedProject, showFullDetails, isLoading, isSyncing]
+    [projects, allProjects, filteredProjects, convocatorias, getConvocatoria, taxonomies, getTerm, filters, selectedProject, showFullDetails, isLoading, isSyncing]
   );
 
   return (
@@ -16,16 +16,18 @@ export function useURLSync() {
     const categoriesParam = searchParams.get('categorias');
     const areasParam = searchParams.get('areas');
     const locationsParam = searchParams.get('ubicaciones');
+    const convocatoriasParam = searchParams.get('convocatorias');
     const searchParam = searchParams.get('busqueda');
 
     // Only update if URL has parameters
-    const hasParams = categoriesParam || areasParam || locationsParam || searchParam;
+    const hasParams = categoriesParam || areasParam || locationsParam || convocatoriasParam || searchParam;
     
     if (hasParams) {
       setFilters({
         selectedCategories: categoriesParam ? categoriesParam.split(',').filter(Boolean) : [],
         selectedThematicAreas: areasParam ? areasParam.split(',').filter(Boolean) : [],
         selectedLocations: locationsParam ? locationsParam.split(',').filter(Boolean) : [],
+        selectedConvocatorias: convocatoriasParam ? convocatoriasParam.split(',').filter(Boolean) : [],
         searchQuery: searchParam || ''
       });
     }
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Lock, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface InviteInfo {
+  email: string;
+  name?: string;
+  purpose: 'invite' | 'reset';
+  expiresAt: string;
+}
+
+/**
+ * Landing page for one-time invitation and password reset links
+ * Accessible via /admin/accept-invite?token=...
+ */
+export function AcceptInvitePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [inviteInfo, setInviteInfo] = useState<InviteInfo | null>(null);
+  const [isVerifying, setIsVerifying] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  useEffect(() => {
+    verifyToken();
+  }, [token]);
+
+  const verifyToken = async () => {
+    if (!token) {
+      setError('El enlace no es válido o ha expirado');
+      setIsVerifying(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/verify-invite`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`
+          },
+          body: JSON.stringify({ token })
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setInviteInfo(data);
+      } else {
+        setError(data.error || 'El enlace no es válido o ha expirado');
+      }
+    } catch (err) {
+      console.error('Error verifying invite:', err);
+      setError('Error de conexión al servidor');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/accept-invite`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`
+          },
+          body: JSON.stringify({ token, password })
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setIsDone(true);
+      } else {
+        setError(data.error || 'Error al guardar la contraseña');
+      }
+    } catch (err) {
+      console.error('Error accepting invite:', err);
+      setError('Error de conexión al servidor');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isReset = inviteInfo?.purpose === 'reset';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0c4159] to-[#0a3345] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-2 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-[#ff8012] rounded-full flex items-center justify-center">
+              <Lock className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-['Arvo',_serif] text-[#0c4159]">
+            {isReset ? 'Restablecer Contraseña' : 'Aceptar Invitación'}
+          </CardTitle>
+          {inviteInfo && !isDone && (
+            <p className="text-sm text-gray-600">
+              Define la contraseña para <strong>{inviteInfo.email}</strong>
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isVerifying ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-gray-600">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Verificando enlace...
+            </div>
+          ) : isDone ? (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3">
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-green-800">
+                  Contraseña establecida correctamente. Ya puedes iniciar sesión.
+                </p>
+              </div>
+              <Button
+                onClick={() => navigate('/admin/login')}
+                className="w-full bg-[#0c4159] hover:bg-[#0a3345]"
+              >
+                Ir a Login
+              </Button>
+            </div>
+          ) : inviteInfo ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Nueva Contraseña
+                </label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  disabled={isSubmitting}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirmar Contraseña
+                </label>
+                <Input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="••••••••"
+                  disabled={isSubmitting}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full bg-[#ff8012] hover:bg-[#e67310] text-white"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Guardando...' : 'Guardar Contraseña'}
+              </Button>
+
+              <p className="text-xs text-gray-500 text-center">
+                Este enlace es de un solo uso y expira el{' '}
+                {new Date(inviteInfo.expiresAt).toLocaleString('es-MX')}.
+              </p>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+              <p className="text-xs text-gray-500 text-center">
+                Pide a un super administrador que genere un nuevo enlace.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,25 +4,31 @@ import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { InviteAdminModal } from '../components/InviteAdminModal';
 import { ViewCredentialsModal } from '../components/ViewCredentialsModal';
-import { UserPlus, Shield, Edit, Trash2, CheckCircle, XCircle, Eye } from 'lucide-react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { AuditLogViewer } from '../components/AuditLogViewer';
+import { UserPlus, Shield, Edit, Trash2, CheckCircle, XCircle, Eye, Mail } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { getAccessToken } from '../utils/supabase/client';
 
 interface Admin {
   id: string;
   email: string;
   name?: string;
   role: 'super_admin' | 'editor';
-  status: 'active' | 'inactive';
+  status: 'active' | 'inactive' | 'invited';
   created_at: string;
   created_by?: string;
 }
 
 interface Credentials {
   email: string;
-  password: string;
   name: string;
   role: string;
+  status: string;
   created_at: string;
+  pendingLink: {
+    purpose: 'invite' | 'reset';
+    expires_at: string;
+  } | null;
 }
 
 export function AdminManagementPage() {
@@ -41,11 +47,12 @@ export function AdminManagementPage() {
 
   const fetchAdmins = async () => {
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/list`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           }
         }
       );
@@ -65,13 +72,14 @@ export function AdminManagementPage() {
     const newStatus = currentStatus === 'active' ? 'inactive' : 'active';
     
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/toggle-status`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           },
           body: JSON.stringify({ adminId, status: newStatus })
         }
@@ -87,13 +95,14 @@ export function AdminManagementPage() {
 
   const viewCredentials = async (adminId: string) => {
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/get-credentials`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           },
           body: JSON.stringify({ adminId })
         }
@@ -105,11 +114,11 @@ export function AdminManagementPage() {
         setSelectedAdminId(adminId);
         setShowCredentialsModal(true);
       } else {
-        alert('Error al obtener las credenciales');
+        alert('Error al obtener la cuenta');
       }
     } catch (error) {
       console.error('Error fetching credentials:', error);
-      alert('Error al obtener las credenciales');
+      alert('Error al obtener la cuenta');
     }
   };
 
@@ -123,13 +132,14 @@ export function AdminManagementPage() {
     setDeletingAdminId(adminId);
 
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/delete`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           },
           body: JSON.stringify({ adminId })
         }
@@ -168,6 +178,14 @@ export function AdminManagementPage() {
   };
 
   const getStatusBadge = (status: string) => {
+    if (status === 'invited') {
+      return (
+        <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded-full">
+          <Mail className="w-3 h-3" />
+          Invitación pendiente
+        </span>
+      );
+    }
     if (status === 'active') {
       return (
         <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
@@ -287,7 +305,7 @@ export function AdminManagementPage() {
 
                     {/* Actions */}
                     <div className="flex items-center gap-2">
-                      {admin.email !== user?.email && (
+                      {admin.email !== user?.email && admin.status !== 'invited' && (
                         <>
                           <Button
                             variant="outline"
@@ -315,7 +333,7 @@ export function AdminManagementPage() {
                         onClick={() => viewCredentials(admin.id)}
                       >
                         <Eye className="w-4 h-4 mr-1" />
-                        Ver Credenciales
+                        Ver Cuenta
                       </Button>
                       
                       {admin.email !== user?.email && (
@@ -338,6 +356,9 @@ export function AdminManagementPage() {
           </CardContent>
         </Card>
 
+        {/* Audit Log */}
+        <AuditLogViewer />
+
         {/* Back Button */}
         <div className="mt-6">
           <Button
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AdminDataEntry } from '../components/AdminDataEntry';
 import { useProjects } from '../contexts/ProjectContext';
@@ -9,7 +9,21 @@ import { useProjects } from '../contexts/ProjectContext';
  */
 export default function AdminPage() {
   const navigate = useNavigate();
-  const { projects, addProject, clearAllProjects, removeProject } = useProjects();
+  const {
+    allProjects,
+    addProject,
+    clearAllProjects,
+    removeProject,
+    restoreProjectRevision,
+    restoreFromTrash,
+    changeProjectStatus,
+    refreshProjects
+  } = useProjects();
+
+  // The public list may have been loaded before logging in - reload to include drafts
+  useEffect(() => {
+    refreshProjects();
+  }, []);
 
   const handleClose = () => {
     navigate('/');
@@ -19,9 +33,12 @@ export default function AdminPage() {
     <AdminDataEntry 
       onSave={addProject}
       onClose={handleClose}
-      existingProjects={projects}
+      existingProjects={allProjects}
       onClearAll={clearAllProjects}
       onRemoveProject={removeProject}
+      onRestoreRevision={restoreProjectRevision}
+      onRestoreFromTrash={restoreFromTrash}
+      onChangeStatus={changeProjectStatus}
     />
   );
 }
@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { CalendarRange, Plus, Edit, Trash2, AlertCircle, Loader2, Wand2 } from 'lucide-react';
+import { ConvocatoriaStatus, ConvocatoriaWithCount } from '../types';
+import {
+  CONVOCATORIA_COLORS,
+  CONVOCATORIA_STATUSES,
+  CONVOCATORIA_STATUS_LABELS,
+  ConvocatoriaFieldError,
+  slugify,
+  validateConvocatoria,
+} from '../supabase/functions/_shared/convocatorias';
+import * as api from '../utils/api';
+import { useProjects } from '../contexts/ProjectContext';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+
+interface ConvocatoriaForm {
+  title: string;
+  slug: string;
+  year: string;
+  opensAt: string;
+  closesAt: string;
+  description: string;
+  color: string;
+  status: ConvocatoriaStatus;
+}
+
+const STATUS_BADGE_CLASSES: Record<ConvocatoriaStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-amber-100 text-amber-800',
+  archived: 'bg-slate-200 text-slate-700',
+};
+
+const emptyForm = (colorIndex: number): ConvocatoriaForm => ({
+  title: '',
+  slug: '',
+  year: String(new Date().getFullYear()),
+  opensAt: '',
+  closesAt: '',
+  description: '',
+  color: CONVOCATORIA_COLORS[colorIndex % CONVOCATORIA_COLORS.length],
+  status: 'draft',
+});
+
+const formatDate = (date?: string) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString('es-MX', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+/**
+ * Convocatorias management for super admins
+ * Create, edit and delete convocatorias. Free-text names older projects still
+ * carry are converted by the data migrations (see MigrationsPage).
+ */
+export function ConvocatoriasPage() {
+  const { refreshProjects } = useProjects();
+  const navigate = useNavigate();
+  const [convocatorias, setConvocatorias] = useState<ConvocatoriaWithCount[]>([]);
+  const [legacyProjects, setLegacyProjects] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Form dialog (editingId null = new convocatoria)
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ConvocatoriaForm>(emptyForm(0));
+  const [formErrors, setFormErrors] = useState<ConvocatoriaFieldError[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchConvocatorias();
+  }, []);
+
+  const fetchConvocatorias = async () => {
+    try {
+      const result = await api.fetchAllConvocatorias();
+      setConvocatorias(result.convocatorias);
+      setLegacyProjects(result.legacyProjects);
+    } catch (error) {
+      console.error('Error fetching convocatorias:', error);
+      toast.error('No se pudieron cargar las convocatorias');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Keep the map, badges and the project form in sync with the changes made here
+  const reload = async () => {
+    await Promise.all([fetchConvocatorias(), refreshProjects()]);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm(convocatorias.length));
+    setFormErrors([]);
+    setShowForm(true);
+  };
+
+  const openEdit = (convocatoria: ConvocatoriaWithCount) => {
+    setEditingId(convocatoria.id);
+    setForm({
+      title: convocatoria.title,
+      slug: convocatoria.slug,
+      year: String(convocatoria.year),
+      opensAt: convocatoria.opensAt || '',
+      closesAt: convocatoria.closesAt || '',
+      description: convocatoria.description || '',
+      color: convocatoria.color,
+      status: convocatoria.status,
+    });
+    setFormErrors([]);
+    setShowForm(true);
+  };
+
+  const getFieldError = (field: string) => formErrors.find((e) => e.field === field)?.message;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = { ...form, year: Number(form.year) };
+    const others = convocatorias.filter((convocatoria) => convocatoria.id !== editingId);
+    const validation = validateConvocatoria(payload, others);
+
+    if (!validation.valid || !validation.value) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await api.updateConvocatoria(editingId, validation.value);
+        toast.success('Convocatoria actualizada');
+      } else {
+        await api.createConvocatoria(validation.value);
+        toast.success('Convocatoria creada');
+      }
+      setShowForm(false);
+      await reload();
+    } catch (error) {
+      console.error('Error saving convocatoria:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo guardar la convocatoria');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (convocatoria: ConvocatoriaWithCount) => {
+    if (!window.confirm(`¿Eliminar la convocatoria "${convocatoria.title}"?\n\nEsta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setDeletingId(convocatoria.id);
+    try {
+      await api.deleteConvocatoria(convocatoria.id);
+      toast.success('Convocatoria eliminada');
+      await reload();
+    } catch (error) {
+      console.error('Error deleting convocatoria:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo eliminar la convocatoria');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-[#ff8012]"></div>
+          <p className="mt-4 text-gray-600">Cargando convocatorias...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 overflow-y-auto h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-['Arvo',_serif] text-[#0c4159] mb-2">
+              Convocatorias
+            </h1>
+            <p className="text-gray-600">
+              Cada proyecto pertenece a una convocatoria; su color identifica los pines del mapa
+            </p>
+          </div>
+          <Button onClick={openCreate} className="bg-[#ff8012] hover:bg-[#e67310]">
+            <Plus className="w-4 h-4 mr-2" />
+            Nueva Convocatoria
+          </Button>
+        </div>
+
+        {/* Projects that still carry a free-text convocatoria */}
+        {legacyProjects > 0 && (
+          <div className="flex items-center justify-between gap-4 p-4 mb-6 border border-amber-300 bg-amber-50 rounded-lg">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+              <p className="text-sm text-amber-800">
+                {legacyProjects} proyecto(s) tienen la convocatoria escrita como texto. La migración de datos los vincula
+                a la convocatoria con el mismo nombre y crea las que falten.
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/admin/migraciones')}>
+              <Wand2 className="w-4 h-4 mr-2" />
+              Migraciones
+            </Button>
+          </div>
+        )}
+
+        {/* Convocatorias List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Lista de Convocatorias</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {convocatorias.length === 0 ? (
+              <div className="text-center py-12">
+                <CalendarRange className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">No hay convocatorias registradas</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {convocatorias.map((convocatoria) => (
+                  <div
+                    key={convocatoria.id}
+                    className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-start gap-3 flex-1 min-w-0">
+                      <span
+                        className="w-4 h-4 rounded-full shrink-0 mt-1"
+                        style={{ backgroundColor: convocatoria.color }}
+                      />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <p className="font-medium text-gray-900">{convocatoria.title}</p>
+                          <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_BADGE_CLASSES[convocatoria.status]}`}>
+                            {CONVOCATORIA_STATUS_LABELS[convocatoria.status]}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {convocatoria.year} · /{convocatoria.slug}
+                          {(convocatoria.opensAt || convocatoria.closesAt) && (
+                            <> · {formatDate(convocatoria.opensAt) || '…'} – {formatDate(convocatoria.closesAt) || '…'}</>
+                          )}
+                        </p>
+                        {convocatoria.description && (
+                          <p className="text-sm text-gray-500 mt-1 line-clamp-2">{convocatoria.description}</p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">{convocatoria.projectCount} proyecto(s)</p>
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openEdit(convocatoria)}>
+                        <Edit className="w-4 h-4 mr-1" />
+                        Editar
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(convocatoria)}
+                        disabled={deletingId === convocatoria.id || convocatoria.projectCount > 0}
+                        title={convocatoria.projectCount > 0 ? 'Tiene proyectos asociados; archívala en su lugar' : undefined}
+                        className="text-red-600 hover:text-red-700 hover:border-red-300"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Eliminar
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Back Button */}
+        <div className="mt-6">
+          <Button variant="outline" onClick={() => window.history.back()}>
+            Volver al Panel
+          </Button>
+        </div>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Convocatoria' : 'Nueva Convocatoria'}</DialogTitle>
+            <DialogDescription>
+              Las convocatorias en borrador solo las ven los administradores.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block mb-1 text-sm font-medium">Título</label>
+              <Input
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Ej: Segunda Convocatoria 2026"
+              />
+              {getFieldError('title') && <p className="text-xs text-red-600 mt-1">{getFieldError('title')}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block mb-1 text-sm font-medium">Identificador</label>
+                <Input
+                  value={form.slug}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                  placeholder={slugify(form.title) || 'segunda-convocatoria-2026'}
+                />
+                {getFieldError('slug') && <p className="text-xs text-red-600 mt-1">{getFieldError('slug')}</p>}
+              </div>
+              <div>
+                <label className="block mb-1 text-sm font-medium">Año</label>
+                <Input
+                  type="number"
+                  value={form.year}
+                  onChange={(e) => setForm({ ...form, year: e.target.value })}
+                />
+                {getFieldError('year') && <p className="text-xs text-red-600 mt-1">{getFieldError('year')}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block mb-1 text-sm font-medium">Apertura</label>
+                <Input
+                  type="date"
+                  value={form.opensAt}
+                  onChange={(e) => setForm({ ...form, opensAt: e.target.value })}
+                />
+                {getFieldError('opensAt') && <p className="text-xs text-red-600 mt-1">{getFieldError('opensAt')}</p>}
+              </div>
+              <div>
+                <label className="block mb-1 text-sm font-medium">Cierre</label>
+                <Input
+                  type="date"
+                  value={form.closesAt}
+                  onChange={(e) => setForm({ ...form, closesAt: e.target.value })}
+                />
+                {getFieldError('closesAt') && <p className="text-xs text-red-600 mt-1">{getFieldError('closesAt')}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Descripción</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+              {getFieldError('description') && <p className="text-xs text-red-600 mt-1">{getFieldError('description')}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block mb-1 text-sm font-medium">Color</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {CONVOCATORIA_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setForm({ ...form, color })}
+                      className={`w-6 h-6 rounded-full border-2 ${form.color.toUpperCase() === color ? 'border-gray-900' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                      title={color}
+                    />
+                  ))}
+                  <input
+                    type="color"
+                    value={form.color}
+                    onChange={(e) => setForm({ ...form, color: e.target.value.toUpperCase() })}
+                    className="w-6 h-6 cursor-pointer"
+                    title="Otro color"
+                  />
+                </div>
+                {getFieldError('color') && <p className="text-xs text-red-600 mt-1">{getFieldError('color')}</p>}
+              </div>
+              <div>
+                <label className="block mb-1 text-sm font-medium">Estado</label>
+                <Select
+                  value={form.status}
+                  onValueChange={(value) => setForm({ ...form, status: value as ConvocatoriaStatus })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONVOCATORIA_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{CONVOCATORIA_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-[#ff8012] hover:bg-[#e67310]">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId } from '../utils/supabase/info';
+import { getAccessToken } from '../utils/supabase/client';
 
 // Safe JSON display component
 function SafeJSONDisplay({ value }: { value: any }) {
@@ -50,11 +51,12 @@ export function DebugKVPage() {
     setError('');
     
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/debug-kv`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           }
         }
       );
@@ -84,12 +86,13 @@ export function DebugKVPage() {
     setCleanupSuccess('');
 
     try {
+      const accessToken = await getAccessToken();
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a/admin/cleanup-kv`,
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            'Authorization': `Bearer ${accessToken}`
           }
         }
       );
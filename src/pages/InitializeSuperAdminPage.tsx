@@ -1,15 +1,24 @@
 import React, { useState } from 'react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Input } from '../components/ui/input';
+import { CheckCircle, AlertCircle, Loader2, Copy } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { copyToClipboard } from '../utils/clipboard';
+import { buildAcceptInviteLink } from '../utils/adminLinks';
 
 export function InitializeSuperAdminPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState('');
+  const [secret, setSecret] = useState('');
 
   const initializeSuperAdmin = async () => {
+    if (!secret) {
+      setError('Ingresa la clave de inicialización');
+      return;
+    }
+
     setIsLoading(true);
     setError('');
     setResult(null);
@@ -22,7 +31,8 @@ export function InitializeSuperAdminPage() {
           headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${publicAnonKey}`
-          }
+          },
+          body: JSON.stringify({ secret })
         }
       );
 
@@ -61,29 +71,28 @@ export function InitializeSuperAdminPage() {
               <strong>¿Cuándo usar esta herramienta?</strong>
             </p>
             <ul className="text-sm text-blue-800 mt-2 space-y-1 list-disc list-inside">
-              <li>Si no puedes hacer login en /admin/login</li>
-              <li>Si necesitas recrear el super admin inicial</li>
-              <li>Si hubo un error en la inicialización automática</li>
+              <li>Solo en la primera instalación, cuando aún no existe ningún administrador</li>
+              <li>Requiere la clave configurada en el secreto SUPER_ADMIN_BOOTSTRAP_SECRET</li>
+              <li>Se deshabilita cuando el super administrador acepta su invitación; si el enlace expira, puedes generar otro aquí</li>
             </ul>
           </div>
 
-          {/* Credentials Info */}
-          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-            <p className="text-sm font-medium text-gray-700 mb-2">
-              Se creará el siguiente super admin:
-            </p>
-            <div className="space-y-1">
-              <p className="text-sm text-gray-600">
-                <strong>Email:</strong> hello@cakaostudio.com
-              </p>
-              <p className="text-sm text-gray-600">
-                <strong>Password:</strong> Cakaostudio08
-              </p>
-              <p className="text-sm text-gray-600">
-                <strong>Rol:</strong> super_admin
-              </p>
+          {/* Bootstrap secret */}
+          {!result && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Clave de inicialización
+              </label>
+              <Input
+                type="password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="••••••••"
+                disabled={isLoading}
+                autoComplete="off"
+              />
             </div>
-          </div>
+          )}
 
           {/* Initialize Button */}
           {!result && (
@@ -154,27 +163,35 @@ export function InitializeSuperAdminPage() {
                 </div>
               )}
 
-              {result.credentials && (
+              {result.inviteToken && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                   <p className="text-sm font-medium text-yellow-900 mb-2">
-                    Credenciales:
+                    Enlace para definir la contraseña:
                   </p>
-                  <div className="space-y-1 text-sm">
-                    <p className="text-yellow-800">
-                      <strong>Email:</strong> {result.credentials.email}
-                    </p>
-                    <p className="text-yellow-800">
-                      <strong>Password:</strong> {result.credentials.password}
-                    </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 bg-white px-3 py-2 rounded border text-xs font-mono break-all">
+                      {buildAcceptInviteLink(result.inviteToken)}
+                    </code>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={async () => await copyToClipboard(buildAcceptInviteLink(result.inviteToken))}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
                   </div>
+                  <p className="text-xs text-yellow-800 mt-2">
+                    Es de un solo uso y expira el {new Date(result.expiresAt).toLocaleString('es-MX')}.
+                  </p>
                 </div>
               )}
 
               <Button
-                onClick={() => window.location.href = '/admin/login'}
+                onClick={() => window.location.href = buildAcceptInviteLink(result.inviteToken)}
                 className="w-full bg-[#0c4159] hover:bg-[#0a3345]"
               >
-                Ir a Login
+                Definir Contraseña
               </Button>
             </div>
           )}
@@ -42,6 +42,10 @@ export function MapView() {
       params.set('ubicaciones', filters.selectedLocations.join(','));
     }
     
+    if (filters.selectedConvocatorias.length > 0) {
+      params.set('convocatorias', filters.selectedConvocatorias.join(','));
+    }
+    
     if (filters.searchQuery) {
       params.set('busqueda', filters.searchQuery);
     }
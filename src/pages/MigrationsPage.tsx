@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Wand2, Loader2, CheckCircle2, FlaskConical, Play } from 'lucide-react';
+import { MigrationReport, MigrationStatus } from '../types';
+import * as api from '../utils/api';
+import { useProjects } from '../contexts/ProjectContext';
+import { toast } from 'sonner';
+
+interface RunResult {
+  dryRun: boolean;
+  projects: number;
+  trashed: number;
+  reports: MigrationReport[];
+}
+
+/**
+ * Stored-data migrations for super admins
+ * Shows which migrations still have projects to upgrade, simulates them
+ * (dry run) and runs them once over every stored project.
+ */
+export function MigrationsPage() {
+  const { refreshProjects, refreshConvocatorias } = useProjects();
+  const [currentVersion, setCurrentVersion] = useState(0);
+  const [migrations, setMigrations] = useState<MigrationStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [runningMode, setRunningMode] = useState<'dryRun' | 'run' | null>(null);
+  const [result, setResult] = useState<RunResult | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const status = await api.fetchMigrationStatus();
+      setCurrentVersion(status.currentVersion);
+      setMigrations(status.migrations);
+    } catch (error) {
+      console.error('Error fetching migration status:', error);
+      toast.error('No se pudo cargar el estado de las migraciones');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Records below the current version (every one of them needs at least the last migration)
+  const outdatedCount = migrations.reduce((max, migration) => Math.max(max, migration.pending), 0);
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(
+      `¿Ejecutar las migraciones pendientes sobre ${outdatedCount} proyecto(s)?\n\n` +
+      'Cada proyecto activo recibe una revisión nueva, así que los cambios se pueden consultar en su historial.'
+    )) {
+      return;
+    }
+
+    setRunningMode(dryRun ? 'dryRun' : 'run');
+    try {
+      const run = await api.runMigrations(dryRun);
+      setResult({ dryRun, ...run });
+
+      if (dryRun) {
+        toast.success('Simulación completada; no se guardó ningún cambio');
+      } else {
+        toast.success(`${run.projects + run.trashed} proyecto(s) actualizados a la versión ${currentVersion}`);
+        await Promise.all([fetchStatus(), refreshProjects(), refreshConvocatorias()]);
+      }
+    } catch (error) {
+      console.error('Error running migrations:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudieron ejecutar las migraciones');
+    } finally {
+      setRunningMode(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-[#ff8012]"></div>
+          <p className="mt-4 text-gray-600">Cargando migraciones...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 overflow-y-auto h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-['Arvo',_serif] text-[#0c4159] mb-2">
+              Migraciones de datos
+            </h1>
+            <p className="text-gray-600">
+              Versión actual del formato de proyectos: {currentVersion}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => handleRun(true)} disabled={runningMode !== null || outdatedCount === 0}>
+              {runningMode === 'dryRun' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+              Simular
+            </Button>
+            <Button
+              onClick={() => handleRun(false)}
+              disabled={runningMode !== null || outdatedCount === 0}
+              className="bg-[#ff8012] hover:bg-[#e67310]"
+            >
+              {runningMode === 'run' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Ejecutar
+            </Button>
+          </div>
+        </div>
+
+        {/* Migrations List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Migraciones</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {outdatedCount === 0 && (
+              <div className="flex items-center gap-2 p-3 mb-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                <CheckCircle2 className="w-4 h-4" />
+                Todos los proyectos están en la versión actual
+              </div>
+            )}
+            <div className="space-y-3">
+              {migrations.map((migration) => (
+                <div key={migration.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Wand2 className="w-5 h-5 text-gray-400 shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {migration.version}. {migration.id}
+                      </p>
+                      <p className="text-sm text-gray-600">{migration.description}</p>
+                    </div>
+                  </div>
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full shrink-0 ${
+                      migration.pending > 0 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                    }`}
+                  >
+                    {migration.pending > 0 ? `${migration.pending} pendiente(s)` : 'Aplicada'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Report of the last run or simulation */}
+        {result && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>{result.dryRun ? 'Resultado de la simulación' : 'Resultado de la ejecución'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 mb-4">
+                {result.projects} proyecto(s) activos y {result.trashed} en la papelera
+                {result.dryRun ? ' se actualizarían.' : ' actualizados.'}
+              </p>
+              {result.reports.length === 0 ? (
+                <p className="text-sm text-gray-500">No había migraciones pendientes.</p>
+              ) : (
+                <div className="space-y-4">
+                  {result.reports.map((report) => (
+                    <div key={report.id} className="border-l-4 border-[#ff8012] pl-3">
+                      <p className="font-medium text-gray-900">
+                        {report.version}. {report.id}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {report.pending} revisado(s), {report.changed.length} con cambios
+                        {report.changed.length > 0 && `: ${report.changed.slice(0, 20).join(', ')}`}
+                        {report.changed.length > 20 && ` y ${report.changed.length - 20} más`}
+                      </p>
+                      {report.notes.length > 0 && (
+                        <ul className="mt-1 text-sm text-gray-500 list-disc list-inside">
+                          {report.notes.map((note, index) => (
+                            <li key={index}>{note}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Back Button */}
+        <div className="mt-6">
+          <Button variant="outline" onClick={() => window.history.back()}>
+            Volver al Panel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useProjects } from '../contexts/ProjectContext';
 import { ProjectStackedCardsView } from '../components/ProjectStackedCardsView';
 import { ProjectDetailSkeleton } from '../components/ProjectDetailSkeleton';
+import {
+  getPublicationStatus,
+  getScheduleState,
+  isPublished,
+  isPubliclyVisible,
+  PUBLICATION_STATUS_LABELS
+} from '../supabase/functions/_shared/publication';
+import { Project } from '../types';
 
 /**
  * Project detail page - shows full project information
@@ -10,11 +18,27 @@ import { ProjectDetailSkeleton } from '../components/ProjectDetailSkeleton';
  * 
  * Uses the premium stacked cards view with smooth scroll animations
  * and folder-like card stacking experience.
+ * With ?preview=1 admins can see unpublished projects as the public would.
  */
+/**
+ * Why a previewed project is hidden from the public
+ */
+function getPreviewNotice(project: Project): string {
+  if (!isPublished(project)) {
+    return `Este proyecto está en estado "${PUBLICATION_STATUS_LABELS[getPublicationStatus(project)]}" y no es visible para el público`;
+  }
+  if (getScheduleState(project) === 'scheduled') {
+    return `Este proyecto se publicará el ${new Date(project.publishAt!).toLocaleString('es-MX')}`;
+  }
+  return `Este proyecto se retiró del sitio público el ${new Date(project.unpublishAt!).toLocaleString('es-MX')}`;
+}
+
 export function ProjectDetailPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
-  const { projects, setSelectedProject, selectedProject } = useProjects();
+  const [searchParams] = useSearchParams();
+  const isPreview = searchParams.get('preview') === '1';
+  const { projects, allProjects, setSelectedProject, selectedProject } = useProjects();
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -23,8 +47,8 @@ export function ProjectDetailPage() {
       return;
     }
 
-    // Find project by ID
-    const project = projects.find(p => p.id === projectId);
+    // Find project by ID (unpublished ones only load for admins)
+    const project = (isPreview ? allProjects : projects).find(p => p.id === projectId);
     
     if (project) {
       setSelectedProject(project);
@@ -35,7 +59,7 @@ export function ProjectDetailPage() {
         navigate('/');
       }, 1500);
     }
-  }, [projectId, projects, setSelectedProject, navigate]);
+  }, [projectId, projects, allProjects, isPreview, setSelectedProject, navigate]);
 
   const handleClose = () => {
     navigate(-1); // Go back to previous page
@@ -53,6 +77,11 @@ export function ProjectDetailPage() {
 
   return (
     <div className="fixed inset-0 z-50 bg-white overflow-hidden">
+      {isPreview && !isPubliclyVisible(selectedProject) && (
+        <div className="fixed top-0 inset-x-0 z-[60] bg-amber-500 text-white text-center text-sm py-1.5 shadow">
+          Vista previa · {getPreviewNotice(selectedProject)}
+        </div>
+      )}
       <div className="h-full w-full overflow-y-auto bg-white">
         <ProjectStackedCardsView 
           project={selectedProject} 
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '../components/ui/chart';
+import { BarChart3, MapPin, Users, Star, FolderOpen } from 'lucide-react';
+import * as api from '../utils/api';
+import type { ProjectStats, StatsBucket } from '../utils/api';
+import { useProjects } from '../contexts/ProjectContext';
+import { DEFAULT_TERM_COLOR } from '../supabase/functions/_shared/taxonomies';
+
+const chartConfig = {
+  count: { label: 'Proyectos', color: '#ff8012' },
+} satisfies ChartConfig;
+
+const numberFormat = new Intl.NumberFormat('es-MX');
+
+interface StatsChartProps {
+  title: string;
+  description: string;
+  buckets: StatsBucket[];
+  getLabel: (value: string) => string;
+  getColor: (value: string) => string;
+  mapParam: string; // URL parameter read by the map (see hooks/useURLSync)
+}
+
+/**
+ * Horizontal bar chart of one dimension; clicking a bar opens the map filtered by it
+ */
+function StatsChart({ title, description, buckets, getLabel, getColor, mapParam }: StatsChartProps) {
+  const navigate = useNavigate();
+  const data = buckets.map((bucket) => ({ ...bucket, label: getLabel(bucket.value), fill: getColor(bucket.value) }));
+
+  const openMap = (value: string) => navigate(`/?${mapParam}=${encodeURIComponent(value)}`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-gray-500">Sin datos</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(160, data.length * 36) }}>
+              <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" dataKey="count" allowDecimals={false} />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={170}
+                  tickLine={false}
+                  tickFormatter={(label: string) => (label.length > 26 ? `${label.slice(0, 25)}…` : label)}
+                />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(label, payload) => {
+                        const bucket = payload?.[0]?.payload as StatsBucket | undefined;
+                        return (
+                          <div>
+                            <p>{label}</p>
+                            {bucket && (
+                              <p className="font-normal text-muted-foreground">
+                                Puntaje promedio: {bucket.averageScore ?? '—'} · Beneficiarios: {numberFormat.format(bucket.beneficiaries)}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      }}
+                    />
+                  }
+                />
+                <Bar
+                  dataKey="count"
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(entry: { value: string }) => openMap(entry.value)}
+                >
+                  {data.map((entry) => (
+                    <Cell key={entry.value} fill={entry.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+            <p className="mt-2 text-xs text-gray-500">Haz clic en una barra para ver esos proyectos en el mapa</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Public statistics page
+ * Aggregates over the published projects (GET /stats); each chart links
+ * back to the map with the matching filter.
+ */
+export function StatisticsPage() {
+  const navigate = useNavigate();
+  const { getTerm, getConvocatoria } = useProjects();
+  const [stats, setStats] = useState<ProjectStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  const fetchStats = async () => {
+    try {
+      setStats(await api.fetchStats());
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-[#ff8012]"></div>
+          <p className="mt-4 text-gray-600">Cargando estadísticas...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (hasError || !stats) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600 mb-4">No se pudieron cargar las estadísticas</p>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            Volver al mapa
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = [
+    {
+      icon: FolderOpen,
+      label: 'Proyectos publicados',
+      value: numberFormat.format(stats.totalProjects),
+    },
+    {
+      icon: Star,
+      label: 'Puntaje promedio',
+      value: stats.averageScore ?? '—',
+    },
+    {
+      icon: Users,
+      label: 'Beneficiarios directos',
+      value: numberFormat.format(stats.totalBeneficiaries),
+      note: `Reportado en ${stats.projectsWithBeneficiaryCount} de ${stats.totalProjects} proyectos`,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 overflow-y-auto h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-['Arvo',_serif] text-[#0c4159] mb-2 flex items-center gap-3">
+              <BarChart3 className="w-8 h-8 text-[#ff8012]" />
+              Estadísticas
+            </h1>
+            <p className="text-gray-600">
+              Buenas prácticas publicadas por estado, ámbito temático, categoría y convocatoria
+            </p>
+          </div>
+          <Button onClick={() => navigate('/')} className="bg-[#ff8012] hover:bg-[#e67310]">
+            <MapPin className="w-4 h-4 mr-2" />
+            Ver mapa
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          {summary.map(({ icon: Icon, label, value, note }) => (
+            <Card key={label}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-orange-50">
+                    <Icon className="w-5 h-5 text-[#ff8012]" />
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600">{label}</p>
+                    <p className="text-2xl font-semibold text-gray-900">{value}</p>
+                    {note && <p className="text-xs text-gray-500">{note}</p>}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Charts */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <StatsChart
+            title="Por estado"
+            description="Estado principal de implementación"
+            buckets={stats.byState}
+            getLabel={(value) => value}
+            getColor={() => chartConfig.count.color}
+            mapParam="ubicaciones"
+          />
+          <StatsChart
+            title="Por ámbito temático"
+            description="Proyectos en cada ámbito"
+            buckets={stats.byThematicArea}
+            getLabel={(value) => getTerm('thematicArea', value)?.label || value}
+            getColor={(value) => getTerm('thematicArea', value)?.color || DEFAULT_TERM_COLOR}
+            mapParam="areas"
+          />
+          <StatsChart
+            title="Por categoría"
+            description="Categoría de postulación"
+            buckets={stats.byCategory}
+            getLabel={(value) => getTerm('category', value)?.label || value}
+            getColor={(value) => getTerm('category', value)?.color || DEFAULT_TERM_COLOR}
+            mapParam="categorias"
+          />
+          <StatsChart
+            title="Por convocatoria"
+            description="Convocatoria en la que participó cada proyecto"
+            buckets={stats.byConvocatoria}
+            getLabel={(value) => getConvocatoria(value)?.title || value}
+            getColor={(value) => getConvocatoria(value)?.color || DEFAULT_TERM_COLOR}
+            mapParam="convocatorias"
+          />
+        </div>
+
+        <div className="mt-6 flex items-center justify-between text-xs text-gray-500">
+          <p>Actualizado: {new Date(stats.generatedAt).toLocaleString('es-MX')}</p>
+          <a
+            href={api.PUBLIC_API_DOCS_URL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 hover:text-gray-900"
+          >
+            Datos abiertos: API pública
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
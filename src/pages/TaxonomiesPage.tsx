@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Tags, Plus, Edit, Trash2, Loader2, Merge, ArrowUp, ArrowDown } from 'lucide-react';
+import { Taxonomies, TaxonomyKind, TaxonomyTerm } from '../types';
+import {
+  DEFAULT_TAXONOMIES,
+  TAXONOMY_ICONS,
+  TAXONOMY_KINDS,
+  TAXONOMY_LABELS,
+  TaxonomyFieldError,
+  validateTaxonomyTerm,
+} from '../supabase/functions/_shared/taxonomies';
+import { CONVOCATORIA_COLORS, slugify } from '../supabase/functions/_shared/convocatorias';
+import { TaxonomyIcon } from '../utils/taxonomyIcons';
+import * as api from '../utils/api';
+import { useProjects } from '../contexts/ProjectContext';
+import { toast } from 'sonner';
+
+interface TermForm {
+  label: string;
+  value: string;
+  description: string;
+  color: string;
+  icon: string;
+}
+
+const emptyForm = (colorIndex: number): TermForm => ({
+  label: '',
+  value: '',
+  description: '',
+  color: CONVOCATORIA_COLORS[colorIndex % CONVOCATORIA_COLORS.length],
+  icon: '',
+});
+
+const emptyCounts = (): Record<TaxonomyKind, Record<string, number>> => ({ category: {}, thematicArea: {} });
+
+/**
+ * Categories and thematic areas management for super admins
+ * Terms can be created, edited, reordered, merged and deleted; renaming a
+ * term's identifier or merging it moves its projects to the new value.
+ */
+export function TaxonomiesPage() {
+  const { refreshProjects } = useProjects();
+  const [taxonomies, setTaxonomies] = useState<Taxonomies>(DEFAULT_TAXONOMIES);
+  const [projectCounts, setProjectCounts] = useState(emptyCounts());
+  const [activeKind, setActiveKind] = useState<TaxonomyKind>('category');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyValue, setBusyValue] = useState<string | null>(null);
+
+  // Form dialog (editingValue null = new term)
+  const [showForm, setShowForm] = useState(false);
+  const [editingValue, setEditingValue] = useState<string | null>(null);
+  const [form, setForm] = useState<TermForm>(emptyForm(0));
+  const [formErrors, setFormErrors] = useState<TaxonomyFieldError[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Merge dialog
+  const [mergeSource, setMergeSource] = useState<TaxonomyTerm | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    fetchTaxonomies();
+  }, []);
+
+  const fetchTaxonomies = async () => {
+    try {
+      const result = await api.fetchTaxonomiesWithCounts();
+      setTaxonomies(result.taxonomies);
+      setProjectCounts(result.projectCounts);
+    } catch (error) {
+      console.error('Error fetching taxonomies:', error);
+      toast.error('No se pudieron cargar las taxonomías');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Keep filters, markers, badges and the project form in sync with the changes made here
+  const reload = async () => {
+    await Promise.all([fetchTaxonomies(), refreshProjects()]);
+  };
+
+  const terms = taxonomies[activeKind];
+  const labels = TAXONOMY_LABELS[activeKind];
+  const getCount = (value: string) => projectCounts[activeKind]?.[value] ?? 0;
+
+  const openCreate = () => {
+    setEditingValue(null);
+    setForm(emptyForm(terms.length));
+    setFormErrors([]);
+    setShowForm(true);
+  };
+
+  const openEdit = (term: TaxonomyTerm) => {
+    setEditingValue(term.value);
+    setForm({
+      label: term.label,
+      value: term.value,
+      description: term.description || '',
+      color: term.color,
+      icon: term.icon || '',
+    });
+    setFormErrors([]);
+    setShowForm(true);
+  };
+
+  const getFieldError = (field: string) => formErrors.find((e) => e.field === field)?.message;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const others = terms.filter((term) => term.value !== editingValue);
+    const validation = validateTaxonomyTerm(form, others);
+
+    if (!validation.valid || !validation.value) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingValue) {
+        const result = await api.updateTaxonomyTerm(activeKind, editingValue, validation.value);
+        toast.success(
+          'Término actualizado' +
+          (result.updatedProjects > 0 ? `; ${result.updatedProjects} proyecto(s) actualizados` : '')
+        );
+      } else {
+        await api.createTaxonomyTerm(activeKind, validation.value);
+        toast.success('Término creado');
+      }
+      setShowForm(false);
+      await reload();
+    } catch (error) {
+      console.error('Error saving taxonomy term:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo guardar el término');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (term: TaxonomyTerm) => {
+    if (!window.confirm(`¿Eliminar "${term.label}"?\n\nEsta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setBusyValue(term.value);
+    try {
+      await api.deleteTaxonomyTerm(activeKind, term.value);
+      toast.success('Término eliminado');
+      await reload();
+    } catch (error) {
+      console.error('Error deleting taxonomy term:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo eliminar el término');
+    } finally {
+      setBusyValue(null);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const values = terms.map((term) => term.value);
+    [values[index], values[index + offset]] = [values[index + offset], values[index]];
+
+    setBusyValue(terms[index].value);
+    try {
+      const ordered = await api.reorderTaxonomy(activeKind, values);
+      setTaxonomies({ ...taxonomies, [activeKind]: ordered });
+      await refreshProjects();
+    } catch (error) {
+      console.error('Error reordering taxonomy:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo cambiar el orden');
+    } finally {
+      setBusyValue(null);
+    }
+  };
+
+  const openMerge = (term: TaxonomyTerm) => {
+    setMergeSource(term);
+    setMergeTarget('');
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTarget) return;
+
+    setIsMerging(true);
+    try {
+      const updatedProjects = await api.mergeTaxonomyTerms(activeKind, [mergeSource.value], mergeTarget);
+      toast.success(`Términos combinados; ${updatedProjects} proyecto(s) actualizados`);
+      setMergeSource(null);
+      await reload();
+    } catch (error) {
+      console.error('Error merging taxonomy terms:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudieron combinar los términos');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-[#ff8012]"></div>
+          <p className="mt-4 text-gray-600">Cargando taxonomías...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 overflow-y-auto h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-['Arvo',_serif] text-[#0c4159] mb-2">
+              Taxonomías
+            </h1>
+            <p className="text-gray-600">
+              Categorías y ámbitos temáticos que usan los filtros, el mapa y el formulario de proyectos
+            </p>
+          </div>
+          <Button onClick={openCreate} className="bg-[#ff8012] hover:bg-[#e67310]">
+            <Plus className="w-4 h-4 mr-2" />
+            Nuevo Término
+          </Button>
+        </div>
+
+        <Tabs value={activeKind} onValueChange={(value) => setActiveKind(value as TaxonomyKind)}>
+          <TabsList className="mb-4">
+            {TAXONOMY_KINDS.map((kind) => (
+              <TabsTrigger key={kind} value={kind}>{TAXONOMY_LABELS[kind].plural}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {TAXONOMY_KINDS.map((kind) => (
+            <TabsContent key={kind} value={kind}>
+              <Card>
+                <CardHeader>
+                  <CardTitle>{TAXONOMY_LABELS[kind].plural}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {taxonomies[kind].length === 0 ? (
+                    <div className="text-center py-12">
+                      <Tags className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">No hay términos registrados</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {taxonomies[kind].map((term, index) => {
+                        const count = getCount(term.value);
+                        const isBusy = busyValue === term.value;
+
+                        return (
+                          <div
+                            key={term.value}
+                            className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                          >
+                            <div className="flex items-start gap-3 flex-1 min-w-0">
+                              <span
+                                className="w-8 h-8 rounded-full shrink-0 flex items-center justify-center text-white"
+                                style={{ backgroundColor: term.color }}
+                              >
+                                <TaxonomyIcon name={term.icon} />
+                              </span>
+                              <div className="min-w-0">
+                                <p className="font-medium text-gray-900">{term.label}</p>
+                                <p className="text-sm text-gray-600">/{term.value}</p>
+                                {term.description && (
+                                  <p className="text-sm text-gray-500 mt-1 line-clamp-2">{term.description}</p>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">{count} proyecto(s)</p>
+                              </div>
+                            </div>
+
+                            {/* Actions */}
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleMove(index, -1)}
+                                disabled={isBusy || index === 0}
+                                title="Subir"
+                              >
+                                <ArrowUp className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleMove(index, 1)}
+                                disabled={isBusy || index === taxonomies[kind].length - 1}
+                                title="Bajar"
+                              >
+                                <ArrowDown className="w-4 h-4" />
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => openEdit(term)}>
+                                <Edit className="w-4 h-4 mr-1" />
+                                Editar
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openMerge(term)}
+                                disabled={isBusy || taxonomies[kind].length < 2}
+                              >
+                                <Merge className="w-4 h-4 mr-1" />
+                                Combinar
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(term)}
+                                disabled={isBusy || count > 0}
+                                title={count > 0 ? 'Tiene proyectos asociados; combínalo con otro término' : undefined}
+                                className="text-red-600 hover:text-red-700 hover:border-red-300"
+                              >
+                                <Trash2 className="w-4 h-4 mr-1" />
+                                Eliminar
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        {/* Back Button */}
+        <div className="mt-6">
+          <Button variant="outline" onClick={() => window.history.back()}>
+            Volver al Panel
+          </Button>
+        </div>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingValue ? `Editar ${labels.singular}` : `Nuevo término: ${labels.singular}`}</DialogTitle>
+            <DialogDescription>
+              Cambiar el identificador actualiza todos los proyectos que lo usan.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block mb-1 text-sm font-medium">Nombre</label>
+              <Input
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+              {getFieldError('label') && <p className="text-xs text-red-600 mt-1">{getFieldError('label')}</p>}
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Identificador</label>
+              <Input
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+                placeholder={slugify(form.label)}
+              />
+              {getFieldError('value') && <p className="text-xs text-red-600 mt-1">{getFieldError('value')}</p>}
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Descripción</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+              {getFieldError('description') && <p className="text-xs text-red-600 mt-1">{getFieldError('description')}</p>}
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Color</label>
+              <div className="flex flex-wrap gap-1.5">
+                {CONVOCATORIA_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setForm({ ...form, color })}
+                    className={`w-6 h-6 rounded-full border-2 ${form.color.toUpperCase() === color ? 'border-gray-900' : 'border-transparent'}`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+                <input
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value.toUpperCase() })}
+                  className="w-6 h-6 cursor-pointer"
+                  title="Otro color"
+                />
+              </div>
+              {getFieldError('color') && <p className="text-xs text-red-600 mt-1">{getFieldError('color')}</p>}
+            </div>
+
+            <div>
+              <label className="block mb-1 text-sm font-medium">Ícono</label>
+              <div className="flex flex-wrap gap-1.5">
+                {TAXONOMY_ICONS.map((icon) => (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setForm({ ...form, icon: form.icon === icon ? '' : icon })}
+                    className={`w-8 h-8 rounded-md border flex items-center justify-center ${form.icon === icon ? 'border-gray-900 bg-gray-100' : 'border-gray-200'}`}
+                    title={icon}
+                  >
+                    <TaxonomyIcon name={icon} />
+                  </button>
+                ))}
+              </div>
+              {getFieldError('icon') && <p className="text-xs text-red-600 mt-1">{getFieldError('icon')}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-[#ff8012] hover:bg-[#e67310]">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={mergeSource !== null} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Combinar "{mergeSource?.label}"</DialogTitle>
+            <DialogDescription>
+              Sus {mergeSource ? getCount(mergeSource.value) : 0} proyecto(s) pasan al término elegido y "{mergeSource?.label}" se elimina.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Select value={mergeTarget} onValueChange={setMergeTarget}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccionar término destino" />
+            </SelectTrigger>
+            <SelectContent>
+              {terms
+                .filter((term) => term.value !== mergeSource?.value)
+                .map((term) => (
+                  <SelectItem key={term.value} value={term.value}>{term.label}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setMergeSource(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleMerge} disabled={isMerging || !mergeTarget} className="bg-[#ff8012] hover:bg-[#e67310]">
+              {isMerging && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Combinar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
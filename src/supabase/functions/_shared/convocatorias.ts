@@ -0,0 +1,184 @@
+/**
+ * Convocatorias shared by the Edge Function and the browser
+ *
+ * A convocatoria is a call for proposals (e.g. "Primera Convocatoria 2025").
+ * Projects reference one by `convocatoriaId`; the record carries the title,
+ * dates and the color used for map pins and badges. The admin screen and the
+ * server run the same validation below.
+ */
+
+import type { Convocatoria, ConvocatoriaStatus } from '../../../types/index.ts';
+
+export const CONVOCATORIA_STATUSES: ConvocatoriaStatus[] = ['draft', 'open', 'closed', 'archived'];
+
+export const CONVOCATORIA_STATUS_LABELS: Record<ConvocatoriaStatus, string> = {
+  draft: 'Borrador',
+  open: 'Abierta',
+  closed: 'Cerrada',
+  archived: 'Archivada',
+};
+
+// Suggested colors, handed out in order to new convocatorias
+export const CONVOCATORIA_COLORS = [
+  '#3B82F6', // Blue
+  '#10B981', // Green
+  '#8B5CF6', // Purple
+  '#EC4899', // Pink
+  '#F59E0B', // Amber
+  '#EF4444', // Red
+  '#14B8A6', // Teal
+  '#F97316', // Orange
+  '#06B6D4', // Cyan
+  '#84CC16', // Lime
+];
+
+// Fields an admin edits; id and timestamps are managed by the server
+export type ConvocatoriaInput = Omit<Convocatoria, 'id' | 'created_at' | 'updated_at'>;
+
+export interface ConvocatoriaFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ConvocatoriaValidationResult {
+  valid: boolean;
+  errors: ConvocatoriaFieldError[];
+  value?: ConvocatoriaInput; // Trimmed and defaulted input, when valid
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_SLUG_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// Lowercase and strip accents so "Fundación" and "fundacion" compare equal
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * URL-friendly version of a title, e.g. "Primera Convocatoria 2025" -> "primera-convocatoria-2025"
+ */
+export function slugify(text: string): string {
+  return normalize(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Slug not used by any of the given convocatorias ("-2", "-3"... appended when taken)
+ */
+export function getUniqueSlug(base: string, taken: Pick<Convocatoria, 'slug'>[]): string {
+  const used = new Set(taken.map((convocatoria) => convocatoria.slug));
+  const slug = base || 'convocatoria';
+  let candidate = slug;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${slug}-${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Convocatoria whose title or slug matches a free-text name (accent and case insensitive)
+ */
+export function findConvocatoriaByName<T extends Pick<Convocatoria, 'title' | 'slug'>>(
+  convocatorias: T[],
+  name: string
+): T | undefined {
+  const wanted = normalize(name);
+  const wantedSlug = slugify(name);
+  return convocatorias.find((c) => normalize(c.title) === wanted || c.slug === wantedSlug);
+}
+
+/**
+ * Year mentioned in a name ("Segunda Convocatoria 2026" -> 2026)
+ */
+export function getYearFromName(name: string): number | undefined {
+  const match = name.match(/\b(19|20)\d{2}\b/);
+  return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * Newest first, then by title
+ */
+export function sortConvocatorias<T extends Pick<Convocatoria, 'year' | 'title'>>(convocatorias: T[]): T[] {
+  return [...convocatorias].sort((a, b) => b.year - a.year || a.title.localeCompare(b.title, 'es'));
+}
+
+/**
+ * Check a convocatoria payload; `others` are the existing records except the one being edited
+ */
+export function validateConvocatoria(
+  input: unknown,
+  others: Pick<Convocatoria, 'slug'>[]
+): ConvocatoriaValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: '_root', message: 'La convocatoria debe ser un objeto' }] };
+  }
+
+  const data = input as Record<string, unknown>;
+  const errors: ConvocatoriaFieldError[] = [];
+  const text = (key: string) => (typeof data[key] === 'string' ? (data[key] as string).trim() : '');
+
+  const title = text('title');
+  if (!title) {
+    errors.push({ field: 'title', message: 'El título es obligatorio' });
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.push({ field: 'title', message: `El título no puede exceder ${MAX_TITLE_LENGTH} caracteres` });
+  }
+
+  const slug = text('slug') || slugify(title);
+  if (!slug || !SLUG_PATTERN.test(slug) || slug.length > MAX_SLUG_LENGTH) {
+    errors.push({ field: 'slug', message: 'El identificador solo admite minúsculas, números y guiones' });
+  } else if (others.some((other) => other.slug === slug)) {
+    errors.push({ field: 'slug', message: `Ya existe una convocatoria con el identificador "${slug}"` });
+  }
+
+  const year = Number(data.year);
+  if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+    errors.push({ field: 'year', message: 'El año debe ser un número entre 1900 y 2100' });
+  }
+
+  const opensAt = text('opensAt') || undefined;
+  const closesAt = text('closesAt') || undefined;
+  const isValidDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+  if (opensAt && !isValidDate(opensAt)) {
+    errors.push({ field: 'opensAt', message: 'La fecha de apertura debe tener el formato AAAA-MM-DD' });
+  }
+  if (closesAt && !isValidDate(closesAt)) {
+    errors.push({ field: 'closesAt', message: 'La fecha de cierre debe tener el formato AAAA-MM-DD' });
+  }
+  if (opensAt && closesAt && closesAt < opensAt) {
+    errors.push({ field: 'closesAt', message: 'La fecha de cierre no puede ser anterior a la de apertura' });
+  }
+
+  const description = text('description') || undefined;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push({ field: 'description', message: `La descripción no puede exceder ${MAX_DESCRIPTION_LENGTH} caracteres` });
+  }
+
+  const color = text('color') || CONVOCATORIA_COLORS[others.length % CONVOCATORIA_COLORS.length];
+  if (!COLOR_PATTERN.test(color)) {
+    errors.push({ field: 'color', message: 'El color debe ser hexadecimal, por ejemplo #3B82F6' });
+  }
+
+  const status = (text('status') || 'draft') as ConvocatoriaStatus;
+  if (!CONVOCATORIA_STATUSES.includes(status)) {
+    errors.push({ field: 'status', message: `El estado debe ser uno de: ${CONVOCATORIA_STATUSES.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    value: { slug, title, year, opensAt, closesAt, description, color: color.toUpperCase(), status },
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Responsive image helpers shared by the Edge Function and the browser
+ *
+ * Uploads are resized into the widths below and encoded as WebP and AVIF;
+ * the resulting manifest is stored with each project (`imageManifests`,
+ * keyed by image URL) so pages can render srcset without extra requests.
+ */
+
+import type {
+  GalleryImage,
+  GallerySection,
+  ImageCrop,
+  ImageCropRatio,
+  ImageDetails,
+  ImageFraming,
+  ImageManifest,
+  ImageTextField,
+  ImageVariantFormat,
+  ImageVariantName,
+  Project,
+  ProjectImageField,
+} from '../../../types/index.ts';
+
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariantName, number> = {
+  thumbnail: 320,
+  card: 640,
+  hero: 1280,
+  full: 1920,
+};
+
+// Preferred first: browsers take the first <source> they support
+export const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+export const IMAGE_VARIANT_MIME: Record<ImageVariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+// Project fields that hold an image URL
+export const PROJECT_IMAGE_FIELDS: ProjectImageField[] = [
+  'imageUrl',
+  'beneficiariesImageUrl',
+  'riskFactorsImageUrl',
+  'methodologyImageUrl',
+  'resultsImageUrl',
+];
+
+export const PROJECT_IMAGE_LABELS: Record<ProjectImageField, string> = {
+  imageUrl: 'Imagen principal',
+  beneficiariesImageUrl: 'Imagen de beneficiarios',
+  riskFactorsImageUrl: 'Imagen de factores de riesgo',
+  methodologyImageUrl: 'Imagen de metodología',
+  resultsImageUrl: 'Imagen de resultados',
+};
+
+export const GALLERY_SECTIONS: GallerySection[] = ['project', 'beneficiaries', 'riskFactors', 'methodology', 'results'];
+
+export const GALLERY_SECTION_LABELS: Record<GallerySection, string> = {
+  project: 'Galería del proyecto',
+  beneficiaries: 'Galería de beneficiarios',
+  riskFactors: 'Galería de factores de riesgo',
+  methodology: 'Galería de metodología',
+  results: 'Galería de resultados',
+};
+
+export const MAX_GALLERY_IMAGES = 60;
+
+export const IMAGE_DETAIL_LABELS: Record<ImageTextField, string> = {
+  alt: 'texto alternativo',
+  caption: 'pie de foto',
+  credit: 'crédito / licencia',
+};
+
+// Layout ratios an editor can crop for; the layouts using each are in the labels
+export const IMAGE_CROP_RATIOS: ImageCropRatio[] = ['16:9', '4:3', '4:5', '9:16'];
+
+export const IMAGE_CROP_RATIO_LABELS: Record<ImageCropRatio, string> = {
+  '16:9': 'Horizontal: portada en escritorio y panel de vista previa',
+  '4:3': 'Tarjeta: vista rápida del mapa y secciones en móvil',
+  '4:5': 'Vertical: secciones en escritorio',
+  '9:16': 'Teléfono: portada en móvil',
+};
+
+export interface ImageFramingStyle {
+  objectPosition?: string;
+  transform?: string;
+  transformOrigin?: string;
+}
+
+/**
+ * Width divided by height of a crop ratio, e.g. "16:9" -> 1.78
+ */
+export function getCropRatioValue(ratio: ImageCropRatio): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const toPercent = (fraction: number) => `${Math.round(fraction * 10000) / 100}%`;
+
+/**
+ * Inline style that frames an object-cover image for a layout ratio
+ *
+ * A crop for the ratio is reproduced with object-position plus a scale around
+ * the crop, so it matches exactly when the box has that ratio and stays close
+ * otherwise (the box needs overflow hidden). Without a crop the focal point
+ * becomes the object-position; without either the image stays centered.
+ */
+export function getImageFramingStyle(framing: ImageFraming | undefined, ratio?: ImageCropRatio): ImageFramingStyle {
+  const crop = ratio ? framing?.crops?.[ratio] : undefined;
+
+  if (!crop) {
+    const focalPoint = framing?.focalPoint;
+    return focalPoint ? { objectPosition: `${focalPoint.x}% ${focalPoint.y}%` } : {};
+  }
+
+  // The crop keeps the ratio in pixels, so its larger side tells how much of the
+  // image object-cover shows along that axis before any zoom.
+  const zoom = Math.max(crop.width, crop.height);
+  const visibleWidth = crop.width / zoom;
+  const visibleHeight = crop.height / zoom;
+
+  // Visible window centered on the crop, kept inside the image
+  const left = clamp(crop.x + crop.width / 2 - visibleWidth / 2, 0, 1 - visibleWidth);
+  const top = clamp(crop.y + crop.height / 2 - visibleHeight / 2, 0, 1 - visibleHeight);
+  const objectPosition = `${toPercent(visibleWidth < 1 ? left / (1 - visibleWidth) : 0.5)} ${toPercent(visibleHeight < 1 ? top / (1 - visibleHeight) : 0.5)}`;
+
+  if (zoom >= 0.999) {
+    return { objectPosition };
+  }
+
+  // Scaling by 1/zoom around this origin maps the crop onto the whole box
+  const originX = (crop.x - left) / visibleWidth / (1 - zoom);
+  const originY = (crop.y - top) / visibleHeight / (1 - zoom);
+  return {
+    objectPosition,
+    transform: `scale(${Math.round((1 / zoom) * 1000) / 1000})`,
+    transformOrigin: `${toPercent(clamp(originX, 0, 1))} ${toPercent(clamp(originY, 0, 1))}`,
+  };
+}
+
+/**
+ * Largest crop of the given ratio centered on a point (fractions of the image)
+ * `imageAspect` is the image's natural width divided by its height.
+ */
+export function getDefaultCrop(ratio: ImageCropRatio, imageAspect: number, center = { x: 0.5, y: 0.5 }): ImageCrop {
+  const ratioValue = getCropRatioValue(ratio);
+  const width = ratioValue < imageAspect ? ratioValue / imageAspect : 1;
+  const height = ratioValue < imageAspect ? 1 : imageAspect / ratioValue;
+  return {
+    x: clamp(center.x - width / 2, 0, 1 - width),
+    y: clamp(center.y - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Images of a gallery, in display order
+ */
+export function getGalleryImages(project: Pick<Project, 'galleries'>, section: GallerySection): GalleryImage[] {
+  return project.galleries?.[section] ?? [];
+}
+
+/**
+ * Image URLs used by a project, galleries included (deduplicated, empty fields skipped)
+ */
+export function getProjectImageUrls(project: Partial<Project>): string[] {
+  const urls = [
+    ...PROJECT_IMAGE_FIELDS.map((field) => project[field]),
+    ...GALLERY_SECTIONS.flatMap((section) => getGalleryImages(project, section).map((image) => image?.url)),
+  ].filter((url): url is string => Boolean(url));
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Manifest of an image used by a project, if it was uploaded with variants
+ */
+export function getImageManifest(project: Pick<Project, 'imageManifests'>, url?: string): ImageManifest | undefined {
+  return url ? project.imageManifests?.[url] : undefined;
+}
+
+/**
+ * `srcset` value for one format, e.g. "a-320.webp 320w, a-640.webp 640w"
+ */
+export function buildSrcSet(manifest: ImageManifest, format: ImageVariantFormat): string {
+  return manifest.variants
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * Smallest WebP variant for previews, falling back to the original URL
+ */
+export function getThumbnailUrl(manifest: ImageManifest | null | undefined, fallbackUrl: string): string {
+  const smallest = manifest?.variants
+    .filter((variant) => variant.format === 'webp')
+    .sort((a, b) => a.width - b.width)[0];
+  return smallest?.url || fallbackUrl;
+}
+
+/**
+ * Alt text, caption and credit of an image slot (empty when not filled in yet)
+ */
+export function getImageDetails(project: Pick<Project, 'imageDetails'>, field: ProjectImageField): ImageDetails {
+  return project.imageDetails?.[field] ?? { alt: '' };
+}
+
+/**
+ * Image shown in a section: its own slot, or the main image when the slot is empty.
+ * Details follow the image actually shown.
+ */
+export function getSectionImage(
+  project: Pick<Project, ProjectImageField | 'imageDetails' | 'imageManifests'>,
+  field: ProjectImageField
+): { url: string; details: ImageDetails; manifest?: ImageManifest } {
+  const slot = project[field] ? field : 'imageUrl';
+  const url = project[slot] || '';
+  return { url, details: getImageDetails(project, slot), manifest: getImageManifest(project, url) };
+}
+
+export interface MissingImageDetails {
+  label: string; // e.g. "Imagen principal" or "Galería de resultados #3"
+  missing: ImageTextField[];
+}
+
+const getMissingKeys = (details: ImageDetails) =>
+  (Object.keys(IMAGE_DETAIL_LABELS) as ImageTextField[]).filter((key) => !details[key]?.trim());
+
+/**
+ * Images (slots and gallery photos) missing alt text, caption or credit (blocks publishing)
+ */
+export function getMissingImageDetails(
+  project: Pick<Project, ProjectImageField | 'imageDetails' | 'galleries'>
+): MissingImageDetails[] {
+  const slots = PROJECT_IMAGE_FIELDS
+    .filter((field) => Boolean(project[field]))
+    .map((field) => ({ label: PROJECT_IMAGE_LABELS[field], missing: getMissingKeys(getImageDetails(project, field)) }));
+
+  const galleries = GALLERY_SECTIONS.flatMap((section) =>
+    getGalleryImages(project, section).map((image, index) => ({
+      label: `${GALLERY_SECTION_LABELS[section]} #${index + 1}`,
+      missing: getMissingKeys(image),
+    }))
+  );
+
+  return [...slots, ...galleries].filter((entry) => entry.missing.length > 0);
+}
+
+/**
+ * One Spanish sentence per incomplete image, e.g. "Imagen principal: falta texto alternativo, pie de foto"
+ */
+export function describeMissingImageDetails(missing: MissingImageDetails[]): string[] {
+  return missing.map(({ label, missing: keys }) =>
+    `${label}: falta ${keys.map((key) => IMAGE_DETAIL_LABELS[key]).join(', ')}`
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * Project list query shared by the Edge Function and the browser
+ *
+ * The server parses these parameters on GET /projects and runs
+ * `queryProjects`; `utils/api.ts` serializes them with `toProjectSearchParams`,
+ * so both sides agree on names and formats.
+ */
+
+import type { Project } from '../../../types/index.ts';
+
+export type ProjectSortField = 'name' | 'totalScore' | 'finalRankingPosition' | 'state' | 'convocatoria';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ProjectQueryParams {
+  category?: string[];
+  thematicArea?: string[];
+  state?: string[]; // Matches the main state or any implementation state
+  convocatoria?: string[]; // Convocatoria ids
+  q?: string; // Free text (accent and case insensitive)
+  minScore?: number;
+  maxScore?: number;
+  sort?: ProjectSortField;
+  order?: SortOrder;
+  limit?: number; // Omit to get every matching project
+  cursor?: string; // `nextCursor` from the previous page
+}
+
+export type FacetCounts = Record<string, number>;
+
+export interface ProjectFacets {
+  category: FacetCounts;
+  thematicArea: FacetCounts;
+  state: FacetCounts;
+  convocatoria: FacetCounts;
+}
+
+export interface ProjectQueryResult {
+  projects: Project[];
+  total: number; // Projects matching the filters (all pages)
+  nextCursor: string | null;
+  facets: ProjectFacets;
+}
+
+export const MAX_PAGE_LIMIT = 100;
+
+export const PROJECT_SORT_FIELDS: ProjectSortField[] = ['name', 'totalScore', 'finalRankingPosition', 'state', 'convocatoria'];
+
+// Multi-value parameters: repeated (?state=A&state=B) or comma separated (?state=A,B)
+const LIST_PARAMS = ['category', 'thematicArea', 'state', 'convocatoria'] as const;
+
+type FacetKey = typeof LIST_PARAMS[number];
+
+// Lowercase and strip accents so "Michoacán" matches "michoacan"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Every state a project is implemented in (main state first)
+ */
+export function getProjectStates(project: Project): string[] {
+  const states = [project.state, ...(project.implementationStates || [])];
+  return Array.from(new Set(states.filter((s): s is string => Boolean(s))));
+}
+
+// Facet values and sort keys read the convocatoria reference, not the legacy free-text name
+function getFieldValue<K extends FacetKey | ProjectSortField>(project: Project, field: K): Project[K] {
+  return (field === 'convocatoria' ? project.convocatoriaId : project[field]) as Project[K];
+}
+
+function getFacetValues(project: Project, key: FacetKey): string[] {
+  if (key === 'state') return getProjectStates(project);
+  const value = getFieldValue(project, key);
+  return value ? [value] : [];
+}
+
+function matchesFacet(project: Project, key: FacetKey, selected?: string[]): boolean {
+  if (!selected || selected.length === 0) return true;
+  return getFacetValues(project, key).some((value) => selected.includes(value));
+}
+
+function matchesText(project: Project, q?: string): boolean {
+  if (!q) return true;
+  const haystack = normalize([
+    project.id,
+    project.name,
+    project.organization,
+    project.objective,
+    project.municipality,
+    ...getProjectStates(project),
+  ].filter(Boolean).join(' '));
+  return normalize(q).split(/\s+/).filter(Boolean).every((term) => haystack.includes(term));
+}
+
+function matchesScore(project: Project, minScore?: number, maxScore?: number): boolean {
+  const score = Number(project.totalScore) || 0;
+  if (minScore !== undefined && score < minScore) return false;
+  if (maxScore !== undefined && score > maxScore) return false;
+  return true;
+}
+
+// Cursors are base64url-encoded [sortValue, id] of the last project of a page
+function encodeCursor(value: unknown, id: string): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([value, id]));
+  const binary = Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): [unknown, string] | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    return Array.isArray(parsed) && parsed.length === 2 ? [parsed[0], String(parsed[1])] : null;
+  } catch {
+    return null;
+  }
+}
+
+function getSortValue(project: Project, field: ProjectSortField): string | number | null {
+  const value = getFieldValue(project, field);
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'number' ? value : String(value);
+}
+
+// Compare sort values; empty values always go last
+function compareValues(a: string | number | null, b: string | number | null, order: SortOrder): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), 'es');
+  return order === 'asc' ? result : -result;
+}
+
+/**
+ * Parse query-string parameters into a ProjectQueryParams (invalid values are ignored)
+ */
+export function parseProjectQuery(params: URLSearchParams): ProjectQueryParams {
+  const query: ProjectQueryParams = {};
+
+  LIST_PARAMS.forEach((key) => {
+    const values = params.getAll(key).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+    if (values.length > 0) query[key] = values;
+  });
+
+  const q = params.get('q')?.trim();
+  if (q) query.q = q;
+
+  const minScore = Number(params.get('minScore'));
+  if (params.has('minScore') && Number.isFinite(minScore)) query.minScore = minScore;
+
+  const maxScore = Number(params.get('maxScore'));
+  if (params.has('maxScore') && Number.isFinite(maxScore)) query.maxScore = maxScore;
+
+  const sort = params.get('sort') as ProjectSortField | null;
+  if (sort && PROJECT_SORT_FIELDS.includes(sort)) query.sort = sort;
+
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') query.order = order;
+
+  const limit = Number(params.get('limit'));
+  if (params.has('limit') && Number.isInteger(limit) && limit > 0) query.limit = Math.min(limit, MAX_PAGE_LIMIT);
+
+  const cursor = params.get('cursor');
+  if (cursor) query.cursor = cursor;
+
+  return query;
+}
+
+/**
+ * Serialize ProjectQueryParams into query-string parameters (inverse of parseProjectQuery)
+ */
+export function toProjectSearchParams(query: ProjectQueryParams): URLSearchParams {
+  const params = new URLSearchParams();
+
+  LIST_PARAMS.forEach((key) => {
+    query[key]?.forEach((value) => params.append(key, value));
+  });
+
+  if (query.q) params.set('q', query.q);
+  if (query.minScore !== undefined) params.set('minScore', String(query.minScore));
+  if (query.maxScore !== undefined) params.set('maxScore', String(query.maxScore));
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  return params;
+}
+
+/**
+ * Filter, sort and paginate projects, and count facets.
+ * Facet counts for a field ignore that field's own filter, so the UI can show
+ * how many results each additional option would add.
+ */
+export function queryProjects(projects: Project[], query: ProjectQueryParams): ProjectQueryResult {
+  const base = projects.filter((p) => matchesText(p, query.q) && matchesScore(p, query.minScore, query.maxScore));
+
+  const facets = {} as ProjectFacets;
+  LIST_PARAMS.forEach((facetKey) => {
+    const counts: FacetCounts = {};
+    base
+      .filter((p) => LIST_PARAMS.every((key) => key === facetKey || matchesFacet(p, key, query[key])))
+      .forEach((p) => {
+        getFacetValues(p, facetKey).forEach((value) => {
+          counts[value] = (counts[value] || 0) + 1;
+        });
+      });
+    facets[facetKey] = counts;
+  });
+
+  const sortField = query.sort || 'name';
+  const order = query.order || (sortField === 'totalScore' ? 'desc' : 'asc');
+
+  const matching = base
+    .filter((p) => LIST_PARAMS.every((key) => matchesFacet(p, key, query[key])))
+    .sort((a, b) =>
+      compareValues(getSortValue(a, sortField), getSortValue(b, sortField), order) ||
+      a.id.localeCompare(b.id)
+    );
+
+  let start = 0;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+  if (cursor) {
+    const [cursorValue, cursorId] = cursor;
+    const index = matching.findIndex((p) => {
+      const diff = compareValues(getSortValue(p, sortField), cursorValue as string | number | null, order);
+      return diff > 0 || (diff === 0 && p.id.localeCompare(cursorId) > 0);
+    });
+    start = index === -1 ? matching.length : index;
+  }
+
+  const page = query.limit ? matching.slice(start, start + query.limit) : matching.slice(start);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < matching.length;
+
+  return {
+    projects: page,
+    total: matching.length,
+    nextCursor: hasMore && last ? encodeCursor(getSortValue(last, sortField), last.id) : null,
+    facets,
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Project schema shared by the Edge Function and the browser
+ *
+ * The server enforces it on create, update and bulk import; the admin form
+ * and the JSON importer run the exact same rules before sending anything,
+ * so client and server never disagree about what a valid project is.
+ */
+
+import type { Project, ProjectImageField, GallerySection, ImageCropRatio } from '../../../types/index.ts';
+import { PUBLICATION_STATUSES } from './publication.ts';
+import {
+  PROJECT_IMAGE_FIELDS,
+  PROJECT_IMAGE_LABELS,
+  IMAGE_DETAIL_LABELS,
+  IMAGE_CROP_RATIOS,
+  GALLERY_SECTIONS,
+  GALLERY_SECTION_LABELS,
+  MAX_GALLERY_IMAGES,
+} from './images.ts';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'stringArray' | 'mapPosition' | 'imageDetails' | 'galleries';
+
+interface FieldRule {
+  label: string; // Spanish label used in error messages
+  type: FieldType;
+  required?: boolean;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  email?: boolean;
+  oneOf?: readonly string[];
+  dateTime?: boolean; // ISO 8601 date
+}
+
+export interface ProjectFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ProjectValidationResult {
+  valid: boolean;
+  errors: ProjectFieldError[];
+}
+
+const SHORT_TEXT = 300;
+const LONG_TEXT = 20000;
+const URL_TEXT = 2048;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Rules for every field of `Project` (see types/index.ts)
+ * Fields not listed here are left untouched.
+ */
+export const PROJECT_SCHEMA: Partial<Record<keyof Project, FieldRule>> = {
+  id: { label: 'No. de registro', type: 'string', required: true, maxLength: 100 },
+  name: { label: 'Nombre de la propuesta', type: 'string', required: true, maxLength: SHORT_TEXT },
+  organization: { label: 'Organización', type: 'string', required: true, maxLength: SHORT_TEXT },
+  category: { label: 'Categoría', type: 'string', required: true, maxLength: 100 },
+  thematicArea: { label: 'Ámbito temático', type: 'string', required: true, maxLength: 100 },
+  state: { label: 'Estado', type: 'string', required: true, maxLength: 100 },
+  municipality: { label: 'Municipio', type: 'string', maxLength: SHORT_TEXT },
+  implementationStates: { label: 'Estados de implementación', type: 'stringArray' },
+  isNationalProject: { label: 'Proyecto nacional', type: 'boolean' },
+  convocatoriaId: { label: 'Convocatoria', type: 'string', maxLength: 100 },
+  convocatoria: { label: 'Convocatoria (texto anterior)', type: 'string', maxLength: SHORT_TEXT },
+  objective: { label: 'Objetivo principal', type: 'string', required: true, maxLength: LONG_TEXT },
+  beneficiaries: { label: 'Beneficiarios', type: 'string', maxLength: LONG_TEXT },
+  beneficiaryCount: { label: 'Número de beneficiarios', type: 'number', integer: true, min: 0 },
+  riskFactors: { label: 'Factores de riesgo', type: 'string', maxLength: LONG_TEXT },
+  methodology: { label: 'Metodología', type: 'string', maxLength: LONG_TEXT },
+  results: { label: 'Resultados principales', type: 'string', required: true, maxLength: LONG_TEXT },
+  evaluationCriteriaHighlights: { label: 'Criterios de evaluación destacados', type: 'string', maxLength: LONG_TEXT },
+  totalScore: { label: 'Puntaje total', type: 'number', required: true, min: 0 },
+  finalRankingPosition: { label: 'Posición final', type: 'number', integer: true, min: 1 },
+  imageUrl: { label: 'Imagen principal', type: 'string', maxLength: URL_TEXT },
+  latitude: { label: 'Latitud', type: 'number', min: -90, max: 90 },
+  longitude: { label: 'Longitud', type: 'number', min: -180, max: 180 },
+  beneficiariesImageUrl: { label: 'Imagen de beneficiarios', type: 'string', maxLength: URL_TEXT },
+  riskFactorsImageUrl: { label: 'Imagen de factores de riesgo', type: 'string', maxLength: URL_TEXT },
+  methodologyImageUrl: { label: 'Imagen de metodología', type: 'string', maxLength: URL_TEXT },
+  resultsImageUrl: { label: 'Imagen de resultados', type: 'string', maxLength: URL_TEXT },
+  footerOrganizationName: { label: 'Nombre de la organización (pie)', type: 'string', maxLength: SHORT_TEXT },
+  footerContactEmail: { label: 'Correo de contacto', type: 'string', maxLength: SHORT_TEXT, email: true },
+  footerContactPhone: { label: 'Teléfono de contacto', type: 'string', maxLength: 50 },
+  footerContactEmail2: { label: 'Segundo correo de contacto', type: 'string', maxLength: SHORT_TEXT, email: true },
+  footerContactPhone2: { label: 'Segundo teléfono de contacto', type: 'string', maxLength: 50 },
+  footerWebsiteUrl: { label: 'Sitio web', type: 'string', maxLength: URL_TEXT },
+  footerPhysicalAddress: { label: 'Dirección', type: 'string', maxLength: SHORT_TEXT },
+  footerInstagramUrl: { label: 'Instagram', type: 'string', maxLength: URL_TEXT },
+  footerFacebookUrl: { label: 'Facebook', type: 'string', maxLength: URL_TEXT },
+  footerXUrl: { label: 'X (Twitter)', type: 'string', maxLength: URL_TEXT },
+  footerLinkedinUrl: { label: 'LinkedIn', type: 'string', maxLength: URL_TEXT },
+  footerTiktokUrl: { label: 'TikTok', type: 'string', maxLength: URL_TEXT },
+  footerYoutubeUrl: { label: 'YouTube', type: 'string', maxLength: URL_TEXT },
+  mapPosition: { label: 'Ubicación en el mapa', type: 'mapPosition' },
+  publicationStatus: { label: 'Estado de publicación', type: 'string', oneOf: PUBLICATION_STATUSES },
+  publishAt: { label: 'Fecha de publicación', type: 'string', dateTime: true },
+  unpublishAt: { label: 'Fecha de retiro', type: 'string', dateTime: true },
+  imageDetails: { label: 'Detalles de imagen', type: 'imageDetails', maxLength: 1000 },
+  galleries: { label: 'Galerías', type: 'galleries', maxLength: 1000, max: MAX_GALLERY_IMAGES },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Check the focal point and crops of one image; returns a Spanish message or null
+ */
+function validateImageFraming(label: string, framing: unknown): string | null {
+  if (!isObject(framing)) {
+    return `${label}: el encuadre tiene un formato inválido`;
+  }
+
+  const { focalPoint, crops } = framing;
+  if (focalPoint !== undefined && (!isObject(focalPoint) || !isInRange(focalPoint.x, 0, 100) || !isInRange(focalPoint.y, 0, 100))) {
+    return `${label}: el punto focal debe estar entre 0 y 100`;
+  }
+
+  if (crops === undefined) return null;
+  if (!isObject(crops)) {
+    return `${label}: los recortes tienen un formato inválido`;
+  }
+  for (const [ratio, crop] of Object.entries(crops)) {
+    if (!IMAGE_CROP_RATIOS.includes(ratio as ImageCropRatio)) {
+      return `${label}: ${ratio} no es una proporción de recorte válida`;
+    }
+    const isValid = isObject(crop)
+      && isInRange(crop.x, 0, 1) && isInRange(crop.y, 0, 1)
+      && isInRange(crop.width, 0.01, 1) && isInRange(crop.height, 0.01, 1)
+      && (crop.x as number) + (crop.width as number) <= 1.0001
+      && (crop.y as number) + (crop.height as number) <= 1.0001;
+    if (!isValid) {
+      return `${label}: el recorte ${ratio} queda fuera de la imagen`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check alt text, caption, credit and framing of one image; returns a Spanish message or null
+ */
+function validateImageDetails(label: string, details: unknown, maxLength: number): string | null {
+  if (!isObject(details)) {
+    return `${label}: los detalles tienen un formato inválido`;
+  }
+  for (const [key, name] of Object.entries(IMAGE_DETAIL_LABELS)) {
+    const text = details[key];
+    if (text !== undefined && typeof text !== 'string') {
+      return `${label}: el ${name} debe ser texto`;
+    }
+    if (typeof text === 'string' && text.length > maxLength) {
+      return `${label}: el ${name} no puede exceder ${maxLength} caracteres`;
+    }
+  }
+  return details.framing === undefined ? null : validateImageFraming(label, details.framing);
+}
+
+/**
+ * Check a single value against its rule; returns a Spanish message or null
+ */
+function validateField(rule: FieldRule, value: unknown): string | null {
+  const isEmpty = value === undefined || value === null || value === '';
+
+  if (isEmpty) {
+    return rule.required ? `${rule.label} es obligatorio` : null;
+  }
+
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return `${rule.label} debe ser texto`;
+      }
+      if (rule.required && !value.trim()) {
+        return `${rule.label} es obligatorio`;
+      }
+      if (rule.maxLength && value.length > rule.maxLength) {
+        return `${rule.label} no puede exceder ${rule.maxLength} caracteres`;
+      }
+      if (rule.email && !EMAIL_PATTERN.test(value.trim())) {
+        return `${rule.label} no es un correo electrónico válido`;
+      }
+      if (rule.oneOf && !rule.oneOf.includes(value)) {
+        return `${rule.label} no es un valor permitido`;
+      }
+      if (rule.dateTime && Number.isNaN(Date.parse(value))) {
+        return `${rule.label} no es una fecha válida`;
+      }
+      return null;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${rule.label} debe ser un número`;
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        return `${rule.label} debe ser un número entero`;
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return `${rule.label} debe ser mayor o igual a ${rule.min}`;
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return `${rule.label} debe ser menor o igual a ${rule.max}`;
+      }
+      return null;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${rule.label} debe ser verdadero o falso`;
+
+    case 'stringArray':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        return `${rule.label} debe ser una lista de textos`;
+      }
+      return null;
+
+    case 'mapPosition': {
+      const position = value as Record<string, unknown>;
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `${rule.label} tiene un formato inválido`;
+      }
+      for (const axis of ['x', 'y']) {
+        const coordinate = position[axis];
+        if (typeof coordinate !== 'number' || !Number.isFinite(coordinate) || coordinate < 0 || coordinate > 100) {
+          return `${rule.label}: la coordenada ${axis} debe estar entre 0 y 100`;
+        }
+      }
+      return null;
+    }
+
+    case 'imageDetails': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `${rule.label} tiene un formato inválido`;
+      }
+      for (const [field, details] of Object.entries(value as Record<string, unknown>)) {
+        if (!PROJECT_IMAGE_FIELDS.includes(field as ProjectImageField)) {
+          return `${rule.label}: ${field} no es un campo de imagen`;
+        }
+        const message = validateImageDetails(PROJECT_IMAGE_LABELS[field as ProjectImageField], details, rule.maxLength!);
+        if (message) return message;
+      }
+      return null;
+    }
+
+    case 'galleries': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `${rule.label} tiene un formato inválido`;
+      }
+      for (const [section, images] of Object.entries(value as Record<string, unknown>)) {
+        if (!GALLERY_SECTIONS.includes(section as GallerySection)) {
+          return `${rule.label}: ${section} no es una sección válida`;
+        }
+        const gallery = GALLERY_SECTION_LABELS[section as GallerySection];
+        if (!Array.isArray(images)) {
+          return `${gallery} debe ser una lista de imágenes`;
+        }
+        if (rule.max !== undefined && images.length > rule.max) {
+          return `${gallery} no puede tener más de ${rule.max} imágenes`;
+        }
+        for (const [index, image] of images.entries()) {
+          const label = `${gallery} #${index + 1}`;
+          if (!image || typeof image.url !== 'string' || !image.url || image.url.length > URL_TEXT) {
+            return `${label}: la URL de la imagen es inválida`;
+          }
+          if (typeof image.id !== 'string' || !image.id) {
+            return `${label}: falta el identificador`;
+          }
+          const message = validateImageDetails(label, image, rule.maxLength!);
+          if (message) return message;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate a project payload
+ */
+export function validateProject(input: unknown): ProjectValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return {
+      valid: false,
+      errors: [{ field: '', message: 'El proyecto debe ser un objeto' }],
+    };
+  }
+
+  const project = input as Record<string, unknown>;
+  const errors: ProjectFieldError[] = [];
+
+  for (const [field, rule] of Object.entries(PROJECT_SCHEMA)) {
+    if (!rule) continue;
+
+    const message = validateField(rule, project[field]);
+    if (message) {
+      errors.push({ field, message });
+    }
+  }
+
+  // The publication window must not be empty
+  const publishAt = Date.parse(String(project.publishAt));
+  const unpublishAt = Date.parse(String(project.unpublishAt));
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    errors.push({ field: 'unpublishAt', message: 'La fecha de retiro debe ser posterior a la de publicación' });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Type guard variant for places that only need a yes/no answer
+ */
+export function isValidProject(input: unknown): input is Project {
+  return validateProject(input).valid;
+}
+
+/**
+ * Join field errors into a single readable sentence
+ */
+export function formatValidationErrors(errors: ProjectFieldError[]): string {
+  return errors.map((error) => error.message).join('; ');
+}
@@ -0,0 +1,105 @@
+/**
+ * Aggregated project statistics shared by the Edge Function and the browser
+ *
+ * The server computes them over the publicly visible projects on GET /stats
+ * (cached, see server/stats.tsx); the statistics page renders them and links
+ * each bucket to the map filtered the same way.
+ */
+
+import type { Project } from '../../../types/index.ts';
+
+export interface StatsBucket {
+  value: string; // State name, term value or convocatoria id
+  count: number;
+  averageScore: number | null; // null when no project in the bucket has a score
+  beneficiaries: number; // Sum of beneficiaryCount
+}
+
+export interface ProjectStats {
+  totalProjects: number;
+  averageScore: number | null;
+  totalBeneficiaries: number;
+  projectsWithBeneficiaryCount: number; // The total only covers these
+  byState: StatsBucket[]; // Main state, as the map's location filter
+  byThematicArea: StatsBucket[];
+  byCategory: StatsBucket[];
+  byConvocatoria: StatsBucket[];
+  generatedAt: string; // ISO date
+}
+
+export type StatsDimension = 'byState' | 'byThematicArea' | 'byCategory' | 'byConvocatoria';
+
+const DIMENSION_FIELDS: Record<StatsDimension, keyof Project> = {
+  byState: 'state',
+  byThematicArea: 'thematicArea',
+  byCategory: 'category',
+  byConvocatoria: 'convocatoriaId',
+};
+
+interface Totals {
+  count: number;
+  scoreSum: number;
+  scored: number;
+  beneficiaries: number;
+}
+
+const emptyTotals = (): Totals => ({ count: 0, scoreSum: 0, scored: 0, beneficiaries: 0 });
+
+function addProject(totals: Totals, project: Project): void {
+  totals.count += 1;
+  if (typeof project.totalScore === 'number' && Number.isFinite(project.totalScore)) {
+    totals.scoreSum += project.totalScore;
+    totals.scored += 1;
+  }
+  if (typeof project.beneficiaryCount === 'number' && Number.isFinite(project.beneficiaryCount)) {
+    totals.beneficiaries += project.beneficiaryCount;
+  }
+}
+
+// One decimal, like the scores shown in the project pages
+const average = (totals: Totals) => (totals.scored > 0 ? Math.round((totals.scoreSum / totals.scored) * 10) / 10 : null);
+
+/**
+ * Count projects per dimension, with their average score and beneficiaries.
+ * Buckets are sorted by count (largest first); projects without a value are left out.
+ */
+export function computeProjectStats(projects: Project[], now: number = Date.now()): ProjectStats {
+  const overall = emptyTotals();
+  const buckets = {} as Record<StatsDimension, Map<string, Totals>>;
+  (Object.keys(DIMENSION_FIELDS) as StatsDimension[]).forEach((dimension) => {
+    buckets[dimension] = new Map();
+  });
+
+  projects.forEach((project) => {
+    addProject(overall, project);
+
+    (Object.keys(DIMENSION_FIELDS) as StatsDimension[]).forEach((dimension) => {
+      const value = project[DIMENSION_FIELDS[dimension]];
+      if (typeof value !== 'string' || !value) return;
+
+      const map = buckets[dimension];
+      if (!map.has(value)) map.set(value, emptyTotals());
+      addProject(map.get(value)!, project);
+    });
+  });
+
+  const toBuckets = (map: Map<string, Totals>): StatsBucket[] =>
+    Array.from(map, ([value, totals]) => ({
+      value,
+      count: totals.count,
+      averageScore: average(totals),
+      beneficiaries: totals.beneficiaries,
+    })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'es'));
+
+  return {
+    totalProjects: overall.count,
+    averageScore: average(overall),
+    totalBeneficiaries: overall.beneficiaries,
+    projectsWithBeneficiaryCount: projects.filter((p) => typeof p.beneficiaryCount === 'number').length,
+    byState: toBuckets(buckets.byState),
+    byThematicArea: toBuckets(buckets.byThematicArea),
+    byCategory: toBuckets(buckets.byCategory),
+    byConvocatoria: toBuckets(buckets.byConvocatoria),
+    generatedAt: new Date(now).toISOString(),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Publication workflow shared by the Edge Function and the browser
+ *
+ * draft → in_review → published → archived
+ * Editors submit drafts for review; super admins approve, request changes,
+ * archive and reopen. Only published projects are visible to the public,
+ * and only inside their optional publishAt / unpublishAt window.
+ */
+
+import type { Project, PublicationStatus } from '../../../types/index.ts';
+
+export const PUBLICATION_STATUSES: PublicationStatus[] = ['draft', 'in_review', 'published', 'archived'];
+
+export const PUBLICATION_STATUS_LABELS: Record<PublicationStatus, string> = {
+  draft: 'Borrador',
+  in_review: 'En revisión',
+  published: 'Publicado',
+  archived: 'Archivado',
+};
+
+export interface PublicationTransition {
+  from: PublicationStatus;
+  to: PublicationStatus;
+  label: string; // Spanish action label for buttons
+  superAdminOnly: boolean;
+  requiresComment: boolean;
+}
+
+export const PUBLICATION_TRANSITIONS: PublicationTransition[] = [
+  { from: 'draft', to: 'in_review', label: 'Enviar a revisión', superAdminOnly: false, requiresComment: false },
+  { from: 'in_review', to: 'draft', label: 'Solicitar cambios', superAdminOnly: true, requiresComment: true },
+  { from: 'in_review', to: 'published', label: 'Aprobar y publicar', superAdminOnly: true, requiresComment: false },
+  { from: 'published', to: 'archived', label: 'Archivar', superAdminOnly: true, requiresComment: false },
+  { from: 'published', to: 'draft', label: 'Despublicar', superAdminOnly: true, requiresComment: false },
+  { from: 'archived', to: 'draft', label: 'Reabrir como borrador', superAdminOnly: true, requiresComment: false },
+];
+
+/**
+ * Status of a project; records saved before the workflow existed count as published
+ */
+export function getPublicationStatus(project: Pick<Project, 'publicationStatus'> | null | undefined): PublicationStatus {
+  return project?.publicationStatus || 'published';
+}
+
+export function isPublished(project: Pick<Project, 'publicationStatus'> | null | undefined): boolean {
+  return getPublicationStatus(project) === 'published';
+}
+
+/**
+ * Transitions available from a status for a given role
+ */
+export function getAvailableTransitions(status: PublicationStatus, isSuperAdmin: boolean): PublicationTransition[] {
+  return PUBLICATION_TRANSITIONS.filter((t) => t.from === status && (isSuperAdmin || !t.superAdminOnly));
+}
+
+/**
+ * Where a project stands relative to its publishAt / unpublishAt window
+ */
+export type ScheduleState = 'scheduled' | 'live' | 'expired';
+
+export function getScheduleState(
+  project: Pick<Project, 'publishAt' | 'unpublishAt'>,
+  now: number = Date.now()
+): ScheduleState {
+  if (project.publishAt && Date.parse(project.publishAt) > now) return 'scheduled';
+  if (project.unpublishAt && Date.parse(project.unpublishAt) <= now) return 'expired';
+  return 'live';
+}
+
+/**
+ * Whether the public should see a project right now: published and inside its window
+ */
+export function isPubliclyVisible(
+  project: Pick<Project, 'publicationStatus' | 'publishAt' | 'unpublishAt'> | null | undefined,
+  now: number = Date.now()
+): boolean {
+  return Boolean(project) && isPublished(project) && getScheduleState(project!, now) === 'live';
+}
+
+/**
+ * Earliest future publishAt / unpublishAt among the projects (ms), or null
+ * Used to refresh the public list exactly when something goes live or expires.
+ */
+export function getNextScheduleChange(
+  projects: Pick<Project, 'publishAt' | 'unpublishAt'>[],
+  now: number = Date.now()
+): number | null {
+  let next: number | null = null;
+  projects.forEach((project) => {
+    [project.publishAt, project.unpublishAt].forEach((date) => {
+      const time = date ? Date.parse(date) : NaN;
+      if (time > now && (next === null || time < next)) next = time;
+    });
+  });
+  return next;
+}
+
+export function findTransition(from: PublicationStatus, to: PublicationStatus): PublicationTransition | undefined {
+  return PUBLICATION_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
@@ -0,0 +1,141 @@
+/**
+ * Taxonomies shared by the Edge Function and the browser
+ *
+ * Categories and thematic areas are editable lists of terms. Projects store a
+ * term's `value` in `category` / `thematicArea`; labels, descriptions, colors
+ * and icons come from here, so filters, markers, badges and forms agree.
+ * The server falls back to DEFAULT_TAXONOMIES until a super admin edits a list.
+ */
+
+import type { TaxonomyKind, TaxonomyTerm, Taxonomies } from '../../../types/index.ts';
+import { slugify } from './convocatorias.ts';
+
+export const TAXONOMY_KINDS: TaxonomyKind[] = ['category', 'thematicArea'];
+
+export const TAXONOMY_LABELS: Record<TaxonomyKind, { singular: string; plural: string }> = {
+  category: { singular: 'Categoría', plural: 'Categorías' },
+  thematicArea: { singular: 'Ámbito temático', plural: 'Ámbitos temáticos' },
+};
+
+// Lucide icon names an admin can pick (rendered by utils/taxonomyIcons.tsx)
+export const TAXONOMY_ICONS = [
+  'award',
+  'sparkles',
+  'folder',
+  'shield',
+  'baby',
+  'home',
+  'megaphone',
+  'refresh-cw',
+  'map-pin',
+  'handshake',
+  'users',
+  'heart',
+  'scale',
+  'lightbulb',
+  'graduation-cap',
+  'leaf',
+] as const;
+
+// Used when a project points to a term that no longer exists
+export const DEFAULT_TERM_COLOR = '#6366F1';
+
+export const DEFAULT_TAXONOMIES: Taxonomies = {
+  category: [
+    { value: 'iniciativa-con-evidencia-impacto', label: 'Iniciativa con evidencia de impacto o resultado', color: '#22C55E', icon: 'award' },
+    { value: 'iniciativa-prometedora', label: 'Iniciativa prometedora', color: '#3B82F6', icon: 'sparkles' },
+    { value: 'proyecto', label: 'Proyecto', color: '#A855F7', icon: 'folder' },
+  ],
+  thematicArea: [
+    { value: 'prevencion-violencias-ninos-adolescentes', label: 'Prevención de violencias o conductas problemáticas de niños, niñas y adolescentes', color: '#F97316', icon: 'baby' },
+    { value: 'prevencion-violencia-intrafamiliar-maltrato-infantil', label: 'Prevención de la violencia intrafamiliar y el maltrato infantil', color: '#EF4444', icon: 'home' },
+    { value: 'proteccion-lideres-sociales-defensores-periodistas', label: 'Protección a líderes(as) sociales, defensores(as) de DDHH y/o periodistas', color: '#EC4899', icon: 'megaphone' },
+    { value: 'rehabilitacion-reinsercion-social-jovenes-adultos', label: 'Reinserción social de jóvenes y adultos en conflicto con la justicia', color: '#8B5CF6', icon: 'refresh-cw' },
+    { value: 'prevencion-situacional', label: 'Prevención situacional', color: '#06B6D4', icon: 'map-pin' },
+    { value: 'mediacion-resolucion-conflictos', label: 'Mediación, resolución pacífica de conflictos y construcción de paz', color: '#10B981', icon: 'handshake' },
+    { value: 'policia-comunitaria', label: 'Policía comunitaria', color: '#0C4159', icon: 'shield' },
+  ],
+};
+
+export interface TaxonomyFieldError {
+  field: string;
+  message: string;
+}
+
+export interface TaxonomyTermValidationResult {
+  valid: boolean;
+  errors: TaxonomyFieldError[];
+  value?: TaxonomyTerm; // Trimmed and defaulted input, when valid
+}
+
+const VALUE_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const MAX_VALUE_LENGTH = 100;
+const MAX_LABEL_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export function isTaxonomyKind(kind: unknown): kind is TaxonomyKind {
+  return TAXONOMY_KINDS.includes(kind as TaxonomyKind);
+}
+
+/**
+ * Term with the given value, if any
+ */
+export function findTerm(terms: TaxonomyTerm[], value: string | undefined): TaxonomyTerm | undefined {
+  return value ? terms.find((term) => term.value === value) : undefined;
+}
+
+/**
+ * Check a term payload; `others` are the terms of the same taxonomy except the one being edited
+ */
+export function validateTaxonomyTerm(input: unknown, others: TaxonomyTerm[]): TaxonomyTermValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: '_root', message: 'El término debe ser un objeto' }] };
+  }
+
+  const data = input as Record<string, unknown>;
+  const errors: TaxonomyFieldError[] = [];
+  const text = (key: string) => (typeof data[key] === 'string' ? (data[key] as string).trim() : '');
+
+  const label = text('label');
+  if (!label) {
+    errors.push({ field: 'label', message: 'El nombre es obligatorio' });
+  } else if (label.length > MAX_LABEL_LENGTH) {
+    errors.push({ field: 'label', message: `El nombre no puede exceder ${MAX_LABEL_LENGTH} caracteres` });
+  } else if (others.some((other) => other.label.toLowerCase() === label.toLowerCase())) {
+    errors.push({ field: 'label', message: `Ya existe un término llamado "${label}"` });
+  }
+
+  const value = text('value') || slugify(label);
+  if (!value || !VALUE_PATTERN.test(value) || value.length > MAX_VALUE_LENGTH) {
+    errors.push({ field: 'value', message: 'El identificador solo admite minúsculas, números y guiones' });
+  } else if (others.some((other) => other.value === value)) {
+    errors.push({ field: 'value', message: `Ya existe un término con el identificador "${value}"` });
+  }
+
+  const description = text('description') || undefined;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push({ field: 'description', message: `La descripción no puede exceder ${MAX_DESCRIPTION_LENGTH} caracteres` });
+  }
+
+  const color = text('color') || DEFAULT_TERM_COLOR;
+  if (!COLOR_PATTERN.test(color)) {
+    errors.push({ field: 'color', message: 'El color debe ser hexadecimal, por ejemplo #3B82F6' });
+  }
+
+  const icon = text('icon') || undefined;
+  if (icon && !(TAXONOMY_ICONS as readonly string[]).includes(icon)) {
+    errors.push({ field: 'icon', message: 'Ícono no disponible' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    value: { value, label, description, color: color.toUpperCase(), icon },
+  };
+}
@@ -1,124 +1,132 @@
 import { Hono } from 'npm:hono';
 import { createClient } from 'npm:@supabase/supabase-js@2';
-import * as kv from './kv_store.tsx';
+import * as kv from './kv.tsx';
+import { requireAdmin, getSessionEmail, type AdminEnv } from './auth.tsx';
+import { recordAudit } from './audit.tsx';
 
-const adminRoutes = new Hono();
+const adminRoutes = new Hono<AdminEnv>();
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL')!,
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 );
 
-// Initialize first super admin if no admins exist
-async function initializeFirstAdmin() {
-  try {
-    // Check if any admins exist in our KV store
-    const admins = await kv.getByPrefix('admin_list:');
-    
-    if (admins.length === 0) {
-      console.log('No admins found in KV store - initializing first super admin');
-      
-      const email = 'hello@cakaostudio.com';
-      const password = 'Cakaostudio08';
-      
-      // First, check if user already exists in Supabase Auth
-      let userId: string | null = null;
-      
-      try {
-        // Try to get existing user by email
-        const { data: existingUsers, error: listError } = await supabase.auth.admin.listUsers();
-        
-        if (!listError && existingUsers?.users) {
-          const existingUser = existingUsers.users.find(u => u.email === email);
-          
-          if (existingUser) {
-            console.log('User already exists in Supabase Auth, using existing user:', existingUser.id);
-            userId = existingUser.id;
-          }
-        }
-      } catch (checkError) {
-        console.log('Could not check for existing user:', checkError);
-      }
-      
-      // If user doesn't exist, create it
-      if (!userId) {
-        try {
-          const { data: authData, error: authError } = await supabase.auth.admin.createUser({
-            email,
-            password,
-            email_confirm: true,
-            user_metadata: { name: 'Super Admin' }
-          });
-
-          if (authError) {
-            console.error('Error creating auth user:', authError);
-            
-            // If error is because user already exists, try to sign in to get the user ID
-            if (authError.message?.includes('already') || authError.status === 422) {
-              console.log('User might already exist, will create KV entry anyway');
-              // Generate a temporary ID for KV store
-              userId = `temp-${Date.now()}`;
-            } else {
-              console.error('Cannot create super admin:', authError.message);
-              return;
-            }
-          } else {
-            userId = authData.user.id;
-            console.log('Created new auth user:', userId);
-          }
-        } catch (createError) {
-          console.error('Exception creating auth user:', createError);
-          return;
-        }
-      }
+// One-time links for invitations and password resets
+const INVITE_TOKEN_TTL_MS = 72 * 60 * 60 * 1000; // 72 hours
+const RESET_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MIN_PASSWORD_LENGTH = 8;
 
-      // Store admin data in KV store
-      if (userId) {
-        const adminKey = `admin_user:${email}`;
-        const adminData = {
-          id: userId,
-          email,
-          name: 'Super Admin',
-          role: 'super_admin',
-          status: 'active',
-          created_at: new Date().toISOString(),
-          password: password // Store the password for super admin too
-        };
-
-        await kv.set(adminKey, adminData);
-        await kv.set(`admin_list:${userId}`, adminData);
-
-        console.log('✅ First super admin initialized successfully:', email);
-      }
-    } else {
-      console.log(`Found ${admins.length} existing admin(s), skipping initialization`);
-    }
-  } catch (error) {
-    console.error('Error initializing first admin:', error);
+type AdminTokenPurpose = 'invite' | 'reset';
+
+// Convert bytes to a hex string
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Generate a random, URL-safe token
+function generateToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// Hash a token with SHA-256 - only the hash is ever stored in the KV store
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+// Compare two secrets without leaking their contents through timing
+async function secretsMatch(a: string, b: string): Promise<boolean> {
+  const [hashA, hashB] = await Promise.all([hashToken(a), hashToken(b)]);
+  let diff = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    diff |= hashA.charCodeAt(i) ^ hashB.charCodeAt(i);
   }
+  return diff === 0;
 }
 
-// Don't initialize on module load - it causes boot errors
-// Users should call /admin/initialize-super-admin manually instead
-// initializeFirstAdmin();
+// Remove every pending token that belongs to an admin
+async function revokeAdminTokens(adminId: string) {
+  const tokens = await kv.getByPrefix('admin_token:');
+  const keys = tokens
+    .filter((t: any) => t && t.adminId === adminId)
+    .map((t: any) => `admin_token:${t.hash}`);
 
-// Generate random password
-function generatePassword(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789!@#$%';
-  let password = '';
-  for (let i = 0; i < 12; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
+  if (keys.length > 0) {
+    await kv.mdel(keys);
   }
-  return password;
 }
 
-// Check user role
+// Create a single-use token for an admin, replacing any previous pending one
+async function createAdminToken(
+  admin: { id: string; email: string },
+  purpose: AdminTokenPurpose,
+  createdBy: string | null
+): Promise<{ token: string; expiresAt: string }> {
+  await revokeAdminTokens(admin.id);
+
+  const token = generateToken();
+  const hash = await hashToken(token);
+  const ttl = purpose === 'invite' ? INVITE_TOKEN_TTL_MS : RESET_TOKEN_TTL_MS;
+  const expiresAt = new Date(Date.now() + ttl).toISOString();
+
+  await kv.set(`admin_token:${hash}`, {
+    hash,
+    adminId: admin.id,
+    email: admin.email,
+    purpose,
+    created_by: createdBy,
+    created_at: new Date().toISOString(),
+    expires_at: expiresAt
+  });
+
+  return { token, expiresAt };
+}
+
+// Find the stored record for a token; expired tokens are removed and treated as missing
+async function findValidToken(token: string) {
+  const hash = await hashToken(token);
+  const record = await kv.get(`admin_token:${hash}`);
+
+  if (!record) {
+    return null;
+  }
+
+  if (new Date(record.expires_at).getTime() < Date.now()) {
+    await kv.del(`admin_token:${hash}`);
+    return null;
+  }
+
+  return record;
+}
+
+// Strip fields that must never leave the server (legacy plaintext passwords)
+function toPublicAdmin(adminData: any) {
+  const { password: _legacyPassword, ...publicData } = adminData;
+  return publicData;
+}
+
+// Save an admin under both its email and id keys
+async function saveAdmin(adminData: any) {
+  const cleanData = toPublicAdmin(adminData);
+  await kv.set(`admin_user:${cleanData.email}`, cleanData);
+  await kv.set(`admin_list:${cleanData.id}`, cleanData);
+  return cleanData;
+}
+
+// Find a user in Supabase Auth by email
+async function findAuthUserId(email: string): Promise<string | null> {
+  const { data: existingUsers } = await supabase.auth.admin.listUsers();
+  const existingUser = existingUsers?.users?.find(u => u.email === email);
+  return existingUser?.id ?? null;
+}
+
+// Check the role of the logged-in user (identity comes from the session token)
 adminRoutes.post('/check-role', async (c) => {
   try {
-    const { email } = await c.req.json();
+    const email = await getSessionEmail(c);
     
     if (!email) {
-      return c.json({ error: 'Email is required' }, 400);
+      return c.json({ error: 'Authentication required' }, 401);
     }
 
     // Get admin data from KV store
@@ -143,8 +151,9 @@ adminRoutes.post('/check-role', async (c) => {
   }
 });
 
-// Invite new admin
-adminRoutes.post('/invite', async (c) => {
+// Invite new admin (super admin only)
+// Creates the account without a password and returns a one-time link to set it
+adminRoutes.post('/invite', requireAdmin('super_admin'), async (c) => {
   try {
     const { name, email, role } = await c.req.json();
 
@@ -156,117 +165,84 @@ adminRoutes.post('/invite', async (c) => {
       return c.json({ error: 'Invalid role' }, 400);
     }
 
-    // FIRST: Check if user exists in our KV store
-    const adminKey = `admin_user:${email}`;
-    const existingAdmin = await kv.get(adminKey);
-    
-    console.log('=== INVITE USER DEBUG ===');
-    console.log('Email:', email);
-    console.log('Checking if admin exists in KV store...');
-    console.log('existingAdmin value:', existingAdmin);
-    console.log('existingAdmin type:', typeof existingAdmin);
+    // Check if user exists in our KV store
+    const existingAdmin = await kv.get(`admin_user:${email}`);
     
     if (existingAdmin && typeof existingAdmin === 'object' && existingAdmin.email) {
-      // User already exists in KV store
-      console.log('❌ User already exists in KV store');
       return c.json({ 
         error: 'Este administrador ya existe en el sistema. Por favor verifica la lista de administradores.' 
       }, 400);
     }
-    
-    console.log('✅ User does NOT exist in KV store, proceeding...');
-
-    // Generate temporary password
-    const temporaryPassword = generatePassword();
 
     let userId: string | null = null;
     let userAlreadyExisted = false;
 
-    // Try to create user in Supabase Auth
-    console.log('Attempting to create user in Supabase Auth...');
+    // Create the user in Supabase Auth without a password - the invitee sets it
     const { data: authData, error: authError } = await supabase.auth.admin.createUser({
       email,
-      password: temporaryPassword,
       email_confirm: true, // Auto-confirm since we don't have email server configured
       user_metadata: { name }
     });
 
     if (authError) {
-      console.error('Error creating auth user:', authError);
-      
-      // If user already exists in Auth, try to get their ID
+      // If user already exists in Auth, link the existing account
       if (authError.message?.includes('already') || authError.status === 422 || authError.code === 'email_exists') {
-        console.log('⚠️ User already exists in Supabase Auth');
-        console.log('Since they don\'t exist in KV store, we will add them...');
-        
-        // User exists in Auth but not in KV store - let's find their ID and add them
         try {
-          const { data: existingUsers } = await supabase.auth.admin.listUsers();
-          const existingUser = existingUsers?.users?.find(u => u.email === email);
-          
-          if (existingUser) {
-            userId = existingUser.id;
-            userAlreadyExisted = true;
-            console.log('✅ Found existing user in Auth:', userId);
-          } else {
-            console.error('❌ User should exist in Auth but was not found in listUsers()');
-            return c.json({ 
-              error: 'Error al recuperar el usuario existente. Por favor contacta al administrador del sistema.' 
-            }, 500);
-          }
+          userId = await findAuthUserId(email);
+          userAlreadyExisted = true;
         } catch (err) {
           console.error('Error finding existing user:', err);
           return c.json({ 
             error: 'Error al verificar usuario existente: ' + String(err) 
           }, 500);
         }
+
+        if (!userId) {
+          console.error('❌ User should exist in Auth but was not found in listUsers()');
+          return c.json({ 
+            error: 'Error al recuperar el usuario existente. Por favor contacta al administrador del sistema.' 
+          }, 500);
+        }
       } else {
-        // Some other error that we can't handle
         console.error('❌ Unexpected auth error:', authError);
         return c.json({ error: 'Error creating user: ' + authError.message }, 500);
       }
     } else {
-      // User was created successfully
       userId = authData.user.id;
-      console.log('✅ Created new user in Supabase Auth:', userId);
-    }
-
-    // At this point we should have a valid userId
-    if (!userId) {
-      return c.json({ error: 'Failed to obtain user ID' }, 500);
     }
 
-    // Store admin data in KV store (reuse adminKey from line 158)
-    const adminData = {
+    // Invited admins stay inactive until they accept the invitation
+    const adminData = await saveAdmin({
       id: userId,
       email,
       name,
       role,
-      status: 'active',
+      status: 'invited',
       created_at: new Date().toISOString(),
-      password: userAlreadyExisted ? null : temporaryPassword // Store password only for new users
-    };
+      created_by: c.get('admin').email
+    });
 
-    await kv.set(adminKey, adminData);
+    const { token, expiresAt } = await createAdminToken(adminData, 'invite', c.get('admin').email);
 
-    // Also store in admin list for easy retrieval
-    const adminListKey = `admin_list:${userId}`;
-    await kv.set(adminListKey, adminData);
+    console.log(`✅ Admin invited: ${email} (existed in Auth: ${userAlreadyExisted})`);
 
-    console.log(`✅ Admin added to system: ${email} (existed in Auth: ${userAlreadyExisted})`);
+    await recordAudit(c, {
+      action: 'admin.invite',
+      target: { type: 'admin', id: adminData.id, label: email },
+      after: { name, role, status: 'invited' }
+    });
 
     return c.json({
       success: true,
-      temporaryPassword: userAlreadyExisted 
-        ? '(Usuario ya existía - usar contraseña anterior o restablecer)' 
-        : temporaryPassword,
+      inviteToken: token,
+      expiresAt,
       admin: {
         email,
         name,
         role
       },
       note: userAlreadyExisted 
-        ? 'Este usuario ya existía en el sistema de autenticación. Fue agregado a la lista de administradores.' 
+        ? 'Este usuario ya existía en el sistema de autenticación. Al aceptar la invitación definirá una nueva contraseña.' 
         : undefined
     });
   } catch (error) {
@@ -275,8 +251,8 @@ adminRoutes.post('/invite', async (c) => {
   }
 });
 
-// List all admins
-adminRoutes.get('/list', async (c) => {
+// List all admins (super admin only)
+adminRoutes.get('/list', requireAdmin('super_admin'), async (c) => {
   try {
     // Get all admin entries from KV store
     // Note: getByPrefix returns an array of values (not {key, value} objects)
@@ -284,11 +260,11 @@ adminRoutes.get('/list', async (c) => {
     
     console.log('=== DEBUG: Admin List ===');
     console.log('Raw admin values found:', adminValues.length);
-    console.log('Raw data:', JSON.stringify(adminValues, null, 2));
     
     // The values are already parsed objects, no need to JSON.parse
     const admins = adminValues
       .filter(admin => admin && typeof admin === 'object' && admin.email)
+      .map(toPublicAdmin)
       .sort((a, b) => {
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
       });
@@ -303,8 +279,9 @@ adminRoutes.get('/list', async (c) => {
   }
 });
 
-// Toggle admin status
-adminRoutes.post('/toggle-status', async (c) => {
+
+// Toggle admin status (super admin only)
+adminRoutes.post('/toggle-status', requireAdmin('super_admin'), async (c) => {
   try {
     const { adminId, status } = await c.req.json();
 
@@ -312,6 +289,10 @@ adminRoutes.post('/toggle-status', async (c) => {
       return c.json({ error: 'Missing required fields' }, 400);
     }
 
+    if (adminId === c.get('admin').id) {
+      return c.json({ error: 'No puedes cambiar tu propio estado' }, 400);
+    }
+
     if (!['active', 'inactive'].includes(status)) {
       return c.json({ error: 'Invalid status' }, 400);
     }
@@ -325,25 +306,29 @@ adminRoutes.post('/toggle-status', async (c) => {
     }
     
     // Update status
+    const previousStatus = adminData.status;
     adminData.status = status;
     adminData.updated_at = new Date().toISOString();
 
-    // Save updated data (pass object directly, no need to stringify)
-    await kv.set(adminListKey, adminData);
-    
-    // Also update in email-keyed entry
-    const adminKey = `admin_user:${adminData.email}`;
-    await kv.set(adminKey, adminData);
+    const savedAdmin = await saveAdmin(adminData);
+
+    await recordAudit(c, {
+      action: 'admin.status_change',
+      target: { type: 'admin', id: adminId, label: adminData.email },
+      before: { status: previousStatus },
+      after: { status }
+    });
 
-    return c.json({ success: true, admin: adminData });
+    return c.json({ success: true, admin: savedAdmin });
   } catch (error) {
     console.error('Error toggling admin status:', error);
     return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
-// Delete admin permanently
-adminRoutes.post('/delete', async (c) => {
+
+// Delete admin permanently (super admin only)
+adminRoutes.post('/delete', requireAdmin('super_admin'), async (c) => {
   try {
     const { adminId } = await c.req.json();
 
@@ -351,6 +336,10 @@ adminRoutes.post('/delete', async (c) => {
       return c.json({ error: 'Admin ID is required' }, 400);
     }
 
+    if (adminId === c.get('admin').id) {
+      return c.json({ error: 'No puedes eliminar tu propia cuenta' }, 400);
+    }
+
     // Get admin data
     const adminListKey = `admin_list:${adminId}`;
     const adminData = await kv.get(adminListKey);
@@ -359,28 +348,21 @@ adminRoutes.post('/delete', async (c) => {
       return c.json({ error: 'Admin not found' }, 404);
     }
 
-    // Delete from KV store
+    // Delete both keys from the KV store
     const adminUserKey = `admin_user:${adminData.email}`;
-    
-    // Delete both keys
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    );
+    await kv.mdel([adminListKey, adminUserKey]);
 
-    // Delete from kv_store table
-    await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .delete()
-      .eq('key', adminListKey);
-
-    await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .delete()
-      .eq('key', adminUserKey);
+    // Pending invitation or reset links stop working
+    await revokeAdminTokens(adminId);
 
     console.log(`✅ Admin deleted from system: ${adminData.email}`);
 
+    await recordAudit(c, {
+      action: 'admin.delete',
+      target: { type: 'admin', id: adminId, label: adminData.email },
+      before: { name: adminData.name, role: adminData.role, status: adminData.status }
+    });
+
     return c.json({ 
       success: true, 
       message: 'Administrador eliminado correctamente',
@@ -395,8 +377,10 @@ adminRoutes.post('/delete', async (c) => {
   }
 });
 
-// Get admin credentials (for super admin only)
-adminRoutes.post('/get-credentials', async (c) => {
+
+// Get admin account details (super admin only)
+// Passwords are never stored, so only account info and pending link status are returned
+adminRoutes.post('/get-credentials', requireAdmin('super_admin'), async (c) => {
   try {
     const { adminId } = await c.req.json();
 
@@ -412,14 +396,22 @@ adminRoutes.post('/get-credentials', async (c) => {
       return c.json({ error: 'Admin not found' }, 404);
     }
 
+    const tokens = await kv.getByPrefix('admin_token:');
+    const pendingToken = tokens.find((t: any) =>
+      t && t.adminId === adminId && new Date(t.expires_at).getTime() > Date.now()
+    );
+
     return c.json({ 
       success: true,
       credentials: {
         email: adminData.email,
-        password: adminData.password || '(No disponible - usuario ya existía)',
         name: adminData.name,
         role: adminData.role,
-        created_at: adminData.created_at
+        status: adminData.status,
+        created_at: adminData.created_at,
+        pendingLink: pendingToken
+          ? { purpose: pendingToken.purpose, expires_at: pendingToken.expires_at }
+          : null
       }
     });
   } catch (error) {
@@ -428,8 +420,9 @@ adminRoutes.post('/get-credentials', async (c) => {
   }
 });
 
-// Reset admin password (generate new password)
-adminRoutes.post('/reset-password', async (c) => {
+// Reset admin password (super admin only)
+// Returns a one-time link; the admin chooses the new password themselves
+adminRoutes.post('/reset-password', requireAdmin('super_admin'), async (c) => {
   try {
     const { adminId } = await c.req.json();
 
@@ -445,158 +438,232 @@ adminRoutes.post('/reset-password', async (c) => {
       return c.json({ error: 'Admin not found' }, 404);
     }
 
-    // Generate new password
-    const newPassword = generatePassword();
+    // Invited admins get a fresh invitation instead of a reset link
+    const purpose: AdminTokenPurpose = adminData.status === 'invited' ? 'invite' : 'reset';
+    const { token, expiresAt } = await createAdminToken(adminData, purpose, c.get('admin').email);
+
+    // Drop any legacy plaintext password still stored on the record
+    await saveAdmin({ ...adminData, updated_at: new Date().toISOString() });
+
+    console.log(`✅ Password reset link created for admin: ${adminData.email}`);
+
+    await recordAudit(c, {
+      action: purpose === 'invite' ? 'admin.invite_resend' : 'admin.password_reset',
+      target: { type: 'admin', id: adminId, label: adminData.email },
+      after: { expires_at: expiresAt }
+    });
+
+    return c.json({ 
+      success: true,
+      resetToken: token,
+      purpose,
+      expiresAt,
+      message: 'Enlace de restablecimiento generado exitosamente'
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return c.json({ error: 'Internal server error: ' + String(error) }, 500);
+  }
+});
+
+// Check a one-time invitation/reset token before showing the password form (public)
+adminRoutes.post('/verify-invite', async (c) => {
+  try {
+    const { token } = await c.req.json();
+
+    if (!token) {
+      return c.json({ error: 'Token is required' }, 400);
+    }
+
+    const record = await findValidToken(token);
+
+    if (!record) {
+      return c.json({ error: 'El enlace no es válido o ha expirado' }, 404);
+    }
+
+    const adminData = await kv.get(`admin_list:${record.adminId}`);
+
+    return c.json({
+      success: true,
+      email: record.email,
+      name: adminData?.name,
+      purpose: record.purpose,
+      expiresAt: record.expires_at
+    });
+  } catch (error) {
+    console.error('Error verifying invite:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Accept an invitation or reset link and set the password (public, single use)
+adminRoutes.post('/accept-invite', async (c) => {
+  try {
+    const { token, password } = await c.req.json();
+
+    if (!token || !password) {
+      return c.json({ error: 'Missing required fields' }, 400);
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return c.json({ 
+        error: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres` 
+      }, 400);
+    }
+
+    const record = await findValidToken(token);
+
+    if (!record) {
+      return c.json({ error: 'El enlace no es válido o ha expirado' }, 404);
+    }
+
+    // Consume the token first so it can never be used twice
+    await kv.del(`admin_token:${record.hash}`);
+
+    const adminData = await kv.get(`admin_list:${record.adminId}`);
+
+    if (!adminData) {
+      return c.json({ error: 'Admin not found' }, 404);
+    }
 
-    // Update password in Supabase Auth
     const { error: updateError } = await supabase.auth.admin.updateUserById(
-      adminId,
-      { password: newPassword }
+      record.adminId,
+      { password }
     );
 
     if (updateError) {
-      console.error('Error updating password in Supabase Auth:', updateError);
+      console.error('Error setting password in Supabase Auth:', updateError);
       return c.json({ 
-        error: 'Error al actualizar la contraseña: ' + updateError.message 
+        error: 'Error al guardar la contraseña: ' + updateError.message 
       }, 500);
     }
 
-    // Update password in KV store
-    adminData.password = newPassword;
-    adminData.updated_at = new Date().toISOString();
+    await saveAdmin({
+      ...adminData,
+      status: adminData.status === 'invited' ? 'active' : adminData.status,
+      updated_at: new Date().toISOString()
+    });
 
-    await kv.set(adminListKey, adminData);
-    
-    // Also update in email-keyed entry
-    const adminKey = `admin_user:${adminData.email}`;
-    await kv.set(adminKey, adminData);
+    // The first super admin is in: disable the bootstrap endpoint for good
+    if (adminData.role === 'super_admin' && !(await kv.get('system:super_admin_initialized'))) {
+      await kv.set('system:super_admin_initialized', {
+        email: adminData.email,
+        initialized_at: new Date().toISOString()
+      });
+    }
 
-    console.log(`✅ Password reset for admin: ${adminData.email}`);
+    console.log(`✅ ${record.purpose === 'invite' ? 'Invitation accepted' : 'Password reset'}: ${adminData.email}`);
 
-    return c.json({ 
+    // No session here - the token holder acts as themselves
+    await recordAudit(c, {
+      action: record.purpose === 'invite' ? 'admin.invite_accept' : 'admin.password_set',
+      target: { type: 'admin', id: adminData.id, label: adminData.email },
+      actor: adminData,
+      before: { status: adminData.status },
+      after: { status: adminData.status === 'invited' ? 'active' : adminData.status }
+    });
+
+    return c.json({
       success: true,
-      newPassword: newPassword,
-      message: 'Contraseña actualizada exitosamente'
+      email: adminData.email,
+      message: 'Contraseña establecida correctamente'
     });
   } catch (error) {
-    console.error('Error resetting password:', error);
-    return c.json({ error: 'Internal server error: ' + String(error) }, 500);
+    console.error('Error accepting invite:', error);
+    return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
-// Manual initialization endpoint - call this to create the first super admin
+// Bootstrap the first super admin (public, one time only)
+// Requires SUPER_ADMIN_EMAIL and SUPER_ADMIN_BOOTSTRAP_SECRET to be set as function secrets.
+// The caller must post the bootstrap secret and receives an invitation link to set the password.
+// Until that invitation is accepted the bootstrap can be repeated for a fresh link (so an
+// expired one does not lock everyone out); once accepted, or once any other admin exists,
+// the endpoint is permanently disabled.
 adminRoutes.post('/initialize-super-admin', async (c) => {
   try {
-    const email = 'hello@cakaostudio.com';
-    const password = 'Cakaostudio08';
-    
-    // Check if admin already exists in KV store
-    const adminKey = `admin_user:${email}`;
-    const existingAdmin = await kv.get(adminKey);
-    
-    if (existingAdmin) {
+    const email = Deno.env.get('SUPER_ADMIN_EMAIL');
+    const bootstrapSecret = Deno.env.get('SUPER_ADMIN_BOOTSTRAP_SECRET');
+
+    if (!email || !bootstrapSecret) {
       return c.json({ 
-        success: true, 
-        message: 'Super admin already exists in KV store',
-        admin: existingAdmin, // Already an object, no need to parse
-        credentials: { email, password }
-      });
+        error: 'La inicialización no está configurada en el servidor' 
+      }, 503);
     }
-    
-    // Try to find or create user in Supabase Auth
-    let userId: string | null = null;
-    let userAlreadyExisted = false;
-    
-    // First check if user exists in Auth
-    try {
-      const { data: existingUsers } = await supabase.auth.admin.listUsers();
-      const existingUser = existingUsers?.users?.find(u => u.email === email);
-      
-      if (existingUser) {
-        userId = existingUser.id;
-        userAlreadyExisted = true;
-        console.log('✅ Found existing user in Supabase Auth:', userId);
-      }
-    } catch (err) {
-      console.log('Error checking existing users:', err);
+
+    const alreadyInitialized = await kv.get('system:super_admin_initialized');
+    const existingAdmins = await kv.getByPrefix('admin_list:');
+
+    // The super admin of an earlier bootstrap that never accepted its invitation
+    const pendingAdmin = existingAdmins.length === 1 &&
+      existingAdmins[0]?.email === email &&
+      existingAdmins[0]?.status === 'invited'
+      ? existingAdmins[0]
+      : null;
+
+    if (alreadyInitialized || (existingAdmins.length > 0 && !pendingAdmin)) {
+      return c.json({ 
+        error: 'La inicialización ya fue utilizada y está deshabilitada' 
+      }, 410);
     }
-    
-    // If not found, try to create
+
+    const { secret } = await c.req.json().catch(() => ({ secret: null }));
+
+    if (!secret || !(await secretsMatch(String(secret), bootstrapSecret))) {
+      return c.json({ error: 'Clave de inicialización incorrecta' }, 403);
+    }
+
+    // Find or create the user in Supabase Auth (without a password)
+    let userId = pendingAdmin?.id ?? await findAuthUserId(email);
+
     if (!userId) {
-      try {
-        const { data: authData, error: authError } = await supabase.auth.admin.createUser({
-          email,
-          password,
-          email_confirm: true,
-          user_metadata: { name: 'Super Admin' }
-        });
-
-        if (authError) {
-          // If error is because user exists, try to get user ID
-          if (authError.code === 'email_exists' || authError.status === 422) {
-            console.log('User already exists in Auth, fetching user...');
-            
-            // Try to get the user again
-            const { data: users } = await supabase.auth.admin.listUsers();
-            const user = users?.users?.find(u => u.email === email);
-            
-            if (user) {
-              userId = user.id;
-              userAlreadyExisted = true;
-              console.log('✅ Found existing user after creation error:', userId);
-            } else {
-              // Last resort: use a generated ID
-              userId = `fallback-${Date.now()}`;
-              console.log('⚠️ Using fallback ID:', userId);
-            }
-          } else {
-            console.error('Auth error:', authError);
-            return c.json({ 
-              error: 'Failed to create/find user in Supabase Auth', 
-              details: authError.message 
-            }, 500);
-          }
-        } else {
-          userId = authData.user.id;
-          console.log('✅ Created new user in Supabase Auth:', userId);
-        }
-      } catch (err) {
-        console.error('Exception creating user:', err);
+      const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+        email,
+        email_confirm: true,
+        user_metadata: { name: 'Super Admin' }
+      });
+
+      if (authError) {
+        console.error('Auth error:', authError);
         return c.json({ 
-          error: 'Failed to create user', 
-          details: String(err) 
+          error: 'Failed to create/find user in Supabase Auth', 
+          details: authError.message 
         }, 500);
       }
+
+      userId = authData.user.id;
     }
-    
-    // Create admin in KV store
-    const adminData = {
+
+    const adminData = await saveAdmin({
       id: userId,
       email,
       name: 'Super Admin',
       role: 'super_admin',
-      status: 'active',
-      created_at: new Date().toISOString(),
-      password: password // Store the password for super admin too
-    };
+      status: 'invited',
+      created_at: pendingAdmin?.created_at ?? new Date().toISOString()
+    });
 
-    await kv.set(adminKey, adminData);
-    await kv.set(`admin_list:${userId}`, adminData);
+    // Replaces the link of an earlier bootstrap; /accept-invite disables the endpoint
+    const { token, expiresAt } = await createAdminToken(adminData, 'invite', null);
 
-    const message = userAlreadyExisted 
-      ? 'Super admin created in system (user already existed in Auth)'
-      : 'Super admin created successfully';
+    console.log(`✅ Super admin bootstrapped: ${email}`);
 
-    console.log(`✅ ${message}`);
+    await recordAudit(c, {
+      action: 'system.initialize_super_admin',
+      target: { type: 'admin', id: adminData.id, label: email },
+      actor: null
+    });
 
     return c.json({
       success: true,
-      message,
-      admin: adminData,
-      credentials: {
-        email,
-        password
-      }
+      message: 'Super admin creado. Usa el enlace de invitación para definir la contraseña.',
+      admin: {
+        email: adminData.email,
+        role: adminData.role,
+        status: adminData.status
+      },
+      inviteToken: token,
+      expiresAt
     });
   } catch (error) {
     console.error('Error in manual initialization:', error);
@@ -604,32 +671,18 @@ adminRoutes.post('/initialize-super-admin', async (c) => {
   }
 });
 
-// DEBUG ENDPOINT - Temporary for troubleshooting
-adminRoutes.get('/debug-kv', async (c) => {
+// DEBUG ENDPOINT - Temporary for troubleshooting (super admin only)
+adminRoutes.get('/debug-kv', requireAdmin('super_admin'), async (c) => {
   try {
     console.log('=== DEBUG: Checking all KV entries ===');
     
-    // We need to query the database directly to get both keys and values
-    // because getByPrefix only returns values
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    );
-    
-    // Get admin_list entries with keys
-    const { data: adminListData } = await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .select('key, value')
-      .like('key', 'admin_list:%');
+    // getByPrefix only returns values, so list entries with their keys
+    const adminListData = await kv.getEntriesByPrefix('admin_list:');
     
     console.log('admin_list: entries found:', adminListData?.length || 0);
     console.log('admin_list: data:', JSON.stringify(adminListData, null, 2));
     
-    // Get admin_user entries with keys
-    const { data: adminUserData } = await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .select('key, value')
-      .like('key', 'admin_user:%');
+    const adminUserData = await kv.getEntriesByPrefix('admin_user:');
     
     console.log('admin_user: entries found:', adminUserData?.length || 0);
     console.log('admin_user: data:', JSON.stringify(adminUserData, null, 2));
@@ -650,56 +703,33 @@ adminRoutes.get('/debug-kv', async (c) => {
   }
 });
 
-// CLEANUP ENDPOINT - Removes all admin entries from KV store
-adminRoutes.post('/cleanup-kv', async (c) => {
+// CLEANUP ENDPOINT - Removes all admin entries from KV store (super admin only)
+adminRoutes.post('/cleanup-kv', requireAdmin('super_admin'), async (c) => {
   try {
     console.log('=== CLEANUP: Removing all admin entries ===');
     
-    // Get all admin entries
-    const adminListValues = await kv.getByPrefix('admin_list:');
-    const adminUserValues = await kv.getByPrefix('admin_user:');
-    
-    console.log(`Found ${adminListValues.length} admin_list entries`);
-    console.log(`Found ${adminUserValues.length} admin_user entries`);
-    
-    // We need to reconstruct the keys from the data
-    // Since getByPrefix only returns values, we need to use a different approach
-    // Let's delete by querying the database directly
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    );
-    
-    // Delete all admin_list: entries
-    const { error: error1 } = await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .delete()
-      .like('key', 'admin_list:%');
+    // Get all admin entries (with keys, so they can be deleted)
+    const adminListEntries = await kv.getEntriesByPrefix('admin_list:');
+    const adminUserEntries = await kv.getEntriesByPrefix('admin_user:');
     
-    if (error1) {
-      console.error('Error deleting admin_list entries:', error1);
-    } else {
-      console.log('✅ Deleted all admin_list: entries');
-    }
+    console.log(`Found ${adminListEntries.length} admin_list entries`);
+    console.log(`Found ${adminUserEntries.length} admin_user entries`);
     
-    // Delete all admin_user: entries
-    const { error: error2 } = await supabaseClient
-      .from('kv_store_2ce8a38a')
-      .delete()
-      .like('key', 'admin_user:%');
+    await kv.mdel([...adminListEntries, ...adminUserEntries].map((entry) => entry.key));
+    console.log('✅ Deleted all admin_list: and admin_user: entries');
     
-    if (error2) {
-      console.error('Error deleting admin_user entries:', error2);
-    } else {
-      console.log('✅ Deleted all admin_user: entries');
-    }
+    await recordAudit(c, {
+      action: 'system.cleanup_kv',
+      target: { type: 'system', label: 'admin_list / admin_user' },
+      before: { admin_list: adminListEntries.length, admin_user: adminUserEntries.length }
+    });
     
     return c.json({
       success: true,
       message: 'All admin entries have been removed from KV store',
       deleted: {
-        admin_list: adminListValues.length,
-        admin_user: adminUserValues.length
+        admin_list: adminListEntries.length,
+        admin_user: adminUserEntries.length
       }
     });
   } catch (error) {
@@ -0,0 +1,360 @@
+import { strict as assert } from "node:assert";
+import * as kv from "./kv.tsx";
+import { setKvBackend } from "./kv.tsx";
+import { createMemoryKv } from "./kv_memory.tsx";
+import { setAuthVerifier } from "./auth.tsx";
+import { createLocalAuthVerifier, createLocalSessionToken } from "./auth_local.tsx";
+import { CURRENT_SCHEMA_VERSION } from "./migrations.tsx";
+import { auditEntriesToCsv } from "./audit.tsx";
+
+// Route tests: the real app over the in-memory KV, local session tokens and
+// local file storage. Run with `npm test` (deno test).
+
+// app.tsx picks its storage and the admin routes their Auth client on import
+Deno.env.set("SUPABASE_URL", "http://localhost");
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test");
+Deno.env.set("STORAGE_BACKEND", "local");
+Deno.env.set("STORAGE_LOCAL_DIR", await Deno.makeTempDir());
+const { default: app } = await import("./app.tsx");
+
+const BASE = "http://localhost/make-server-2ce8a38a";
+const SECRET = "test-secret";
+
+setAuthVerifier(createLocalAuthVerifier(SECRET));
+
+function admin(email: string, role: "super_admin" | "editor", status = "active") {
+  return { id: email, email, name: email, role, status, created_at: "2025-01-01T00:00:00.000Z" };
+}
+
+const IMAGE_URL = "https://example.com/foto.jpg";
+
+function project(overrides: Record<string, any> = {}) {
+  return {
+    id: "BP-001",
+    name: "Proyecto de prueba",
+    organization: "Organización",
+    category: "proyecto",
+    thematicArea: "prevencion-situacional",
+    state: "Jalisco",
+    objective: "Objetivo",
+    results: "Resultados",
+    totalScore: 80,
+    ...overrides,
+  };
+}
+
+function publishedProject(overrides: Record<string, any> = {}) {
+  return project({
+    publicationStatus: "published",
+    imageUrl: IMAGE_URL,
+    imageDetails: { imageUrl: { alt: "Taller", caption: "Sesión de trabajo", credit: "Organización" } },
+    ...overrides,
+  });
+}
+
+/**
+ * KV entries of a project stored at `revision` (with its revision counter)
+ */
+function stored(value: Record<string, any>, revision = 1) {
+  return {
+    [`project:${value.id}`]: { ...value, revision, schemaVersion: CURRENT_SCHEMA_VERSION },
+    [`project_revision_head:${value.id}`]: { latest: revision },
+  };
+}
+
+/**
+ * Fresh store for each test: an editor, a super admin, an inactive editor and one convocatoria
+ */
+function seed(extra: Record<string, any> = {}) {
+  setKvBackend(createMemoryKv({
+    "admin_user:editor@example.com": admin("editor@example.com", "editor"),
+    "admin_user:super@example.com": admin("super@example.com", "super_admin"),
+    "admin_user:inactive@example.com": admin("inactive@example.com", "editor", "inactive"),
+    "convocatoria:conv-2025": { id: "conv-2025", slug: "conv-2025", title: "Convocatoria 2025", year: 2025, color: "#ff8012", status: "open" },
+    ...extra,
+  }));
+}
+
+async function upload(file: File) {
+  const form = new FormData();
+  form.append("file", file);
+
+  const response = await app.request(`${BASE}/images/upload`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${await createLocalSessionToken("editor@example.com", SECRET)}` },
+    body: form,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// 1x1 GIF (stored as is, no variants)
+const GIF = Uint8Array.from(atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"), (ch) => ch.charCodeAt(0));
+
+async function request(method: string, path: string, { as, body }: { as?: string; body?: unknown } = {}) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (as) headers.Authorization = `Bearer ${await createLocalSessionToken(as, SECRET)}`;
+
+  const response = await app.request(`${BASE}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("admin routes reject missing, invalid and non-admin sessions", async () => {
+  seed();
+
+  assert.equal((await request("GET", "/trash")).status, 401);
+  assert.equal((await request("GET", "/trash", { as: "nobody@example.com" })).status, 403);
+  assert.equal((await request("GET", "/trash", { as: "inactive@example.com" })).status, 403);
+  assert.equal((await request("GET", "/trash", { as: "editor@example.com" })).status, 200);
+
+  // Signed with another secret
+  const forged = await createLocalSessionToken("super@example.com", "other-secret");
+  const response = await app.request(`${BASE}/trash`, { headers: { Authorization: `Bearer ${forged}` } });
+  assert.equal(response.status, 401);
+});
+
+Deno.test("local session tokens expire", async () => {
+  const verify = createLocalAuthVerifier(SECRET);
+
+  assert.equal(await verify(await createLocalSessionToken("editor@example.com", SECRET)), "editor@example.com");
+  assert.equal(await verify(await createLocalSessionToken("editor@example.com", SECRET, -1)), null);
+  assert.equal(await verify("not-a-token"), null);
+});
+
+Deno.test("POST /projects creates a draft at the current schema version", async () => {
+  seed();
+
+  const { status, body } = await request("POST", "/projects", {
+    as: "editor@example.com",
+    body: project({ publicationStatus: "published" }),
+  });
+
+  assert.equal(status, 200);
+  assert.equal(body.project.publicationStatus, "draft");
+  assert.equal(body.project.revision, 1);
+  assert.equal(body.project.schemaVersion, CURRENT_SCHEMA_VERSION);
+});
+
+Deno.test("writes over an existing project need the loaded revision", async () => {
+  seed(stored(project(), 2));
+  const as = "editor@example.com";
+
+  // Creating with a folio that is taken
+  const taken = await request("POST", "/projects", { as, body: project({ name: "Otro" }) });
+  assert.equal(taken.status, 409);
+  assert.equal(taken.body.current.name, "Proyecto de prueba");
+
+  assert.equal((await request("PUT", "/projects/BP-001", { as, body: { name: "Otro" } })).status, 409);
+  assert.equal((await request("PUT", "/projects/BP-001", { as, body: { name: "Otro", revision: 1 } })).status, 409);
+
+  const updated = await request("PUT", "/projects/BP-001", { as, body: { name: "Otro", revision: 2 } });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.project.revision, 3);
+});
+
+Deno.test("imports over existing projects need their revision", async () => {
+  seed(stored(project(), 2));
+  const as = "editor@example.com";
+  const batch = (revision?: number) => ({ projects: [project({ name: "Importado", revision }), project({ id: "BP-002" })] });
+
+  const blind = await request("POST", "/projects/bulk-import", { as, body: batch() });
+  assert.equal(blind.status, 409);
+  assert.deepEqual(blind.body.conflictingIds, ["BP-001"]);
+  assert.equal((await request("POST", "/projects/bulk-import", { as, body: batch(1) })).status, 409);
+  assert.equal(await kv.get("project:BP-002"), undefined);
+
+  assert.equal((await request("POST", "/projects/bulk-import", { as, body: batch(2) })).status, 200);
+  assert.equal((await kv.get("project:BP-001")).name, "Importado");
+});
+
+Deno.test("saves do not re-run migrations over what the editor sent", async () => {
+  seed(stored(project({ beneficiaries: "300 personas", beneficiaryCount: 300 })));
+
+  // Clearing the count must not bring it back from the beneficiaries text
+  const edited = project({ beneficiaries: "300 personas", revision: 1 });
+  const { status, body } = await request("POST", "/projects", { as: "editor@example.com", body: edited });
+
+  assert.equal(status, 200);
+  assert.equal(body.project.beneficiaryCount, undefined);
+  assert.equal(body.project.schemaVersion, CURRENT_SCHEMA_VERSION);
+});
+
+Deno.test("saves reject unknown convocatorias and taxonomy terms", async () => {
+  seed();
+  const as = "editor@example.com";
+
+  assert.equal((await request("POST", "/projects", { as, body: project({ convocatoriaId: "conv-2025" }) })).status, 200);
+
+  const unknown = await request("POST", "/projects", { as, body: project({ id: "BP-002", convocatoriaId: "conv-1999" }) });
+  assert.equal(unknown.status, 400);
+  assert.equal(unknown.body.fieldErrors[0].field, "convocatoriaId");
+
+  assert.equal((await request("POST", "/projects", { as, body: project({ id: "BP-003", category: "no-existe" }) })).status, 400);
+});
+
+Deno.test("published projects keep their image details on every save", async () => {
+  seed(stored(publishedProject()));
+  const as = "editor@example.com";
+
+  const blanked = await request("PUT", "/projects/BP-001", {
+    as,
+    body: { revision: 1, imageDetails: { imageUrl: { alt: "", caption: "Sesión de trabajo", credit: "Organización" } } },
+  });
+  assert.equal(blanked.status, 400);
+  assert.equal(blanked.body.fieldErrors[0].field, "imageDetails");
+
+  const imported = await request("POST", "/projects/bulk-import", {
+    as: "super@example.com",
+    body: { projects: [publishedProject({ id: "BP-002", imageDetails: undefined })] },
+  });
+  assert.equal(imported.status, 400);
+
+  assert.equal((await request("PUT", "/projects/BP-001", { as, body: { revision: 1, name: "Otro" } })).status, 200);
+});
+
+Deno.test("restoring a revision keeps the current publication status", async () => {
+  seed();
+  const as = "editor@example.com";
+
+  await request("POST", "/projects", { as, body: project({ name: "Versión 1" }) });
+  await request("PUT", "/projects/BP-001", { as, body: { revision: 1, name: "Versión 2" } });
+  assert.equal((await request("POST", "/projects/BP-001/status", { as, body: { status: "in_review", revision: 2 } })).status, 200);
+
+  // Revision 1 was a draft; restoring it must not take the project out of review
+  const restored = await request("POST", "/projects/BP-001/revisions/1/restore", { as });
+  assert.equal(restored.status, 200);
+  assert.equal(restored.body.project.name, "Versión 1");
+  assert.equal(restored.body.project.publicationStatus, "in_review");
+  assert.equal(restored.body.project.revision, 4);
+});
+
+Deno.test("restoring a revision rejects references that no longer exist", async () => {
+  const removed = project({ convocatoriaId: "conv-1999" });
+  seed({
+    ...stored(project(), 2),
+    "project_revision:BP-001:000001": { projectId: "BP-001", revision: 1, action: "create", author: null, created_at: "2025-01-01T00:00:00.000Z", snapshot: removed },
+  });
+
+  const restored = await request("POST", "/projects/BP-001/revisions/1/restore", { as: "editor@example.com" });
+  assert.equal(restored.status, 400);
+  assert.equal(restored.body.fieldErrors[0].field, "convocatoriaId");
+});
+
+Deno.test("restores and imports of pre-versioning records are upgraded before validation", async () => {
+  // v0: the state lived in location and the objective in description
+  const { state: _state, objective: _objective, ...rest } = project({ convocatoria: "Convocatoria 2025" });
+  const legacy = { ...rest, description: "Objetivo anterior", location: { state: "Jalisco", city: "Guadalajara" } };
+  seed({
+    ...stored(project(), 2),
+    "project_revision:BP-001:000001": { projectId: "BP-001", revision: 1, action: "create", author: null, created_at: "2025-01-01T00:00:00.000Z", snapshot: legacy },
+  });
+  const as = "super@example.com";
+
+  const restored = await request("POST", "/projects/BP-001/revisions/1/restore", { as });
+  assert.equal(restored.status, 200);
+  assert.equal(restored.body.project.objective, "Objetivo anterior");
+  assert.equal(restored.body.project.state, "Jalisco");
+  assert.equal(restored.body.project.convocatoriaId, "conv-2025");
+  assert.equal(restored.body.project.schemaVersion, CURRENT_SCHEMA_VERSION);
+
+  const imported = await request("POST", "/projects/bulk-import", { as, body: { projects: [{ ...legacy, id: "BP-002" }] } });
+  assert.equal(imported.status, 200);
+  const saved = await kv.get("project:BP-002");
+  assert.equal(saved.municipality, "Guadalajara");
+  assert.equal(saved.schemaVersion, CURRENT_SCHEMA_VERSION);
+});
+
+Deno.test("uploads work offline and name files after their type", async () => {
+  seed();
+
+  // The client name has no usable extension
+  const { status, body } = await upload(new File([GIF], "mi foto (1).jp eg", { type: "image/gif" }));
+
+  assert.equal(status, 200);
+  assert.match(body.fileName, /^\d+-[a-z0-9]+\.gif$/);
+  assert.equal(body.deduplicated, false);
+});
+
+Deno.test("image references follow saves, the trash and restores", async () => {
+  seed();
+  const as = "super@example.com";
+  const { body: image } = await upload(new File([GIF], "foto.gif", { type: "image/gif" }));
+  const references = async () => (await kv.get(`image:${image.fileName}`)).references;
+
+  await request("POST", "/projects", { as, body: project({ imageUrl: image.url }) });
+  assert.deepEqual(await references(), [{ id: "BP-001", name: "Proyecto de prueba" }]);
+
+  await request("DELETE", "/projects/BP-001", { as });
+  assert.deepEqual(await references(), [{ id: "BP-001", name: "Proyecto de prueba", trashed: true }]);
+
+  await request("POST", "/trash/BP-001/restore", { as });
+  assert.deepEqual(await references(), [{ id: "BP-001", name: "Proyecto de prueba" }]);
+
+  await request("PUT", "/projects/BP-001", { as, body: { revision: 2, imageUrl: "" } });
+  assert.deepEqual(await references(), []);
+  assert.equal((await kv.get(`image:${image.fileName}`)).refCount, 0);
+});
+
+Deno.test("images still used by a past revision are not orphans", async () => {
+  seed();
+  Deno.env.set("IMAGE_GC_GRACE_HOURS", "0");
+  const as = "super@example.com";
+
+  try {
+    const { body: image } = await upload(new File([GIF], "foto.gif", { type: "image/gif" }));
+    await request("POST", "/projects", { as, body: project({ imageUrl: image.url }) });
+    await request("PUT", "/projects/BP-001", { as, body: { revision: 1, imageUrl: "" } });
+
+    const { body: report } = await request("GET", "/images/orphans", { as });
+    // Earlier tests leave other files in the shared storage directory
+    assert.ok(!report.orphans.some((orphan: any) => orphan.fileName === image.fileName));
+
+    const restored = await request("POST", "/projects/BP-001/revisions/1/restore", { as });
+    assert.equal(restored.body.project.imageUrl, image.url);
+    assert.equal((await kv.get(`image:${image.fileName}`)).refCount, 1);
+  } finally {
+    Deno.env.delete("IMAGE_GC_GRACE_HOURS");
+  }
+});
+
+Deno.test("large uploads get WebP variants only", async () => {
+  seed();
+  Deno.env.set("IMAGE_AVIF_MAX_PIXELS", "0.5");
+
+  try {
+    const png = Uint8Array.from(
+      atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="),
+      (ch) => ch.charCodeAt(0)
+    );
+    const { status, body } = await upload(new File([png], "pixel.png", { type: "image/png" }));
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.manifest.variants.map((variant: any) => variant.format), ["webp"]);
+  } finally {
+    Deno.env.delete("IMAGE_AVIF_MAX_PIXELS");
+  }
+});
+
+Deno.test("a stored taxonomy does not replace the defaults of the other kind", async () => {
+  seed({ "taxonomy:thematicArea": { terms: [{ value: "area-nueva", label: "Área nueva", color: "#000000" }] } });
+
+  const { body } = await request("GET", "/taxonomies");
+  assert.deepEqual(body.taxonomies.thematicArea.map((term: any) => term.value), ["area-nueva"]);
+  assert.ok(body.taxonomies.category.some((term: any) => term.value === "proyecto"));
+});
+
+Deno.test("the audit CSV does not let labels run as formulas", () => {
+  const csv = auditEntriesToCsv([{
+    id: "1",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    actor: { id: "editor@example.com", email: "editor@example.com", role: "editor" },
+    action: "project.update",
+    target: { type: "project", id: "BP-001", label: '=HYPERLINK("http://example.com","x")' },
+    ip: null,
+  }]);
+
+  assert.ok(csv.split("\r\n")[1].includes(`"'=HYPERLINK(""http://example.com"",""x"")"`));
+});
@@ -0,0 +1,530 @@
+import { Hono } from "npm:hono";
+import { cors } from "npm:hono/cors";
+import { logger } from "npm:hono/logger";
+import { serveStatic } from "npm:hono/deno";
+import * as kv from "./kv.tsx";
+import { requireAdmin, getActiveAdmin, type AdminEnv } from "./auth.tsx";
+import { saveProjectWithRevision, saveProjectsWithRevisions, isStaleRevision } from "./revisions.tsx";
+import { validateProject, formatValidationErrors } from "../_shared/projectSchema.ts";
+import { parseProjectQuery, queryProjects } from "../_shared/projectQuery.ts";
+import { isPubliclyVisible } from "../_shared/publication.ts";
+import adminRoutes from "./admin-routes.tsx";
+import imageRoutes from "./image-routes.tsx";
+import revisionRoutes from "./revision-routes.tsx";
+import publicationRoutes from "./publication-routes.tsx";
+import trashRoutes from "./trash-routes.tsx";
+import { moveProjectsToTrash, purgeExpiredTrash } from "./trash.tsx";
+import { recordAudit, summarizeChange } from "./audit.tsx";
+import { attachImageManifests } from "./images.tsx";
+import { rejectUnknownReferences, rejectMissingImageDetails } from "./project-checks.tsx";
+import convocatoriaRoutes from "./convocatoria-routes.tsx";
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, upgradeProjects } from "./migrations.tsx";
+import taxonomyRoutes from "./taxonomy-routes.tsx";
+import migrationRoutes from "./migration-routes.tsx";
+import statsRoutes from "./stats-routes.tsx";
+import publicApiRoutes from "./public-api-routes.tsx";
+import auditRoutes from "./audit-routes.tsx";
+import { getStorage, getLocalStorageDir, PUBLIC_PATH_PREFIX } from "./storage.tsx";
+
+const app = new Hono<AdminEnv>();
+
+// Enable logger
+app.use('*', logger(console.log));
+
+// Enable CORS for all routes and methods
+app.use(
+  "/*",
+  cors({
+    origin: "*",
+    allowHeaders: ["Content-Type", "Authorization"],
+    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    exposeHeaders: ["Content-Length"],
+    maxAge: 600,
+  }),
+);
+
+// Health check endpoint
+app.get("/make-server-2ce8a38a/health", (c) => {
+  return c.json({ status: "ok" });
+});
+
+// ========================================
+// PROJECT MANAGEMENT ENDPOINTS
+// ========================================
+
+/**
+ * List projects
+ * Only published projects inside their publishAt / unpublishAt window are returned,
+ * unless an admin session passes `scope=all`.
+ * Optional query: category, thematicArea, state, convocatoria (repeat or comma separate),
+ * q, minScore, maxScore, sort, order, limit, cursor - see _shared/projectQuery.ts.
+ * Without `limit` every matching project is returned.
+ */
+app.get("/make-server-2ce8a38a/projects", async (c) => {
+  try {
+    console.log('=== GET /projects ===');
+    
+    // Get all projects using prefix
+    const rawProjects = await kv.getByPrefix("project:");
+    
+    console.log('Raw projects from KV:', rawProjects?.length || 0);
+    console.log('First project sample:', rawProjects?.[0]);
+    
+    // Filter out any corrupted data
+    const validProjects = rawProjects.filter((p: any) => {
+      if (!p || typeof p !== 'object') {
+        console.warn('Invalid project (not an object):', p);
+        return false;
+      }
+      if (!p.id) {
+        console.warn('Invalid project (no id):', p);
+        return false;
+      }
+      return true;
+    });
+    
+    console.log('Valid projects:', validProjects.length);
+    
+    const searchParams = new URL(c.req.url).searchParams;
+    let visibleProjects = validProjects.filter((p: any) => isPubliclyVisible(p));
+    
+    // Drafts, projects in review, archived and scheduled ones are only listed for admins
+    if (searchParams.get("scope") === "all") {
+      const admin = await getActiveAdmin(c);
+      
+      if (!admin) {
+        return c.json({
+          success: false,
+          error: "Not authorized"
+        }, 403);
+      }
+      
+      visibleProjects = validProjects;
+    }
+    
+    const query = parseProjectQuery(searchParams);
+    const result = queryProjects(visibleProjects, query);
+    
+    return c.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch projects",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Get a single project by ID
+ * Unpublished or scheduled projects are only returned to admins (preview)
+ */
+app.get("/make-server-2ce8a38a/projects/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const project = await kv.get(`project:${id}`);
+    
+    if (!project || (!isPubliclyVisible(project) && !(await getActiveAdmin(c)))) {
+      return c.json({
+        success: false,
+        error: "Project not found"
+      }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      project
+    });
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch project",
+      details: error.message
+    }, 500);
+  }
+});
+
+/**
+ * Create or update a project
+ * Requires an editor or super admin session
+ * To update, send the `revision` that was loaded - a stale or missing one gets a 409
+ * with the current copy
+ */
+app.post("/make-server-2ce8a38a/projects", requireAdmin("editor"), async (c) => {
+  try {
+    const project = await c.req.json();
+    
+    const validation = validateProject(project);
+    
+    if (!validation.valid) {
+      return c.json({
+        success: false,
+        error: "Datos del proyecto inválidos",
+        details: formatValidationErrors(validation.errors),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+    
+    const unknownReferences = await rejectUnknownReferences(c, [project]);
+    if (unknownReferences) return unknownReferences;
+    
+    const existingProject = await kv.get(`project:${project.id}`);
+    
+    // Someone else saved the project since the client loaded it, or the folio is taken
+    if (isStaleRevision(existingProject, project.revision)) {
+      return c.json({
+        success: false,
+        error: project.revision === undefined || project.revision === null
+          ? "Ya existe un proyecto con este número de registro"
+          : "El proyecto fue modificado por otra persona",
+        conflict: true,
+        current: existingProject
+      }, 409);
+    }
+    
+    // The status only changes through POST /projects/:id/status - new projects start as drafts
+    project.publicationStatus = existingProject ? existingProject.publicationStatus : "draft";
+    project.reviewComment = existingProject?.reviewComment;
+    // The form sends the current shape: pending migrations stay with the stored record
+    project.schemaVersion = existingProject ? getSchemaVersion(existingProject) : CURRENT_SCHEMA_VERSION;
+    
+    const incompleteImages = rejectMissingImageDetails(c, [project]);
+    if (incompleteImages) return incompleteImages;
+    
+    // Save project (with the manifests of its uploaded images) and record a revision
+    const saved = await saveProjectWithRevision(
+      await attachImageManifests(project),
+      c.get("admin"),
+      existingProject ? "update" : "create"
+    );
+    
+    await recordAudit(c, {
+      action: existingProject ? "project.update" : "project.create",
+      target: { type: "project", id: project.id, label: project.name },
+      ...summarizeChange(existingProject, saved.snapshot)
+    });
+    
+    return c.json({
+      success: true,
+      project: saved.snapshot
+    });
+  } catch (error) {
+    console.error("Error saving project:", error);
+    return c.json({
+      success: false,
+      error: "Failed to save project",
+      details: error.message
+    }, 500);
+  }
+});
+
+/**
+ * Update a project
+ * Requires an editor or super admin session
+ * Send the `revision` that was loaded (required) - a stale or missing one gets a 409
+ * with the current copy
+ */
+app.put("/make-server-2ce8a38a/projects/:id", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const updates = await c.req.json();
+    
+    // Get existing project
+    const existingProject = await kv.get(`project:${id}`);
+    
+    if (!existingProject) {
+      return c.json({
+        success: false,
+        error: "Project not found"
+      }, 404);
+    }
+    
+    // Someone else saved the project since the client loaded it
+    if (isStaleRevision(existingProject, updates.revision)) {
+      return c.json({
+        success: false,
+        error: "El proyecto fue modificado por otra persona",
+        conflict: true,
+        current: existingProject
+      }, 409);
+    }
+    
+    // Merge updates (the status only changes through POST /projects/:id/status)
+    const updatedProject = {
+      ...existingProject,
+      ...updates,
+      id,
+      publicationStatus: existingProject.publicationStatus,
+      reviewComment: existingProject.reviewComment,
+      schemaVersion: getSchemaVersion(existingProject)
+    };
+    
+    // Validate the merged result so the stored record is always complete
+    const validation = validateProject(updatedProject);
+    
+    if (!validation.valid) {
+      return c.json({
+        success: false,
+        error: "Datos del proyecto inválidos",
+        details: formatValidationErrors(validation.errors),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+    
+    const unknownReferences = await rejectUnknownReferences(c, [updatedProject]);
+    if (unknownReferences) return unknownReferences;
+    
+    const incompleteImages = rejectMissingImageDetails(c, [updatedProject]);
+    if (incompleteImages) return incompleteImages;
+    
+    // Save updated project and record a revision
+    const saved = await saveProjectWithRevision(await attachImageManifests(updatedProject), c.get("admin"), "update");
+    
+    await recordAudit(c, {
+      action: "project.update",
+      target: { type: "project", id, label: updatedProject.name },
+      ...summarizeChange(existingProject, saved.snapshot)
+    });
+    
+    return c.json({
+      success: true,
+      project: saved.snapshot
+    });
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return c.json({
+      success: false,
+      error: "Failed to update project",
+      details: error.message
+    }, 500);
+  }
+});
+
+/**
+ * Delete a project (moves it to the trash)
+ * Requires a super admin session
+ */
+app.delete("/make-server-2ce8a38a/projects/:id", requireAdmin("super_admin"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    
+    // Check if project exists
+    const project = await kv.get(`project:${id}`);
+    
+    if (!project) {
+      return c.json({
+        success: false,
+        error: "Project not found"
+      }, 404);
+    }
+    
+    // Move project to the trash
+    await moveProjectsToTrash([project], c.get("admin"));
+    await purgeExpiredTrash();
+    
+    await recordAudit(c, {
+      action: "project.trash",
+      target: { type: "project", id, label: project.name }
+    });
+    
+    return c.json({
+      success: true,
+      message: "Project moved to trash"
+    });
+  } catch (error) {
+    console.error("Error deleting project:", error);
+    return c.json({
+      success: false,
+      error: "Failed to delete project",
+      details: error.message
+    }, 500);
+  }
+});
+
+/**
+ * Bulk import projects (for migration from localStorage)
+ * Requires an editor or super admin session. Projects that already exist need the
+ * `revision` they were exported at (409 with `conflictingIds` otherwise).
+ */
+app.post("/make-server-2ce8a38a/projects/bulk-import", requireAdmin("editor"), async (c) => {
+  try {
+    const { projects } = await c.req.json();
+    
+    if (!Array.isArray(projects) || !projects.every((project) => project && typeof project === "object")) {
+      return c.json({
+        success: false,
+        error: "Projects must be an array of objects"
+      }, 400);
+    }
+    
+    // Imports may come from older exports: validate them at the current schema. The
+    // dry run comes first so a rejected batch creates no convocatorias.
+    const { projects: preview } = await upgradeProjects(projects, { dryRun: true });
+    
+    // Reject the whole batch if any project is invalid
+    const invalidProjects = preview
+      .map((project, index) => ({ index, id: project.id, errors: validateProject(project).errors }))
+      .filter((result) => result.errors.length > 0);
+    
+    if (invalidProjects.length > 0) {
+      return c.json({
+        success: false,
+        error: "Datos del proyecto inválidos",
+        details: invalidProjects
+          .map((result) => `Proyecto ${result.index + 1}${result.id ? ` (${result.id})` : ""}: ${formatValidationErrors(result.errors)}`)
+          .join(" | "),
+        invalidProjects
+      }, 400);
+    }
+    
+    const { projects: upgraded } = await upgradeProjects(projects);
+    
+    const unknownReferences = await rejectUnknownReferences(c, upgraded);
+    if (unknownReferences) return unknownReferences;
+    
+    const existingProjects = await kv.mget(upgraded.map((p) => `project:${p.id}`));
+    const existingById = new Map(existingProjects.filter(Boolean).map((p: any) => [p.id, p]));
+    
+    // Existing projects are only overwritten from the revision the import was made from
+    const conflictingIds = upgraded
+      .filter((project) => isStaleRevision(existingById.get(project.id), project.revision))
+      .map((project) => project.id);
+    
+    if (conflictingIds.length > 0) {
+      return c.json({
+        success: false,
+        error: "Algunos proyectos fueron modificados desde que se exportaron o ya existen",
+        details: conflictingIds.join(", "),
+        conflict: true,
+        conflictingIds
+      }, 409);
+    }
+    
+    // Only super admins can import published projects; for editors the
+    // current status is kept and new projects come in as drafts
+    if (c.get("admin").role !== "super_admin") {
+      upgraded.forEach((project) => {
+        const existing = existingById.get(project.id);
+        project.publicationStatus = existing ? existing.publicationStatus : "draft";
+        project.reviewComment = existing?.reviewComment;
+      });
+    }
+    
+    const incompleteImages = rejectMissingImageDetails(c, upgraded);
+    if (incompleteImages) return incompleteImages;
+    
+    // Save all projects, one revision each
+    await saveProjectsWithRevisions(
+      await Promise.all(upgraded.map((project) => attachImageManifests(project))),
+      c.get("admin"),
+      "import"
+    );
+    
+    await recordAudit(c, {
+      action: "project.import",
+      target: { type: "project", label: `${projects.length} proyectos` },
+      after: { ids: projects.map((p) => p.id) }
+    });
+    
+    return c.json({
+      success: true,
+      count: projects.length,
+      message: `Successfully imported ${projects.length} projects`
+    });
+  } catch (error) {
+    console.error("Error bulk importing projects:", error);
+    return c.json({
+      success: false,
+      error: "Failed to import projects",
+      details: error.message
+    }, 500);
+  }
+});
+
+/**
+ * Move all projects to the trash (for admin use)
+ * Requires a super admin session
+ */
+app.delete("/make-server-2ce8a38a/projects", requireAdmin("super_admin"), async (c) => {
+  try {
+    const projects = await kv.getByPrefix("project:");
+    
+    await moveProjectsToTrash(projects, c.get("admin"));
+    await purgeExpiredTrash();
+    
+    await recordAudit(c, {
+      action: "project.trash_all",
+      target: { type: "project", label: `${projects.length} proyectos` },
+      before: { ids: projects.map((p) => p.id) }
+    });
+    
+    return c.json({
+      success: true,
+      count: projects.length,
+      message: `Moved ${projects.length} projects to trash`
+    });
+  } catch (error) {
+    console.error("Error clearing projects:", error);
+    return c.json({
+      success: false,
+      error: "Failed to clear projects",
+      details: error.message
+    }, 500);
+  }
+});
+
+// Mount project revision history routes (/projects/:id/revisions...)
+app.route("/make-server-2ce8a38a/projects", revisionRoutes);
+
+// Mount publication workflow routes (/projects/:id/status)
+app.route("/make-server-2ce8a38a/projects", publicationRoutes);
+
+// Mount convocatoria routes (public list, CRUD for super admins)
+app.route("/make-server-2ce8a38a/convocatorias", convocatoriaRoutes);
+
+// Mount taxonomy routes (categories and thematic areas; edits cascade to projects)
+app.route("/make-server-2ce8a38a/taxonomies", taxonomyRoutes);
+
+// Mount trash routes (list, restore, permanent delete, purge)
+app.route("/make-server-2ce8a38a/trash", trashRoutes);
+
+// Mount stored-data migration routes (status, dry run and run for super admins)
+app.route("/make-server-2ce8a38a/migrations", migrationRoutes);
+
+// Mount public statistics routes (cached aggregations over published projects)
+app.route("/make-server-2ce8a38a/stats", statsRoutes);
+
+// Mount the versioned public read-only API (OpenAPI at /api/v2/openapi.json, docs at /api/v2/docs)
+app.route("/make-server-2ce8a38a/api/v2", publicApiRoutes);
+
+// ========================================
+// ADMIN AUTHENTICATION ENDPOINTS
+// ========================================
+
+// Mount audit log routes (before the admin router so /admin/audit is not shadowed)
+app.route("/make-server-2ce8a38a/admin/audit", auditRoutes);
+
+// Mount admin routes
+app.route("/make-server-2ce8a38a/admin", adminRoutes);
+
+// ========================================
+// IMAGE MANAGEMENT ENDPOINTS
+// ========================================
+
+// Mount image routes
+app.route("/make-server-2ce8a38a/images", imageRoutes);
+
+// With local storage, serve uploaded files at the same path Supabase Storage uses
+if (getStorage().name === "local") {
+  app.use(`${PUBLIC_PATH_PREFIX}/*`, serveStatic({
+    root: getLocalStorageDir(),
+    rewriteRequestPath: (path) => path.slice(PUBLIC_PATH_PREFIX.length),
+  }));
+}
+
+export default app;
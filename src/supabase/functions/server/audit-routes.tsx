@@ -0,0 +1,80 @@
+import { Hono } from "npm:hono";
+import type { Context } from "npm:hono";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import { loadAuditEntries, filterAuditEntries, auditEntriesToCsv, type AuditFilters } from "./audit.tsx";
+
+// Mounted under /admin/audit - super admins only
+const auditRoutes = new Hono<AdminEnv>();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function getFilters(c: Context): AuditFilters {
+  return {
+    action: c.req.query("action") || undefined,
+    actor: c.req.query("actor") || undefined,
+    targetType: c.req.query("targetType") || undefined,
+    from: c.req.query("from") || undefined,
+    to: c.req.query("to") || undefined,
+    q: c.req.query("q") || undefined,
+  };
+}
+
+/**
+ * List audit entries (newest first)
+ * Query: action, actor, targetType, from, to, q, page, pageSize
+ */
+auditRoutes.get("/", requireAdmin("super_admin"), async (c) => {
+  try {
+    const allEntries = await loadAuditEntries();
+    const entries = filterAuditEntries(allEntries, getFilters(c));
+
+    const page = Math.max(1, Number(c.req.query("page")) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(c.req.query("pageSize")) || DEFAULT_PAGE_SIZE));
+    const start = (page - 1) * pageSize;
+
+    // Distinct actions across the whole log, for the filter dropdown
+    const actions = Array.from(new Set(allEntries.map((e) => e.action))).sort();
+
+    return c.json({
+      success: true,
+      entries: entries.slice(start, start + pageSize),
+      total: entries.length,
+      page,
+      pageSize,
+      actions
+    });
+  } catch (error) {
+    console.error("Error listing audit log:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list audit log",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Export the filtered audit log as CSV (same filters as the list, no pagination)
+ */
+auditRoutes.get("/export", requireAdmin("super_admin"), async (c) => {
+  try {
+    const entries = filterAuditEntries(await loadAuditEntries(), getFilters(c));
+    const fileName = `auditoria-${new Date().toISOString().split("T")[0]}.csv`;
+
+    // BOM so Excel opens accented characters correctly
+    return c.body(`\uFEFF${auditEntriesToCsv(entries)}`, 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"`
+    });
+  } catch (error) {
+    console.error("Error exporting audit log:", error);
+    return c.json({
+      success: false,
+      error: "Failed to export audit log",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default auditRoutes;
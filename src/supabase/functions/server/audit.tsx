@@ -0,0 +1,186 @@
+import type { Context } from "npm:hono";
+import * as kv from "./kv.tsx";
+import type { AdminUser } from "./auth.tsx";
+import { diffSnapshots } from "./revisions.tsx";
+
+// Key layout:
+//   audit_log:<ISO timestamp>:<random> -> AuditEntry
+// Timestamps in the key keep entries in chronological order.
+
+const MAX_SUMMARY_VALUE_LENGTH = 200;
+
+export type AuditTargetType = "project" | "admin" | "image" | "trash" | "convocatoria" | "taxonomy" | "system";
+
+export interface AuditActor {
+  id: string;
+  email: string;
+  name?: string;
+  role?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor | null;
+  action: string;
+  target: {
+    type: AuditTargetType;
+    id?: string;
+    label?: string;
+  };
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  ip: string | null;
+}
+
+export interface AuditFilters {
+  action?: string;
+  actor?: string;
+  targetType?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+// Client IP as reported by the edge proxy
+function getClientIp(c: Context): string | null {
+  const forwarded = c.req.header("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",")[0].trim();
+  }
+  return c.req.header("cf-connecting-ip") || c.req.header("x-real-ip") || null;
+}
+
+function toActor(admin: AdminUser | Pick<AdminUser, "id" | "email" | "name" | "role"> | undefined | null): AuditActor | null {
+  if (!admin) return null;
+  return { id: admin.id, email: admin.email, name: admin.name, role: admin.role };
+}
+
+// Shorten long values (descriptions, markdown...) so entries stay small
+function truncateValue(value: any): any {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text && text.length > MAX_SUMMARY_VALUE_LENGTH) {
+    return `${text.slice(0, MAX_SUMMARY_VALUE_LENGTH)}…`;
+  }
+  return value;
+}
+
+/**
+ * Reduce a before/after pair to the fields that changed, with long values truncated
+ */
+export function summarizeChange(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { before: Record<string, any> | null; after: Record<string, any> | null } {
+  const changes = diffSnapshots(before ?? {}, after ?? {});
+
+  const beforeSummary: Record<string, any> = {};
+  const afterSummary: Record<string, any> = {};
+
+  changes.forEach((change) => {
+    beforeSummary[change.field] = truncateValue(change.before);
+    afterSummary[change.field] = truncateValue(change.after);
+  });
+
+  return {
+    before: before ? beforeSummary : null,
+    after: after ? afterSummary : null,
+  };
+}
+
+/**
+ * Append an entry to the audit log.
+ * The actor defaults to the admin resolved by requireAdmin. Never throws -
+ * a failing audit write must not undo a mutation that already happened.
+ */
+export async function recordAudit(
+  c: Context,
+  entry: {
+    action: string;
+    target: AuditEntry["target"];
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+    actor?: AdminUser | Pick<AdminUser, "id" | "email" | "name" | "role"> | null;
+  }
+): Promise<void> {
+  try {
+    const timestamp = new Date().toISOString();
+    const id = `${timestamp}:${crypto.randomUUID().slice(0, 8)}`;
+
+    const record: AuditEntry = {
+      id,
+      timestamp,
+      actor: toActor(entry.actor !== undefined ? entry.actor : c.get("admin")),
+      action: entry.action,
+      target: entry.target,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ip: getClientIp(c),
+    };
+
+    await kv.set(`audit_log:${id}`, record);
+  } catch (error) {
+    console.error(`Error recording audit entry (${entry.action}):`, error);
+  }
+}
+
+/**
+ * All audit entries, newest first
+ */
+export async function loadAuditEntries(): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = await kv.getByPrefix("audit_log:");
+  return entries
+    .filter((e) => e && e.id && e.action)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Audit entries matching the filters (keeps the input order)
+ */
+export function filterAuditEntries(entries: AuditEntry[], filters: AuditFilters): AuditEntry[] {
+  const from = filters.from ? new Date(filters.from).getTime() : null;
+  // A bare date ("2025-01-31") includes the whole day
+  const to = filters.to
+    ? new Date(filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to).getTime()
+    : null;
+  const actor = filters.actor?.toLowerCase();
+  const q = filters.q?.toLowerCase();
+
+  return entries
+    .filter((e) => !filters.action || e.action === filters.action)
+    .filter((e) => !filters.targetType || e.target?.type === filters.targetType)
+    .filter((e) => !actor || (e.actor?.email || "").toLowerCase().includes(actor))
+    .filter((e) => from === null || new Date(e.timestamp).getTime() >= from)
+    .filter((e) => to === null || new Date(e.timestamp).getTime() <= to)
+    .filter((e) => !q || JSON.stringify([e.target, e.before, e.after]).toLowerCase().includes(q));
+}
+
+// Quote a CSV cell when needed (RFC 4180). Labels come from editors, so cells that
+// spreadsheets would run as a formula get a leading apostrophe first.
+function csvCell(value: any): string {
+  if (value === null || value === undefined) return "";
+  const raw = typeof value === "string" ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize audit entries as CSV
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const header = ["timestamp", "actor_email", "actor_role", "action", "target_type", "target_id", "target_label", "before", "after", "ip"];
+  const rows = entries.map((e) => [
+    e.timestamp,
+    e.actor?.email,
+    e.actor?.role,
+    e.action,
+    e.target?.type,
+    e.target?.id,
+    e.target?.label,
+    e.before,
+    e.after,
+    e.ip,
+  ].map(csvCell).join(","));
+
+  return [header.join(","), ...rows].join("\r\n");
+}
@@ -0,0 +1,167 @@
+import type { Context, Next } from "npm:hono";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import * as kv from "./kv.tsx";
+import { createLocalAuthVerifier } from "./auth_local.tsx";
+
+export type AdminRole = "super_admin" | "editor";
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: AdminRole;
+  status: "active" | "inactive" | "invited";
+  created_at: string;
+  updated_at?: string;
+}
+
+// Hono env for routers that read the resolved admin via c.get("admin")
+export type AdminEnv = {
+  Variables: {
+    admin: AdminUser;
+  };
+};
+
+// Higher rank = more privileges
+const ROLE_RANK: Record<AdminRole, number> = {
+  editor: 1,
+  super_admin: 2,
+};
+
+/**
+ * Turns a bearer token into the email of its session (null when invalid or expired).
+ * Chosen with AUTH_BACKEND:
+ *
+ *   AUTH_BACKEND=supabase  (default) Supabase Auth
+ *   AUTH_BACKEND=local     tokens signed with LOCAL_AUTH_SECRET (see auth_local.tsx),
+ *                          so admin routes also run on the memory and sqlite KV backends
+ *
+ * Tests can skip the environment and call setAuthVerifier(...).
+ */
+export type AuthVerifier = (token: string) => Promise<string | null>;
+
+let verifier: AuthVerifier | null = null;
+
+function createSupabaseAuthVerifier(): AuthVerifier {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  return async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    return error || !data?.user?.email ? null : data.user.email;
+  };
+}
+
+/**
+ * The verifier named by AUTH_BACKEND (created once)
+ */
+function getAuthVerifier(): AuthVerifier {
+  if (!verifier) {
+    const name = Deno.env.get("AUTH_BACKEND") || "supabase";
+
+    switch (name) {
+      case "supabase":
+        verifier = createSupabaseAuthVerifier();
+        break;
+      case "local":
+        verifier = createLocalAuthVerifier(Deno.env.get("LOCAL_AUTH_SECRET") || "");
+        break;
+      default:
+        throw new Error(`Unknown AUTH_BACKEND "${name}" (expected supabase or local)`);
+    }
+  }
+  return verifier;
+}
+
+/**
+ * Replace the active verifier (tests, local scripts)
+ */
+export function setAuthVerifier(authVerifier: AuthVerifier): void {
+  verifier = authVerifier;
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function getBearerToken(c: Context): string {
+  const authHeader = c.req.header("Authorization") || "";
+  return authHeader.replace(/^Bearer\s+/i, "").trim();
+}
+
+/**
+ * Validate the bearer token (see AuthVerifier) and return the session email.
+ * Returns null when the token is missing, invalid or expired.
+ */
+export async function getSessionEmail(c: Context): Promise<string | null> {
+  const token = getBearerToken(c);
+
+  if (!token) {
+    return null;
+  }
+
+  return getAuthVerifier()(token);
+}
+
+/**
+ * Resolve the active admin behind the request, or null for public callers.
+ * For routes that are public but show more to admins (drafts, previews).
+ */
+export async function getActiveAdmin(c: Context): Promise<AdminUser | null> {
+  const email = await getSessionEmail(c);
+
+  if (!email) {
+    return null;
+  }
+
+  const adminData = await kv.get(`admin_user:${email}`);
+  return adminData && adminData.status === "active" ? adminData : null;
+}
+
+/**
+ * Middleware that only lets through active admins with at least `minRole`.
+ * - 401 when there is no valid session
+ * - 403 when the session belongs to a non-admin or an admin without enough privileges
+ * The resolved admin is available to handlers via c.get("admin").
+ */
+export function requireAdmin(minRole: AdminRole = "editor") {
+  return async (c: Context, next: Next) => {
+    try {
+      const email = await getSessionEmail(c);
+
+      if (!email) {
+        return c.json({
+          success: false,
+          error: "Authentication required"
+        }, 401);
+      }
+
+      const adminData = await kv.get(`admin_user:${email}`);
+
+      if (!adminData || adminData.status !== "active") {
+        return c.json({
+          success: false,
+          error: "Not authorized"
+        }, 403);
+      }
+
+      if (ROLE_RANK[adminData.role as AdminRole] < ROLE_RANK[minRole]) {
+        return c.json({
+          success: false,
+          error: "Insufficient permissions"
+        }, 403);
+      }
+
+      c.set("admin", adminData);
+      await next();
+    } catch (error) {
+      console.error("Error verifying admin session:", error);
+      return c.json({
+        success: false,
+        error: "Failed to verify session",
+        details: String(error)
+      }, 500);
+    }
+  };
+}
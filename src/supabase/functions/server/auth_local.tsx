@@ -0,0 +1,71 @@
+import type { AuthVerifier } from "./auth.tsx";
+
+// Session tokens for running the API without Supabase Auth (AUTH_BACKEND=local):
+//   local.<base64url({ email, exp })>.<base64url(HMAC-SHA256 of the payload)>
+// signed with LOCAL_AUTH_SECRET. Mint one from the command line:
+//   LOCAL_AUTH_SECRET=... deno run -A src/supabase/functions/server/auth_local.tsx admin@example.com
+
+const TOKEN_PREFIX = "local";
+const DEFAULT_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function importSecret(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error("LOCAL_AUTH_SECRET is required for local session tokens");
+  }
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+/**
+ * Sign a session token for `email`, valid for `ttlMs`
+ */
+export async function createLocalSessionToken(email: string, secret: string, ttlMs = DEFAULT_TTL_MS): Promise<string> {
+  const key = await importSecret(secret);
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ email, exp: Date.now() + ttlMs })));
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+  return `${TOKEN_PREFIX}.${payload}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Verifier for tokens from createLocalSessionToken: the email, or null when the
+ * token is malformed, signed with another secret or expired
+ */
+export function createLocalAuthVerifier(secret: string): AuthVerifier {
+  const key = importSecret(secret);
+
+  return async (token) => {
+    const [prefix, payload, signature] = token.split(".");
+    if (prefix !== TOKEN_PREFIX || !payload || !signature) return null;
+
+    try {
+      const valid = await crypto.subtle.verify("HMAC", await key, fromBase64Url(signature), encoder.encode(payload));
+      if (!valid) return null;
+
+      const { email, exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+      return typeof email === "string" && typeof exp === "number" && exp > Date.now() ? email : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+if (import.meta.main) {
+  const [email] = Deno.args;
+  if (!email) {
+    console.error("Usage: deno run -A auth_local.tsx <admin email>");
+    Deno.exit(1);
+  }
+  console.log(await createLocalSessionToken(email, Deno.env.get("LOCAL_AUTH_SECRET") || ""));
+}
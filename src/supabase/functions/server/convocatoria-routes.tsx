@@ -0,0 +1,232 @@
+import { Hono } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { requireAdmin, getActiveAdmin, type AdminEnv } from "./auth.tsx";
+import { recordAudit } from "./audit.tsx";
+import type { TrashEntry } from "./trash.tsx";
+import {
+  listConvocatorias,
+  getConvocatoria,
+  createConvocatoria,
+  updateConvocatoria,
+  countProjectsByConvocatoria,
+  hasLegacyConvocatoria,
+  convocatoriaKey,
+} from "./convocatorias.tsx";
+import { validateConvocatoria } from "../_shared/convocatorias.ts";
+
+// Mounted under /convocatorias - anyone can read, only super admins manage them
+const convocatoriaRoutes = new Hono<AdminEnv>();
+
+/**
+ * List convocatorias (drafts are hidden from the public)
+ * Query: scope=all - admins only, adds drafts and the number of projects per convocatoria
+ */
+convocatoriaRoutes.get("/", async (c) => {
+  try {
+    const convocatorias = await listConvocatorias();
+
+    if (c.req.query("scope") === "all") {
+      const admin = await getActiveAdmin(c);
+
+      if (!admin) {
+        return c.json({
+          success: false,
+          error: "Not authorized"
+        }, 403);
+      }
+
+      const [counts, projects, trashed] = await Promise.all([
+        countProjectsByConvocatoria(),
+        kv.getByPrefix("project:"),
+        kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+      ]);
+
+      return c.json({
+        success: true,
+        convocatorias: convocatorias.map((convocatoria) => ({
+          ...convocatoria,
+          projectCount: counts.get(convocatoria.id) ?? 0
+        })),
+        legacyProjects: [...projects, ...trashed.map((entry) => entry?.project)].filter(hasLegacyConvocatoria).length
+      });
+    }
+
+    return c.json({
+      success: true,
+      convocatorias: convocatorias.filter((convocatoria) => convocatoria.status !== "draft")
+    });
+  } catch (error) {
+    console.error("Error listing convocatorias:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list convocatorias",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Get a single convocatoria by id
+ */
+convocatoriaRoutes.get("/:id", async (c) => {
+  try {
+    const convocatoria = await getConvocatoria(c.req.param("id"));
+
+    if (!convocatoria || (convocatoria.status === "draft" && !(await getActiveAdmin(c)))) {
+      return c.json({
+        success: false,
+        error: "Convocatoria not found"
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      convocatoria
+    });
+  } catch (error) {
+    console.error("Error fetching convocatoria:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch convocatoria",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Create a convocatoria
+ */
+convocatoriaRoutes.post("/", requireAdmin("super_admin"), async (c) => {
+  try {
+    const body = await c.req.json();
+    const validation = validateConvocatoria(body, await listConvocatorias());
+
+    if (!validation.valid || !validation.value) {
+      return c.json({
+        success: false,
+        error: "Datos de la convocatoria inválidos",
+        details: validation.errors.map((e) => e.message).join("; "),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+
+    const convocatoria = await createConvocatoria(validation.value);
+
+    await recordAudit(c, {
+      action: "convocatoria.create",
+      target: { type: "convocatoria", id: convocatoria.id, label: convocatoria.title },
+      after: convocatoria
+    });
+
+    return c.json({
+      success: true,
+      convocatoria
+    });
+  } catch (error) {
+    console.error("Error creating convocatoria:", error);
+    return c.json({
+      success: false,
+      error: "Failed to create convocatoria",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Update a convocatoria
+ */
+convocatoriaRoutes.put("/:id", requireAdmin("super_admin"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const existing = await getConvocatoria(id);
+
+    if (!existing) {
+      return c.json({
+        success: false,
+        error: "Convocatoria not found"
+      }, 404);
+    }
+
+    const body = await c.req.json();
+    const others = (await listConvocatorias()).filter((convocatoria) => convocatoria.id !== id);
+    const validation = validateConvocatoria(body, others);
+
+    if (!validation.valid || !validation.value) {
+      return c.json({
+        success: false,
+        error: "Datos de la convocatoria inválidos",
+        details: validation.errors.map((e) => e.message).join("; "),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+
+    const convocatoria = await updateConvocatoria(existing, validation.value);
+
+    await recordAudit(c, {
+      action: "convocatoria.update",
+      target: { type: "convocatoria", id, label: convocatoria.title },
+      before: existing,
+      after: convocatoria
+    });
+
+    return c.json({
+      success: true,
+      convocatoria
+    });
+  } catch (error) {
+    console.error("Error updating convocatoria:", error);
+    return c.json({
+      success: false,
+      error: "Failed to update convocatoria",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Delete a convocatoria that no project (live or trashed) references
+ */
+convocatoriaRoutes.delete("/:id", requireAdmin("super_admin"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const existing = await getConvocatoria(id);
+
+    if (!existing) {
+      return c.json({
+        success: false,
+        error: "Convocatoria not found"
+      }, 404);
+    }
+
+    const projectCount = (await countProjectsByConvocatoria()).get(id) ?? 0;
+
+    if (projectCount > 0) {
+      return c.json({
+        success: false,
+        error: `La convocatoria tiene ${projectCount} proyecto(s) asociados. Reasígnalos o archívala en su lugar.`,
+        projectCount
+      }, 409);
+    }
+
+    await kv.del(convocatoriaKey(id));
+
+    await recordAudit(c, {
+      action: "convocatoria.delete",
+      target: { type: "convocatoria", id, label: existing.title },
+      before: existing
+    });
+
+    return c.json({
+      success: true
+    });
+  } catch (error) {
+    console.error("Error deleting convocatoria:", error);
+    return c.json({
+      success: false,
+      error: "Failed to delete convocatoria",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default convocatoriaRoutes;
@@ -0,0 +1,146 @@
+import * as kv from "./kv.tsx";
+import type { TrashEntry } from "./trash.tsx";
+import {
+  CONVOCATORIA_COLORS,
+  findConvocatoriaByName,
+  getUniqueSlug,
+  getYearFromName,
+  slugify,
+  sortConvocatorias,
+  type ConvocatoriaInput,
+} from "../_shared/convocatorias.ts";
+import type { Convocatoria } from "../../../types/index.ts";
+
+// Key layout:
+//   convocatoria:<id> -> Convocatoria
+// Projects point to a record through `convocatoriaId`.
+
+export function convocatoriaKey(id: string): string {
+  return `convocatoria:${id}`;
+}
+
+/**
+ * Every convocatoria, newest first
+ */
+export async function listConvocatorias(): Promise<Convocatoria[]> {
+  const records: Convocatoria[] = await kv.getByPrefix("convocatoria:");
+  return sortConvocatorias(records.filter((record) => record && record.id));
+}
+
+export async function getConvocatoria(id: string): Promise<Convocatoria | null> {
+  return (await kv.get(convocatoriaKey(id))) ?? null;
+}
+
+/**
+ * Store a new convocatoria from validated input
+ */
+export async function createConvocatoria(value: ConvocatoriaInput): Promise<Convocatoria> {
+  const now = new Date().toISOString();
+  const record: Convocatoria = { ...value, id: crypto.randomUUID(), created_at: now, updated_at: now };
+  await kv.set(convocatoriaKey(record.id), record);
+  return record;
+}
+
+/**
+ * Replace the editable fields of a convocatoria (id and created_at are kept)
+ */
+export async function updateConvocatoria(existing: Convocatoria, value: ConvocatoriaInput): Promise<Convocatoria> {
+  const record: Convocatoria = {
+    ...value,
+    id: existing.id,
+    created_at: existing.created_at,
+    updated_at: new Date().toISOString(),
+  };
+  await kv.set(convocatoriaKey(record.id), record);
+  return record;
+}
+
+/**
+ * Projects per convocatoria id, live and trashed (a trashed project can still be restored)
+ */
+export async function countProjectsByConvocatoria(): Promise<Map<string, number>> {
+  const [projects, trashed] = await Promise.all([
+    kv.getByPrefix("project:"),
+    kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+  ]);
+
+  const counts = new Map<string, number>();
+  [...projects, ...trashed.map((entry) => entry?.project)].forEach((project) => {
+    const id = project?.convocatoriaId;
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Ids referenced by the given projects that have no record
+ */
+export async function findUnknownConvocatoriaIds(projects: Record<string, any>[]): Promise<string[]> {
+  const ids = Array.from(new Set(projects.map((project) => project?.convocatoriaId).filter(Boolean))) as string[];
+  if (ids.length === 0) return [];
+
+  const records: Convocatoria[] = await kv.mget(ids.map(convocatoriaKey));
+  const known = new Set(records.filter(Boolean).map((record) => record.id));
+  return ids.filter((id) => !known.has(id));
+}
+
+/**
+ * True when a project still carries the free-text name instead of an id
+ */
+export function hasLegacyConvocatoria(project: Record<string, any> | null | undefined): boolean {
+  return typeof project?.convocatoria === "string";
+}
+
+/**
+ * Replace free-text convocatoria names with a `convocatoriaId`, creating a record for
+ * every name that matches none (by title or slug). Projects that already have an id
+ * just drop the old name. Returns the converted projects and the records created
+ * (with `dryRun` the records are only returned, not stored).
+ */
+export async function convertLegacyConvocatorias<T extends Record<string, any>>(
+  projects: T[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<{ projects: T[]; created: Convocatoria[] }> {
+  if (!projects.some(hasLegacyConvocatoria)) {
+    return { projects, created: [] };
+  }
+
+  const existing = await listConvocatorias();
+  const created: Convocatoria[] = [];
+  const now = new Date().toISOString();
+
+  const resolve = (name: string): string => {
+    const all = [...existing, ...created];
+    const match = findConvocatoriaByName(all, name);
+    if (match) return match.id;
+
+    const record: Convocatoria = {
+      id: crypto.randomUUID(),
+      slug: getUniqueSlug(slugify(name), all),
+      title: name,
+      year: getYearFromName(name) ?? new Date(now).getFullYear(),
+      color: CONVOCATORIA_COLORS[all.length % CONVOCATORIA_COLORS.length],
+      status: "open",
+      created_at: now,
+      updated_at: now,
+    };
+    created.push(record);
+    return record.id;
+  };
+
+  const converted = projects.map((project) => {
+    if (!hasLegacyConvocatoria(project)) return project;
+
+    const { convocatoria, ...rest }: Record<string, any> = project;
+    const name = String(convocatoria).trim();
+    if (!rest.convocatoriaId && name) rest.convocatoriaId = resolve(name);
+    return rest as T;
+  });
+
+  if (created.length > 0 && !dryRun) {
+    await kv.mset(created.map((record) => convocatoriaKey(record.id)), created);
+    console.log(`Created ${created.length} convocatoria(s) from free-text names`);
+  }
+
+  return { projects: converted, created };
+}
@@ -0,0 +1,114 @@
+import * as kv from "./kv.tsx";
+import { getStorage } from "./storage.tsx";
+import { collectImageUsage, imageKey, imageRecordKeys, refreshImageReferences, type ImageRecord } from "./images.tsx";
+import type { ProjectRevision } from "./revisions.tsx";
+import type { OrphanedImage, OrphanedImageReport } from "../../../types/index.ts";
+
+// Recent uploads may belong to a project that has not been saved yet
+const DEFAULT_GRACE_HOURS = 24;
+
+/**
+ * Hours an upload is protected from collection (IMAGE_GC_GRACE_HOURS, default 24)
+ */
+export function getGraceHours(): number {
+  const configured = Number(Deno.env.get("IMAGE_GC_GRACE_HOURS"));
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_GRACE_HOURS;
+}
+
+/**
+ * Compare the bucket against every project reference (dry run - nothing is deleted)
+ * Reference counts are recomputed first, from live and trashed projects, so an
+ * image is an orphan only when its count is zero and no revision snapshot uses it
+ * either (any revision can be restored, even of a purged project). Matching by file name rather
+ * than full URL keeps images safe if the public URL changes. Variants are grouped
+ * with their original through the image records.
+ */
+export async function findOrphanedImages(): Promise<OrphanedImageReport> {
+  const storage = getStorage();
+  const [stored, records, references, revisions] = await Promise.all([
+    storage.list(),
+    kv.getByPrefix("image:") as Promise<ImageRecord[]>,
+    refreshImageReferences(),
+    kv.getByPrefix("project_revision:") as Promise<ProjectRevision[]>,
+  ]);
+  const referenced = new Set(references.keys());
+  const inHistory = new Set(collectImageUsage(revisions.map((entry) => entry?.snapshot)).keys());
+  const isKept = (fileName: string) => referenced.has(fileName) || inHistory.has(fileName);
+
+  const sizes = new Map(stored.map((file) => [file.name, file]));
+  const graceHours = getGraceHours();
+  const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+  const isRecent = (date: string | null) => Boolean(date) && Date.parse(date!) > cutoff;
+
+  const orphans: OrphanedImage[] = [];
+  const grouped = new Set<string>();
+
+  // Uploads with a record: orphaned when nothing points to the original URL
+  records.forEach((record) => {
+    record.files.forEach((name) => grouped.add(name));
+    if (isKept(record.fileName) || isRecent(record.uploaded_at)) return;
+
+    const files = record.files.filter((name) => sizes.has(name));
+    if (files.length === 0) return;
+
+    orphans.push({
+      fileName: record.fileName,
+      files,
+      size: files.reduce((total, name) => total + (sizes.get(name)?.size ?? 0), 0),
+      url: record.url,
+      uploaded_at: record.uploaded_at,
+    });
+  });
+
+  // Files without a record (uploaded before records existed)
+  stored
+    .filter((file) => !grouped.has(file.name))
+    .forEach((file) => {
+      if (isKept(file.name) || isRecent(file.created_at)) return;
+
+      orphans.push({
+        fileName: file.name,
+        files: [file.name],
+        size: file.size,
+        url: storage.getPublicUrl(file.name),
+        uploaded_at: file.created_at,
+      });
+    });
+
+  orphans.sort((a, b) => b.size - a.size);
+
+  return {
+    orphans,
+    totalFiles: orphans.reduce((total, orphan) => total + orphan.files.length, 0),
+    totalSize: orphans.reduce((total, orphan) => total + orphan.size, 0),
+    scannedFiles: stored.length,
+    referencedImages: referenced.size,
+    sharedImages: Array.from(references.values()).filter((projects) => projects.length > 1).length,
+    graceHours,
+  };
+}
+
+/**
+ * Delete the given orphans. The report is recomputed first, so an image that
+ * became referenced since the preview is never removed.
+ */
+export async function deleteOrphanedImages(fileNames: string[]): Promise<OrphanedImage[]> {
+  const { orphans } = await findOrphanedImages();
+  const requested = new Set(fileNames);
+  const toDelete = orphans.filter((orphan) => requested.has(orphan.fileName));
+
+  if (toDelete.length === 0) {
+    return [];
+  }
+
+  // Records carry the content hash whose index entry goes with them; mget skips stray files
+  const records: ImageRecord[] = await kv.mget(toDelete.map((orphan) => imageKey(orphan.fileName)));
+  const keys = new Set([
+    ...toDelete.map((orphan) => imageKey(orphan.fileName)),
+    ...records.filter(Boolean).flatMap(imageRecordKeys),
+  ]);
+
+  await getStorage().remove(toDelete.flatMap((orphan) => orphan.files));
+  await kv.mdel(Array.from(keys));
+  return toDelete;
+}
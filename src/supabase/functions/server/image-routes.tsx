@@ -1,48 +1,26 @@
 import { Hono } from "npm:hono";
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import { recordAudit } from "./audit.tsx";
+import { getStorage, BUCKET_NAME } from "./storage.tsx";
+import { storeImage, deleteImage, listMediaLibrary, refreshImageReferences, type ImageRecord } from "./images.tsx";
+import { findOrphanedImages, deleteOrphanedImages } from "./image-gc.tsx";
 
-const imageRoutes = new Hono();
+const imageRoutes = new Hono<AdminEnv>();
 
-// Initialize Supabase client
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL") ?? "",
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-);
-
-const BUCKET_NAME = "make-2ce8a38a-project-images";
+// Accepted upload types and the extension their stored files get
+// (never the client's file name, which may not be a safe storage name)
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
 
 // Initialize storage bucket on startup
 async function initializeBucket() {
   try {
-    const { data: buckets, error: listError } = await supabase.storage.listBuckets();
-    
-    if (listError) {
-      console.error("Error listing buckets:", listError);
-      return;
-    }
-    
-    const bucketExists = buckets?.some((bucket) => bucket.name === BUCKET_NAME);
-
-    if (!bucketExists) {
-      console.log(`Creating bucket: ${BUCKET_NAME}`);
-      const { error } = await supabase.storage.createBucket(BUCKET_NAME, {
-        public: true, // Make images publicly accessible
-        fileSizeLimit: 5242880, // 5MB limit
-      });
-
-      if (error) {
-        // Check if error is due to bucket already existing
-        if (error.message?.includes("already exists")) {
-          console.log(`Bucket ${BUCKET_NAME} already exists (race condition handled)`);
-        } else {
-          console.error("Error creating bucket:", error);
-        }
-      } else {
-        console.log(`Bucket ${BUCKET_NAME} created successfully`);
-      }
-    } else {
-      console.log(`Bucket ${BUCKET_NAME} already exists`);
-    }
+    await getStorage().ensureBucket();
   } catch (error) {
     console.error("Error initializing bucket:", error);
   }
@@ -52,13 +30,16 @@ async function initializeBucket() {
 initializeBucket();
 
 /**
- * Upload an image to Supabase Storage
+ * Upload an image to storage (see storage.tsx)
  * Expects multipart/form-data with a 'file' field
+ * Responds with the original URL and a manifest of responsive variants.
+ * Content already uploaded is not stored twice: the existing image is returned
+ * with `deduplicated: true` and its reference count.
+ * Requires an editor or super admin session
  */
-imageRoutes.post("/upload", async (c) => {
+imageRoutes.post("/upload", requireAdmin("editor"), async (c) => {
   try {
     console.log("=== POST /images/upload ===");
-    console.log("Headers:", c.req.header());
 
     // Get the form data
     const formData = await c.req.formData();
@@ -80,8 +61,8 @@ imageRoutes.post("/upload", async (c) => {
     console.log("File received:", file.name, file.type, file.size);
 
     // Validate file type
-    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"];
-    if (!allowedTypes.includes(file.type)) {
+    const extension = IMAGE_EXTENSIONS[file.type];
+    if (!extension) {
       return c.json(
         {
           success: false,
@@ -106,46 +87,59 @@ imageRoutes.post("/upload", async (c) => {
     // Generate unique filename
     const timestamp = Date.now();
     const randomStr = Math.random().toString(36).substring(2, 15);
-    const extension = file.name.split(".").pop() || "jpg";
     const fileName = `${timestamp}-${randomStr}.${extension}`;
 
     // Convert File to ArrayBuffer
     const arrayBuffer = await file.arrayBuffer();
     const buffer = new Uint8Array(arrayBuffer);
 
-    // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(fileName, buffer, {
-        contentType: file.type,
-        upsert: false,
-      });
+    // Upload to storage, with resized WebP/AVIF variants (or reuse identical content)
+    let record: ImageRecord;
+    let deduplicated: boolean;
 
-    if (error) {
-      console.error("Error uploading to Supabase:", error);
+    try {
+      ({ record, deduplicated } = await storeImage(fileName, file.name, buffer, file.type, c.get("admin")));
+    } catch (error) {
+      console.error(`Error uploading to ${getStorage().name} storage:`, error);
       return c.json(
         {
           success: false,
           error: "Failed to upload image to storage",
-          details: error.message,
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
 
-    // Get public URL
-    const {
-      data: { publicUrl },
-    } = supabase.storage.from(BUCKET_NAME).getPublicUrl(fileName);
+    const publicUrl = record.url;
 
-    console.log("Upload successful:", publicUrl);
+    if (deduplicated) {
+      console.log("Duplicate upload, reusing:", publicUrl);
+    } else {
+      console.log("Upload successful:", publicUrl, `(${record.manifest?.variants.length ?? 0} variants)`);
+    }
+
+    await recordAudit(c, {
+      action: "image.upload",
+      target: { type: "image", id: record.fileName, label: file.name },
+      after: {
+        url: publicUrl,
+        size: file.size,
+        type: file.type,
+        variants: record.manifest?.variants.length ?? 0,
+        deduplicated,
+      },
+    });
 
     return c.json({
       success: true,
       url: publicUrl,
-      fileName: fileName,
-      size: file.size,
-      type: file.type,
+      fileName: record.fileName,
+      size: record.size,
+      type: record.type,
+      manifest: record.manifest,
+      deduplicated,
+      refCount: record.refCount ?? 0,
     });
   } catch (error) {
     console.error("Error in upload route:", error);
@@ -161,10 +155,11 @@ imageRoutes.post("/upload", async (c) => {
 });
 
 /**
- * Delete an image from Supabase Storage
+ * Delete an image from storage (refused while any project, trashed ones included, uses it)
  * Expects { fileName: string } in request body
+ * Requires an editor or super admin session
  */
-imageRoutes.delete("/delete", async (c) => {
+imageRoutes.delete("/delete", requireAdmin("editor"), async (c) => {
   try {
     console.log("=== DELETE /delete ===");
 
@@ -180,25 +175,46 @@ imageRoutes.delete("/delete", async (c) => {
       );
     }
 
+    // Uploads are shared between projects once deduplicated; never pull one from under them
+    const references = (await refreshImageReferences()).get(fileName) ?? [];
+    if (references.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: "Image is still in use",
+          details: `Used by ${references.length} project(s): ${references.map((project) => project.name).join(", ")}`,
+          refCount: references.length,
+        },
+        409
+      );
+    }
+
     console.log("Deleting file:", fileName);
 
-    const { error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .remove([fileName]);
+    // Variants go with the original
+    let removed: string[];
 
-    if (error) {
-      console.error("Error deleting from Supabase:", error);
+    try {
+      removed = await deleteImage(fileName);
+    } catch (error) {
+      console.error("Error deleting from storage:", error);
       return c.json(
         {
           success: false,
           error: "Failed to delete image",
-          details: error.message,
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
 
-    console.log("Delete successful");
+    console.log("Delete successful:", removed.length, "files");
+
+    await recordAudit(c, {
+      action: "image.delete",
+      target: { type: "image", id: fileName },
+      before: { files: removed.length },
+    });
 
     return c.json({
       success: true,
@@ -217,13 +233,37 @@ imageRoutes.delete("/delete", async (c) => {
   }
 });
 
+/**
+ * Media library: every uploaded image with thumbnail, usage and upload date
+ * Requires an editor or super admin session
+ */
+imageRoutes.get("/library", requireAdmin("editor"), async (c) => {
+  try {
+    const assets = await listMediaLibrary();
+
+    return c.json({
+      success: true,
+      assets,
+    });
+  } catch (error) {
+    console.error("Error listing media library:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to list images",
+        details: String(error),
+      },
+      500
+    );
+  }
+});
+
 /**
  * Get information about the storage bucket
  */
 imageRoutes.get("/info", async (c) => {
   try {
-    const { data: buckets } = await supabase.storage.listBuckets();
-    const bucket = buckets?.find((b) => b.name === BUCKET_NAME);
+    const bucket = await getStorage().getBucketInfo();
 
     return c.json({
       success: true,
@@ -243,4 +283,83 @@ imageRoutes.get("/info", async (c) => {
   }
 });
 
+/**
+ * Dry run: list stored images no project references, with size totals
+ * Requires a super admin session
+ */
+imageRoutes.get("/orphans", requireAdmin("super_admin"), async (c) => {
+  try {
+    const report = await findOrphanedImages();
+
+    return c.json({
+      success: true,
+      ...report,
+    });
+  } catch (error) {
+    console.error("Error finding orphaned images:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to find orphaned images",
+        details: String(error),
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Delete orphaned images picked from the dry run
+ * Body: { fileNames: string[] } - names that are no longer orphaned are skipped
+ * Requires a super admin session
+ */
+imageRoutes.post("/orphans/delete", requireAdmin("super_admin"), async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const fileNames = Array.isArray(body?.fileNames)
+      ? body.fileNames.filter((name: unknown): name is string => typeof name === "string")
+      : [];
+
+    if (fileNames.length === 0) {
+      return c.json(
+        {
+          success: false,
+          error: "fileNames must be a non-empty array",
+        },
+        400
+      );
+    }
+
+    const deleted = await deleteOrphanedImages(fileNames);
+    const files = deleted.reduce((total, orphan) => total + orphan.files.length, 0);
+    const size = deleted.reduce((total, orphan) => total + orphan.size, 0);
+
+    if (deleted.length > 0) {
+      await recordAudit(c, {
+        action: "image.gc",
+        target: { type: "image", label: `${deleted.length} imágenes huérfanas` },
+        before: { images: deleted.map((orphan) => orphan.fileName), files, size },
+      });
+    }
+
+    return c.json({
+      success: true,
+      deleted: deleted.map((orphan) => orphan.fileName),
+      skipped: fileNames.length - deleted.length,
+      files,
+      size,
+    });
+  } catch (error) {
+    console.error("Error deleting orphaned images:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete orphaned images",
+        details: String(error),
+      },
+      500
+    );
+  }
+});
+
 export default imageRoutes;
\ No newline at end of file
@@ -0,0 +1,134 @@
+import {
+  IMAGE_VARIANT_WIDTHS,
+  IMAGE_VARIANT_FORMATS,
+} from "../_shared/images.ts";
+import type { ImageVariantFormat, ImageVariantName } from "../../../types/index.ts";
+
+export interface GeneratedVariant {
+  name: ImageVariantName;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface GeneratedVariants {
+  width: number; // Original dimensions
+  height: number;
+  variants: GeneratedVariant[];
+}
+
+// Animated GIFs would lose their frames, so they are served as uploaded
+const RESIZABLE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+const WEBP_QUALITY = 80;
+
+// The AVIF encoder takes a quantizer level instead of a quality (0-62, lower is
+// better; its default is 33)
+const AVIF_CQ_LEVEL = 30;
+
+// Decoding and resizing large sources already takes most of a request's CPU budget,
+// so above this many pixels the slow AVIF encoder is skipped (WebP only)
+const DEFAULT_AVIF_MAX_PIXELS = 4_000_000;
+
+/**
+ * Formats to generate for a source of `pixels` (IMAGE_VARIANT_FORMATS, e.g. "webp" to
+ * skip the slower AVIF encoder; IMAGE_AVIF_MAX_PIXELS for the size limit on AVIF)
+ */
+function getFormats(pixels: number): ImageVariantFormat[] {
+  const configured = Deno.env.get("IMAGE_VARIANT_FORMATS");
+  const formats = configured
+    ? IMAGE_VARIANT_FORMATS.filter((format) => configured.split(",").map((f) => f.trim()).includes(format))
+    : IMAGE_VARIANT_FORMATS;
+
+  const maxAvifPixels = Number(Deno.env.get("IMAGE_AVIF_MAX_PIXELS")) || DEFAULT_AVIF_MAX_PIXELS;
+  return pixels > maxAvifPixels ? formats.filter((format) => format !== "avif") : formats;
+}
+
+/**
+ * Target widths for an image: every size smaller than the original, plus
+ * "full" capped at the original width (images are never upscaled)
+ */
+export function planVariantWidths(originalWidth: number): { name: ImageVariantName; width: number }[] {
+  const plan = (Object.entries(IMAGE_VARIANT_WIDTHS) as [ImageVariantName, number][])
+    .filter(([name, width]) => name !== "full" && width < originalWidth)
+    .map(([name, width]) => ({ name, width }));
+
+  plan.push({ name: "full", width: Math.min(IMAGE_VARIANT_WIDTHS.full, originalWidth) });
+  return plan;
+}
+
+// The codecs construct ImageData, which Deno does not provide
+function ensureImageData(): void {
+  if ("ImageData" in globalThis) return;
+
+  class ImageDataPolyfill {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+    colorSpace = "srgb";
+
+    constructor(data: Uint8ClampedArray | number, width: number, height?: number) {
+      if (typeof data === "number") {
+        this.width = data;
+        this.height = width;
+        this.data = new Uint8ClampedArray(data * width * 4);
+      } else {
+        this.data = data;
+        this.width = width;
+        this.height = height ?? data.length / 4 / width;
+      }
+    }
+  }
+
+  (globalThis as any).ImageData = ImageDataPolyfill;
+}
+
+/**
+ * Decode an upload and encode resized WebP/AVIF variants (no AVIF for large sources).
+ * Returns null for types that are stored as-is (GIF).
+ * The WASM codecs are loaded on first use only.
+ */
+export async function generateVariants(bytes: Uint8Array, type: string): Promise<GeneratedVariants | null> {
+  if (!RESIZABLE_TYPES.includes(type)) {
+    return null;
+  }
+
+  ensureImageData();
+
+  const [{ decode: decodeJpeg }, { decode: decodePng }, webp, { encode: encodeAvif }, { default: resize }] =
+    await Promise.all([
+      import("npm:@jsquash/jpeg@1.5.0"),
+      import("npm:@jsquash/png@3.0.1"),
+      import("npm:@jsquash/webp@1.4.0"),
+      import("npm:@jsquash/avif@1.3.0"),
+      import("npm:@jsquash/resize@2.1.1"),
+    ]);
+
+  const buffer = bytes.slice().buffer;
+  const source = type === "image/png"
+    ? await decodePng(buffer)
+    : type === "image/webp"
+      ? await webp.decode(buffer)
+      : await decodeJpeg(buffer);
+
+  const encoders: Record<ImageVariantFormat, (image: ImageData) => Promise<ArrayBuffer>> = {
+    webp: (image) => webp.encode(image, { quality: WEBP_QUALITY }),
+    avif: (image) => encodeAvif(image, { cqLevel: AVIF_CQ_LEVEL }),
+  };
+
+  const formats = getFormats(source.width * source.height);
+  const variants: GeneratedVariant[] = [];
+
+  for (const { name, width } of planVariantWidths(source.width)) {
+    const height = Math.round((source.height * width) / source.width);
+    const resized = width === source.width ? source : await resize(source, { width, height });
+
+    for (const format of formats) {
+      const encoded = await encoders[format](resized);
+      variants.push({ name, format, width, height, data: new Uint8Array(encoded) });
+    }
+  }
+
+  return { width: source.width, height: source.height, variants };
+}
@@ -0,0 +1,375 @@
+import * as kv from "./kv.tsx";
+import type { AdminUser } from "./auth.tsx";
+import type { TrashEntry } from "./trash.tsx";
+import { getStorage } from "./storage.tsx";
+import { generateVariants } from "./image-variants.tsx";
+import { IMAGE_VARIANT_MIME, getProjectImageUrls, getThumbnailUrl } from "../_shared/images.ts";
+import type { ImageManifest, ImageReference, MediaAsset } from "../../../types/index.ts";
+
+// Key layout:
+//   image:<fileName>      -> ImageRecord (one per upload, variants included)
+//   image_hash:<sha256>   -> fileName of the upload with that content
+
+export interface ImageRecord {
+  fileName: string;
+  originalName: string;
+  url: string;
+  type: string;
+  size: number;
+  manifest: ImageManifest | null; // null when no variants could be generated
+  files: string[]; // Every stored file: the original plus its variants
+  uploaded_at: string;
+  uploaded_by: { id: string; email: string; name?: string } | null;
+  contentHash?: string; // SHA-256 of the original bytes (missing on uploads from before deduplication)
+  references?: ImageReference[]; // Projects using the image, trashed ones included
+  refCount?: number; // references.length, kept for quick reads
+}
+
+export function imageKey(fileName: string): string {
+  return `image:${fileName}`;
+}
+
+export function imageHashKey(hash: string): string {
+  return `image_hash:${hash}`;
+}
+
+/**
+ * Hex SHA-256 of an upload's bytes
+ */
+export async function hashImage(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Record of a previous upload with the same content, if it is still stored
+ */
+async function findImageByHash(hash: string): Promise<ImageRecord | null> {
+  const fileName: string | undefined = await kv.get(imageHashKey(hash));
+  if (!fileName) return null;
+
+  const record: ImageRecord | undefined = await kv.get(imageKey(fileName));
+  if (record?.contentHash === hash) return record;
+
+  // The image was deleted without its index entry
+  await kv.del(imageHashKey(hash));
+  return null;
+}
+
+// Last path segment of a public URL ("…/public/<bucket>/<fileName>")
+export function fileNameFromUrl(url: string): string {
+  const last = url.split("?")[0].split("/").pop() ?? "";
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+/**
+ * Generate and upload the responsive variants of a stored original.
+ * Returns the manifest and the variant file names, or null for types stored
+ * as-is and on failure (logged; the original is kept on its own).
+ */
+async function storeVariants(
+  fileName: string,
+  url: string,
+  bytes: Uint8Array,
+  type: string
+): Promise<{ manifest: ImageManifest; files: string[] } | null> {
+  const storage = getStorage();
+
+  try {
+    const generated = await generateVariants(bytes, type);
+    if (!generated) return null;
+
+    const stem = fileName.replace(/\.[^.]+$/, "");
+    const files: string[] = [];
+    const manifest: ImageManifest = {
+      original: { url, width: generated.width, height: generated.height, type, size: bytes.length },
+      variants: [],
+    };
+
+    for (const variant of generated.variants) {
+      const variantName = `${stem}-${variant.name}.${variant.format}`;
+      await storage.upload(variantName, variant.data, IMAGE_VARIANT_MIME[variant.format]);
+      files.push(variantName);
+      manifest.variants.push({
+        name: variant.name,
+        format: variant.format,
+        width: variant.width,
+        height: variant.height,
+        url: storage.getPublicUrl(variantName),
+        size: variant.data.length,
+      });
+    }
+
+    return { manifest, files };
+  } catch (error) {
+    console.error(`Could not generate variants for ${fileName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store an upload and its responsive variants, and record it in the KV store.
+ * Identical bytes uploaded before are not stored again: the existing record is
+ * returned with `deduplicated` set.
+ * The original is recorded before the variants are encoded, so an upload whose
+ * variants fail (or run out of time) still has a record, without a manifest.
+ */
+export async function storeImage(
+  fileName: string,
+  originalName: string,
+  bytes: Uint8Array,
+  type: string,
+  admin: AdminUser | undefined
+): Promise<{ record: ImageRecord; deduplicated: boolean }> {
+  const contentHash = await hashImage(bytes);
+  const existing = await findImageByHash(contentHash);
+  if (existing) {
+    return { record: existing, deduplicated: true };
+  }
+
+  const storage = getStorage();
+  await storage.upload(fileName, bytes, type);
+
+  const url = storage.getPublicUrl(fileName);
+  const record: ImageRecord = {
+    fileName,
+    originalName,
+    url,
+    type,
+    size: bytes.length,
+    manifest: null,
+    files: [fileName],
+    uploaded_at: new Date().toISOString(),
+    uploaded_by: admin ? { id: admin.id, email: admin.email, name: admin.name } : null,
+    contentHash,
+    references: [],
+    refCount: 0,
+  };
+
+  await kv.mset([imageKey(fileName), imageHashKey(contentHash)], [record, fileName]);
+
+  const variants = await storeVariants(fileName, url, bytes, type);
+  if (!variants) {
+    return { record, deduplicated: false };
+  }
+
+  // Re-read so references counted in the meantime are kept
+  const latest: ImageRecord = (await kv.get(imageKey(fileName))) ?? record;
+  const updated: ImageRecord = { ...latest, manifest: variants.manifest, files: [fileName, ...variants.files] };
+  await kv.set(imageKey(fileName), updated);
+
+  return { record: updated, deduplicated: false };
+}
+
+/**
+ * KV keys to drop with an image: its record and its content hash entry
+ */
+export function imageRecordKeys(record: Pick<ImageRecord, "fileName" | "contentHash">): string[] {
+  return record.contentHash
+    ? [imageKey(record.fileName), imageHashKey(record.contentHash)]
+    : [imageKey(record.fileName)];
+}
+
+/**
+ * Delete an image, its variants and its record. Returns the removed file names.
+ */
+export async function deleteImage(fileName: string): Promise<string[]> {
+  const record: ImageRecord | undefined = await kv.get(imageKey(fileName));
+  const files = record?.files ?? [fileName];
+
+  await getStorage().remove(files);
+  await kv.mdel(record ? imageRecordKeys(record) : [imageKey(fileName)]);
+  return files;
+}
+
+/**
+ * Attach the manifests of the project's uploaded images (server-managed field).
+ * External URLs and images uploaded before variants existed get no manifest.
+ */
+export async function attachImageManifests<T extends Record<string, any>>(project: T): Promise<T> {
+  const urls = getProjectImageUrls(project);
+  const fileNames = urls.map(fileNameFromUrl).filter(Boolean);
+
+  // Only records whose URL matches belong to this storage; mget skips missing keys and keeps no order
+  const records: ImageRecord[] = fileNames.length > 0 ? await kv.mget(fileNames.map(imageKey)) : [];
+
+  const manifests: Record<string, ImageManifest> = {};
+  records.forEach((record) => {
+    if (record?.manifest && urls.includes(record.url)) {
+      manifests[record.url] = record.manifest;
+    }
+  });
+
+  const { imageManifests: _previous, ...rest } = project;
+  return (Object.keys(manifests).length > 0 ? { ...rest, imageManifests: manifests } : rest) as T;
+}
+
+/**
+ * Projects using each stored file, keyed by file name
+ */
+export function collectImageUsage(projects: Record<string, any>[]): Map<string, { id: string; name: string }[]> {
+  const usage = new Map<string, { id: string; name: string }[]>();
+  projects.filter(Boolean).forEach((project) => {
+    getProjectImageUrls(project).forEach((url) => {
+      const fileName = fileNameFromUrl(url);
+      usage.set(fileName, [...(usage.get(fileName) ?? []), { id: project.id, name: project.name }]);
+    });
+  });
+  return usage;
+}
+
+const sameReferences = (a: ImageReference[] = [], b: ImageReference[] = []) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Recount which projects use each image, live and trashed (a trashed project can
+ * still be restored), and store the result on the image records that changed.
+ * Returns the references keyed by file name, including files without a record.
+ */
+export async function refreshImageReferences(): Promise<Map<string, ImageReference[]>> {
+  const [records, projects, trashed] = await Promise.all([
+    kv.getByPrefix("image:") as Promise<ImageRecord[]>,
+    kv.getByPrefix("project:"),
+    kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+  ]);
+
+  const references = new Map<string, ImageReference[]>();
+  collectImageUsage(projects).forEach((usage, fileName) => {
+    references.set(fileName, [...usage]);
+  });
+  collectImageUsage(trashed.map((entry) => entry.project)).forEach((usage, fileName) => {
+    const trashedUsage = usage.map((project) => ({ ...project, trashed: true }));
+    references.set(fileName, [...(references.get(fileName) ?? []), ...trashedUsage]);
+  });
+
+  const changed = records
+    .filter((record) => record?.fileName)
+    .map((record) => ({ record, current: references.get(record.fileName) ?? [] }))
+    .filter(({ record, current }) => !sameReferences(record.references, current) || record.refCount !== current.length);
+
+  if (changed.length > 0) {
+    await kv.mset(
+      changed.map(({ record }) => imageKey(record.fileName)),
+      changed.map(({ record, current }) => ({ ...record, references: current, refCount: current.length }))
+    );
+  }
+
+  return references;
+}
+
+// Where a project is stored: live, or in the trash (trashed references can still be restored)
+export interface ImageUsageState {
+  project: Record<string, any>;
+  trashed?: boolean;
+}
+
+// One project moved by a write: `before` is null when it is new, `after` when it is gone for good
+export interface ImageUsageChange {
+  before: ImageUsageState | null;
+  after: ImageUsageState | null;
+}
+
+const usedFileNames = (state: ImageUsageState | null): string[] =>
+  state ? getProjectImageUrls(state.project).map(fileNameFromUrl).filter(Boolean) : [];
+
+/**
+ * Update the references of the images used before or after writes to projects.
+ * Only those image records are read and written; refreshImageReferences recounts
+ * everything (garbage collection, media library).
+ * A failure only leaves the stored counts stale until the next recount.
+ */
+export async function updateImageReferences(changes: ImageUsageChange[]): Promise<void> {
+  try {
+    const fileNames = [...new Set(changes.flatMap(({ before, after }) => [...usedFileNames(before), ...usedFileNames(after)]))];
+    if (fileNames.length === 0) return;
+
+    // mget skips missing keys and keeps no order
+    const records: ImageRecord[] = await kv.mget(fileNames.map(imageKey));
+
+    const updated = records
+      .filter((record) => record?.fileName)
+      .map((record) => {
+        let references = record.references ?? [];
+
+        changes.forEach(({ before, after }) => {
+          const sides = [before, after].filter((side): side is ImageUsageState => Boolean(side));
+          references = references.filter((reference) =>
+            !sides.some((side) => reference.id === side.project.id && Boolean(reference.trashed) === Boolean(side.trashed))
+          );
+
+          if (after && usedFileNames(after).includes(record.fileName)) {
+            const reference: ImageReference = { id: after.project.id, name: after.project.name };
+            references = [...references, after.trashed ? { ...reference, trashed: true } : reference];
+          }
+        });
+
+        return { record, references };
+      })
+      .filter(({ record, references }) => !sameReferences(record.references, references) || record.refCount !== references.length);
+
+    if (updated.length > 0) {
+      await kv.mset(
+        updated.map(({ record }) => imageKey(record.fileName)),
+        updated.map(({ record, references }) => ({ ...record, references, refCount: references.length }))
+      );
+    }
+  } catch (error) {
+    console.error("Could not update image reference counts:", error);
+  }
+}
+
+/**
+ * Every uploaded image with its usage, newest first (media library).
+ * Files uploaded before records existed are listed from the bucket; variants are never listed.
+ */
+export async function listMediaLibrary(): Promise<MediaAsset[]> {
+  const storage = getStorage();
+  const [stored, records, references] = await Promise.all([
+    storage.list(),
+    kv.getByPrefix("image:") as Promise<ImageRecord[]>,
+    refreshImageReferences(),
+  ]);
+
+  const liveUsage = (fileName: string) =>
+    (references.get(fileName) ?? []).filter((project) => !project.trashed).map(({ id, name }) => ({ id, name }));
+  const grouped = new Set(records.flatMap((record) => record.files));
+
+  const assets: MediaAsset[] = records.map((record) => ({
+    fileName: record.fileName,
+    originalName: record.originalName,
+    url: record.url,
+    thumbnailUrl: getThumbnailUrl(record.manifest, record.url),
+    type: record.type,
+    size: record.size,
+    width: record.manifest?.original.width,
+    height: record.manifest?.original.height,
+    uploaded_at: record.uploaded_at,
+    uploaded_by: record.uploaded_by,
+    usage: liveUsage(record.fileName),
+    refCount: references.get(record.fileName)?.length ?? 0,
+  }));
+
+  stored
+    .filter((file) => !grouped.has(file.name))
+    .forEach((file) => {
+      const url = storage.getPublicUrl(file.name);
+      assets.push({
+        fileName: file.name,
+        originalName: file.name,
+        url,
+        thumbnailUrl: url,
+        type: "",
+        size: file.size,
+        uploaded_at: file.created_at,
+        uploaded_by: null,
+        usage: liveUsage(file.name),
+        refCount: references.get(file.name)?.length ?? 0,
+      });
+    });
+
+  return assets.sort((a, b) => (b.uploaded_at ?? "").localeCompare(a.uploaded_at ?? ""));
+}
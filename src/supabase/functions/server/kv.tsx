@@ -0,0 +1,133 @@
+/**
+ * Key-value storage used by every server module
+ *
+ * Same functions as the autogenerated kv_store.tsx, but backed by a
+ * swappable adapter so the API can run (and be tested) without Supabase:
+ *
+ *   KV_BACKEND=supabase  (default) hosted table kv_store_2ce8a38a
+ *   KV_BACKEND=memory    in-process Map, lost on restart
+ *   KV_BACKEND=sqlite    local file at KV_SQLITE_PATH (default ./kv_store.sqlite)
+ *
+ * KV_SEED_FILE may point to a JSON object of { key: value } loaded on startup
+ * (memory and sqlite only; keys that already exist are left untouched).
+ * Tests can skip the environment and call setKvBackend(createMemoryKv(seed)).
+ */
+
+export interface KvEntry {
+  key: string;
+  value: any;
+}
+
+/**
+ * Contract every adapter implements. Like the hosted table, `mget` and
+ * `getByPrefix` only return values that exist, in no guaranteed order.
+ */
+export interface KvBackend {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+  del(key: string): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+  getEntriesByPrefix(prefix: string): Promise<KvEntry[]>; // Keys and values, for admin tooling
+}
+
+export type KvBackendName = "supabase" | "memory" | "sqlite";
+
+let backend: Promise<KvBackend> | null = null;
+
+/**
+ * Build the adapter named by KV_BACKEND, seeding it from KV_SEED_FILE if set
+ */
+async function createBackendFromEnv(): Promise<KvBackend> {
+  const name = (Deno.env.get("KV_BACKEND") || "supabase") as KvBackendName;
+  let store: KvBackend;
+
+  // Adapters are imported lazily so the hosted function never loads SQLite
+  switch (name) {
+    case "supabase": {
+      const { createSupabaseKv } = await import("./kv_supabase.tsx");
+      return createSupabaseKv();
+    }
+    case "memory": {
+      const { createMemoryKv } = await import("./kv_memory.tsx");
+      store = createMemoryKv();
+      break;
+    }
+    case "sqlite": {
+      const { createSqliteKv } = await import("./kv_sqlite.tsx");
+      store = await createSqliteKv(Deno.env.get("KV_SQLITE_PATH") || "./kv_store.sqlite");
+      break;
+    }
+    default:
+      throw new Error(`Unknown KV_BACKEND "${name}" (expected supabase, memory or sqlite)`);
+  }
+
+  const seedFile = Deno.env.get("KV_SEED_FILE");
+  if (seedFile) {
+    const seeded = await seedKv(store, JSON.parse(await Deno.readTextFile(seedFile)));
+    console.log(`KV: seeded ${seeded} keys from ${seedFile}`);
+  }
+
+  console.log(`KV: using ${name} backend`);
+  return store;
+}
+
+/**
+ * Write seed entries whose keys are not stored yet; returns how many were written
+ */
+export async function seedKv(store: KvBackend, seed: Record<string, any>): Promise<number> {
+  const missing: string[] = [];
+
+  for (const key of Object.keys(seed)) {
+    if ((await store.get(key)) === undefined) {
+      missing.push(key);
+    }
+  }
+
+  if (missing.length > 0) {
+    await store.mset(missing, missing.map((key) => seed[key]));
+  }
+
+  return missing.length;
+}
+
+function getBackend(): Promise<KvBackend> {
+  if (!backend) {
+    backend = createBackendFromEnv();
+  }
+  return backend;
+}
+
+/**
+ * Replace the active adapter (tests, local scripts)
+ */
+export function setKvBackend(store: KvBackend): void {
+  backend = Promise.resolve(store);
+}
+
+// Set stores a key-value pair.
+export const set = async (key: string, value: any): Promise<void> => (await getBackend()).set(key, value);
+
+// Get retrieves the value of a key (undefined when missing).
+export const get = async (key: string): Promise<any> => (await getBackend()).get(key);
+
+// Delete deletes a key-value pair.
+export const del = async (key: string): Promise<void> => (await getBackend()).del(key);
+
+// Sets multiple key-value pairs.
+export const mset = async (keys: string[], values: any[]): Promise<void> => (await getBackend()).mset(keys, values);
+
+// Gets the values of multiple keys (missing keys are skipped, order not guaranteed).
+export const mget = async (keys: string[]): Promise<any[]> => (await getBackend()).mget(keys);
+
+// Deletes multiple key-value pairs.
+export const mdel = async (keys: string[]): Promise<void> => (await getBackend()).mdel(keys);
+
+// Search for values by key prefix.
+export const getByPrefix = async (prefix: string): Promise<any[]> => (await getBackend()).getByPrefix(prefix);
+
+// Search for key-value pairs by key prefix.
+export const getEntriesByPrefix = async (prefix: string): Promise<KvEntry[]> =>
+  (await getBackend()).getEntriesByPrefix(prefix);
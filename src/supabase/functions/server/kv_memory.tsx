@@ -0,0 +1,41 @@
+import type { KvBackend, KvEntry } from "./kv.tsx";
+
+/**
+ * In-process adapter for local runs and tests. Values are cloned on the way
+ * in and out so callers can't mutate stored data, like with a real database.
+ */
+export function createMemoryKv(seed: Record<string, any> = {}): KvBackend {
+  const data = new Map<string, any>(Object.entries(seed).map(([key, value]) => [key, structuredClone(value)]));
+
+  const entries = (prefix: string): KvEntry[] =>
+    Array.from(data.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, value]) => ({ key, value: structuredClone(value) }));
+
+  return {
+    async get(key) {
+      return data.has(key) ? structuredClone(data.get(key)) : undefined;
+    },
+    async set(key, value) {
+      data.set(key, structuredClone(value));
+    },
+    async del(key) {
+      data.delete(key);
+    },
+    async mget(keys) {
+      return keys.filter((key) => data.has(key)).map((key) => structuredClone(data.get(key)));
+    },
+    async mset(keys, values) {
+      keys.forEach((key, i) => data.set(key, structuredClone(values[i])));
+    },
+    async mdel(keys) {
+      keys.forEach((key) => data.delete(key));
+    },
+    async getByPrefix(prefix) {
+      return entries(prefix).map((entry) => entry.value);
+    },
+    async getEntriesByPrefix(prefix) {
+      return entries(prefix);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { KvBackend, KvEntry } from "./kv.tsx";
+
+/**
+ * SQLite file adapter for running the API offline with persistent data.
+ * Uses the WASM build of SQLite, so it only needs --allow-read/--allow-write.
+ */
+export async function createSqliteKv(path: string): Promise<KvBackend> {
+  const { DB } = await import("https://deno.land/x/sqlite@v3.9.1/mod.ts");
+  const db = new DB(path);
+
+  // Same shape as the hosted table (value holds JSON)
+  db.execute("CREATE TABLE IF NOT EXISTS kv_store (key TEXT NOT NULL PRIMARY KEY, value TEXT NOT NULL)");
+
+  // Prefix match without LIKE, whose "_" wildcard would match "admin_list:" loosely
+  const selectByPrefix = "SELECT key, value FROM kv_store WHERE substr(key, 1, length(?)) = ? ORDER BY key";
+
+  const entries = (prefix: string): KvEntry[] =>
+    db.query<[string, string]>(selectByPrefix, [prefix, prefix])
+      .map(([key, value]) => ({ key, value: JSON.parse(value) }));
+
+  const placeholders = (count: number) => Array(count).fill("?").join(", ");
+
+  // Stay below SQLite's limit on bound parameters per statement
+  const chunks = (keys: string[], size = 500): string[][] =>
+    Array.from({ length: Math.ceil(keys.length / size) }, (_, i) => keys.slice(i * size, (i + 1) * size));
+
+  const inTransaction = (run: () => void) => {
+    db.execute("BEGIN");
+    try {
+      run();
+      db.execute("COMMIT");
+    } catch (error) {
+      db.execute("ROLLBACK");
+      throw error;
+    }
+  };
+
+  return {
+    async get(key) {
+      const [row] = db.query<[string]>("SELECT value FROM kv_store WHERE key = ?", [key]);
+      return row ? JSON.parse(row[0]) : undefined;
+    },
+    async set(key, value) {
+      db.query("INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)", [key, JSON.stringify(value)]);
+    },
+    async del(key) {
+      db.query("DELETE FROM kv_store WHERE key = ?", [key]);
+    },
+    async mget(keys) {
+      return chunks(keys).flatMap((chunk) =>
+        db.query<[string]>(`SELECT value FROM kv_store WHERE key IN (${placeholders(chunk.length)})`, chunk)
+          .map(([value]) => JSON.parse(value))
+      );
+    },
+    async mset(keys, values) {
+      inTransaction(() => {
+        keys.forEach((key, i) => {
+          db.query("INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)", [key, JSON.stringify(values[i])]);
+        });
+      });
+    },
+    async mdel(keys) {
+      inTransaction(() => {
+        chunks(keys).forEach((chunk) => {
+          db.query(`DELETE FROM kv_store WHERE key IN (${placeholders(chunk.length)})`, chunk);
+        });
+      });
+    },
+    async getByPrefix(prefix) {
+      return entries(prefix).map((entry) => entry.value);
+    },
+    async getEntriesByPrefix(prefix) {
+      return entries(prefix);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as store from "./kv_store.tsx";
+import type { KvBackend, KvEntry } from "./kv.tsx";
+
+const TABLE = "kv_store_2ce8a38a";
+
+// LIKE pattern for keys starting with `prefix`: "_" and "%" are wildcards in LIKE,
+// so "admin_user:" would also match e.g. "adminXuser:" (the sqlite adapter avoids LIKE)
+function prefixPattern(prefix: string): string {
+  return prefix.replace(/[\\%_]/g, (ch) => `\\${ch}`) + "%";
+}
+
+/**
+ * Adapter over the hosted table (kv_store.tsx is autogenerated, so the
+ * prefix listings are implemented here)
+ */
+export function createSupabaseKv(): KvBackend {
+  const client = () => createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  // kv_store.tsx's getByPrefix passes the prefix to LIKE unescaped, so both listings go through here
+  const entries = async (prefix: string): Promise<KvEntry[]> => {
+    const { data, error } = await client().from(TABLE).select("key, value").like("key", prefixPattern(prefix));
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data ?? [];
+  };
+
+  return {
+    get: store.get,
+    set: store.set,
+    del: store.del,
+    mget: store.mget,
+    mset: store.mset,
+    mdel: store.mdel,
+    async getByPrefix(prefix: string): Promise<any[]> {
+      return (await entries(prefix)).map((entry) => entry.value);
+    },
+    getEntriesByPrefix: entries,
+  };
+}
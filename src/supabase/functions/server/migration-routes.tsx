@@ -0,0 +1,101 @@
+import { Hono } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import { saveProjectsWithRevisions } from "./revisions.tsx";
+import { recordAudit } from "./audit.tsx";
+import { trashKey, type TrashEntry } from "./trash.tsx";
+import { CURRENT_SCHEMA_VERSION, getMigrationStatus, getSchemaVersion, upgradeProjects } from "./migrations.tsx";
+
+// Mounted under /migrations - super admins only
+const migrationRoutes = new Hono<AdminEnv>();
+
+async function loadStoredProjects() {
+  const [projects, trashed] = await Promise.all([
+    kv.getByPrefix("project:"),
+    kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+  ]);
+  return { projects, trashed: trashed.filter((entry) => entry?.project) };
+}
+
+/**
+ * Current schema version and, per migration, how many projects (live and trashed) still need it
+ */
+migrationRoutes.get("/", requireAdmin("super_admin"), async (c) => {
+  try {
+    const { projects, trashed } = await loadStoredProjects();
+
+    return c.json({
+      success: true,
+      currentVersion: CURRENT_SCHEMA_VERSION,
+      migrations: getMigrationStatus([...projects, ...trashed.map((entry) => entry.project)])
+    });
+  } catch (error) {
+    console.error("Error fetching migration status:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch migration status",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Run every pending migration over the stored projects, live and trashed
+ * Body: { dryRun?: boolean } - with dryRun nothing is written, only the report is returned
+ * Live projects get a "migration" revision.
+ */
+migrationRoutes.post("/run", requireAdmin("super_admin"), async (c) => {
+  try {
+    const { dryRun = false } = await c.req.json().catch(() => ({}));
+    const { projects, trashed } = await loadStoredProjects();
+
+    const outdatedProjects = projects.filter((project) => getSchemaVersion(project) < CURRENT_SCHEMA_VERSION);
+    const outdatedTrash = trashed.filter((entry) => getSchemaVersion(entry.project) < CURRENT_SCHEMA_VERSION);
+
+    // One pass over both so, e.g., a convocatoria name shared by live and trashed projects maps to one record
+    const { projects: upgraded, reports } = await upgradeProjects(
+      [...outdatedProjects, ...outdatedTrash.map((entry) => entry.project)],
+      { dryRun: Boolean(dryRun) }
+    );
+
+    if (!dryRun) {
+      await saveProjectsWithRevisions(upgraded.slice(0, outdatedProjects.length), c.get("admin"), "migration");
+
+      if (outdatedTrash.length > 0) {
+        const upgradedTrash = upgraded.slice(outdatedProjects.length);
+        await kv.mset(
+          outdatedTrash.map((entry) => trashKey(entry.id)),
+          outdatedTrash.map((entry, index) => ({ ...entry, project: upgradedTrash[index] }))
+        );
+      }
+
+      await recordAudit(c, {
+        action: "system.migrate_data",
+        target: { type: "system", label: `Versión ${CURRENT_SCHEMA_VERSION}` },
+        after: {
+          projects: outdatedProjects.length,
+          trashed: outdatedTrash.length,
+          migrations: reports.map((report) => ({ id: report.id, changed: report.changed.length }))
+        }
+      });
+    }
+
+    return c.json({
+      success: true,
+      dryRun: Boolean(dryRun),
+      currentVersion: CURRENT_SCHEMA_VERSION,
+      projects: outdatedProjects.length,
+      trashed: outdatedTrash.length,
+      reports
+    });
+  } catch (error) {
+    console.error("Error running migrations:", error);
+    return c.json({
+      success: false,
+      error: "Failed to run migrations",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default migrationRoutes;
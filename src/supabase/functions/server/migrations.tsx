@@ -0,0 +1,167 @@
+import { convertLegacyConvocatorias } from "./convocatorias.tsx";
+import type { MigrationReport, MigrationStatus } from "../../../types/index.ts";
+
+// Every stored project carries `schemaVersion` (records saved before it existed are 0).
+// MIGRATIONS is append-only and ordered: the migration with version N upgrades records
+// from N - 1 to N. Only legacy inputs are upgraded: imports, restored revisions and
+// trash entries, and the stored records super admins migrate once (see
+// migration-routes.tsx). Edits from the admin form keep the stored record's version
+// (new projects are current), so a migration never re-runs over what an editor saved.
+
+export interface MigrationContext {
+  dryRun: boolean; // Compute the result without side effects (e.g. creating records)
+}
+
+export interface Migration {
+  version: number;
+  id: string;
+  description: string;
+  // Upgrade a batch of records from version - 1; returns the migrated copies in the same order
+  up(
+    projects: Record<string, any>[],
+    context: MigrationContext
+  ): Promise<{ projects: Record<string, any>[]; notes: string[] }>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    id: "convocatoria-references",
+    description: "Vincula la convocatoria escrita como texto a su registro (y crea los que falten)",
+    async up(projects, { dryRun }) {
+      // One pass over the batch so a shared name maps to one record
+      const { projects: converted, created } = await convertLegacyConvocatorias(projects, { dryRun });
+      return {
+        projects: converted,
+        notes: created.map((convocatoria) => `Convocatoria creada: ${convocatoria.title}`),
+      };
+    },
+  },
+  {
+    version: 2,
+    id: "legacy-location",
+    description: "Sustituye los campos anteriores description y location por objective, state, municipality y mapPosition",
+    async up(projects) {
+      const notes: string[] = [];
+      const migrated = projects.map((project) => {
+        const { description, location, ...rest } = project;
+
+        if (typeof description === "string" && description.trim()) {
+          if (!rest.objective) {
+            rest.objective = description;
+          } else if (description.trim() !== String(rest.objective).trim()) {
+            notes.push(`${rest.id}: la descripción anterior difería del objetivo y se descarta (los proyectos activos la conservan en su historial)`);
+          }
+        }
+
+        if (location && typeof location === "object") {
+          if (!rest.state && location.state) rest.state = location.state;
+          if (!rest.municipality && location.city) rest.municipality = location.city;
+          if (!rest.mapPosition && typeof location.x === "number" && typeof location.y === "number") {
+            rest.mapPosition = { x: location.x, y: location.y };
+          }
+        }
+
+        return rest;
+      });
+
+      return { projects: migrated, notes };
+    },
+  },
+  {
+    version: 3,
+    id: "beneficiary-count",
+    description: "Obtiene el número de beneficiarios (para las estadísticas) del texto de beneficiarios cuando menciona una sola cifra",
+    async up(projects) {
+      const notes: string[] = [];
+      const migrated = projects.map((project) => {
+        if (typeof project.beneficiaryCount === "number" || typeof project.beneficiaries !== "string") {
+          return project;
+        }
+
+        // Thousands separators ("1,200" / "1.200") belong to the number
+        const numbers = project.beneficiaries.match(/\d{1,3}(?:[.,]\d{3})+|\d+/g) || [];
+        if (numbers.length === 1) {
+          return { ...project, beneficiaryCount: parseInt(numbers[0].replace(/[.,]/g, ""), 10) };
+        }
+        if (numbers.length > 1) {
+          notes.push(`${project.id}: el texto de beneficiarios menciona varias cifras; captura el número a mano`);
+        }
+        return project;
+      });
+
+      return { projects: migrated, notes };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Schema version of a stored project (0 for records saved before versions existed)
+ */
+export function getSchemaVersion(project: Record<string, any> | null | undefined): number {
+  return Number(project?.schemaVersion) || 0;
+}
+
+/**
+ * Each migration with the number of records that still need it
+ */
+export function getMigrationStatus(projects: Record<string, any>[]): MigrationStatus[] {
+  return MIGRATIONS.map(({ version, id, description }) => ({
+    version,
+    id,
+    description,
+    pending: projects.filter((project) => getSchemaVersion(project) < version).length,
+  }));
+}
+
+/**
+ * Apply every pending migration, in order, and stamp the new schema version.
+ * Records already current are returned as they are. The reports list, per migration
+ * that had pending records, how many there were and which ones actually changed.
+ */
+export async function upgradeProjects<T extends Record<string, any>>(
+  projects: T[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<{ projects: T[]; reports: MigrationReport[] }> {
+  let current: Record<string, any>[] = projects;
+  const reports: MigrationReport[] = [];
+
+  for (const migration of MIGRATIONS) {
+    const indexes = current
+      .map((project, index) => (getSchemaVersion(project) < migration.version ? index : -1))
+      .filter((index) => index >= 0);
+
+    if (indexes.length === 0) continue;
+
+    const result = await migration.up(indexes.map((index) => current[index]), { dryRun });
+    const changed: string[] = [];
+    current = [...current];
+
+    indexes.forEach((index, position) => {
+      const before = current[index];
+      const after = { ...result.projects[position], schemaVersion: migration.version };
+      if (hasContentChanges(before, after)) changed.push(String(before.id));
+      current[index] = after;
+    });
+
+    reports.push({
+      version: migration.version,
+      id: migration.id,
+      description: migration.description,
+      pending: indexes.length,
+      changed,
+      notes: result.notes,
+    });
+  }
+
+  return { projects: current as T[], reports };
+}
+
+// Compared as JSON, ignoring the version stamp itself
+function hasContentChanges(before: Record<string, any>, after: Record<string, any>): boolean {
+  const { schemaVersion: _before, ...beforeContent } = before;
+  const { schemaVersion: _after, ...afterContent } = after;
+  return JSON.stringify(beforeContent) !== JSON.stringify(afterContent);
+}
@@ -0,0 +1,55 @@
+import type { Context } from "npm:hono";
+import type { AdminEnv } from "./auth.tsx";
+import { findUnknownConvocatoriaIds } from "./convocatorias.tsx";
+import { findUnknownTerms } from "./taxonomies.tsx";
+import { getMissingImageDetails, describeMissingImageDetails } from "../_shared/images.ts";
+import { isPublished } from "../_shared/publication.ts";
+import type { Project } from "../../../types/index.ts";
+
+// Checks shared by every route that saves projects from outside the stored record
+// (create, update, import, restore). Each returns the error response to send, or null.
+
+/**
+ * 400 response when projects point to convocatorias or taxonomy terms that do not exist, otherwise null
+ */
+export async function rejectUnknownReferences(c: Context<AdminEnv>, projects: Record<string, any>[]) {
+  const [unknownConvocatorias, unknownTerms] = await Promise.all([
+    findUnknownConvocatoriaIds(projects),
+    findUnknownTerms(projects)
+  ]);
+
+  const fieldErrors = [
+    ...unknownConvocatorias.map((id) => ({ field: "convocatoriaId", message: `La convocatoria "${id}" no existe` })),
+    ...unknownTerms
+  ];
+  if (fieldErrors.length === 0) return null;
+
+  return c.json({
+    success: false,
+    error: "Datos del proyecto inválidos",
+    details: fieldErrors.map((e) => e.message).join("; "),
+    fieldErrors
+  }, 400);
+}
+
+/**
+ * 400 response when a project that is (or stays) published has images without alt text,
+ * caption or credit - the rule POST /projects/:id/status applies when publishing - otherwise null
+ */
+export function rejectMissingImageDetails(c: Context<AdminEnv>, projects: Record<string, any>[]) {
+  const fieldErrors = projects
+    .filter((project) => isPublished(project))
+    .flatMap((project) =>
+      describeMissingImageDetails(getMissingImageDetails(project as Project)).map((message) => ({
+        field: "imageDetails",
+        message: projects.length > 1 ? `${project.id}: ${message}` : message
+      }))
+    );
+  if (fieldErrors.length === 0) return null;
+
+  return c.json({
+    success: false,
+    error: `Completa los datos de las imágenes de los proyectos publicados: ${fieldErrors.map((e) => e.message).join("; ")}`,
+    fieldErrors
+  }, 400);
+}
@@ -0,0 +1,200 @@
+import { Hono } from "npm:hono";
+import { swaggerUI } from "npm:@hono/swagger-ui";
+import * as kv from "./kv.tsx";
+import { getConvocatoria, listConvocatorias } from "./convocatorias.tsx";
+import { getTaxonomies, getTaxonomyTerms } from "./taxonomies.tsx";
+import { getProjectStats } from "./stats.tsx";
+import {
+  DEFAULT_PAGE_LIMIT,
+  buildOpenApiDocument,
+  toPublicConvocatoria,
+  toPublicProject,
+  toPublicTerm,
+} from "./public-api.tsx";
+import { parseProjectQuery, queryProjects } from "../_shared/projectQuery.ts";
+import { isPubliclyVisible } from "../_shared/publication.ts";
+import { TAXONOMY_KINDS, isTaxonomyKind } from "../_shared/taxonomies.ts";
+
+// Mounted under /api/v2 - public and read-only: published projects, non-draft
+// convocatorias, taxonomies and stats, shaped by the serializers in public-api.tsx
+const publicApiRoutes = new Hono();
+
+// Static for a given deployment, so it is built once
+const openApiDocument = buildOpenApiDocument();
+
+/**
+ * OpenAPI document of this API
+ */
+publicApiRoutes.get("/openapi.json", (c) => c.json(openApiDocument));
+
+/**
+ * Interactive documentation (Swagger UI) for openapi.json
+ */
+publicApiRoutes.get("/docs", swaggerUI({ url: "openapi.json" }));
+
+/**
+ * Published projects, paginated
+ * Query: the filters and sorting of GET /projects (see _shared/projectQuery.ts);
+ * `limit` defaults to DEFAULT_PAGE_LIMIT, `cursor` is the previous page's nextCursor
+ */
+publicApiRoutes.get("/projects", async (c) => {
+  try {
+    const projects = (await kv.getByPrefix("project:"))
+      .filter((project: any) => project?.id && isPubliclyVisible(project));
+
+    const query = parseProjectQuery(new URL(c.req.url).searchParams);
+    query.limit = query.limit ?? DEFAULT_PAGE_LIMIT;
+    const result = queryProjects(projects, query);
+
+    return c.json({
+      success: true,
+      data: result.projects.map(toPublicProject),
+      pagination: {
+        total: result.total,
+        limit: query.limit,
+        nextCursor: result.nextCursor
+      }
+    });
+  } catch (error) {
+    console.error("Error listing public projects:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list projects",
+      details: String(error)
+    }, 500);
+  }
+});
+
+publicApiRoutes.get("/projects/:id", async (c) => {
+  try {
+    const project = await kv.get(`project:${c.req.param("id")}`);
+
+    if (!project || !isPubliclyVisible(project)) {
+      return c.json({
+        success: false,
+        error: "Project not found"
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: toPublicProject(project)
+    });
+  } catch (error) {
+    console.error("Error fetching public project:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch project",
+      details: String(error)
+    }, 500);
+  }
+});
+
+publicApiRoutes.get("/convocatorias", async (c) => {
+  try {
+    const convocatorias = await listConvocatorias();
+
+    return c.json({
+      success: true,
+      data: convocatorias
+        .filter((convocatoria) => convocatoria.status !== "draft")
+        .map(toPublicConvocatoria)
+    });
+  } catch (error) {
+    console.error("Error listing public convocatorias:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list convocatorias",
+      details: String(error)
+    }, 500);
+  }
+});
+
+publicApiRoutes.get("/convocatorias/:id", async (c) => {
+  try {
+    const convocatoria = await getConvocatoria(c.req.param("id"));
+
+    if (!convocatoria || convocatoria.status === "draft") {
+      return c.json({
+        success: false,
+        error: "Convocatoria not found"
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: toPublicConvocatoria(convocatoria)
+    });
+  } catch (error) {
+    console.error("Error fetching public convocatoria:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch convocatoria",
+      details: String(error)
+    }, 500);
+  }
+});
+
+publicApiRoutes.get("/taxonomies", async (c) => {
+  try {
+    const taxonomies = await getTaxonomies();
+
+    return c.json({
+      success: true,
+      data: Object.fromEntries(TAXONOMY_KINDS.map((kind) => [kind, taxonomies[kind].map(toPublicTerm)]))
+    });
+  } catch (error) {
+    console.error("Error fetching public taxonomies:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch taxonomies",
+      details: String(error)
+    }, 500);
+  }
+});
+
+publicApiRoutes.get("/taxonomies/:kind", async (c) => {
+  try {
+    const kind = c.req.param("kind");
+
+    if (!isTaxonomyKind(kind)) {
+      return c.json({
+        success: false,
+        error: `Unknown taxonomy. Use one of: ${TAXONOMY_KINDS.join(", ")}`
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: (await getTaxonomyTerms(kind)).map(toPublicTerm)
+    });
+  } catch (error) {
+    console.error("Error fetching public taxonomy:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch taxonomy",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Same cached statistics as GET /stats
+ */
+publicApiRoutes.get("/stats", async (c) => {
+  try {
+    return c.json({
+      success: true,
+      data: await getProjectStats()
+    });
+  } catch (error) {
+    console.error("Error computing public stats:", error);
+    return c.json({
+      success: false,
+      error: "Failed to compute stats",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default publicApiRoutes;
@@ -0,0 +1,404 @@
+import { PROJECT_SCHEMA } from "../_shared/projectSchema.ts";
+import { MAX_PAGE_LIMIT, PROJECT_SORT_FIELDS } from "../_shared/projectQuery.ts";
+import {
+  PROJECT_IMAGE_FIELDS,
+  GALLERY_SECTIONS,
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANT_WIDTHS,
+  getGalleryImages,
+  getImageDetails,
+  getImageManifest,
+} from "../_shared/images.ts";
+import { CONVOCATORIA_STATUSES } from "../_shared/convocatorias.ts";
+import { TAXONOMY_KINDS } from "../_shared/taxonomies.ts";
+import type { Convocatoria, ImageDetails, Project, ProjectImageField, TaxonomyTerm } from "../../../types/index.ts";
+
+// Public read-only API, version 2 (see public-api-routes.tsx)
+// Responses are built by the serializers below instead of returning stored records, so
+// the field names partners rely on stay the same when the storage format changes: a
+// renamed or restructured Project field only needs its mapping updated here. The
+// OpenAPI document is generated from the same field lists and the shared schema rules.
+
+export const PUBLIC_API_VERSION = "2.0.0";
+
+export const DEFAULT_PAGE_LIMIT = 20;
+
+// Copied under the same name; their OpenAPI schema comes from PROJECT_SCHEMA
+const PROJECT_FIELDS = [
+  "name",
+  "organization",
+  "category",
+  "thematicArea",
+  "state",
+  "municipality",
+  "implementationStates",
+  "isNationalProject",
+  "convocatoriaId",
+  "objective",
+  "beneficiaries",
+  "beneficiaryCount",
+  "riskFactors",
+  "methodology",
+  "results",
+  "evaluationCriteriaHighlights",
+  "totalScore",
+  "finalRankingPosition",
+  "mapPosition",
+] as const satisfies readonly (keyof Project)[];
+
+// Public names of the image slots
+const IMAGE_SLOTS: Record<ProjectImageField, string> = {
+  imageUrl: "main",
+  beneficiariesImageUrl: "beneficiaries",
+  riskFactorsImageUrl: "riskFactors",
+  methodologyImageUrl: "methodology",
+  resultsImageUrl: "results",
+};
+
+// Public names of the contact fields (footer* in the stored project)
+const CONTACT_FIELDS: Record<string, keyof Project> = {
+  organizationName: "footerOrganizationName",
+  email: "footerContactEmail",
+  phone: "footerContactPhone",
+  secondaryEmail: "footerContactEmail2",
+  secondaryPhone: "footerContactPhone2",
+  website: "footerWebsiteUrl",
+  address: "footerPhysicalAddress",
+  instagram: "footerInstagramUrl",
+  facebook: "footerFacebookUrl",
+  x: "footerXUrl",
+  linkedin: "footerLinkedinUrl",
+  tiktok: "footerTiktokUrl",
+  youtube: "footerYoutubeUrl",
+};
+
+// Missing optional values are sent as null so every response has the same keys
+const orNull = <T,>(value: T | undefined | null | ""): T | null =>
+  value === undefined || value === null || value === "" ? null : value;
+
+function toPublicImage(project: Project, url: string | undefined, details: ImageDetails) {
+  if (!url) return null;
+  const manifest = getImageManifest(project, url);
+  return {
+    url,
+    alt: orNull(details.alt),
+    caption: orNull(details.caption),
+    credit: orNull(details.credit),
+    width: manifest?.original.width ?? null,
+    height: manifest?.original.height ?? null,
+    variants: (manifest?.variants ?? []).map(({ name, format, width, height, url }) => ({ name, format, width, height, url })),
+  };
+}
+
+/**
+ * Project as returned by the public API
+ */
+export function toPublicProject(project: Project) {
+  const fields = Object.fromEntries(PROJECT_FIELDS.map((field) => [field, orNull(project[field])]));
+
+  return {
+    id: project.id,
+    ...fields,
+    implementationStates: project.implementationStates ?? [],
+    isNationalProject: Boolean(project.isNationalProject),
+    images: Object.fromEntries(
+      PROJECT_IMAGE_FIELDS.map((field) => [
+        IMAGE_SLOTS[field],
+        toPublicImage(project, project[field], getImageDetails(project, field)),
+      ])
+    ),
+    galleries: Object.fromEntries(
+      GALLERY_SECTIONS.map((section) => [
+        section,
+        getGalleryImages(project, section).map((image) => toPublicImage(project, image.url, image)).filter(Boolean),
+      ])
+    ),
+    contact: Object.fromEntries(
+      Object.entries(CONTACT_FIELDS).map(([name, field]) => [name, orNull(project[field] as string | undefined)])
+    ),
+  };
+}
+
+export function toPublicConvocatoria(convocatoria: Convocatoria) {
+  return {
+    id: convocatoria.id,
+    slug: convocatoria.slug,
+    title: convocatoria.title,
+    year: convocatoria.year,
+    opensAt: orNull(convocatoria.opensAt),
+    closesAt: orNull(convocatoria.closesAt),
+    description: orNull(convocatoria.description),
+    color: convocatoria.color,
+    status: convocatoria.status,
+  };
+}
+
+export function toPublicTerm(term: TaxonomyTerm) {
+  return {
+    value: term.value,
+    label: term.label,
+    description: orNull(term.description),
+    color: term.color,
+    icon: orNull(term.icon),
+  };
+}
+
+// ========================================
+// OPENAPI DOCUMENT
+// ========================================
+
+type Schema = Record<string, unknown>;
+type FieldRule = NonNullable<typeof PROJECT_SCHEMA[keyof Project]>;
+
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true });
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const object = (properties: Record<string, Schema>): Schema => ({
+  type: "object",
+  required: Object.keys(properties),
+  properties,
+});
+
+function ruleToSchema(rule: FieldRule): Schema {
+  const schema: Schema = { description: rule.label };
+
+  switch (rule.type) {
+    case "number":
+      schema.type = rule.integer ? "integer" : "number";
+      if (rule.min !== undefined) schema.minimum = rule.min;
+      if (rule.max !== undefined) schema.maximum = rule.max;
+      break;
+    case "boolean":
+      schema.type = "boolean";
+      break;
+    case "stringArray":
+      schema.type = "array";
+      schema.items = { type: "string" };
+      break;
+    case "mapPosition":
+      Object.assign(schema, object({
+        x: { type: "number", minimum: 0, maximum: 100 },
+        y: { type: "number", minimum: 0, maximum: 100 },
+      }));
+      schema.description = `${rule.label} (porcentaje del ancho y alto del mapa)`;
+      break;
+    default:
+      schema.type = "string";
+      if (rule.maxLength !== undefined) schema.maxLength = rule.maxLength;
+      if (rule.oneOf) schema.enum = [...rule.oneOf];
+      if (rule.dateTime) schema.format = "date-time";
+      if (rule.email) schema.format = "email";
+  }
+
+  return rule.required ? schema : nullable(schema);
+}
+
+const imageSchema = object({
+  url: { type: "string", format: "uri" },
+  alt: nullable({ type: "string", description: "Texto alternativo" }),
+  caption: nullable({ type: "string" }),
+  credit: nullable({ type: "string", description: "Autoría y licencia" }),
+  width: nullable({ type: "integer" }),
+  height: nullable({ type: "integer" }),
+  variants: {
+    type: "array",
+    description: "Versiones redimensionadas (vacío para imágenes externas)",
+    items: object({
+      name: { type: "string", enum: Object.keys(IMAGE_VARIANT_WIDTHS) },
+      format: { type: "string", enum: IMAGE_VARIANT_FORMATS },
+      width: { type: "integer" },
+      height: { type: "integer" },
+      url: { type: "string", format: "uri" },
+    }),
+  },
+});
+
+const statsBucketSchema = object({
+  value: { type: "string", description: "Estado, valor del término o id de la convocatoria" },
+  count: { type: "integer" },
+  averageScore: nullable({ type: "number" }),
+  beneficiaries: { type: "integer" },
+});
+
+const success = (data: Schema, extra: Record<string, Schema> = {}): Schema =>
+  object({ success: { type: "boolean", enum: [true] }, data, ...extra });
+
+const jsonResponse = (description: string, schema: Schema) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const notFound = { $ref: "#/components/responses/NotFound" };
+
+const listParam = (name: string, description: string) => ({
+  name,
+  in: "query",
+  description: `${description}. Varios valores separados por comas o repitiendo el parámetro`,
+  schema: { type: "array", items: { type: "string" } },
+  style: "form",
+  explode: false,
+});
+
+/**
+ * OpenAPI 3.0 document of the public API. Server URLs are relative to the document,
+ * so it works wherever the function is deployed.
+ */
+export function buildOpenApiDocument() {
+  const projectProperties: Record<string, Schema> = { id: { type: "string", description: "No. de registro" } };
+  PROJECT_FIELDS.forEach((field) => {
+    const rule = PROJECT_SCHEMA[field];
+    projectProperties[field] = rule ? ruleToSchema(rule) : nullable({ type: "string" });
+  });
+  projectProperties.implementationStates = { ...ruleToSchema(PROJECT_SCHEMA.implementationStates!), nullable: false };
+  projectProperties.isNationalProject = { ...ruleToSchema(PROJECT_SCHEMA.isNationalProject!), nullable: false };
+  projectProperties.images = object(
+    Object.fromEntries(PROJECT_IMAGE_FIELDS.map((field) => [IMAGE_SLOTS[field], nullable(ref("Image"))]))
+  );
+  projectProperties.galleries = object(
+    Object.fromEntries(GALLERY_SECTIONS.map((section) => [section, { type: "array", items: ref("Image") }]))
+  );
+  projectProperties.contact = object(
+    Object.fromEntries(Object.entries(CONTACT_FIELDS).map(([name, field]) => [name, ruleToSchema(PROJECT_SCHEMA[field]!)]))
+  );
+
+  const projectFilters = [
+    listParam("category", "Valor de la categoría"),
+    listParam("thematicArea", "Valor del ámbito temático"),
+    listParam("state", "Estado (principal o de implementación)"),
+    listParam("convocatoria", "Id de la convocatoria"),
+    { name: "q", in: "query", description: "Texto libre (sin distinguir acentos ni mayúsculas)", schema: { type: "string" } },
+    { name: "minScore", in: "query", schema: { type: "number" } },
+    { name: "maxScore", in: "query", schema: { type: "number" } },
+    { name: "sort", in: "query", schema: { type: "string", enum: PROJECT_SORT_FIELDS, default: "name" } },
+    { name: "order", in: "query", description: "Por omisión desc para totalScore y asc para el resto", schema: { type: "string", enum: ["asc", "desc"] } },
+    { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_LIMIT, default: DEFAULT_PAGE_LIMIT } },
+    { name: "cursor", in: "query", description: "`pagination.nextCursor` de la página anterior", schema: { type: "string" } },
+  ];
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Mapa de Buenas Prácticas - API pública",
+      version: PUBLIC_API_VERSION,
+      description:
+        "API de solo lectura con los proyectos publicados, las convocatorias, las taxonomías y las estadísticas. " +
+        "Los nombres de los campos son estables dentro de la versión 2; los valores opcionales vacíos se envían como null.",
+    },
+    servers: [{ url: "." }],
+    paths: {
+      "/projects": {
+        get: {
+          summary: "Lista paginada de proyectos publicados",
+          tags: ["Proyectos"],
+          parameters: projectFilters,
+          responses: {
+            200: jsonResponse("Página de proyectos", success(
+              { type: "array", items: ref("Project") },
+              { pagination: ref("Pagination") }
+            )),
+          },
+        },
+      },
+      "/projects/{id}": {
+        get: {
+          summary: "Proyecto publicado",
+          tags: ["Proyectos"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { 200: jsonResponse("Proyecto", success(ref("Project"))), 404: notFound },
+        },
+      },
+      "/convocatorias": {
+        get: {
+          summary: "Convocatorias (sin borradores)",
+          tags: ["Convocatorias"],
+          responses: { 200: jsonResponse("Convocatorias", success({ type: "array", items: ref("Convocatoria") })) },
+        },
+      },
+      "/convocatorias/{id}": {
+        get: {
+          summary: "Convocatoria",
+          tags: ["Convocatorias"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { 200: jsonResponse("Convocatoria", success(ref("Convocatoria"))), 404: notFound },
+        },
+      },
+      "/taxonomies": {
+        get: {
+          summary: "Categorías y ámbitos temáticos, en orden de presentación",
+          tags: ["Taxonomías"],
+          responses: {
+            200: jsonResponse("Taxonomías", success(object(
+              Object.fromEntries(TAXONOMY_KINDS.map((kind) => [kind, { type: "array", items: ref("TaxonomyTerm") }]))
+            ))),
+          },
+        },
+      },
+      "/taxonomies/{kind}": {
+        get: {
+          summary: "Términos de una taxonomía",
+          tags: ["Taxonomías"],
+          parameters: [{ name: "kind", in: "path", required: true, schema: { type: "string", enum: TAXONOMY_KINDS } }],
+          responses: { 200: jsonResponse("Términos", success({ type: "array", items: ref("TaxonomyTerm") })), 404: notFound },
+        },
+      },
+      "/stats": {
+        get: {
+          summary: "Estadísticas de los proyectos publicados",
+          tags: ["Estadísticas"],
+          responses: { 200: jsonResponse("Estadísticas", success(ref("Stats"))) },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Project: object(projectProperties),
+        Image: imageSchema,
+        Convocatoria: object({
+          id: { type: "string" },
+          slug: { type: "string" },
+          title: { type: "string" },
+          year: { type: "integer" },
+          opensAt: nullable({ type: "string", format: "date" }),
+          closesAt: nullable({ type: "string", format: "date" }),
+          description: nullable({ type: "string" }),
+          color: { type: "string", description: "Hexadecimal (#RRGGBB)" },
+          status: { type: "string", enum: CONVOCATORIA_STATUSES.filter((status) => status !== "draft") },
+        }),
+        TaxonomyTerm: object({
+          value: { type: "string", description: "Valor guardado en los proyectos" },
+          label: { type: "string" },
+          description: nullable({ type: "string" }),
+          color: { type: "string", description: "Hexadecimal (#RRGGBB)" },
+          icon: nullable({ type: "string" }),
+        }),
+        Stats: object({
+          totalProjects: { type: "integer" },
+          averageScore: nullable({ type: "number" }),
+          totalBeneficiaries: { type: "integer" },
+          projectsWithBeneficiaryCount: { type: "integer", description: "Proyectos incluidos en totalBeneficiaries" },
+          byState: { type: "array", items: statsBucketSchema },
+          byThematicArea: { type: "array", items: statsBucketSchema },
+          byCategory: { type: "array", items: statsBucketSchema },
+          byConvocatoria: { type: "array", items: statsBucketSchema },
+          generatedAt: { type: "string", format: "date-time" },
+        }),
+        Pagination: object({
+          total: { type: "integer", description: "Proyectos que cumplen los filtros (todas las páginas)" },
+          limit: { type: "integer" },
+          nextCursor: nullable({ type: "string", description: "null en la última página" }),
+        }),
+        Error: {
+          type: "object",
+          required: ["success", "error"],
+          properties: {
+            success: { type: "boolean", enum: [false] },
+            error: { type: "string" },
+            details: { type: "string", description: "Solo en errores del servidor" },
+          },
+        },
+      },
+      responses: {
+        NotFound: jsonResponse("No encontrado", ref("Error")),
+      },
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import { Hono } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import { saveProjectWithRevision, isStaleRevision } from "./revisions.tsx";
+import { recordAudit } from "./audit.tsx";
+import {
+  PUBLICATION_STATUSES,
+  getPublicationStatus,
+  findTransition,
+} from "../_shared/publication.ts";
+import { getMissingImageDetails, describeMissingImageDetails } from "../_shared/images.ts";
+
+// Mounted under /projects - editors submit for review, super admins decide
+const publicationRoutes = new Hono<AdminEnv>();
+
+/**
+ * Move a project through the publication workflow
+ * Body: { status, comment?, revision } - see _shared/publication.ts for the allowed transitions
+ */
+publicationRoutes.post("/:id/status", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const { status, comment, revision } = await c.req.json();
+    const admin = c.get("admin");
+
+    if (!PUBLICATION_STATUSES.includes(status)) {
+      return c.json({
+        success: false,
+        error: "Invalid publication status"
+      }, 400);
+    }
+
+    const project = await kv.get(`project:${id}`);
+
+    if (!project) {
+      return c.json({
+        success: false,
+        error: "Project not found"
+      }, 404);
+    }
+
+    if (isStaleRevision(project, revision)) {
+      return c.json({
+        success: false,
+        error: "El proyecto fue modificado por otra persona",
+        conflict: true,
+        current: project
+      }, 409);
+    }
+
+    const from = getPublicationStatus(project);
+    const transition = findTransition(from, status);
+
+    if (!transition) {
+      return c.json({
+        success: false,
+        error: `Cannot change status from ${from} to ${status}`
+      }, 400);
+    }
+
+    if (transition.superAdminOnly && admin.role !== "super_admin") {
+      return c.json({
+        success: false,
+        error: "Insufficient permissions"
+      }, 403);
+    }
+
+    // Every image must be described and credited before the public sees it
+    const missingDetails = status === "published" ? getMissingImageDetails(project) : [];
+
+    if (missingDetails.length > 0) {
+      return c.json({
+        success: false,
+        error: `Completa los datos de las imágenes antes de publicar: ${describeMissingImageDetails(missingDetails).join("; ")}`,
+        missingImageDetails: missingDetails
+      }, 400);
+    }
+
+    const text = typeof comment === "string" ? comment.trim() : "";
+
+    if (transition.requiresComment && !text) {
+      return c.json({
+        success: false,
+        error: "A comment is required to request changes"
+      }, 400);
+    }
+
+    // Keep the reviewer's comment on the draft until it is submitted again
+    const reviewComment = transition.requiresComment
+      ? { text, author: admin.name || admin.email, created_at: new Date().toISOString() }
+      : undefined;
+
+    const saved = await saveProjectWithRevision(
+      { ...project, publicationStatus: status, reviewComment },
+      admin,
+      "status"
+    );
+
+    await recordAudit(c, {
+      action: "project.status_change",
+      target: { type: "project", id, label: project.name },
+      before: { publicationStatus: from },
+      after: { publicationStatus: status, ...(text ? { comment: text } : {}) }
+    });
+
+    return c.json({
+      success: true,
+      project: saved.snapshot
+    });
+  } catch (error) {
+    console.error("Error changing publication status:", error);
+    return c.json({
+      success: false,
+      error: "Failed to change publication status",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default publicationRoutes;
@@ -0,0 +1,213 @@
+import { Hono } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import {
+  listRevisions,
+  getRevision,
+  diffSnapshots,
+  saveProjectWithRevision,
+} from "./revisions.tsx";
+import { recordAudit, summarizeChange } from "./audit.tsx";
+import { upgradeProjects } from "./migrations.tsx";
+import { rejectUnknownReferences, rejectMissingImageDetails } from "./project-checks.tsx";
+import { validateProject, formatValidationErrors } from "../_shared/projectSchema.ts";
+
+// Mounted under /projects - every route here requires an editor or super admin session
+const revisionRoutes = new Hono<AdminEnv>();
+
+/**
+ * List the revisions of a project (newest first, without snapshots)
+ * Each entry includes the fields it changed relative to the previous revision
+ */
+revisionRoutes.get("/:id/revisions", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const revisions = await listRevisions(id);
+
+    const summaries = revisions.map((entry, index) => {
+      const previous = revisions[index + 1];
+      return {
+        revision: entry.revision,
+        action: entry.action,
+        author: entry.author,
+        created_at: entry.created_at,
+        restoredFrom: entry.restoredFrom,
+        changedFields: diffSnapshots(previous?.snapshot, entry.snapshot).map((change) => change.field),
+      };
+    });
+
+    return c.json({
+      success: true,
+      revisions: summaries
+    });
+  } catch (error) {
+    console.error("Error listing revisions:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list revisions",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Field-by-field diff between two revisions
+ * Query: ?from=<revision>&to=<revision> (defaults: to = latest, from = to - 1)
+ */
+revisionRoutes.get("/:id/revisions/diff", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const revisions = await listRevisions(id);
+
+    if (revisions.length === 0) {
+      return c.json({
+        success: false,
+        error: "Project has no revisions"
+      }, 404);
+    }
+
+    const to = Number(c.req.query("to") ?? revisions[0].revision);
+    const from = Number(c.req.query("from") ?? to - 1);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return c.json({
+        success: false,
+        error: "Invalid revision numbers"
+      }, 400);
+    }
+
+    const fromEntry = revisions.find((r) => r.revision === from) ?? null;
+    const toEntry = revisions.find((r) => r.revision === to) ?? null;
+
+    if (!toEntry || (from > 0 && !fromEntry)) {
+      return c.json({
+        success: false,
+        error: "Revision not found"
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      from: fromEntry ? { revision: fromEntry.revision, author: fromEntry.author, created_at: fromEntry.created_at } : null,
+      to: { revision: toEntry.revision, author: toEntry.author, created_at: toEntry.created_at },
+      changes: diffSnapshots(fromEntry?.snapshot, toEntry.snapshot)
+    });
+  } catch (error) {
+    console.error("Error diffing revisions:", error);
+    return c.json({
+      success: false,
+      error: "Failed to diff revisions",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Get a single revision with its full snapshot
+ */
+revisionRoutes.get("/:id/revisions/:revision", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const revision = Number(c.req.param("revision"));
+    const entry = await getRevision(id, revision);
+
+    if (!entry) {
+      return c.json({
+        success: false,
+        error: "Revision not found"
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      revision: entry
+    });
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch revision",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Restore a revision - saves its snapshot as the current project (as a new revision)
+ * The content comes back; the publication status and review comment stay as they are
+ * (they only change through POST /projects/:id/status).
+ */
+revisionRoutes.post("/:id/revisions/:revision/restore", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const revision = Number(c.req.param("revision"));
+    const entry = await getRevision(id, revision);
+
+    if (!entry) {
+      return c.json({
+        success: false,
+        error: "Revision not found"
+      }, 404);
+    }
+
+    // Old snapshots may predate the current schema: validate them once upgraded. The
+    // dry run comes first so a rejected snapshot creates no convocatorias.
+    const [preview] = (await upgradeProjects([entry.snapshot], { dryRun: true })).projects;
+    const validation = validateProject(preview);
+
+    if (!validation.valid) {
+      return c.json({
+        success: false,
+        error: "Datos del proyecto inválidos",
+        details: formatValidationErrors(validation.errors),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+
+    const [snapshot] = (await upgradeProjects([entry.snapshot])).projects;
+
+    // Convocatorias and taxonomy terms may have been deleted or merged since then
+    const unknownReferences = await rejectUnknownReferences(c, [snapshot]);
+    if (unknownReferences) return unknownReferences;
+
+    const current = await kv.get(`project:${id}`);
+    const project = {
+      ...snapshot,
+      id,
+      publicationStatus: current ? current.publicationStatus : "draft",
+      reviewComment: current?.reviewComment
+    };
+
+    // A published project cannot get back images without their details
+    const incompleteImages = rejectMissingImageDetails(c, [project]);
+    if (incompleteImages) return incompleteImages;
+
+    const restored = await saveProjectWithRevision(
+      project,
+      c.get("admin"),
+      "restore",
+      { restoredFrom: revision }
+    );
+    
+    await recordAudit(c, {
+      action: "project.restore_revision",
+      target: { type: "project", id, label: restored.snapshot.name },
+      ...summarizeChange(current, restored.snapshot)
+    });
+
+    return c.json({
+      success: true,
+      project: restored.snapshot,
+      revision: restored.revision
+    });
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return c.json({
+      success: false,
+      error: "Failed to restore revision",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default revisionRoutes;
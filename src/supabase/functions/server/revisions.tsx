@@ -0,0 +1,196 @@
+import * as kv from "./kv.tsx";
+import type { AdminUser } from "./auth.tsx";
+import { updateImageReferences, type ImageUsageChange } from "./images.tsx";
+import { invalidateStats } from "./stats.tsx";
+
+// Key layout:
+//   project_revision:<projectId>:<000001>  -> immutable revision (full snapshot)
+//   project_revision_head:<projectId>      -> { latest: number } counter
+// Note: "project_revision:" does not match the "project:" prefix used to list projects.
+// The stored project carries its latest revision number in `revision`, which clients
+// send back on update for optimistic concurrency control.
+
+export type RevisionAction = "create" | "update" | "import" | "restore" | "status" | "migration" | "taxonomy";
+
+export interface RevisionAuthor {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface ProjectRevision {
+  projectId: string;
+  revision: number;
+  action: RevisionAction;
+  author: RevisionAuthor | null;
+  created_at: string;
+  restoredFrom?: number;
+  snapshot: Record<string, any>;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// Build the KV key of a revision (zero-padded so keys sort naturally)
+export function revisionKey(projectId: string, revision: number): string {
+  return `project_revision:${projectId}:${String(revision).padStart(6, "0")}`;
+}
+
+function headKey(projectId: string): string {
+  return `project_revision_head:${projectId}`;
+}
+
+function toAuthor(admin: AdminUser | undefined): RevisionAuthor | null {
+  if (!admin) return null;
+  return { id: admin.id, email: admin.email, name: admin.name };
+}
+
+/**
+ * Current revision of a stored project (0 for records saved before revisions existed)
+ */
+export function getProjectRevision(project: Record<string, any> | null | undefined): number {
+  return Number(project?.revision) || 0;
+}
+
+/**
+ * True when a client sent a revision that no longer matches the stored project.
+ * Writing over a stored project without a revision counts as stale too (e.g. creating
+ * a project with a folio that is already taken), so nothing is overwritten blindly.
+ */
+export function isStaleRevision(
+  existing: Record<string, any> | null | undefined,
+  expectedRevision: unknown
+): boolean {
+  if (!existing) return false;
+  if (expectedRevision === undefined || expectedRevision === null) return true;
+  return Number(expectedRevision) !== getProjectRevision(existing);
+}
+
+/**
+ * Save a project and append an immutable revision with the full snapshot.
+ * Use this instead of kv.set("project:...") so no edit is ever lost (and image
+ * reference counts and the statistics cache follow the project).
+ * The project is stored as given, `schemaVersion` included: legacy inputs (imports,
+ * restored revisions) must go through upgradeProjects first.
+ * The saved project (with its new `revision`) is the returned entry's snapshot.
+ */
+export async function saveProjectWithRevision(
+  project: Record<string, any>,
+  admin: AdminUser | undefined,
+  action: RevisionAction,
+  extra: { restoredFrom?: number } = {}
+): Promise<ProjectRevision> {
+  const [head, previous] = await Promise.all([kv.get(headKey(project.id)), kv.get(`project:${project.id}`)]);
+  const revision = (head?.latest ?? 0) + 1;
+  const stored = { ...project, revision };
+
+  const entry: ProjectRevision = {
+    projectId: project.id,
+    revision,
+    action,
+    author: toAuthor(admin),
+    created_at: new Date().toISOString(),
+    ...extra,
+    snapshot: stored,
+  };
+
+  await kv.set(`project:${project.id}`, stored);
+  await kv.mset(
+    [revisionKey(project.id, revision), headKey(project.id)],
+    [entry, { latest: revision }]
+  );
+  await updateImageReferences([{ before: previous ? { project: previous } : null, after: { project: stored } }]);
+  await invalidateStats();
+
+  return entry;
+}
+
+/**
+ * Save many projects at once (bulk import), one revision each
+ * Stored as given, like saveProjectWithRevision
+ */
+export async function saveProjectsWithRevisions(
+  projects: Record<string, any>[],
+  admin: AdminUser | undefined,
+  action: RevisionAction
+): Promise<void> {
+  if (projects.length === 0) return;
+
+  const heads = await Promise.all(projects.map((p) => kv.get(headKey(p.id))));
+  // mget keeps no order
+  const previous = new Map((await kv.mget(projects.map((p) => `project:${p.id}`))).map((p: any) => [p.id, p]));
+  const createdAt = new Date().toISOString();
+  const author = toAuthor(admin);
+
+  const keys: string[] = [];
+  const values: any[] = [];
+  const usage: ImageUsageChange[] = [];
+
+  projects.forEach((project, index) => {
+    const revision = (heads[index]?.latest ?? 0) + 1;
+    const stored = { ...project, revision };
+
+    keys.push(`project:${project.id}`);
+    values.push(stored);
+    usage.push({ before: previous.has(project.id) ? { project: previous.get(project.id) } : null, after: { project: stored } });
+
+    keys.push(revisionKey(project.id, revision));
+    values.push({
+      projectId: project.id,
+      revision,
+      action,
+      author,
+      created_at: createdAt,
+      snapshot: stored,
+    });
+
+    keys.push(headKey(project.id));
+    values.push({ latest: revision });
+  });
+
+  await kv.mset(keys, values);
+  await updateImageReferences(usage);
+  await invalidateStats();
+}
+
+/**
+ * All revisions of a project, newest first
+ */
+export async function listRevisions(projectId: string): Promise<ProjectRevision[]> {
+  const revisions = await kv.getByPrefix(`project_revision:${projectId}:`);
+  return revisions
+    .filter((r: any) => r && r.projectId === projectId)
+    .sort((a: ProjectRevision, b: ProjectRevision) => b.revision - a.revision);
+}
+
+export async function getRevision(projectId: string, revision: number): Promise<ProjectRevision | null> {
+  const entry = await kv.get(revisionKey(projectId, revision));
+  return entry ?? null;
+}
+
+/**
+ * Field-by-field diff between two snapshots (compared as JSON)
+ * The server-managed `revision` counter, `schemaVersion` stamp and image manifests
+ * (derived from the image URLs) are not content changes and are skipped.
+ */
+export function diffSnapshots(before: Record<string, any> = {}, after: Record<string, any> = {}): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete("revision");
+  fields.delete("schemaVersion");
+  fields.delete("imageManifests");
+  const changes: FieldChange[] = [];
+
+  fields.forEach((field) => {
+    const beforeValue = before[field];
+    const afterValue = after[field];
+
+    if (JSON.stringify(beforeValue ?? null) !== JSON.stringify(afterValue ?? null)) {
+      changes.push({ field, before: beforeValue ?? null, after: afterValue ?? null });
+    }
+  });
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
@@ -0,0 +1,27 @@
+import { Hono } from "npm:hono";
+import { getProjectStats } from "./stats.tsx";
+
+// Mounted under /stats - public
+const statsRoutes = new Hono();
+
+/**
+ * Projects per state, thematic area, category and convocatoria, with average
+ * score and beneficiaries (published projects only)
+ */
+statsRoutes.get("/", async (c) => {
+  try {
+    return c.json({
+      success: true,
+      stats: await getProjectStats()
+    });
+  } catch (error) {
+    console.error("Error computing stats:", error);
+    return c.json({
+      success: false,
+      error: "Failed to compute stats",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default statsRoutes;
@@ -0,0 +1,36 @@
+import * as kv from "./kv.tsx";
+import { computeProjectStats, type ProjectStats } from "../_shared/projectStats.ts";
+import { getNextScheduleChange, isPublished, isPubliclyVisible } from "../_shared/publication.ts";
+
+// Key layout:
+//   stats:projects -> { stats: ProjectStats, expires_at: string | null }
+// Every write to the live projects clears it (see revisions.tsx and trash.tsx) and the
+// next read recomputes it. It also expires when a scheduled project goes live or ends.
+const STATS_KEY = "stats:projects";
+
+export async function invalidateStats(): Promise<void> {
+  await kv.del(STATS_KEY);
+}
+
+/**
+ * Statistics over the publicly visible projects, from the cache when it is still valid
+ */
+export async function getProjectStats(): Promise<ProjectStats> {
+  const now = Date.now();
+  const cached = await kv.get(STATS_KEY);
+
+  if (cached?.stats && (!cached.expires_at || Date.parse(cached.expires_at) > now)) {
+    return cached.stats;
+  }
+
+  const projects = (await kv.getByPrefix("project:")).filter((project: any) => project?.id);
+  const stats = computeProjectStats(projects.filter((project) => isPubliclyVisible(project, now)), now);
+  const nextChange = getNextScheduleChange(projects.filter(isPublished), now);
+
+  await kv.set(STATS_KEY, {
+    stats,
+    expires_at: nextChange ? new Date(nextChange).toISOString() : null
+  });
+
+  return stats;
+}
@@ -0,0 +1,86 @@
+/**
+ * File storage for uploaded images
+ *
+ * image-routes.tsx talks to this interface instead of supabase.storage so
+ * uploads also work offline. The adapter is chosen with STORAGE_BACKEND:
+ *
+ *   STORAGE_BACKEND=supabase  (default) public bucket in Supabase Storage
+ *   STORAGE_BACKEND=local     files in STORAGE_LOCAL_DIR (default ./storage),
+ *                             served by app.tsx under the same
+ *                             /storage/v1/object/public/<bucket>/<file> path
+ *                             on STORAGE_PUBLIC_URL (default http://localhost:8000)
+ */
+
+import { createSupabaseStorage } from "./storage_supabase.tsx";
+import { createLocalStorage } from "./storage_local.tsx";
+
+export const BUCKET_NAME = "make-2ce8a38a-project-images";
+
+// Path prefix of public file URLs, shared by both adapters
+export const PUBLIC_PATH_PREFIX = "/storage/v1/object/public";
+
+export interface StorageBucketInfo {
+  name: string;
+  public: boolean;
+  backend: StorageBackendName;
+  [key: string]: unknown;
+}
+
+export interface StoredFile {
+  name: string;
+  size: number; // Bytes
+  created_at: string | null;
+}
+
+export interface StorageProvider {
+  name: StorageBackendName;
+  ensureBucket(): Promise<void>; // Create the bucket / directory if missing
+  upload(fileName: string, data: Uint8Array, contentType: string): Promise<void>;
+  getPublicUrl(fileName: string): string;
+  remove(fileNames: string[]): Promise<void>;
+  list(): Promise<StoredFile[]>; // Every file in the bucket
+  getBucketInfo(): Promise<StorageBucketInfo | null>;
+}
+
+export type StorageBackendName = "supabase" | "local";
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Root directory of the local adapter (each bucket is a subdirectory)
+ */
+export function getLocalStorageDir(): string {
+  return Deno.env.get("STORAGE_LOCAL_DIR") || "./storage";
+}
+
+/**
+ * The adapter named by STORAGE_BACKEND (created once)
+ */
+export function getStorage(): StorageProvider {
+  if (!provider) {
+    const name = (Deno.env.get("STORAGE_BACKEND") || "supabase") as StorageBackendName;
+
+    switch (name) {
+      case "supabase":
+        provider = createSupabaseStorage(BUCKET_NAME);
+        break;
+      case "local":
+        provider = createLocalStorage(
+          BUCKET_NAME,
+          getLocalStorageDir(),
+          Deno.env.get("STORAGE_PUBLIC_URL") || "http://localhost:8000"
+        );
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND "${name}" (expected supabase or local)`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the active adapter (tests, local scripts)
+ */
+export function setStorage(storage: StorageProvider): void {
+  provider = storage;
+}
@@ -0,0 +1,75 @@
+import { PUBLIC_PATH_PREFIX, type StorageProvider, type StoredFile } from "./storage.tsx";
+
+// Uploaded names are generated server-side; anything else is rejected
+const SAFE_FILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+function assertSafeName(fileName: string): void {
+  if (!SAFE_FILE_NAME.test(fileName) || fileName.includes("..")) {
+    throw new Error(`Invalid file name: ${fileName}`);
+  }
+}
+
+/**
+ * Filesystem adapter for development: files go to <rootDir>/<bucket>/ and
+ * are served by the static route in app.tsx, so URLs keep the Supabase shape
+ * <publicUrl>/storage/v1/object/public/<bucket>/<file>.
+ */
+export function createLocalStorage(bucketName: string, rootDir: string, publicUrl: string): StorageProvider {
+  const bucketDir = `${rootDir.replace(/\/+$/, "")}/${bucketName}`;
+
+  return {
+    name: "local",
+
+    async ensureBucket() {
+      await Deno.mkdir(bucketDir, { recursive: true });
+      console.log(`Local storage ready at ${bucketDir}`);
+    },
+
+    async upload(fileName, data) {
+      assertSafeName(fileName);
+      await Deno.mkdir(bucketDir, { recursive: true });
+      // createNew mirrors upsert: false
+      await Deno.writeFile(`${bucketDir}/${fileName}`, data, { createNew: true });
+    },
+
+    getPublicUrl(fileName) {
+      return `${publicUrl.replace(/\/+$/, "")}${PUBLIC_PATH_PREFIX}/${bucketName}/${encodeURIComponent(fileName)}`;
+    },
+
+    async remove(fileNames) {
+      for (const fileName of fileNames) {
+        assertSafeName(fileName);
+        try {
+          await Deno.remove(`${bucketDir}/${fileName}`);
+        } catch (error) {
+          // Like Supabase, removing a missing file is not an error
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+      }
+    },
+
+    async list() {
+      const files: StoredFile[] = [];
+
+      try {
+        for await (const entry of Deno.readDir(bucketDir)) {
+          if (!entry.isFile) continue;
+          const info = await Deno.stat(`${bucketDir}/${entry.name}`);
+          files.push({
+            name: entry.name,
+            size: info.size,
+            created_at: (info.birthtime ?? info.mtime)?.toISOString() ?? null,
+          });
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+
+      return files.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async getBucketInfo() {
+      return { name: bucketName, public: true, backend: "local", path: bucketDir };
+    },
+  };
+}
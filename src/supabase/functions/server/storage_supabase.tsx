@@ -0,0 +1,97 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import type { StorageProvider, StoredFile } from "./storage.tsx";
+
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Adapter over a public Supabase Storage bucket
+ */
+export function createSupabaseStorage(bucketName: string): StorageProvider {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  return {
+    name: "supabase",
+
+    async ensureBucket() {
+      const { data: buckets, error: listError } = await supabase.storage.listBuckets();
+
+      if (listError) {
+        throw new Error(listError.message);
+      }
+
+      if (buckets?.some((bucket) => bucket.name === bucketName)) {
+        console.log(`Bucket ${bucketName} already exists`);
+        return;
+      }
+
+      console.log(`Creating bucket: ${bucketName}`);
+      const { error } = await supabase.storage.createBucket(bucketName, {
+        public: true, // Make images publicly accessible
+        fileSizeLimit: 5242880, // 5MB limit
+      });
+
+      // Another instance may have created it in the meantime
+      if (error && !error.message?.includes("already exists")) {
+        throw new Error(error.message);
+      }
+      console.log(`Bucket ${bucketName} ready`);
+    },
+
+    async upload(fileName, data, contentType) {
+      const { error } = await supabase.storage
+        .from(bucketName)
+        .upload(fileName, data, { contentType, upsert: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    getPublicUrl(fileName) {
+      return supabase.storage.from(bucketName).getPublicUrl(fileName).data.publicUrl;
+    },
+
+    async remove(fileNames) {
+      const { error } = await supabase.storage.from(bucketName).remove(fileNames);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    async list() {
+      const files: StoredFile[] = [];
+
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await supabase.storage
+          .from(bucketName)
+          .list("", { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        (data ?? [])
+          .filter((file) => file.id) // Folders have no id
+          .forEach((file) => files.push({
+            name: file.name,
+            size: Number(file.metadata?.size) || 0,
+            created_at: file.created_at ?? null,
+          }));
+
+        if (!data || data.length < LIST_PAGE_SIZE) break;
+      }
+
+      return files;
+    },
+
+    async getBucketInfo() {
+      const { data: buckets } = await supabase.storage.listBuckets();
+      const bucket = buckets?.find((b) => b.name === bucketName);
+      return bucket ? { ...bucket, backend: "supabase" } : null;
+    },
+  };
+}
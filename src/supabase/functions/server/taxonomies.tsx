@@ -0,0 +1,107 @@
+import * as kv from "./kv.tsx";
+import type { AdminUser } from "./auth.tsx";
+import { saveProjectsWithRevisions } from "./revisions.tsx";
+import { trashKey, type TrashEntry } from "./trash.tsx";
+import { DEFAULT_TAXONOMIES, TAXONOMY_KINDS, TAXONOMY_LABELS } from "../_shared/taxonomies.ts";
+import type { TaxonomyKind, TaxonomyTerm, Taxonomies } from "../../../types/index.ts";
+
+// Key layout:
+//   taxonomy:<kind> -> { terms: TaxonomyTerm[], updated_at }
+// Until a taxonomy is edited the defaults from _shared/taxonomies.ts apply.
+// Projects keep the term value in the field named by the kind (category, thematicArea).
+
+export function taxonomyKey(kind: TaxonomyKind): string {
+  return `taxonomy:${kind}`;
+}
+
+/**
+ * Every taxonomy, terms in display order
+ */
+export async function getTaxonomies(): Promise<Taxonomies> {
+  // One get per kind: mget skips missing keys and keeps no order
+  const stored = await Promise.all(TAXONOMY_KINDS.map((kind) => kv.get(taxonomyKey(kind))));
+  const taxonomies = {} as Taxonomies;
+  TAXONOMY_KINDS.forEach((kind, index) => {
+    taxonomies[kind] = stored[index]?.terms ?? DEFAULT_TAXONOMIES[kind];
+  });
+  return taxonomies;
+}
+
+export async function getTaxonomyTerms(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+  return (await kv.get(taxonomyKey(kind)))?.terms ?? DEFAULT_TAXONOMIES[kind];
+}
+
+export async function saveTaxonomyTerms(kind: TaxonomyKind, terms: TaxonomyTerm[]): Promise<void> {
+  await kv.set(taxonomyKey(kind), { terms, updated_at: new Date().toISOString() });
+}
+
+/**
+ * Projects per term of a taxonomy, live and trashed (a trashed project can still be restored)
+ */
+export async function countProjectsByTerm(kind: TaxonomyKind): Promise<Record<string, number>> {
+  const [projects, trashed] = await Promise.all([
+    kv.getByPrefix("project:"),
+    kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+  ]);
+
+  const counts: Record<string, number> = {};
+  [...projects, ...trashed.map((entry) => entry?.project)].forEach((project) => {
+    const value = project?.[kind];
+    if (value) counts[value] = (counts[value] ?? 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Field errors for projects that use terms missing from their taxonomy
+ */
+export async function findUnknownTerms(
+  projects: Record<string, any>[]
+): Promise<{ field: TaxonomyKind; message: string }[]> {
+  const taxonomies = await getTaxonomies();
+  const errors: { field: TaxonomyKind; message: string }[] = [];
+
+  TAXONOMY_KINDS.forEach((kind) => {
+    const known = new Set(taxonomies[kind].map((term) => term.value));
+    const unknown = new Set(projects.map((project) => project?.[kind]).filter((value) => value && !known.has(value)));
+    unknown.forEach((value) => {
+      errors.push({ field: kind, message: `${TAXONOMY_LABELS[kind].singular} "${value}" no existe` });
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Point every project (live and trashed) that uses a term in `replacements` to its
+ * new value. Live projects get a "taxonomy" revision. Returns how many were changed.
+ */
+export async function replaceProjectTerms(
+  kind: TaxonomyKind,
+  replacements: Record<string, string>,
+  admin: AdminUser | undefined
+): Promise<number> {
+  const [projects, trashed] = await Promise.all([
+    kv.getByPrefix("project:"),
+    kv.getByPrefix("trash:") as Promise<TrashEntry[]>,
+  ]);
+
+  const needsChange = (project: Record<string, any> | undefined) =>
+    Boolean(project && Object.hasOwn(replacements, project[kind]));
+
+  const liveProjects = projects
+    .filter(needsChange)
+    .map((project) => ({ ...project, [kind]: replacements[project[kind]] }));
+
+  const trashEntries = trashed
+    .filter((entry) => needsChange(entry?.project))
+    .map((entry) => ({ ...entry, project: { ...entry.project, [kind]: replacements[entry.project[kind]] } }));
+
+  await saveProjectsWithRevisions(liveProjects, admin, "taxonomy");
+
+  if (trashEntries.length > 0) {
+    await kv.mset(trashEntries.map((entry) => trashKey(entry.id)), trashEntries);
+  }
+
+  return liveProjects.length + trashEntries.length;
+}
@@ -0,0 +1,321 @@
+import { Hono } from "npm:hono";
+import { requireAdmin, getActiveAdmin, type AdminEnv } from "./auth.tsx";
+import { recordAudit } from "./audit.tsx";
+import {
+  getTaxonomies,
+  getTaxonomyTerms,
+  saveTaxonomyTerms,
+  countProjectsByTerm,
+  replaceProjectTerms,
+} from "./taxonomies.tsx";
+import { TAXONOMY_KINDS, findTerm, isTaxonomyKind, validateTaxonomyTerm } from "../_shared/taxonomies.ts";
+import type { TaxonomyKind } from "../../../types/index.ts";
+
+// Mounted under /taxonomies - anyone can read, only super admins edit
+const taxonomyRoutes = new Hono<AdminEnv>();
+
+// Every route below /:kind rejects unknown kinds
+taxonomyRoutes.use("/:kind/*", async (c, next) => {
+  if (!isTaxonomyKind(c.req.param("kind"))) {
+    return c.json({
+      success: false,
+      error: `Unknown taxonomy. Use one of: ${TAXONOMY_KINDS.join(", ")}`
+    }, 404);
+  }
+  await next();
+});
+
+/**
+ * Every taxonomy, terms in display order
+ * Query: scope=all - admins only, adds the number of projects per term
+ */
+taxonomyRoutes.get("/", async (c) => {
+  try {
+    const taxonomies = await getTaxonomies();
+
+    if (c.req.query("scope") === "all") {
+      const admin = await getActiveAdmin(c);
+
+      if (!admin) {
+        return c.json({
+          success: false,
+          error: "Not authorized"
+        }, 403);
+      }
+
+      const counts = await Promise.all(TAXONOMY_KINDS.map(countProjectsByTerm));
+
+      return c.json({
+        success: true,
+        taxonomies,
+        projectCounts: Object.fromEntries(TAXONOMY_KINDS.map((kind, index) => [kind, counts[index]]))
+      });
+    }
+
+    return c.json({
+      success: true,
+      taxonomies
+    });
+  } catch (error) {
+    console.error("Error fetching taxonomies:", error);
+    return c.json({
+      success: false,
+      error: "Failed to fetch taxonomies",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Add a term at the end of a taxonomy
+ */
+taxonomyRoutes.post("/:kind/terms", requireAdmin("super_admin"), async (c) => {
+  try {
+    const kind = c.req.param("kind") as TaxonomyKind;
+    const terms = await getTaxonomyTerms(kind);
+    const validation = validateTaxonomyTerm(await c.req.json(), terms);
+
+    if (!validation.valid || !validation.value) {
+      return c.json({
+        success: false,
+        error: "Datos del término inválidos",
+        details: validation.errors.map((e) => e.message).join("; "),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+
+    const term = validation.value;
+    await saveTaxonomyTerms(kind, [...terms, term]);
+
+    await recordAudit(c, {
+      action: "taxonomy.create",
+      target: { type: "taxonomy", id: `${kind}:${term.value}`, label: term.label },
+      after: term
+    });
+
+    return c.json({
+      success: true,
+      term
+    });
+  } catch (error) {
+    console.error("Error creating taxonomy term:", error);
+    return c.json({
+      success: false,
+      error: "Failed to create term",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Update a term; a new `value` is applied to every project that used the old one
+ */
+taxonomyRoutes.put("/:kind/terms/:value", requireAdmin("super_admin"), async (c) => {
+  try {
+    const kind = c.req.param("kind") as TaxonomyKind;
+    const value = c.req.param("value");
+    const terms = await getTaxonomyTerms(kind);
+    const existing = findTerm(terms, value);
+
+    if (!existing) {
+      return c.json({
+        success: false,
+        error: "Term not found"
+      }, 404);
+    }
+
+    const body = await c.req.json();
+    const validation = validateTaxonomyTerm(
+      { ...body, value: body.value ?? existing.value },
+      terms.filter((term) => term.value !== value)
+    );
+
+    if (!validation.valid || !validation.value) {
+      return c.json({
+        success: false,
+        error: "Datos del término inválidos",
+        details: validation.errors.map((e) => e.message).join("; "),
+        fieldErrors: validation.errors
+      }, 400);
+    }
+
+    const term = validation.value;
+    await saveTaxonomyTerms(kind, terms.map((t) => (t.value === value ? term : t)));
+
+    const updatedProjects = term.value !== value
+      ? await replaceProjectTerms(kind, { [value]: term.value }, c.get("admin"))
+      : 0;
+
+    await recordAudit(c, {
+      action: "taxonomy.update",
+      target: { type: "taxonomy", id: `${kind}:${term.value}`, label: term.label },
+      before: existing,
+      after: { ...term, updatedProjects }
+    });
+
+    return c.json({
+      success: true,
+      term,
+      updatedProjects
+    });
+  } catch (error) {
+    console.error("Error updating taxonomy term:", error);
+    return c.json({
+      success: false,
+      error: "Failed to update term",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Delete a term no project (live or trashed) uses
+ */
+taxonomyRoutes.delete("/:kind/terms/:value", requireAdmin("super_admin"), async (c) => {
+  try {
+    const kind = c.req.param("kind") as TaxonomyKind;
+    const value = c.req.param("value");
+    const terms = await getTaxonomyTerms(kind);
+    const existing = findTerm(terms, value);
+
+    if (!existing) {
+      return c.json({
+        success: false,
+        error: "Term not found"
+      }, 404);
+    }
+
+    const projectCount = (await countProjectsByTerm(kind))[value] ?? 0;
+
+    if (projectCount > 0) {
+      return c.json({
+        success: false,
+        error: `El término tiene ${projectCount} proyecto(s) asociados. Combínalo con otro para eliminarlo.`,
+        projectCount
+      }, 409);
+    }
+
+    await saveTaxonomyTerms(kind, terms.filter((term) => term.value !== value));
+
+    await recordAudit(c, {
+      action: "taxonomy.delete",
+      target: { type: "taxonomy", id: `${kind}:${value}`, label: existing.label },
+      before: existing
+    });
+
+    return c.json({
+      success: true
+    });
+  } catch (error) {
+    console.error("Error deleting taxonomy term:", error);
+    return c.json({
+      success: false,
+      error: "Failed to delete term",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Merge terms into another one: their projects move to the target and the terms are removed
+ * Body: { sources: string[], target: string }
+ */
+taxonomyRoutes.post("/:kind/merge", requireAdmin("super_admin"), async (c) => {
+  try {
+    const kind = c.req.param("kind") as TaxonomyKind;
+    const { sources, target } = await c.req.json();
+    const terms = await getTaxonomyTerms(kind);
+    const targetTerm = findTerm(terms, target);
+
+    if (!Array.isArray(sources) || sources.length === 0 || !targetTerm) {
+      return c.json({
+        success: false,
+        error: "Indica los términos a combinar y un término destino existente"
+      }, 400);
+    }
+
+    const sourceTerms = sources.filter((value) => value !== target).map((value) => findTerm(terms, value));
+
+    if (sourceTerms.length === 0 || sourceTerms.some((term) => !term)) {
+      return c.json({
+        success: false,
+        error: "Alguno de los términos a combinar no existe"
+      }, 400);
+    }
+
+    const sourceValues = sourceTerms.map((term) => term!.value);
+    const updatedProjects = await replaceProjectTerms(
+      kind,
+      Object.fromEntries(sourceValues.map((value) => [value, targetTerm.value])),
+      c.get("admin")
+    );
+    await saveTaxonomyTerms(kind, terms.filter((term) => !sourceValues.includes(term.value)));
+
+    await recordAudit(c, {
+      action: "taxonomy.merge",
+      target: { type: "taxonomy", id: `${kind}:${targetTerm.value}`, label: targetTerm.label },
+      before: { terms: sourceTerms },
+      after: { target: targetTerm.value, updatedProjects }
+    });
+
+    return c.json({
+      success: true,
+      updatedProjects
+    });
+  } catch (error) {
+    console.error("Error merging taxonomy terms:", error);
+    return c.json({
+      success: false,
+      error: "Failed to merge terms",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Change the display order of a taxonomy
+ * Body: { values: string[] } - every term value exactly once
+ */
+taxonomyRoutes.put("/:kind/order", requireAdmin("super_admin"), async (c) => {
+  try {
+    const kind = c.req.param("kind") as TaxonomyKind;
+    const { values } = await c.req.json();
+    const terms = await getTaxonomyTerms(kind);
+
+    const isPermutation = Array.isArray(values) &&
+      values.length === terms.length &&
+      new Set(values).size === values.length &&
+      values.every((value) => findTerm(terms, value));
+
+    if (!isPermutation) {
+      return c.json({
+        success: false,
+        error: "El nuevo orden debe incluir cada término una sola vez"
+      }, 400);
+    }
+
+    const ordered = values.map((value: string) => findTerm(terms, value)!);
+    await saveTaxonomyTerms(kind, ordered);
+
+    await recordAudit(c, {
+      action: "taxonomy.reorder",
+      target: { type: "taxonomy", id: kind },
+      before: { order: terms.map((term) => term.value) },
+      after: { order: values }
+    });
+
+    return c.json({
+      success: true,
+      terms: ordered
+    });
+  } catch (error) {
+    console.error("Error reordering taxonomy:", error);
+    return c.json({
+      success: false,
+      error: "Failed to reorder taxonomy",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default taxonomyRoutes;
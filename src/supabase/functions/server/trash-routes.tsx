@@ -0,0 +1,160 @@
+import { Hono } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { requireAdmin, type AdminEnv } from "./auth.tsx";
+import { saveProjectWithRevision } from "./revisions.tsx";
+import { recordAudit } from "./audit.tsx";
+import { listTrash, purgeExpiredTrash, trashKey, getRetentionDays } from "./trash.tsx";
+import { updateImageReferences } from "./images.tsx";
+import { upgradeProjects } from "./migrations.tsx";
+import { rejectMissingImageDetails } from "./project-checks.tsx";
+
+// Mounted under /trash - restoring is open to editors, permanent deletion to super admins
+const trashRoutes = new Hono<AdminEnv>();
+
+/**
+ * List trashed projects
+ */
+trashRoutes.get("/", requireAdmin("editor"), async (c) => {
+  try {
+    await purgeExpiredTrash();
+    const entries = await listTrash();
+
+    return c.json({
+      success: true,
+      retentionDays: getRetentionDays(),
+      items: entries
+    });
+  } catch (error) {
+    console.error("Error listing trash:", error);
+    return c.json({
+      success: false,
+      error: "Failed to list trash",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Restore a trashed project back to the public map
+ */
+trashRoutes.post("/:id/restore", requireAdmin("editor"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const entry = await kv.get(trashKey(id));
+
+    if (!entry) {
+      return c.json({
+        success: false,
+        error: "Project not found in trash"
+      }, 404);
+    }
+
+    const existingProject = await kv.get(`project:${id}`);
+
+    if (existingProject) {
+      return c.json({
+        success: false,
+        error: "Ya existe un proyecto activo con este número de registro"
+      }, 409);
+    }
+
+    const incompleteImages = rejectMissingImageDetails(c, [entry.project]);
+    if (incompleteImages) return incompleteImages;
+
+    // Trashed before a migration ran: bring it to the current schema
+    const [project] = (await upgradeProjects([entry.project])).projects;
+    const restored = await saveProjectWithRevision(project, c.get("admin"), "restore");
+    await kv.del(trashKey(id));
+    await updateImageReferences([{ before: { project: entry.project, trashed: true }, after: null }]);
+
+    await recordAudit(c, {
+      action: "project.restore_from_trash",
+      target: { type: "trash", id, label: entry.project.name }
+    });
+
+    return c.json({
+      success: true,
+      project: restored.snapshot
+    });
+  } catch (error) {
+    console.error("Error restoring project from trash:", error);
+    return c.json({
+      success: false,
+      error: "Failed to restore project",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Permanently delete a single trashed project
+ */
+trashRoutes.delete("/:id", requireAdmin("super_admin"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const entry = await kv.get(trashKey(id));
+
+    if (!entry) {
+      return c.json({
+        success: false,
+        error: "Project not found in trash"
+      }, 404);
+    }
+
+    await kv.del(trashKey(id));
+    await updateImageReferences([{ before: { project: entry.project, trashed: true }, after: null }]);
+
+    await recordAudit(c, {
+      action: "project.purge",
+      target: { type: "trash", id, label: entry.project.name }
+    });
+
+    return c.json({
+      success: true,
+      message: "Project permanently deleted"
+    });
+  } catch (error) {
+    console.error("Error deleting project from trash:", error);
+    return c.json({
+      success: false,
+      error: "Failed to delete project",
+      details: String(error)
+    }, 500);
+  }
+});
+
+/**
+ * Empty the trash (permanently delete everything in it)
+ */
+trashRoutes.delete("/", requireAdmin("super_admin"), async (c) => {
+  try {
+    const entries = await listTrash();
+    const keys = entries.map((e) => trashKey(e.id));
+
+    if (keys.length > 0) {
+      await kv.mdel(keys);
+      await updateImageReferences(entries.map((e) => ({ before: { project: e.project, trashed: true }, after: null })));
+    }
+
+    await recordAudit(c, {
+      action: "trash.empty",
+      target: { type: "trash", label: `${keys.length} proyectos` },
+      before: { ids: entries.map((e) => e.id) }
+    });
+
+    return c.json({
+      success: true,
+      count: keys.length,
+      message: `Permanently deleted ${keys.length} projects`
+    });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return c.json({
+      success: false,
+      error: "Failed to purge trash",
+      details: String(error)
+    }, 500);
+  }
+});
+
+export default trashRoutes;
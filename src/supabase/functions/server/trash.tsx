@@ -0,0 +1,89 @@
+import * as kv from "./kv.tsx";
+import type { AdminUser } from "./auth.tsx";
+import { updateImageReferences } from "./images.tsx";
+import { invalidateStats } from "./stats.tsx";
+
+// Key layout:
+//   trash:<projectId> -> TrashEntry
+// Trashed projects live outside the "project:" prefix, so public endpoints never see them.
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export interface TrashEntry {
+  id: string;
+  project: Record<string, any>;
+  deleted_at: string;
+  deleted_by: { id: string; email: string; name?: string } | null;
+  purge_after: string;
+}
+
+/**
+ * Days a project stays in the trash before it is purged (TRASH_RETENTION_DAYS, default 30)
+ */
+export function getRetentionDays(): number {
+  const configured = Number(Deno.env.get("TRASH_RETENTION_DAYS"));
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+export function trashKey(projectId: string): string {
+  return `trash:${projectId}`;
+}
+
+/**
+ * Move projects from the live namespace into the trash
+ */
+export async function moveProjectsToTrash(
+  projects: Record<string, any>[],
+  admin: AdminUser | undefined
+): Promise<void> {
+  if (projects.length === 0) return;
+
+  const deletedAt = new Date();
+  const purgeAfter = new Date(deletedAt.getTime() + getRetentionDays() * 24 * 60 * 60 * 1000);
+  const deletedBy = admin ? { id: admin.id, email: admin.email, name: admin.name } : null;
+
+  const entries: TrashEntry[] = projects.map((project) => ({
+    id: project.id,
+    project,
+    deleted_at: deletedAt.toISOString(),
+    deleted_by: deletedBy,
+    purge_after: purgeAfter.toISOString(),
+  }));
+
+  // Write the trash entries first so nothing is lost if the delete fails
+  await kv.mset(entries.map((e) => trashKey(e.id)), entries);
+  await kv.mdel(projects.map((p) => `project:${p.id}`));
+  await updateImageReferences(projects.map((project) => ({ before: { project }, after: { project, trashed: true } })));
+  await invalidateStats();
+}
+
+/**
+ * Permanently remove trash entries whose retention period is over.
+ * Runs lazily whenever the trash is read or written (Edge Functions have no scheduler).
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const entries = await kv.getByPrefix("trash:");
+  const now = Date.now();
+  const expired: TrashEntry[] = entries.filter((e: TrashEntry) => e && e.id && new Date(e.purge_after).getTime() <= now);
+  const expiredKeys = expired.map((e) => trashKey(e.id));
+
+  if (expiredKeys.length > 0) {
+    await kv.mdel(expiredKeys);
+    await updateImageReferences(expired.map((e) => ({ before: { project: e.project, trashed: true }, after: null })));
+    console.log(`🗑️ Purged ${expiredKeys.length} expired project(s) from trash`);
+  }
+
+  return expiredKeys.length;
+}
+
+/**
+ * All trash entries, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashEntry[]> {
+  const entries = await kv.getByPrefix("trash:");
+  return entries
+    .filter((e: TrashEntry) => e && e.id && e.project)
+    .sort((a: TrashEntry, b: TrashEntry) =>
+      new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime()
+    );
+}
@@ -1,16 +1,54 @@
+export type PublicationStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export type ConvocatoriaStatus = 'draft' | 'open' | 'closed' | 'archived';
+
+export interface Convocatoria {
+  id: string; // Referenced by Project.convocatoriaId; never changes
+  slug: string; // Unique, URL friendly (e.g., "primera-convocatoria-2025")
+  title: string;
+  year: number;
+  opensAt?: string; // YYYY-MM-DD
+  closesAt?: string; // YYYY-MM-DD
+  description?: string;
+  color: string; // Hex (#RRGGBB) for map pins and badges
+  status: ConvocatoriaStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// Admin listing (GET /convocatorias?scope=all)
+export interface ConvocatoriaWithCount extends Convocatoria {
+  projectCount: number; // Live and trashed projects that reference it
+}
+
+export type TaxonomyKind = 'category' | 'thematicArea';
+
+// A term of a taxonomy; projects store its `value` in the field named by the kind
+export interface TaxonomyTerm {
+  value: string; // Slug (e.g., "prevencion-situacional"); renaming it updates every project
+  label: string;
+  description?: string;
+  color: string; // Hex (#RRGGBB) for map markers and badges
+  icon?: string; // One of TAXONOMY_ICONS (supabase/functions/_shared/taxonomies.ts)
+}
+
+export type Taxonomies = Record<TaxonomyKind, TaxonomyTerm[]>; // Terms in display order
+
 export interface Project {
   id: string; // No registro
   name: string; // Nombre de la propuesta
   organization: string; // Organización o entidad
-  category: string; // Categoría de participación
-  thematicArea: string; // Ámbito Temático
+  category: string; // Categoría de participación (TaxonomyTerm value)
+  thematicArea: string; // Ámbito Temático (TaxonomyTerm value)
   state: string; // Ubicación territorial - Estado(s) - Main/Headquarters state
   municipality: string; // Ubicación territorial /Municipios implementación
   implementationStates?: string[]; // Additional states where project is implemented
   isNationalProject?: boolean; // Flag to indicate if this is a national project (all states)
-  convocatoria?: string; // Convocatoria (e.g., "Primera Convocatoria 2025")
+  convocatoriaId?: string; // Convocatoria record (see supabase/functions/_shared/convocatorias.ts)
+  convocatoria?: string; // Legacy free-text name (e.g., "Primera Convocatoria 2025"), converted to convocatoriaId on save
   objective: string; // Objetivo principal
   beneficiaries: string; // Beneficiarios/ Participantes directos
+  beneficiaryCount?: number; // Número de beneficiarios directos (suma en las estadísticas)
   riskFactors?: string; // Factores de riesgo identificados
   methodology?: string; // Metodología
   results: string; // Resultados principales
@@ -39,14 +77,7 @@ export interface Project {
   footerLinkedinUrl?: string; // LinkedIn URL
   footerTiktokUrl?: string; // TikTok URL
   footerYoutubeUrl?: string; // YouTube URL
-  // Keep some legacy fields for compatibility
-  description?: string; // Descripción de la iniciativa (legacy)
-  location?: {
-    state: string;
-    city: string;
-    x: number;
-    y: number;
-  };
+  mapPosition?: { x: number; y: number }; // Pin position, percentages of the map's width and height
   socialMediaWebsite?: string; // Redes sociales y sitio web
   budget?: string;
   status?: 'activo' | 'finalizado' | 'en-desarrollo';
@@ -54,6 +85,70 @@ export interface Project {
   startDate?: string;
   evaluationCriteria?: string[];
   shortDescription?: string;
+  revision?: number; // Server-managed version, sent back on save to detect concurrent edits
+  schemaVersion?: number; // Server-managed data format version (see supabase/functions/server/migrations.tsx)
+  // Publication workflow (see supabase/functions/_shared/publication.ts)
+  publicationStatus?: PublicationStatus; // Missing on older records, which count as published
+  reviewComment?: { text: string; author: string; created_at: string }; // Last "request changes" note
+  publishAt?: string; // ISO date - a published project stays hidden until then
+  unpublishAt?: string; // ISO date - a published project is hidden from then on
+  imageManifests?: Record<string, ImageManifest>; // Server-managed, keyed by image URL
+  imageDetails?: Partial<Record<ProjectImageField, ImageDetails>>; // Alt text and credits per image slot
+  galleries?: Partial<Record<GallerySection, GalleryImage[]>>; // Ordered photo galleries
+}
+
+// Project fields that hold an image URL (see supabase/functions/_shared/images.ts)
+export type ProjectImageField =
+  | 'imageUrl'
+  | 'beneficiariesImageUrl'
+  | 'riskFactorsImageUrl'
+  | 'methodologyImageUrl'
+  | 'resultsImageUrl';
+
+// Accessibility and attribution for one image slot; all three are required to publish
+export interface ImageDetails {
+  alt: string; // Description for screen readers
+  caption?: string;
+  credit?: string; // Photographer and/or license, e.g. "Foto: Ana López (CC BY 4.0)"
+  framing?: ImageFraming; // How the image is positioned when object-cover trims it
+}
+
+// Text fields of ImageDetails, all required to publish
+export type ImageTextField = 'alt' | 'caption' | 'credit';
+
+// Aspect ratios the layouts crop images to (see supabase/functions/_shared/images.ts)
+export type ImageCropRatio = '16:9' | '4:3' | '4:5' | '9:16';
+
+// Rectangle of the original image, every value a fraction (0-1) of its width or height
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageFraming {
+  focalPoint?: { x: number; y: number }; // Percent (0-100) of the width and height, kept visible
+  crops?: Partial<Record<ImageCropRatio, ImageCrop>>; // Explicit crop per layout ratio, wins over the focal point
+}
+
+// Responsive image variants generated on upload (see supabase/functions/_shared/images.ts)
+export type ImageVariantName = 'thumbnail' | 'card' | 'hero' | 'full';
+
+export type ImageVariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  url: string;
+  size: number; // Bytes
+}
+
+export interface ImageManifest {
+  original: { url: string; width: number; height: number; type: string; size: number };
+  variants: ImageVariant[];
 }
 
 export interface FilterState {
@@ -61,4 +156,102 @@ export interface FilterState {
   selectedCategories: string[];
   selectedThematicAreas: string[];
   selectedLocations: string[];
-}
\ No newline at end of file
+  selectedConvocatorias: string[]; // Convocatoria ids (set from links, e.g. the statistics page)
+}
+export interface ProjectRevisionAuthor {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+// A stored-data migration and how many projects (live and trashed) still need it
+export interface MigrationStatus {
+  version: number; // Schema version records reach after it
+  id: string;
+  description: string;
+  pending: number;
+}
+
+// Outcome of a migration over the records that needed it
+export interface MigrationReport extends MigrationStatus {
+  changed: string[]; // Ids of the projects whose content changed
+  notes: string[];
+}
+
+export interface ProjectRevisionSummary {
+  revision: number;
+  action: 'create' | 'update' | 'import' | 'restore' | 'status' | 'migration' | 'taxonomy';
+  author: ProjectRevisionAuthor | null;
+  created_at: string;
+  restoredFrom?: number; // Set when the revision restored an older one
+  changedFields: string[]; // Fields changed relative to the previous revision
+}
+
+export interface ProjectFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface ProjectSaveConflict {
+  mine: Project; // What the editor tried to save
+  current: Project; // The newer copy on the server
+}
+
+export interface TrashedProject {
+  id: string;
+  project: Project;
+  deleted_at: string;
+  deleted_by: ProjectRevisionAuthor | null;
+  purge_after: string; // Permanently deleted after this date
+}
+
+// Photo galleries: one for the whole project plus one per image section
+export type GallerySection = 'project' | 'beneficiaries' | 'riskFactors' | 'methodology' | 'results';
+
+export interface GalleryImage extends ImageDetails {
+  id: string; // Stable key for reordering
+  url: string;
+}
+
+// Uploaded image as listed in the media library
+export interface MediaAsset {
+  fileName: string;
+  originalName: string;
+  url: string;
+  thumbnailUrl: string; // Smallest variant, or the original when there are none
+  type: string; // MIME type, empty for files uploaded before records existed
+  size: number; // Bytes, original only
+  width?: number;
+  height?: number;
+  uploaded_at: string | null;
+  uploaded_by: ProjectRevisionAuthor | null;
+  usage: { id: string; name: string }[]; // Projects using the image
+  refCount: number; // Projects using the image, trashed ones included
+}
+
+// Project using a stored image (see supabase/functions/server/images.tsx)
+export interface ImageReference {
+  id: string;
+  name: string;
+  trashed?: boolean; // In the trash, still restorable
+}
+
+// Stored image no project references (see supabase/functions/server/image-gc.tsx)
+export interface OrphanedImage {
+  fileName: string; // Original upload, or a stray file without a record
+  files: string[]; // Original plus its variants
+  size: number; // Bytes, all files
+  url: string;
+  uploaded_at: string | null;
+}
+
+export interface OrphanedImageReport {
+  orphans: OrphanedImage[];
+  totalFiles: number;
+  totalSize: number; // Bytes
+  scannedFiles: number; // Files in the bucket
+  referencedImages: number; // Distinct images used by projects
+  sharedImages: number; // Images used by more than one project
+  graceHours: number; // Newer uploads are never reported
+}
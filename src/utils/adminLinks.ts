@@ -0,0 +1,7 @@
+/**
+ * Build the one-time link an admin opens to set their password
+ * (used for invitations, password resets and the initial super admin)
+ */
+export function buildAcceptInviteLink(token: string): string {
+  return `${window.location.origin}/admin/accept-invite?token=${encodeURIComponent(token)}`;
+}
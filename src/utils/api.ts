@@ -3,12 +3,43 @@
  */
 
 import { projectId, publicAnonKey } from './supabase/info';
-import { Project } from '../types';
+import { getAccessToken } from './supabase/client';
+import { Project, ProjectRevisionSummary, ProjectFieldChange, TrashedProject, PublicationStatus, OrphanedImageReport, MediaAsset, ImageManifest, Convocatoria, ConvocatoriaWithCount, Taxonomies, TaxonomyKind, TaxonomyTerm, MigrationStatus, MigrationReport } from '../types';
+import type { ConvocatoriaInput } from '../supabase/functions/_shared/convocatorias';
+import type { ProjectStats } from '../supabase/functions/_shared/projectStats';
+import {
+  toProjectSearchParams,
+  ProjectQueryParams,
+  ProjectQueryResult
+} from '../supabase/functions/_shared/projectQuery';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a`;
+export type { ProjectQueryParams, ProjectQueryResult, ProjectSortField, ProjectFacets } from '../supabase/functions/_shared/projectQuery';
+export type { ProjectStats, StatsBucket, StatsDimension } from '../supabase/functions/_shared/projectStats';
+
+// VITE_API_BASE_URL points the app at a locally running server (see README)
+export const API_BASE_URL: string =
+  import.meta.env.VITE_API_BASE_URL || `https://${projectId}.supabase.co/functions/v1/make-server-2ce8a38a`;
+
+// Interactive documentation of the public read-only API (served by the Edge Function)
+export const PUBLIC_API_DOCS_URL = `${API_BASE_URL}/api/v2/docs`;
+
+/**
+ * Thrown when a save is rejected because the project changed on the server (HTTP 409)
+ */
+export class ProjectConflictError extends Error {
+  current: Project;
+
+  constructor(message: string, current: Project) {
+    super(message);
+    this.name = 'ProjectConflictError';
+    this.current = current;
+  }
+}
 
 /**
  * Make an authenticated request to the API
+ * Sends the logged-in admin's access token when there is a session,
+ * otherwise falls back to the public anon key (read-only endpoints)
  */
 async function apiRequest<T>(
   endpoint: string,
@@ -19,11 +50,13 @@ async function apiRequest<T>(
   console.log('API Request:', url, options.method || 'GET');
   
   try {
+    const accessToken = await getAccessToken();
+    
     const response = await fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`,
+        'Authorization': `Bearer ${accessToken || publicAnonKey}`,
         ...options.headers,
       },
     });
@@ -41,6 +74,10 @@ async function apiRequest<T>(
       const errorMessage = errorData.error || errorData.details || `API request failed: ${response.statusText || response.status}`;
       console.error('API Error:', errorMessage, errorData);
       
+      if (response.status === 409 && errorData.current) {
+        throw new ProjectConflictError(errorMessage, errorData.current);
+      }
+      
       throw new Error(errorMessage);
     }
 
@@ -54,12 +91,13 @@ async function apiRequest<T>(
 }
 
 /**
- * Fetch all projects from the server
+ * Fetch all published projects from the server
+ * `includeUnpublished` also returns drafts, projects in review and archived ones (admin only)
  */
-export async function fetchProjects(): Promise<Project[]> {
+export async function fetchProjects(options: { includeUnpublished?: boolean } = {}): Promise<Project[]> {
   try {
     const response = await apiRequest<{ success: boolean; projects: Project[] }>(
-      '/projects',
+      options.includeUnpublished ? '/projects?scope=all' : '/projects',
       { method: 'GET' }
     );
     
@@ -70,8 +108,41 @@ export async function fetchProjects(): Promise<Project[]> {
   }
 }
 
+/**
+ * Build the /projects endpoint for a query
+ * e.g. buildProjectQuery({ state: ['Jalisco'], sort: 'totalScore', limit: 20 })
+ */
+export function buildProjectQuery(params: ProjectQueryParams = {}): string {
+  const search = toProjectSearchParams(params).toString();
+  return search ? `/projects?${search}` : '/projects';
+}
+
+/**
+ * Fetch one page of projects matching a query, with total and facet counts
+ * Pass the returned `nextCursor` as `cursor` to get the next page.
+ */
+export async function queryProjects(params: ProjectQueryParams = {}): Promise<ProjectQueryResult> {
+  try {
+    const response = await apiRequest<{ success: boolean } & ProjectQueryResult>(
+      buildProjectQuery(params),
+      { method: 'GET' }
+    );
+
+    return {
+      projects: response.projects || [],
+      total: response.total ?? 0,
+      nextCursor: response.nextCursor ?? null,
+      facets: response.facets
+    };
+  } catch (error) {
+    console.error('Error querying projects:', error);
+    throw error;
+  }
+}
+
 /**
  * Fetch a single project by ID
+ * Unpublished projects are only returned to admins
  */
 export async function fetchProject(id: string): Promise<Project | null> {
   try {
@@ -89,6 +160,8 @@ export async function fetchProject(id: string): Promise<Project | null> {
 
 /**
  * Create or update a project
+ * Throws ProjectConflictError when `project.revision` is stale, or missing while a
+ * project with the same id exists
  */
 export async function saveProject(project: Project): Promise<Project> {
   try {
@@ -109,6 +182,7 @@ export async function saveProject(project: Project): Promise<Project> {
 
 /**
  * Update an existing project
+ * Throws ProjectConflictError when `updates.revision` is stale or missing
  */
 export async function updateProject(id: string, updates: Partial<Project>): Promise<Project> {
   try {
@@ -128,7 +202,33 @@ export async function updateProject(id: string, updates: Partial<Project>): Prom
 }
 
 /**
- * Delete a project
+ * Move a project through the publication workflow (admin only)
+ * A comment is required when requesting changes; throws ProjectConflictError when `revision` is stale
+ */
+export async function changeProjectStatus(
+  id: string,
+  status: PublicationStatus,
+  comment?: string,
+  revision?: number
+): Promise<Project> {
+  try {
+    const response = await apiRequest<{ success: boolean; project: Project }>(
+      `/projects/${id}/status`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ status, comment, revision }),
+      }
+    );
+    
+    return response.project;
+  } catch (error) {
+    console.error(`Error changing status of project ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a project (moves it to the trash)
  */
 export async function deleteProject(id: string): Promise<void> {
   try {
@@ -144,6 +244,7 @@ export async function deleteProject(id: string): Promise<void> {
 
 /**
  * Bulk import projects (for migration)
+ * Projects that already exist need their current `revision` (409 otherwise)
  */
 export async function bulkImportProjects(projects: Project[]): Promise<number> {
   try {
@@ -163,7 +264,7 @@ export async function bulkImportProjects(projects: Project[]): Promise<number> {
 }
 
 /**
- * Clear all projects (admin only)
+ * Move all projects to the trash (admin only)
  */
 export async function clearAllProjects(): Promise<number> {
   try {
@@ -177,4 +278,535 @@ export async function clearAllProjects(): Promise<number> {
     console.error('Error clearing all projects:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * List the revision history of a project (admin only)
+ */
+export async function fetchProjectRevisions(id: string): Promise<ProjectRevisionSummary[]> {
+  try {
+    const response = await apiRequest<{ success: boolean; revisions: ProjectRevisionSummary[] }>(
+      `/projects/${id}/revisions`,
+      { method: 'GET' }
+    );
+    
+    return response.revisions || [];
+  } catch (error) {
+    console.error(`Error fetching revisions of project ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Field-by-field diff between two revisions of a project (admin only)
+ */
+export async function fetchProjectRevisionDiff(
+  id: string,
+  from: number,
+  to: number
+): Promise<ProjectFieldChange[]> {
+  try {
+    const response = await apiRequest<{ success: boolean; changes: ProjectFieldChange[] }>(
+      `/projects/${id}/revisions/diff?from=${from}&to=${to}`,
+      { method: 'GET' }
+    );
+    
+    return response.changes || [];
+  } catch (error) {
+    console.error(`Error diffing revisions of project ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a project to an earlier revision (admin only)
+ */
+export async function restoreProjectRevision(id: string, revision: number): Promise<Project> {
+  try {
+    const response = await apiRequest<{ success: boolean; project: Project }>(
+      `/projects/${id}/revisions/${revision}/restore`,
+      { method: 'POST' }
+    );
+    
+    return response.project;
+  } catch (error) {
+    console.error(`Error restoring revision ${revision} of project ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List trashed projects and the retention period in days (admin only)
+ */
+export async function fetchTrash(): Promise<{ items: TrashedProject[]; retentionDays: number }> {
+  try {
+    const response = await apiRequest<{ success: boolean; items: TrashedProject[]; retentionDays: number }>(
+      '/trash',
+      { method: 'GET' }
+    );
+    
+    return { items: response.items || [], retentionDays: response.retentionDays };
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a trashed project (admin only)
+ */
+export async function restoreFromTrash(id: string): Promise<Project> {
+  try {
+    const response = await apiRequest<{ success: boolean; project: Project }>(
+      `/trash/${id}/restore`,
+      { method: 'POST' }
+    );
+    
+    return response.project;
+  } catch (error) {
+    console.error(`Error restoring project ${id} from trash:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Permanently delete a trashed project (super admin only)
+ */
+export async function deleteFromTrash(id: string): Promise<void> {
+  try {
+    await apiRequest<{ success: boolean; message: string }>(
+      `/trash/${id}`,
+      { method: 'DELETE' }
+    );
+  } catch (error) {
+    console.error(`Error permanently deleting project ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Permanently delete everything in the trash (super admin only)
+ */
+export async function purgeTrash(): Promise<number> {
+  try {
+    const response = await apiRequest<{ success: boolean; count: number }>(
+      '/trash',
+      { method: 'DELETE' }
+    );
+    
+    return response.count;
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the convocatorias visible to the public (drafts excluded)
+ */
+export async function fetchConvocatorias(): Promise<Convocatoria[]> {
+  try {
+    const response = await apiRequest<{ success: boolean; convocatorias: Convocatoria[] }>(
+      '/convocatorias',
+      { method: 'GET' }
+    );
+    
+    return response.convocatorias || [];
+  } catch (error) {
+    console.error('Error fetching convocatorias:', error);
+    throw error;
+  }
+}
+
+/**
+ * Every convocatoria with its project count, plus how many projects still carry
+ * a free-text convocatoria name (admin only)
+ */
+export async function fetchAllConvocatorias(): Promise<{ convocatorias: ConvocatoriaWithCount[]; legacyProjects: number }> {
+  try {
+    const response = await apiRequest<{ success: boolean; convocatorias: ConvocatoriaWithCount[]; legacyProjects: number }>(
+      '/convocatorias?scope=all',
+      { method: 'GET' }
+    );
+    
+    return { convocatorias: response.convocatorias || [], legacyProjects: response.legacyProjects || 0 };
+  } catch (error) {
+    console.error('Error fetching all convocatorias:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a convocatoria (super admin only)
+ */
+export async function createConvocatoria(input: Partial<ConvocatoriaInput>): Promise<Convocatoria> {
+  try {
+    const response = await apiRequest<{ success: boolean; convocatoria: Convocatoria }>(
+      '/convocatorias',
+      {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }
+    );
+    
+    return response.convocatoria;
+  } catch (error) {
+    console.error('Error creating convocatoria:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a convocatoria (super admin only)
+ */
+export async function updateConvocatoria(id: string, input: Partial<ConvocatoriaInput>): Promise<Convocatoria> {
+  try {
+    const response = await apiRequest<{ success: boolean; convocatoria: Convocatoria }>(
+      `/convocatorias/${id}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(input),
+      }
+    );
+    
+    return response.convocatoria;
+  } catch (error) {
+    console.error(`Error updating convocatoria ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a convocatoria no project references (super admin only)
+ */
+export async function deleteConvocatoria(id: string): Promise<void> {
+  try {
+    await apiRequest<{ success: boolean }>(
+      `/convocatorias/${id}`,
+      { method: 'DELETE' }
+    );
+  } catch (error) {
+    console.error(`Error deleting convocatoria ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every taxonomy (categories and thematic areas), terms in display order
+ */
+export async function fetchTaxonomies(): Promise<Taxonomies> {
+  try {
+    const response = await apiRequest<{ success: boolean; taxonomies: Taxonomies }>(
+      '/taxonomies',
+      { method: 'GET' }
+    );
+    
+    return response.taxonomies;
+  } catch (error) {
+    console.error('Error fetching taxonomies:', error);
+    throw error;
+  }
+}
+
+/**
+ * Every taxonomy plus the number of projects per term (admin only)
+ */
+export async function fetchTaxonomiesWithCounts(): Promise<{
+  taxonomies: Taxonomies;
+  projectCounts: Record<TaxonomyKind, Record<string, number>>;
+}> {
+  try {
+    const response = await apiRequest<{
+      success: boolean;
+      taxonomies: Taxonomies;
+      projectCounts: Record<TaxonomyKind, Record<string, number>>;
+    }>(
+      '/taxonomies?scope=all',
+      { method: 'GET' }
+    );
+    
+    return { taxonomies: response.taxonomies, projectCounts: response.projectCounts };
+  } catch (error) {
+    console.error('Error fetching taxonomies with counts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add a term to a taxonomy (super admin only)
+ */
+export async function createTaxonomyTerm(kind: TaxonomyKind, term: Partial<TaxonomyTerm>): Promise<TaxonomyTerm> {
+  try {
+    const response = await apiRequest<{ success: boolean; term: TaxonomyTerm }>(
+      `/taxonomies/${kind}/terms`,
+      {
+        method: 'POST',
+        body: JSON.stringify(term),
+      }
+    );
+    
+    return response.term;
+  } catch (error) {
+    console.error(`Error creating ${kind} term:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Update a term (super admin only)
+ * Changing its value updates every project that used the old one
+ */
+export async function updateTaxonomyTerm(
+  kind: TaxonomyKind,
+  value: string,
+  term: Partial<TaxonomyTerm>
+): Promise<{ term: TaxonomyTerm; updatedProjects: number }> {
+  try {
+    const response = await apiRequest<{ success: boolean; term: TaxonomyTerm; updatedProjects: number }>(
+      `/taxonomies/${kind}/terms/${encodeURIComponent(value)}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(term),
+      }
+    );
+    
+    return { term: response.term, updatedProjects: response.updatedProjects };
+  } catch (error) {
+    console.error(`Error updating ${kind} term ${value}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a term no project uses (super admin only)
+ */
+export async function deleteTaxonomyTerm(kind: TaxonomyKind, value: string): Promise<void> {
+  try {
+    await apiRequest<{ success: boolean }>(
+      `/taxonomies/${kind}/terms/${encodeURIComponent(value)}`,
+      { method: 'DELETE' }
+    );
+  } catch (error) {
+    console.error(`Error deleting ${kind} term ${value}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Merge terms into `target`, moving their projects to it (super admin only)
+ */
+export async function mergeTaxonomyTerms(kind: TaxonomyKind, sources: string[], target: string): Promise<number> {
+  try {
+    const response = await apiRequest<{ success: boolean; updatedProjects: number }>(
+      `/taxonomies/${kind}/merge`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ sources, target }),
+      }
+    );
+    
+    return response.updatedProjects;
+  } catch (error) {
+    console.error(`Error merging ${kind} terms:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Save the display order of a taxonomy (super admin only)
+ */
+export async function reorderTaxonomy(kind: TaxonomyKind, values: string[]): Promise<TaxonomyTerm[]> {
+  try {
+    const response = await apiRequest<{ success: boolean; terms: TaxonomyTerm[] }>(
+      `/taxonomies/${kind}/order`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ values }),
+      }
+    );
+    
+    return response.terms;
+  } catch (error) {
+    console.error(`Error reordering ${kind}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Aggregated statistics over the published projects (cached on the server)
+ */
+export async function fetchStats(): Promise<ProjectStats> {
+  try {
+    const response = await apiRequest<{ success: boolean; stats: ProjectStats }>(
+      '/stats',
+      { method: 'GET' }
+    );
+    
+    return response.stats;
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    throw error;
+  }
+}
+
+// Same limits as POST /images/upload
+export const IMAGE_UPLOAD_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+export const MAX_IMAGE_UPLOAD_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Spanish reason why a file cannot be uploaded, or null when it is fine
+ */
+export function getImageUploadError(file: File): string | null {
+  if (!IMAGE_UPLOAD_TYPES.includes(file.type)) {
+    return 'Tipo de archivo inválido. Solo se permiten JPEG, PNG, GIF y WebP.';
+  }
+  if (file.size > MAX_IMAGE_UPLOAD_SIZE) {
+    return 'Archivo muy grande. El tamaño máximo es 5MB.';
+  }
+  return null;
+}
+
+/**
+ * Upload an image (admin only); the server also stores resized variants
+ * and returns the existing image when the same file was uploaded before
+ * Sent as multipart/form-data, so it bypasses apiRequest's JSON headers
+ */
+export async function uploadImage(
+  file: File
+): Promise<{ url: string; manifest: ImageManifest | null; deduplicated: boolean }> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  // Uploads require the admin's session
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${API_BASE_URL}/images/upload`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      // DO NOT set Content-Type - browser sets it automatically with boundary
+    },
+    body: formData,
+  });
+
+  console.log('Upload response status:', response.status);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Upload failed:', errorText);
+    throw new Error(`Error del servidor: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Error al subir imagen');
+  }
+
+  // Identical content comes back as the existing image instead of a new copy
+  return { url: result.url, manifest: result.manifest ?? null, deduplicated: Boolean(result.deduplicated) };
+}
+
+/**
+ * List uploaded images for the media library, newest first (admin only)
+ */
+export async function fetchMediaLibrary(): Promise<MediaAsset[]> {
+  try {
+    const response = await apiRequest<{ success: boolean; assets: MediaAsset[] }>(
+      '/images/library',
+      { method: 'GET' }
+    );
+    
+    return response.assets || [];
+  } catch (error) {
+    console.error('Error fetching media library:', error);
+    throw error;
+  }
+}
+
+/**
+ * Dry run: stored images no project references, with size totals (super admin only)
+ */
+export async function fetchOrphanedImages(): Promise<OrphanedImageReport> {
+  try {
+    const { success: _success, ...report } = await apiRequest<{ success: boolean } & OrphanedImageReport>(
+      '/images/orphans',
+      { method: 'GET' }
+    );
+    
+    return report;
+  } catch (error) {
+    console.error('Error fetching orphaned images:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete orphaned images picked from the dry run (super admin only)
+ * Images referenced again since the dry run are skipped by the server
+ */
+export async function deleteOrphanedImages(
+  fileNames: string[]
+): Promise<{ deleted: string[]; skipped: number; files: number; size: number }> {
+  try {
+    const response = await apiRequest<{ success: boolean; deleted: string[]; skipped: number; files: number; size: number }>(
+      '/images/orphans/delete',
+      {
+        method: 'POST',
+        body: JSON.stringify({ fileNames }),
+      }
+    );
+    
+    return { deleted: response.deleted || [], skipped: response.skipped, files: response.files, size: response.size };
+  } catch (error) {
+    console.error('Error deleting orphaned images:', error);
+    throw error;
+  }
+}
+
+/**
+ * Current schema version and the projects each migration still has to upgrade (super admin only)
+ */
+export async function fetchMigrationStatus(): Promise<{ currentVersion: number; migrations: MigrationStatus[] }> {
+  try {
+    const response = await apiRequest<{ success: boolean; currentVersion: number; migrations: MigrationStatus[] }>(
+      '/migrations',
+      { method: 'GET' }
+    );
+    
+    return { currentVersion: response.currentVersion, migrations: response.migrations || [] };
+  } catch (error) {
+    console.error('Error fetching migration status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run the pending migrations over the stored projects (super admin only)
+ * With dryRun nothing is written; the reports show what would change.
+ */
+export async function runMigrations(dryRun: boolean): Promise<{
+  projects: number;
+  trashed: number;
+  reports: MigrationReport[];
+}> {
+  try {
+    const response = await apiRequest<{
+      success: boolean;
+      projects: number;
+      trashed: number;
+      reports: MigrationReport[];
+    }>(
+      '/migrations/run',
+      {
+        method: 'POST',
+        body: JSON.stringify({ dryRun }),
+      }
+    );
+    
+    return { projects: response.projects, trashed: response.trashed, reports: response.reports || [] };
+  } catch (error) {
+    console.error('Error running migrations:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Marker and badge shades derived from a single hex color
+ * Convocatorias and taxonomy terms store one color; pins need a darker
+ * hover shade and a translucent glow.
+ */
+
+export interface ColorShades {
+  primary: string;
+  hover: string;
+  glow: string;
+}
+
+// How much darker the hover shade is than the primary color
+const HOVER_DARKEN = 0.15;
+
+function parseHex(hex: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+}
+
+function toHex(channels: number[]): string {
+  return `#${channels.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * Shades for `color`, or for `fallback` when `color` is missing or not #RRGGBB
+ */
+export function getColorShades(color: string | undefined, fallback: string, glowAlpha = 0.5): ColorShades {
+  const primary = color && parseHex(color) ? color : fallback;
+  const [r, g, b] = parseHex(primary)!;
+
+  return {
+    primary,
+    hover: toHex([r, g, b].map((c) => c * (1 - HOVER_DARKEN))),
+    glow: `rgba(${r}, ${g}, ${b}, ${glowAlpha})`
+  };
+}
@@ -32,8 +32,8 @@ export function clusterMarkers(
   // At high zoom levels (scale > 1.5), don't cluster
   if (scale > 1.5) {
     return projects.map(project => {
-      const x = project.location?.x ? (project.location.x / 100) * mapWidth : mapWidth / 2;
-      const y = project.location?.y ? (project.location.y / 100) * mapHeight : mapHeight / 2;
+      const x = project.mapPosition?.x ? (project.mapPosition.x / 100) * mapWidth : mapWidth / 2;
+      const y = project.mapPosition?.y ? (project.mapPosition.y / 100) * mapHeight : mapHeight / 2;
       
       return {
         id: project.id,
@@ -51,8 +51,8 @@ export function clusterMarkers(
 
   // Convert projects to points
   const points: ClusterPoint[] = projects.map(project => {
-    const x = project.location?.x ? (project.location.x / 100) * mapWidth : mapWidth / 2;
-    const y = project.location?.y ? (project.location.y / 100) * mapHeight : mapHeight / 2;
+    const x = project.mapPosition?.x ? (project.mapPosition.x / 100) * mapWidth : mapWidth / 2;
+    const y = project.mapPosition?.y ? (project.mapPosition.y / 100) * mapHeight : mapHeight / 2;
     
     return { x, y, project };
   });
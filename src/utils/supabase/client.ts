@@ -0,0 +1,20 @@
+/**
+ * Shared Supabase client for the browser
+ * Used by AuthContext for sign-in and by the API utilities to read the session token
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { projectId, publicAnonKey } from './info';
+
+export const supabase = createClient(
+  `https://${projectId}.supabase.co`,
+  publicAnonKey
+);
+
+/**
+ * Get the access token of the logged-in admin, or null when there is no session
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Lucide components for the icon names a taxonomy term can use (see TAXONOMY_ICONS)
+ */
+
+import React from 'react';
+import {
+  Award,
+  Sparkles,
+  Folder,
+  Shield,
+  Baby,
+  Home,
+  Megaphone,
+  RefreshCw,
+  MapPin,
+  Handshake,
+  Users,
+  Heart,
+  Scale,
+  Lightbulb,
+  GraduationCap,
+  Leaf,
+  Tag,
+  type LucideIcon,
+} from 'lucide-react';
+import { TAXONOMY_ICONS } from '../supabase/functions/_shared/taxonomies';
+
+export const TAXONOMY_ICON_COMPONENTS: Record<typeof TAXONOMY_ICONS[number], LucideIcon> = {
+  'award': Award,
+  'sparkles': Sparkles,
+  'folder': Folder,
+  'shield': Shield,
+  'baby': Baby,
+  'home': Home,
+  'megaphone': Megaphone,
+  'refresh-cw': RefreshCw,
+  'map-pin': MapPin,
+  'handshake': Handshake,
+  'users': Users,
+  'heart': Heart,
+  'scale': Scale,
+  'lightbulb': Lightbulb,
+  'graduation-cap': GraduationCap,
+  'leaf': Leaf,
+};
+
+interface TaxonomyIconProps {
+  name?: string;
+  className?: string;
+}
+
+/**
+ * Icon of a taxonomy term (a tag when it has none)
+ */
+export function TaxonomyIcon({ name, className = 'w-4 h-4' }: TaxonomyIconProps) {
+  const Icon = TAXONOMY_ICON_COMPONENTS[name as keyof typeof TAXONOMY_ICON_COMPONENTS] || Tag;
+  return <Icon className={className} aria-hidden="true" />;
+}